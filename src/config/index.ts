@@ -4,6 +4,87 @@ import { ethers } from 'ethers';
 // Load environment variables from .env file
 dotenv.config();
 
+/**
+ * Transaction fee policy for a chain.
+ *
+ * All fields are optional; omitted fields fall back to the defaults noted below.
+ */
+export interface ChainFeePolicy {
+  /** Fee model: 'eip1559' or 'legacy' (default: detected from the node's fee data) */
+  type?: 'eip1559' | 'legacy';
+  /** Multiplier applied to estimated gas to get the gas limit (default: 1.2) */
+  gasLimitMultiplier?: number;
+  /** Hard ceiling for maxFeePerGas (or gasPrice on legacy chains), in gwei */
+  maxFeePerGasGwei?: string;
+  /** Priority fee (tip) to use instead of the node's suggestion, in gwei */
+  maxPriorityFeePerGasGwei?: string;
+}
+
+/**
+ * Prompt canonicalization steps applied before hashing.
+ */
+export interface CanonicalizationConfig {
+  /** Unicode normalization form, or 'none' to keep code points as submitted */
+  unicodeForm: 'NFC' | 'NFD' | 'NFKC' | 'NFKD' | 'none';
+  /** Replace runs of whitespace with a single space */
+  collapseWhitespace: boolean;
+  /** Lowercase the prompt so that prompts differing only in case are the same */
+  caseFold: boolean;
+  /** Remove zero-width characters (ZWSP, ZWNJ, ZWJ, word joiner, BOM) */
+  stripZeroWidth: boolean;
+}
+
+/**
+ * PromptMiner contract and data point that prompts can be migrated to.
+ *
+ * The target PromptMiner must be allowed to manage the data point in the
+ * DataIndex contract (allowDataManager) before prompts can be migrated.
+ */
+export interface MigrationTarget {
+  /** PromptMiner contract receiving migrated prompts */
+  promptMinerAddress: string;
+  /** Data point the migrated prompts are moved to */
+  dataPointAddress: string;
+}
+
+/**
+ * Value passed for an input of migratePrompt: the prompt hash, or the
+ * target's PromptMiner or data point address.
+ */
+export type MigrationArg = 'promptHash' | 'promptMiner' | 'dataPoint';
+
+/** Migration arguments PM_MIGRATION_ARGS may list */
+export const MIGRATION_ARGS: readonly MigrationArg[] = ['promptHash', 'promptMiner', 'dataPoint'];
+
+/**
+ * Relayer balance thresholds for a chain, in ether units of its native token.
+ *
+ * Omitted fields fall back to PM_RELAYER_BALANCE_WARNING and PM_RELAYER_BALANCE_CRITICAL.
+ */
+export interface RelayerBalanceThresholds {
+  /** Balance below which a relayer wallet is reported as low */
+  warning?: string;
+  /** Balance below which a relayer wallet is no longer used */
+  critical?: string;
+}
+
+/**
+ * Gas sponsorship budgets for a chain, in ether units of its native token.
+ *
+ * Omitted fields fall back to the PM_GAS_BUDGET_* defaults; budgets that
+ * are not set anywhere are unlimited.
+ */
+export interface GasBudgetLimits {
+  /** Gas each API key may spend per UTC day */
+  apiKeyDaily?: string;
+  /** Gas each API key may spend per UTC month */
+  apiKeyMonthly?: string;
+  /** Gas each author may spend per UTC day */
+  authorDaily?: string;
+  /** Gas each author may spend per UTC month */
+  authorMonthly?: string;
+}
+
 /**
  * Chain configuration for multi-chain support.
  */
@@ -12,6 +93,23 @@ export interface ChainConfig {
   rpcUrl: string;
   chainId: string;
   promptMinerAddress: string;
+  /**
+   * Address PZERO signs mint authorizations with on this chain. When set,
+   * every authorization is verified locally before it is used or returned.
+   */
+  pzeroSignerAddress?: string;
+  /** Optional fee policy for transactions sent by the backend wallet */
+  feePolicy?: ChainFeePolicy;
+  /** Optional PromptMiner/data point pairs prompts on this chain can be migrated to */
+  migrationTargets?: MigrationTarget[];
+  /** Optional relayer balance thresholds (native token amounts differ between chains) */
+  relayerBalance?: RelayerBalanceThresholds;
+  /** Optional gas sponsorship budgets overriding the PM_GAS_BUDGET_* defaults */
+  gasBudget?: GasBudgetLimits;
+  /** Optional first block to index (e.g. the PromptMiner deployment block), overriding PM_INDEXER_START_BLOCK */
+  indexerStartBlock?: number;
+  /** Optional number of confirmations after which a mint is final (default 1: final once included) */
+  confirmations?: number;
 }
 
 /**
@@ -22,19 +120,36 @@ interface Config {
   server: {
     port: number;
   };
+  /** Backend wallet key when signer.type is 'private-key' */
   privateKey: string;
+  signer: {
+    type: 'private-key' | 'keystore' | 'remote';
+    keystore: {
+      path: string;
+      password: string | null;
+      passwordFile: string | null;
+    };
+    remote: {
+      url: string;
+      address: string;
+      timeoutMs: number;
+    };
+  };
   chains: ChainConfig[];
   pzero: {
     apiKey: string;
     apiUrl: string;
     authTimeoutMs: number;
     retryAttempts: number;
+    expiryMarginSeconds: number;
   };
   auth: {
     validApiKeys: string[];
     requireAuth: boolean;
     requireAuthMint: boolean;
     requireAuthRead: boolean;
+    requireAuthMigrate: boolean;
+    adminApiKeys: string[];
   };
   rateLimit: {
     windowMs: number;
@@ -44,6 +159,102 @@ interface Config {
   rewards: {
     rewardValuesCount: number;
   };
+  mintJobs: {
+    concurrency: number;
+    retentionMs: number;
+    /** SQLite database jobs are stored in ('' keeps them in memory only) */
+    dbPath: string;
+  };
+  transactionStatus: {
+    droppedAfterMs: number;
+    retentionMs: number;
+  };
+  finality: {
+    /** How often included mints are checked for finality and reorgs */
+    checkIntervalMs: number;
+    /** How often a mint job whose transaction was reorged out is re-queued before it fails */
+    maxRequeues: number;
+  };
+  events: {
+    /** Number of recent mint events kept for clients reconnecting with Last-Event-ID */
+    bufferSize: number;
+    /** How often an idle event stream is sent a comment to keep the connection open */
+    heartbeatMs: number;
+  };
+  batchMint: {
+    maxItems: number;
+    concurrency: number;
+  };
+  migration: {
+    /**
+     * PromptMiner contract artifact (or bare ABI) declaring migratePrompt,
+     * for SDK versions whose PromptMiner ABI lacks it
+     */
+    abiPath: string | null;
+    /** Values bound to the inputs of migratePrompt, by position */
+    args: MigrationArg[] | null;
+  };
+  idempotency: {
+    ttlMs: number;
+  };
+  mintedCache: {
+    ttlMs: number;
+  };
+  authorizationCache: {
+    ttlMs: number;
+  };
+  canonicalization: CanonicalizationConfig;
+  content: {
+    store: 'none' | 'local' | 'ipfs';
+    format: 'prompt' | 'metadata';
+    localDir: string;
+    ipfsApiUrl: string;
+    ipfsTimeoutMs: number;
+    encryption: {
+      enabled: boolean;
+      masterKey: string | null;
+      decryptSignatureTtlSeconds: number;
+    };
+  };
+  stuckTransactions: {
+    timeoutMs: number;
+    checkIntervalMs: number;
+    feeBumpPercent: number;
+    maxAutoBumps: number;
+  };
+  relayers: {
+    /**
+     * Relayer signers by chain ID, read like the backend wallet (signer.type):
+     * private keys, keystore paths or remote signer addresses. Chains without
+     * relayer signers relay with the backend wallet.
+     */
+    signers: Record<string, string[]>;
+    /** Native balance (in ether units) below which a relayer wallet is reported as low */
+    balanceWarning: string;
+    /** Native balance (in ether units) below which a relayer wallet is no longer used */
+    balanceCritical: string;
+    balancePollIntervalMs: number;
+  };
+  /** Default gas sponsorship budgets (ether units), applied per chain */
+  gasBudgets: GasBudgetLimits;
+  /** Gas limit assumed for a mint when reserving its fee against the gas budgets */
+  gasBudgetReserveGas: number;
+  indexer: {
+    enabled: boolean;
+    /** First block to index on chains without indexerStartBlock */
+    startBlock: number;
+    /** Maximum blocks per eth_getLogs request */
+    batchBlocks: number;
+    pollIntervalMs: number;
+    /** Number of recent checkpoints kept to detect and roll back reorgs */
+    reorgDepth: number;
+    /** SQLite database the index is stored in ('' keeps it in memory only) */
+    dbPath: string;
+  };
+  analytics: {
+    /** Default source of the analytics endpoints */
+    source: 'pzero' | 'index';
+  };
 }
 
 /**
@@ -89,6 +300,168 @@ const parseApiKeys = (value: string | undefined): string[] => {
     .filter((key) => key.length > 0);
 };
 
+/**
+ * Parses a comma-separated list of admin API keys.
+ *
+ * Admin endpoints are disabled when no admin keys are configured.
+ *
+ * @param value - Comma-separated string of admin API keys
+ * @returns Array of admin API keys
+ */
+const parseAdminApiKeys = (value: string | undefined): string[] => {
+  if (!value) return [];
+  return value
+    .split(',')
+    .map((key) => key.trim())
+    .filter((key) => key.length > 0);
+};
+
+/**
+ * Parses the relayer signers per chain from JSON.
+ *
+ * @param value - JSON object mapping chain IDs to arrays of signer entries
+ * @returns Relayer signer entries by chain ID
+ */
+const parseRelayerSigners = (value: string | undefined): Record<string, string[]> => {
+  if (!value || value.trim() === '') {
+    return {};
+  }
+
+  try {
+    return JSON.parse(value) as Record<string, string[]>;
+  } catch (error) {
+    throw new Error(`PM_RELAYER_SIGNERS is not valid JSON: ${(error as Error).message}`);
+  }
+};
+
+/**
+ * Parses the comma-separated migratePrompt arguments, in input order.
+ *
+ * @param value - Comma-separated list of migration arguments
+ * @returns Migration arguments, or null if not configured
+ */
+const parseMigrationArgs = (value: string | undefined): MigrationArg[] | null => {
+  if (!value || value.trim() === '') {
+    return null;
+  }
+  return value.split(',').map((arg) => arg.trim() as MigrationArg);
+};
+
+/**
+ * Validates a chain's fee policy.
+ *
+ * @param policy - Fee policy from PM_CHAINS
+ * @param index - Index of the chain in PM_CHAINS (for error messages)
+ * @throws {Error} If the fee policy is invalid
+ */
+const validateFeePolicy = (policy: ChainFeePolicy, index: number): void => {
+  if (typeof policy !== 'object' || policy === null) {
+    throw new Error(`Chain at index ${index}: 'feePolicy' must be an object`);
+  }
+  if (policy.type !== undefined && policy.type !== 'eip1559' && policy.type !== 'legacy') {
+    throw new Error(`Chain at index ${index}: 'feePolicy.type' must be 'eip1559' or 'legacy'`);
+  }
+  if (
+    policy.gasLimitMultiplier !== undefined &&
+    (typeof policy.gasLimitMultiplier !== 'number' || policy.gasLimitMultiplier < 1)
+  ) {
+    throw new Error(`Chain at index ${index}: 'feePolicy.gasLimitMultiplier' must be a number >= 1`);
+  }
+  for (const field of ['maxFeePerGasGwei', 'maxPriorityFeePerGasGwei'] as const) {
+    const value = policy[field];
+    if (value === undefined) continue;
+    try {
+      ethers.parseUnits(String(value), 'gwei');
+    } catch (error) {
+      throw new Error(`Chain at index ${index}: 'feePolicy.${field}' must be a gwei amount`);
+    }
+  }
+};
+
+/**
+ * Validates a chain's relayer balance thresholds.
+ *
+ * @param thresholds - Relayer balance thresholds from PM_CHAINS
+ * @param index - Index of the chain in PM_CHAINS (for error messages)
+ * @throws {Error} If a threshold is not an amount of native token
+ */
+const validateRelayerBalanceThresholds = (
+  thresholds: RelayerBalanceThresholds,
+  index: number
+): void => {
+  if (typeof thresholds !== 'object' || thresholds === null) {
+    throw new Error(`Chain at index ${index}: 'relayerBalance' must be an object`);
+  }
+  for (const field of ['warning', 'critical'] as const) {
+    const value = thresholds[field];
+    if (value === undefined) continue;
+    try {
+      ethers.parseEther(value);
+    } catch (error) {
+      throw new Error(
+        `Chain at index ${index}: 'relayerBalance.${field}' must be an amount of native token as a string`
+      );
+    }
+  }
+};
+
+/**
+ * Gas budget fields with their environment variables.
+ */
+const GAS_BUDGET_FIELDS = {
+  apiKeyDaily: 'PM_GAS_BUDGET_API_KEY_DAILY',
+  apiKeyMonthly: 'PM_GAS_BUDGET_API_KEY_MONTHLY',
+  authorDaily: 'PM_GAS_BUDGET_AUTHOR_DAILY',
+  authorMonthly: 'PM_GAS_BUDGET_AUTHOR_MONTHLY',
+} as const;
+
+/**
+ * Validates a chain's gas sponsorship budgets.
+ *
+ * @param limits - Gas budgets from PM_CHAINS
+ * @param index - Index of the chain in PM_CHAINS (for error messages)
+ * @throws {Error} If a budget is not an amount of native token
+ */
+const validateGasBudgetLimits = (limits: GasBudgetLimits, index: number): void => {
+  if (typeof limits !== 'object' || limits === null) {
+    throw new Error(`Chain at index ${index}: 'gasBudget' must be an object`);
+  }
+  for (const field of Object.keys(GAS_BUDGET_FIELDS) as Array<keyof GasBudgetLimits>) {
+    const value = limits[field];
+    if (value === undefined) continue;
+    try {
+      ethers.parseEther(value);
+    } catch (error) {
+      throw new Error(
+        `Chain at index ${index}: 'gasBudget.${field}' must be an amount of native token as a string`
+      );
+    }
+  }
+};
+
+/**
+ * Validates and checksums a chain's migration targets.
+ *
+ * @param targets - Migration targets from PM_CHAINS
+ * @param index - Index of the chain in PM_CHAINS (for error messages)
+ * @throws {Error} If a migration target is invalid
+ */
+const validateMigrationTargets = (targets: MigrationTarget[], index: number): void => {
+  if (!Array.isArray(targets)) {
+    throw new Error(`Chain at index ${index}: 'migrationTargets' must be an array`);
+  }
+  targets.forEach((target, targetIndex) => {
+    for (const field of ['promptMinerAddress', 'dataPointAddress'] as const) {
+      if (typeof target?.[field] !== 'string' || !ethers.isAddress(target[field])) {
+        throw new Error(
+          `Chain at index ${index}: 'migrationTargets[${targetIndex}].${field}' must be a valid Ethereum address`
+        );
+      }
+      target[field] = ethers.getAddress(target[field]);
+    }
+  });
+};
+
 /**
  * Parses the multi-chain configuration from JSON.
  *
@@ -123,6 +496,54 @@ const parseChains = (value: string | undefined): ChainConfig[] => {
       }
       // Checksum the address
       chain.promptMinerAddress = ethers.getAddress(chain.promptMinerAddress);
+
+      // Validate optional PZERO signer address
+      if (chain.pzeroSignerAddress !== undefined) {
+        if (typeof chain.pzeroSignerAddress !== 'string' || !ethers.isAddress(chain.pzeroSignerAddress)) {
+          throw new Error(`Chain at index ${index}: 'pzeroSignerAddress' is not a valid Ethereum address`);
+        }
+        chain.pzeroSignerAddress = ethers.getAddress(chain.pzeroSignerAddress);
+      } else {
+        console.warn(
+          `WARNING: Chain ${chain.name} has no 'pzeroSignerAddress'. PZERO authorizations will not be verified locally and only authorizations issued by this server are relayed.`
+        );
+      }
+
+      // Validate optional fee policy
+      if (chain.feePolicy !== undefined) {
+        validateFeePolicy(chain.feePolicy, index);
+      }
+
+      // Validate optional migration targets
+      if (chain.migrationTargets !== undefined) {
+        validateMigrationTargets(chain.migrationTargets, index);
+      }
+
+      // Validate optional relayer balance thresholds
+      if (chain.relayerBalance !== undefined) {
+        validateRelayerBalanceThresholds(chain.relayerBalance, index);
+      }
+
+      // Validate optional gas sponsorship budgets
+      if (chain.gasBudget !== undefined) {
+        validateGasBudgetLimits(chain.gasBudget, index);
+      }
+
+      // Validate optional indexer start block
+      if (
+        chain.indexerStartBlock !== undefined &&
+        (!Number.isInteger(chain.indexerStartBlock) || chain.indexerStartBlock < 0)
+      ) {
+        throw new Error(`Chain at index ${index}: 'indexerStartBlock' must be a non-negative integer`);
+      }
+
+      // Validate optional confirmation depth
+      if (
+        chain.confirmations !== undefined &&
+        (!Number.isInteger(chain.confirmations) || chain.confirmations < 1)
+      ) {
+        throw new Error(`Chain at index ${index}: 'confirmations' must be a positive integer`);
+      }
     });
 
     return chains;
@@ -154,7 +575,21 @@ export const config: Config = {
     port: parseInt(process.env.PM_PORT || '3000', 10),
   },
 
-  privateKey: requireEnv('PM_PRIVATE_KEY', process.env.PM_PRIVATE_KEY),
+  privateKey: process.env.PM_PRIVATE_KEY || '',
+
+  signer: {
+    type: (process.env.PM_SIGNER_TYPE || 'private-key') as Config['signer']['type'],
+    keystore: {
+      path: process.env.PM_KEYSTORE_PATH || '',
+      password: process.env.PM_KEYSTORE_PASSWORD || null,
+      passwordFile: process.env.PM_KEYSTORE_PASSWORD_FILE || null,
+    },
+    remote: {
+      url: process.env.PM_REMOTE_SIGNER_URL || '',
+      address: process.env.PM_REMOTE_SIGNER_ADDRESS || '',
+      timeoutMs: parseInt(process.env.PM_REMOTE_SIGNER_TIMEOUT_MS || '10000', 10),
+    },
+  },
 
   chains: parseChains(process.env.PM_CHAINS),
 
@@ -163,6 +598,7 @@ export const config: Config = {
     apiUrl: requireEnv('PM_PZERO_API_URL', process.env.PM_PZERO_API_URL),
     authTimeoutMs: parseInt(process.env.PM_PZERO_AUTH_TIMEOUT_MS || '5000', 10),
     retryAttempts: parseInt(process.env.PM_PZERO_RETRY_ATTEMPTS || '3', 10),
+    expiryMarginSeconds: parseInt(process.env.PM_PZERO_EXPIRY_MARGIN_SECONDS || '30', 10),
   },
 
   auth: {
@@ -170,6 +606,8 @@ export const config: Config = {
     requireAuth: parseBoolean(process.env.PM_REQUIRE_AUTH, true),
     requireAuthMint: parseBoolean(process.env.PM_REQUIRE_AUTH_MINT, true),
     requireAuthRead: parseBoolean(process.env.PM_REQUIRE_AUTH_READ, false),
+    requireAuthMigrate: parseBoolean(process.env.PM_REQUIRE_AUTH_MIGRATE, true),
+    adminApiKeys: parseAdminApiKeys(process.env.PM_ADMIN_API_KEYS),
   },
 
   rateLimit: {
@@ -181,6 +619,108 @@ export const config: Config = {
   rewards: {
     rewardValuesCount: parseInt(process.env.PM_REWARD_VALUES_COUNT || '0', 10),
   },
+
+  mintJobs: {
+    concurrency: parseInt(process.env.PM_MINT_JOB_CONCURRENCY || '1', 10),
+    retentionMs: parseInt(process.env.PM_MINT_JOB_RETENTION_MS || '86400000', 10), // 24h default
+    dbPath: process.env.PM_MINT_JOB_DB_PATH ?? 'data/mint-jobs.db',
+  },
+
+  transactionStatus: {
+    droppedAfterMs: parseInt(process.env.PM_TX_STATUS_DROPPED_AFTER_MS || '600000', 10), // 10 min default
+    retentionMs: parseInt(process.env.PM_TX_STATUS_RETENTION_MS || '604800000', 10), // 7 days default
+  },
+
+  finality: {
+    checkIntervalMs: parseInt(process.env.PM_FINALITY_CHECK_INTERVAL_MS || '15000', 10),
+    maxRequeues: parseInt(process.env.PM_REORG_MAX_REQUEUES || '3', 10),
+  },
+
+  events: {
+    bufferSize: parseInt(process.env.PM_EVENTS_BUFFER_SIZE || '1000', 10),
+    heartbeatMs: parseInt(process.env.PM_EVENTS_HEARTBEAT_MS || '15000', 10),
+  },
+
+  batchMint: {
+    maxItems: parseInt(process.env.PM_MINT_BATCH_MAX_ITEMS || '500', 10),
+    concurrency: parseInt(process.env.PM_MINT_BATCH_CONCURRENCY || '10', 10),
+  },
+
+  migration: {
+    abiPath: process.env.PM_MIGRATION_ABI_PATH || null,
+    args: parseMigrationArgs(process.env.PM_MIGRATION_ARGS),
+  },
+
+  idempotency: {
+    ttlMs: parseInt(process.env.PM_IDEMPOTENCY_TTL_MS || '86400000', 10), // 24h default
+  },
+
+  mintedCache: {
+    ttlMs: parseInt(process.env.PM_MINTED_CACHE_TTL_MS || '600000', 10), // 10 min default
+  },
+
+  authorizationCache: {
+    ttlMs: parseInt(process.env.PM_AUTHORIZATION_CACHE_TTL_MS || '240000', 10), // 4 min default
+  },
+
+  canonicalization: {
+    unicodeForm: (process.env.PM_CANONICALIZATION_UNICODE_FORM ||
+      'NFC') as CanonicalizationConfig['unicodeForm'],
+    collapseWhitespace: parseBoolean(process.env.PM_CANONICALIZATION_COLLAPSE_WHITESPACE, true),
+    caseFold: parseBoolean(process.env.PM_CANONICALIZATION_CASE_FOLD, false),
+    stripZeroWidth: parseBoolean(process.env.PM_CANONICALIZATION_STRIP_ZERO_WIDTH, true),
+  },
+
+  content: {
+    store: (process.env.PM_CONTENT_STORE || 'none') as Config['content']['store'],
+    format: (process.env.PM_CONTENT_FORMAT || 'metadata') as Config['content']['format'],
+    localDir: process.env.PM_CONTENT_LOCAL_DIR || './data/content',
+    ipfsApiUrl: process.env.PM_CONTENT_IPFS_API_URL || 'http://127.0.0.1:5001',
+    ipfsTimeoutMs: parseInt(process.env.PM_CONTENT_IPFS_TIMEOUT_MS || '10000', 10),
+    encryption: {
+      enabled: parseBoolean(process.env.PM_CONTENT_ENCRYPTION_ENABLED, false),
+      masterKey: process.env.PM_CONTENT_MASTER_KEY || null,
+      decryptSignatureTtlSeconds: parseInt(
+        process.env.PM_CONTENT_DECRYPT_SIGNATURE_TTL_SECONDS || '300',
+        10
+      ), // 5 min default
+    },
+  },
+
+  stuckTransactions: {
+    timeoutMs: parseInt(process.env.PM_STUCK_TX_TIMEOUT_MS || '180000', 10), // 3 min default
+    checkIntervalMs: parseInt(process.env.PM_STUCK_TX_CHECK_INTERVAL_MS || '15000', 10),
+    feeBumpPercent: parseInt(process.env.PM_STUCK_TX_FEE_BUMP_PERCENT || '20', 10),
+    maxAutoBumps: parseInt(process.env.PM_STUCK_TX_MAX_AUTO_BUMPS || '3', 10),
+  },
+
+  relayers: {
+    signers: parseRelayerSigners(process.env.PM_RELAYER_SIGNERS),
+    balanceWarning: process.env.PM_RELAYER_BALANCE_WARNING || '0.01',
+    balanceCritical: process.env.PM_RELAYER_BALANCE_CRITICAL || '0.001',
+    balancePollIntervalMs: parseInt(process.env.PM_RELAYER_BALANCE_POLL_INTERVAL_MS || '60000', 10),
+  },
+
+  gasBudgets: {
+    apiKeyDaily: process.env.PM_GAS_BUDGET_API_KEY_DAILY || undefined,
+    apiKeyMonthly: process.env.PM_GAS_BUDGET_API_KEY_MONTHLY || undefined,
+    authorDaily: process.env.PM_GAS_BUDGET_AUTHOR_DAILY || undefined,
+    authorMonthly: process.env.PM_GAS_BUDGET_AUTHOR_MONTHLY || undefined,
+  },
+  gasBudgetReserveGas: parseInt(process.env.PM_GAS_BUDGET_RESERVE_GAS || '500000', 10),
+
+  indexer: {
+    enabled: parseBoolean(process.env.PM_INDEXER_ENABLED, false),
+    startBlock: parseInt(process.env.PM_INDEXER_START_BLOCK || '0', 10),
+    batchBlocks: parseInt(process.env.PM_INDEXER_BATCH_BLOCKS || '2000', 10),
+    pollIntervalMs: parseInt(process.env.PM_INDEXER_POLL_INTERVAL_MS || '15000', 10),
+    reorgDepth: parseInt(process.env.PM_INDEXER_REORG_DEPTH || '64', 10),
+    dbPath: process.env.PM_INDEXER_DB_PATH ?? 'data/indexer.db',
+  },
+
+  analytics: {
+    source: (process.env.PM_ANALYTICS_SOURCE || 'pzero') as 'pzero' | 'index',
+  },
 };
 
 /**
@@ -213,13 +753,55 @@ export const validateConfig = (): void => {
     throw new Error('PM_PZERO_API_URL must be a valid URL');
   }
 
-  // Validate private key format
-  if (!config.privateKey.startsWith('0x')) {
-    throw new Error('PM_PRIVATE_KEY must start with 0x');
+  // Validate the backend wallet signer
+  const { signer } = config;
+  if (!['private-key', 'keystore', 'remote'].includes(signer.type)) {
+    throw new Error('PM_SIGNER_TYPE must be private-key, keystore or remote');
   }
+  if (signer.type === 'private-key') {
+    requireEnv('PM_PRIVATE_KEY', config.privateKey);
+
+    // Validate private key format
+    if (!config.privateKey.startsWith('0x')) {
+      throw new Error('PM_PRIVATE_KEY must start with 0x');
+    }
+
+    if (config.privateKey.length !== 66) {
+      throw new Error('PM_PRIVATE_KEY must be 66 characters (including 0x prefix)');
+    }
+
+    try {
+      new ethers.SigningKey(config.privateKey);
+    } catch {
+      throw new Error('PM_PRIVATE_KEY is not a valid secp256k1 private key');
+    }
 
-  if (config.privateKey.length !== 66) {
-    throw new Error('PM_PRIVATE_KEY must be 66 characters (including 0x prefix)');
+    if (config.env === 'production') {
+      console.warn(
+        'WARNING: The backend wallet key is read from PM_PRIVATE_KEY. Use PM_SIGNER_TYPE=keystore or remote in production.'
+      );
+    }
+  }
+  if (signer.type === 'keystore') {
+    requireEnv('PM_KEYSTORE_PATH', signer.keystore.path);
+    if (!signer.keystore.password && !signer.keystore.passwordFile) {
+      throw new Error(
+        'PM_SIGNER_TYPE is keystore but neither PM_KEYSTORE_PASSWORD nor PM_KEYSTORE_PASSWORD_FILE is set'
+      );
+    }
+  }
+  if (signer.type === 'remote') {
+    try {
+      new URL(requireEnv('PM_REMOTE_SIGNER_URL', signer.remote.url));
+    } catch (error) {
+      throw new Error('PM_REMOTE_SIGNER_URL must be a valid URL');
+    }
+    if (!ethers.isAddress(signer.remote.address)) {
+      throw new Error('PM_REMOTE_SIGNER_ADDRESS must be the Ethereum address the remote signer signs with');
+    }
+    if (isNaN(signer.remote.timeoutMs) || signer.remote.timeoutMs < 1) {
+      throw new Error('PM_REMOTE_SIGNER_TIMEOUT_MS must be a positive integer');
+    }
   }
 
   // Validate port is in valid range
@@ -227,6 +809,225 @@ export const validateConfig = (): void => {
     throw new Error('PM_PORT must be between 1 and 65535');
   }
 
+  // Validate mint job worker concurrency
+  if (isNaN(config.mintJobs.concurrency) || config.mintJobs.concurrency < 1) {
+    throw new Error('PM_MINT_JOB_CONCURRENCY must be a positive integer');
+  }
+
+  // Validate transaction status tracking
+  if (
+    isNaN(config.transactionStatus.droppedAfterMs) ||
+    config.transactionStatus.droppedAfterMs < 1000
+  ) {
+    throw new Error('PM_TX_STATUS_DROPPED_AFTER_MS must be at least 1000');
+  }
+  if (isNaN(config.transactionStatus.retentionMs) || config.transactionStatus.retentionMs < 1) {
+    throw new Error('PM_TX_STATUS_RETENTION_MS must be a positive integer');
+  }
+
+  // Validate finality tracking
+  if (isNaN(config.finality.checkIntervalMs) || config.finality.checkIntervalMs < 1000) {
+    throw new Error('PM_FINALITY_CHECK_INTERVAL_MS must be at least 1000');
+  }
+  if (isNaN(config.finality.maxRequeues) || config.finality.maxRequeues < 0) {
+    throw new Error('PM_REORG_MAX_REQUEUES must be a non-negative integer');
+  }
+
+  // Validate mint event streams
+  if (isNaN(config.events.bufferSize) || config.events.bufferSize < 1) {
+    throw new Error('PM_EVENTS_BUFFER_SIZE must be a positive integer');
+  }
+  if (isNaN(config.events.heartbeatMs) || config.events.heartbeatMs < 1000) {
+    throw new Error('PM_EVENTS_HEARTBEAT_MS must be at least 1000');
+  }
+
+  // Validate batch mint limits
+  if (isNaN(config.batchMint.maxItems) || config.batchMint.maxItems < 1) {
+    throw new Error('PM_MINT_BATCH_MAX_ITEMS must be a positive integer');
+  }
+  if (isNaN(config.batchMint.concurrency) || config.batchMint.concurrency < 1) {
+    throw new Error('PM_MINT_BATCH_CONCURRENCY must be a positive integer');
+  }
+
+  // Validate migratePrompt argument binding
+  if (config.migration.args) {
+    for (const arg of config.migration.args) {
+      if (!MIGRATION_ARGS.includes(arg)) {
+        throw new Error(
+          `PM_MIGRATION_ARGS: unknown argument '${arg}' (expected ${MIGRATION_ARGS.join(', ')})`
+        );
+      }
+    }
+    if (new Set(config.migration.args).size !== config.migration.args.length) {
+      throw new Error('PM_MIGRATION_ARGS must not list an argument twice');
+    }
+  }
+
+  // Validate minted-prompt cache (0 disables it)
+  if (isNaN(config.mintedCache.ttlMs) || config.mintedCache.ttlMs < 0) {
+    throw new Error('PM_MINTED_CACHE_TTL_MS must be a non-negative integer');
+  }
+
+  // Validate PZERO authorization expiry margin
+  if (isNaN(config.pzero.expiryMarginSeconds) || config.pzero.expiryMarginSeconds < 0) {
+    throw new Error('PM_PZERO_EXPIRY_MARGIN_SECONDS must be a non-negative integer');
+  }
+
+  // Validate PZERO authorization cache (0 disables it)
+  if (isNaN(config.authorizationCache.ttlMs) || config.authorizationCache.ttlMs < 0) {
+    throw new Error('PM_AUTHORIZATION_CACHE_TTL_MS must be a non-negative integer');
+  }
+
+  // Validate prompt canonicalization
+  if (!['NFC', 'NFD', 'NFKC', 'NFKD', 'none'].includes(config.canonicalization.unicodeForm)) {
+    throw new Error('PM_CANONICALIZATION_UNICODE_FORM must be NFC, NFD, NFKC, NFKD or none');
+  }
+
+  // Validate content storage
+  if (!['none', 'local', 'ipfs'].includes(config.content.store)) {
+    throw new Error('PM_CONTENT_STORE must be none, local or ipfs');
+  }
+  if (!['prompt', 'metadata'].includes(config.content.format)) {
+    throw new Error('PM_CONTENT_FORMAT must be prompt or metadata');
+  }
+  if (isNaN(config.content.ipfsTimeoutMs) || config.content.ipfsTimeoutMs < 1) {
+    throw new Error('PM_CONTENT_IPFS_TIMEOUT_MS must be a positive integer');
+  }
+  const { encryption } = config.content;
+  if (encryption.enabled && !encryption.masterKey) {
+    throw new Error('PM_CONTENT_ENCRYPTION_ENABLED is true but no PM_CONTENT_MASTER_KEY is configured');
+  }
+  if (encryption.masterKey && !/^(0x)?[0-9a-fA-F]{64}$/.test(encryption.masterKey)) {
+    throw new Error('PM_CONTENT_MASTER_KEY must be 32 bytes encoded as 64 hex characters');
+  }
+  if (isNaN(encryption.decryptSignatureTtlSeconds) || encryption.decryptSignatureTtlSeconds < 1) {
+    throw new Error('PM_CONTENT_DECRYPT_SIGNATURE_TTL_SECONDS must be a positive integer');
+  }
+
+  // Validate stuck transaction handling
+  if (isNaN(config.stuckTransactions.timeoutMs) || config.stuckTransactions.timeoutMs < 1000) {
+    throw new Error('PM_STUCK_TX_TIMEOUT_MS must be at least 1000');
+  }
+  if (
+    isNaN(config.stuckTransactions.checkIntervalMs) ||
+    config.stuckTransactions.checkIntervalMs < 1000
+  ) {
+    throw new Error('PM_STUCK_TX_CHECK_INTERVAL_MS must be at least 1000');
+  }
+  // Nodes reject replacements that raise fees by less than 10%
+  if (
+    isNaN(config.stuckTransactions.feeBumpPercent) ||
+    config.stuckTransactions.feeBumpPercent < 10
+  ) {
+    throw new Error('PM_STUCK_TX_FEE_BUMP_PERCENT must be at least 10');
+  }
+  if (
+    isNaN(config.stuckTransactions.maxAutoBumps) ||
+    config.stuckTransactions.maxAutoBumps < 0
+  ) {
+    throw new Error('PM_STUCK_TX_MAX_AUTO_BUMPS must be a non-negative integer');
+  }
+
+  // Validate relayer wallets
+  const { relayers } = config;
+  if (process.env.PM_RELAYER_PRIVATE_KEYS) {
+    throw new Error(
+      'PM_RELAYER_PRIVATE_KEYS is no longer supported: list the relayer signers in PM_RELAYER_SIGNERS'
+    );
+  }
+  if (typeof relayers.signers !== 'object' || Array.isArray(relayers.signers)) {
+    throw new Error('PM_RELAYER_SIGNERS must be a JSON object mapping chain IDs to signer arrays');
+  }
+  const relayerEntry = {
+    'private-key': {
+      name: '0x-prefixed 32-byte hex private keys',
+      isValid: (entry: string) => /^0x[0-9a-fA-F]{64}$/.test(entry),
+      normalize: (entry: string) => entry.toLowerCase(),
+    },
+    keystore: {
+      name: 'keystore file paths',
+      isValid: (entry: string) => entry.trim() !== '',
+      normalize: (entry: string) => entry,
+    },
+    remote: {
+      name: 'Ethereum addresses of the remote signer',
+      isValid: (entry: string) => ethers.isAddress(entry),
+      normalize: (entry: string) => entry.toLowerCase(),
+    },
+  }[signer.type];
+  for (const [chainId, entries] of Object.entries(relayers.signers)) {
+    if (!config.chains.some((chain) => chain.chainId === chainId)) {
+      throw new Error(`PM_RELAYER_SIGNERS: chain ${chainId} is not configured in PM_CHAINS`);
+    }
+    if (!Array.isArray(entries) || entries.length === 0) {
+      throw new Error(`PM_RELAYER_SIGNERS: chain ${chainId} must have a non-empty array of signers`);
+    }
+    if (entries.some((entry) => typeof entry !== 'string' || !relayerEntry.isValid(entry))) {
+      throw new Error(
+        `PM_RELAYER_SIGNERS: signers for chain ${chainId} must be ${relayerEntry.name} (PM_SIGNER_TYPE=${signer.type})`
+      );
+    }
+    if (new Set(entries.map(relayerEntry.normalize)).size !== entries.length) {
+      throw new Error(`PM_RELAYER_SIGNERS: chain ${chainId} lists the same signer twice`);
+    }
+  }
+  for (const [name, value] of [
+    ['PM_RELAYER_BALANCE_WARNING', relayers.balanceWarning],
+    ['PM_RELAYER_BALANCE_CRITICAL', relayers.balanceCritical],
+  ]) {
+    try {
+      ethers.parseEther(value);
+    } catch {
+      throw new Error(`${name} must be an amount of native token, e.g. 0.01`);
+    }
+  }
+  for (const chain of config.chains) {
+    const { warning, critical } = getRelayerBalanceThresholds(chain);
+    if (ethers.parseEther(warning) < ethers.parseEther(critical)) {
+      throw new Error(
+        `Relayer balance warning threshold (${warning}) is below the critical threshold (${critical}) on chain ${chain.chainId}`
+      );
+    }
+  }
+  if (isNaN(relayers.balancePollIntervalMs) || relayers.balancePollIntervalMs < 1000) {
+    throw new Error('PM_RELAYER_BALANCE_POLL_INTERVAL_MS must be at least 1000');
+  }
+
+  // Validate default gas budgets
+  for (const [field, name] of Object.entries(GAS_BUDGET_FIELDS)) {
+    const value = config.gasBudgets[field as keyof GasBudgetLimits];
+    if (value === undefined) continue;
+    try {
+      ethers.parseEther(value);
+    } catch {
+      throw new Error(`${name} must be an amount of native token, e.g. 0.5`);
+    }
+  }
+  if (isNaN(config.gasBudgetReserveGas) || config.gasBudgetReserveGas < 21000) {
+    throw new Error('PM_GAS_BUDGET_RESERVE_GAS must be at least 21000');
+  }
+
+  // Validate the on-chain indexer
+  const { indexer } = config;
+  if (isNaN(indexer.startBlock) || indexer.startBlock < 0) {
+    throw new Error('PM_INDEXER_START_BLOCK must be a non-negative integer');
+  }
+  if (isNaN(indexer.batchBlocks) || indexer.batchBlocks < 1) {
+    throw new Error('PM_INDEXER_BATCH_BLOCKS must be a positive integer');
+  }
+  if (isNaN(indexer.pollIntervalMs) || indexer.pollIntervalMs < 1000) {
+    throw new Error('PM_INDEXER_POLL_INTERVAL_MS must be at least 1000');
+  }
+  if (isNaN(indexer.reorgDepth) || indexer.reorgDepth < 1) {
+    throw new Error('PM_INDEXER_REORG_DEPTH must be a positive integer');
+  }
+  if (!['pzero', 'index'].includes(config.analytics.source)) {
+    throw new Error("PM_ANALYTICS_SOURCE must be 'pzero' or 'index'");
+  }
+  if (config.analytics.source === 'index' && !indexer.enabled) {
+    throw new Error("PM_ANALYTICS_SOURCE is 'index' but PM_INDEXER_ENABLED is false");
+  }
+
   // Validate API keys are configured if authentication is required
   if (config.auth.requireAuth && config.auth.validApiKeys.length === 0) {
     throw new Error(
@@ -269,3 +1070,44 @@ export const getDefaultChainConfig = (): ChainConfig => {
   }
   return config.chains[0];
 };
+
+/**
+ * Gets the relayer balance thresholds of a chain.
+ *
+ * @param chain - Chain configuration
+ * @returns Warning and critical thresholds in ether units, with global defaults applied
+ *
+ * @example
+ * const { critical } = getRelayerBalanceThresholds(getDefaultChainConfig());
+ */
+export const getRelayerBalanceThresholds = (
+  chain: ChainConfig
+): Required<RelayerBalanceThresholds> => ({
+  warning: chain.relayerBalance?.warning ?? config.relayers.balanceWarning,
+  critical: chain.relayerBalance?.critical ?? config.relayers.balanceCritical,
+});
+
+/**
+ * Gets the gas sponsorship budgets of a chain.
+ *
+ * @param chain - Chain configuration
+ * @returns Budgets in ether units with global defaults applied (undefined = unlimited)
+ *
+ * @example
+ * const { authorDaily } = getGasBudgetLimits(getDefaultChainConfig());
+ */
+export const getGasBudgetLimits = (chain: ChainConfig): GasBudgetLimits => ({
+  ...config.gasBudgets,
+  ...chain.gasBudget,
+});
+
+/**
+ * Gets the number of confirmations after which a mint on a chain is final.
+ *
+ * @param chain - Chain configuration
+ * @returns The chain's confirmations (default 1)
+ *
+ * @example
+ * const required = getRequiredConfirmations(getDefaultChainConfig());
+ */
+export const getRequiredConfirmations = (chain: ChainConfig): number => chain.confirmations ?? 1;
@@ -0,0 +1,157 @@
+import { Request, Response } from 'express';
+import { ethers } from 'ethers';
+import * as pendingTransactionService from '../services/pendingTransactionService';
+import * as blockchainService from '../services/blockchainService';
+import * as indexerService from '../services/indexerService';
+import {
+  ApiResponse,
+  IndexerChainStatus,
+  PendingTransactionInfo,
+  RelayerWalletStats,
+} from '../types';
+
+/**
+ * Controller for admin endpoints.
+ *
+ * Handles operational actions on the backend wallet, such as speeding up
+ * or cancelling stuck transactions, and reports on the relayer wallets
+ * and the on-chain indexer.
+ */
+
+/**
+ * Validates a transaction hash route parameter.
+ *
+ * @returns True if valid; otherwise a 400 response has been sent
+ */
+function validateHash(hash: string, res: Response): boolean {
+  if (!ethers.isHexString(hash, 32)) {
+    res.status(400).json({
+      success: false,
+      error: {
+        code: 'INVALID_TRANSACTION_HASH',
+        message: 'Transaction hash must be a 32-byte hex string',
+      },
+    });
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Lists pending transactions of the backend wallet.
+ *
+ * GET /api/admin/transactions/pending
+ *
+ * @param _req - Express request
+ * @param res - Express response
+ */
+export function listPendingTransactions(_req: Request, res: Response): void {
+  const response: ApiResponse<PendingTransactionInfo[]> = {
+    success: true,
+    data: pendingTransactionService.listPendingTransactions(),
+  };
+
+  res.status(200).json(response);
+}
+
+/**
+ * Speeds up a pending transaction.
+ *
+ * POST /api/admin/transactions/:hash/speed-up
+ *
+ * @param req - Express request
+ * @param res - Express response
+ */
+export async function speedUpTransaction(req: Request, res: Response): Promise<void> {
+  const { hash } = req.params;
+  const { feeBumpPercent } = req.body ?? {};
+
+  if (!validateHash(hash, res)) {
+    return;
+  }
+
+  // Nodes reject replacements with less than a 10% fee increase
+  if (
+    feeBumpPercent !== undefined &&
+    (!Number.isInteger(feeBumpPercent) || feeBumpPercent < 10 || feeBumpPercent > 1000)
+  ) {
+    res.status(400).json({
+      success: false,
+      error: {
+        code: 'INVALID_FEE_BUMP',
+        message: 'feeBumpPercent must be an integer between 10 and 1000',
+      },
+    });
+    return;
+  }
+
+  // Call service layer
+  const result = await pendingTransactionService.speedUpTransaction(hash, feeBumpPercent);
+
+  const response: ApiResponse<PendingTransactionInfo> = {
+    success: true,
+    data: result,
+  };
+
+  res.status(200).json(response);
+}
+
+/**
+ * Cancels a pending transaction.
+ *
+ * POST /api/admin/transactions/:hash/cancel
+ *
+ * @param req - Express request
+ * @param res - Express response
+ */
+export async function cancelTransaction(req: Request, res: Response): Promise<void> {
+  const { hash } = req.params;
+
+  if (!validateHash(hash, res)) {
+    return;
+  }
+
+  // Call service layer
+  const result = await pendingTransactionService.cancelTransaction(hash);
+
+  const response: ApiResponse<PendingTransactionInfo> = {
+    success: true,
+    data: result,
+  };
+
+  res.status(200).json(response);
+}
+
+/**
+ * Lists the relayer wallets of every chain with their statistics.
+ *
+ * GET /api/admin/relayers
+ *
+ * @param _req - Express request
+ * @param res - Express response
+ */
+export async function listRelayers(_req: Request, res: Response): Promise<void> {
+  const response: ApiResponse<RelayerWalletStats[]> = {
+    success: true,
+    data: await blockchainService.getRelayerStats(),
+  };
+
+  res.status(200).json(response);
+}
+
+/**
+ * Gets the progress of the on-chain indexer on every chain.
+ *
+ * GET /api/admin/indexer
+ *
+ * @param _req - Express request
+ * @param res - Express response
+ */
+export async function getIndexerStatus(_req: Request, res: Response): Promise<void> {
+  const response: ApiResponse<IndexerChainStatus[]> = {
+    success: true,
+    data: await indexerService.getIndexerStatus(),
+  };
+
+  res.status(200).json(response);
+}
@@ -1,14 +1,41 @@
 import { Request, Response } from 'express';
 import * as pzeroAuthService from '../services/pzeroAuthService';
+import * as indexerService from '../services/indexerService';
+import { config } from '../config';
 import { ApiResponse, AnalyticsPeriod } from '../types';
 
 /**
  * Controller for analytics and statistics endpoints.
  *
  * Handles HTTP requests for fetching customer prompts, analytics,
- * and statistics from PZERO.
+ * and statistics from PZERO or from the local on-chain index.
  */
 
+type AnalyticsSource = 'pzero' | 'index';
+
+/**
+ * Reads the source query parameter (default PM_ANALYTICS_SOURCE).
+ *
+ * @returns The source; otherwise a 400 response has been sent and null is returned
+ */
+function getSource(req: Request, res: Response): AnalyticsSource | null {
+  const { source } = req.query;
+  if (source === undefined) {
+    return config.analytics.source;
+  }
+  if (source !== 'pzero' && source !== 'index') {
+    res.status(400).json({
+      success: false,
+      error: {
+        code: 'INVALID_SOURCE',
+        message: 'Source must be one of: pzero, index',
+      },
+    });
+    return null;
+  }
+  return source;
+}
+
 /**
  * Gets paginated list of customer's prompts.
  *
@@ -48,12 +75,16 @@ export async function getCustomerPrompts(req: Request, res: Response): Promise<v
     return;
   }
 
+  const source = getSource(req, res);
+  if (!source) {
+    return;
+  }
+
   // Call service layer
-  const result = await pzeroAuthService.getCustomerPrompts(
-    pageNum,
-    limitNum,
-    chainId as string | undefined
-  );
+  const result =
+    source === 'index'
+      ? await indexerService.getIndexedPrompts(pageNum, limitNum, chainId as string | undefined)
+      : await pzeroAuthService.getCustomerPrompts(pageNum, limitNum, chainId as string | undefined);
 
   // Return success response
   const response: ApiResponse = {
@@ -102,7 +133,7 @@ export async function getCustomerAnalytics(req: Request, res: Response): Promise
   // Validate date if provided
   if (date && typeof date === 'string') {
     const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
-    if (!dateRegex.test(date)) {
+    if (!dateRegex.test(date) || isNaN(Date.parse(date))) {
       res.status(400).json({
         success: false,
         error: {
@@ -114,11 +145,22 @@ export async function getCustomerAnalytics(req: Request, res: Response): Promise
     }
   }
 
+  const source = getSource(req, res);
+  if (!source) {
+    return;
+  }
+
   // Call service layer
-  const result = await pzeroAuthService.getCustomerAnalytics(
-    period as AnalyticsPeriod,
-    date as string | undefined
-  );
+  const result =
+    source === 'index'
+      ? await indexerService.getIndexedAnalytics(
+          period as AnalyticsPeriod,
+          date as string | undefined
+        )
+      : await pzeroAuthService.getCustomerAnalytics(
+          period as AnalyticsPeriod,
+          date as string | undefined
+        );
 
   // Return success response
   const response: ApiResponse = {
@@ -137,9 +179,17 @@ export async function getCustomerAnalytics(req: Request, res: Response): Promise
  * @param req - Express request
  * @param res - Express response
  */
-export async function getCustomerStats(_req: Request, res: Response): Promise<void> {
+export async function getCustomerStats(req: Request, res: Response): Promise<void> {
+  const source = getSource(req, res);
+  if (!source) {
+    return;
+  }
+
   // Call service layer
-  const result = await pzeroAuthService.getCustomerStats();
+  const result =
+    source === 'index'
+      ? await indexerService.getIndexedStats()
+      : await pzeroAuthService.getCustomerStats();
 
   // Return success response
   const response: ApiResponse = {
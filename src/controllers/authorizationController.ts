@@ -0,0 +1,145 @@
+import { Request, Response } from 'express';
+import { ethers } from 'ethers';
+import * as pzeroAuthService from '../services/pzeroAuthService';
+import { encodeActivityPoints, isValidAddress, isValidHash } from '../utils/crypto';
+import { getChainConfig, getDefaultChainConfig } from '../config';
+import { ApiResponse, AuthorizationVerification } from '../types';
+
+/**
+ * Controller for PZERO authorization endpoints.
+ *
+ * Lets support staff check an authorization signature against the
+ * parameters it was issued for.
+ */
+
+/**
+ * Sends a 400 validation error.
+ */
+function sendValidationError(res: Response, code: string, message: string): void {
+  res.status(400).json({
+    success: false,
+    error: { code, message },
+  });
+}
+
+/**
+ * Checks that activity points are a wei amount or a list of wei amounts.
+ */
+function isValidActivityPoints(points: unknown): points is string | string[] {
+  const isAmount = (value: unknown): boolean => typeof value === 'string' && /^\d+$/.test(value);
+  return Array.isArray(points) ? points.length > 0 && points.every(isAmount) : isAmount(points);
+}
+
+/**
+ * Verifies a PZERO mint authorization signature.
+ *
+ * POST /api/authorizations/verify
+ *
+ * @param req - Express request
+ * @param res - Express response
+ */
+export function verifyAuthorization(req: Request, res: Response): void {
+  const {
+    signature,
+    promptHash,
+    author,
+    activityPoints,
+    encodedActivityPoints,
+    chainId,
+    signerAddress,
+  } = req.body ?? {};
+
+  if (typeof signature !== 'string' || !ethers.isHexString(signature)) {
+    sendValidationError(res, 'INVALID_SIGNATURE', 'Signature must be a hex string');
+    return;
+  }
+
+  if (typeof promptHash !== 'string' || !isValidHash(promptHash)) {
+    sendValidationError(res, 'INVALID_HASH', 'Prompt hash must be a 32-byte hex string');
+    return;
+  }
+
+  if (typeof author !== 'string' || !isValidAddress(author)) {
+    sendValidationError(res, 'INVALID_AUTHOR', 'Author must be a valid Ethereum address');
+    return;
+  }
+
+  // Points as sent to PZERO (encoded) or as requested by the client (wei amounts)
+  if ((activityPoints === undefined) === (encodedActivityPoints === undefined)) {
+    sendValidationError(
+      res,
+      'INVALID_ACTIVITY_POINTS',
+      'Provide either activityPoints or encodedActivityPoints'
+    );
+    return;
+  }
+  if (activityPoints !== undefined && !isValidActivityPoints(activityPoints)) {
+    sendValidationError(
+      res,
+      'INVALID_ACTIVITY_POINTS',
+      'activityPoints must be a wei amount or an array of wei amounts'
+    );
+    return;
+  }
+  if (
+    encodedActivityPoints !== undefined &&
+    (typeof encodedActivityPoints !== 'string' || !ethers.isHexString(encodedActivityPoints))
+  ) {
+    sendValidationError(
+      res,
+      'INVALID_ACTIVITY_POINTS',
+      'encodedActivityPoints must be a hex string'
+    );
+    return;
+  }
+
+  const chain = chainId ? getChainConfig(chainId) : getDefaultChainConfig();
+  if (!chain) {
+    sendValidationError(
+      res,
+      'INVALID_CHAIN',
+      `Chain configuration not found for chainId: ${chainId}`
+    );
+    return;
+  }
+
+  // Without a signer to compare with, nothing can be verified
+  if (!chain.pzeroSignerAddress) {
+    res.status(503).json({
+      success: false,
+      error: {
+        code: 'PZERO_SIGNER_NOT_CONFIGURED',
+        message: `Authorization verification is not available: chain ${chain.chainId} has no pzeroSignerAddress in PM_CHAINS`,
+      },
+    });
+    return;
+  }
+
+  if (
+    signerAddress !== undefined &&
+    (typeof signerAddress !== 'string' || !isValidAddress(signerAddress))
+  ) {
+    sendValidationError(
+      res,
+      'INVALID_SIGNER_ADDRESS',
+      'signerAddress must be a valid Ethereum address'
+    );
+    return;
+  }
+
+  const verification = pzeroAuthService.verifyMintAuthorization(
+    signature,
+    promptHash,
+    author,
+    encodedActivityPoints ?? encodeActivityPoints(activityPoints),
+    chain.chainId,
+    signerAddress ? ethers.getAddress(signerAddress) : chain.promptMinerAddress
+  );
+
+  const response: ApiResponse<AuthorizationVerification> = {
+    success: true,
+    data: verification,
+  };
+
+  res.status(200).json(response);
+}
@@ -0,0 +1,98 @@
+import { Request, Response } from 'express';
+import * as mintEventService from '../services/mintEventService';
+import { config } from '../config';
+import { getRequestApiKey } from '../middleware/auth';
+import { isValidHash } from '../utils/crypto';
+import { MintEvent } from '../types';
+
+/**
+ * Controller for the mint event streams.
+ *
+ * Streams mint progress as Server-Sent Events. Each event is sent with its
+ * type as the event name and its `<bootId>-<seq>` ID as the id, so browsers'
+ * EventSource resumes with Last-Event-ID after a reconnect.
+ */
+
+/**
+ * Parses the Last-Event-ID header of a reconnecting client.
+ *
+ * @returns The last received event ID, or undefined if absent
+ */
+function getLastEventId(req: Request): string | undefined {
+  const header = req.headers['last-event-id'];
+  if (typeof header !== 'string' || header.trim() === '') {
+    return undefined;
+  }
+  return header.trim();
+}
+
+/**
+ * Opens an event stream and sends it the matching mint events until the
+ * client disconnects.
+ */
+function streamMintEvents(
+  req: Request,
+  res: Response,
+  filter: mintEventService.MintEventFilter
+): void {
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    // Keep reverse proxies (nginx) from buffering the stream
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+
+  const send = (event: MintEvent): void => {
+    res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  };
+  const unsubscribe = mintEventService.subscribeToMintEvents(filter, send, getLastEventId(req));
+
+  // Comments keep idle connections from being closed by proxies
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), config.events.heartbeatMs);
+  heartbeat.unref();
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+}
+
+/**
+ * Streams the mint events of a prompt.
+ *
+ * GET /api/prompts/:hash/events
+ *
+ * @param req - Express request
+ * @param res - Express response
+ */
+export function streamPromptEvents(req: Request, res: Response): void {
+  const { hash } = req.params;
+
+  if (!hash || !isValidHash(hash)) {
+    res.status(400).json({
+      success: false,
+      error: {
+        code: 'INVALID_HASH',
+        message: 'Invalid prompt hash format. Must be a 32-byte hex string (0x...)',
+      },
+    });
+    return;
+  }
+
+  streamMintEvents(req, res, { promptHash: hash });
+}
+
+/**
+ * Streams the events of all mints started with the request's API key.
+ *
+ * GET /api/events
+ *
+ * @param req - Express request (authenticated)
+ * @param res - Express response
+ */
+export function streamApiKeyEvents(req: Request, res: Response): void {
+  // authenticate has accepted the key, so it is always set here
+  streamMintEvents(req, res, { apiKey: getRequestApiKey(req)! });
+}
@@ -0,0 +1,43 @@
+import { Request, Response } from 'express';
+import * as mintJobService from '../services/mintJobService';
+import { ApiResponse, MintJob } from '../types';
+
+/**
+ * Controller for asynchronous job endpoints.
+ *
+ * Reports the progress of mint jobs queued by POST /api/prompts/mint-for-user.
+ */
+
+/**
+ * Gets the status of a mint job.
+ *
+ * GET /api/jobs/:id
+ *
+ * @param req - Express request
+ * @param res - Express response
+ */
+export async function getJob(req: Request, res: Response): Promise<void> {
+  const { id } = req.params;
+
+  // Call service layer
+  const job = await mintJobService.getMintJob(id);
+
+  if (!job) {
+    res.status(404).json({
+      success: false,
+      error: {
+        code: 'JOB_NOT_FOUND',
+        message: `Job ${id} not found`,
+      },
+    });
+    return;
+  }
+
+  // Return job status
+  const response: ApiResponse<MintJob> = {
+    success: true,
+    data: job,
+  };
+
+  res.status(200).json(response);
+}
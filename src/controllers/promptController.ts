@@ -1,8 +1,23 @@
 import { Request, Response } from 'express';
 import * as promptMiningService from '../services/promptMiningService';
+import * as mintJobService from '../services/mintJobService';
+import * as gasBudgetService from '../services/gasBudgetService';
 import { isValidAddress, isValidHash } from '../utils/crypto';
 import { calculateReward } from '../utils/rewardCalculation';
-import { ApiResponse } from '../types';
+import { getCanonicalizationVersion } from '../utils/canonicalize';
+import { config, getChainConfig, getDefaultChainConfig } from '../config';
+import { getRequestApiKey, isAdminRequest } from '../middleware/auth';
+import {
+  ApiResponse,
+  BatchMintItemResult,
+  BatchMintResponse,
+  BatchMigrateResponse,
+  GasSponsorshipStatus,
+  MigratePromptItemResult,
+  MigratePromptResponse,
+  MintSimulationResponse,
+  PromptContentResponse,
+} from '../types';
 
 /**
  * Controller for prompt minting operations.
@@ -59,7 +74,8 @@ export async function authorizePromptMint(req: Request, res: Response): Promise<
     prompt.trim(),
     author,
     activityPoints,
-    chainId
+    chainId,
+    getRequestApiKey(req)
   );
 
   // Return authorization response
@@ -127,12 +143,16 @@ export async function getSignableMintData(req: Request, res: Response): Promise<
     activityPoints,
     gasLimit,
     metaTxDeadline,
-    chainId
+    chainId,
+    getRequestApiKey(req)
   );
 
   // Convert BigInt values to strings for JSON serialization
   const serializedResult = {
     promptHash: result.promptHash,
+    canonicalPrompt: result.canonicalPrompt,
+    canonicalizationVersion: result.canonicalizationVersion,
+    contentURI: result.contentURI,
     domain: {
       name: result.domain.name,
       version: result.domain.version,
@@ -149,9 +169,7 @@ export async function getSignableMintData(req: Request, res: Response): Promise<
       deadline: result.requestForSigning.deadline.toString(),
       data: result.requestForSigning.data,
     },
-    authorization: {
-      signature: result.authorization.signature,
-    },
+    authorization: result.authorization,
   };
 
   // Return signable data response
@@ -164,20 +182,30 @@ export async function getSignableMintData(req: Request, res: Response): Promise<
 }
 
 /**
- * Executes a meta-transaction mint (relayer mode).
- *
- * RELAYER MODE:
- * Receives the user's signature and request data, then submits the
- * meta-transaction to the ERC2771 forwarder on behalf of the user.
- * The relayer (company) pays the gas fees.
+ * Validates a meta-transaction forward request and signature from a request body.
  *
- * POST /api/prompts/execute-metatx
+ * Sends a 400 response and returns null if validation fails.
  *
- * @param req - Express request
+ * @param body - Request body with requestForSigning and forwardSignature
  * @param res - Express response
+ * @returns The forward request with numeric fields converted to BigInt, or null
  */
-export async function executeMetaTx(req: Request, res: Response): Promise<void> {
-  const { requestForSigning, forwardSignature, chainId } = req.body;
+function parseMetaTxRequest(
+  body: any,
+  res: Response
+): {
+  request: {
+    from: string;
+    to: string;
+    value: bigint;
+    gas: bigint;
+    nonce: bigint;
+    deadline: bigint;
+    data: string;
+  };
+  forwardSignature: string;
+} | null {
+  const { requestForSigning, forwardSignature } = body;
 
   // Validate requestForSigning
   if (!requestForSigning || typeof requestForSigning !== 'object') {
@@ -188,7 +216,7 @@ export async function executeMetaTx(req: Request, res: Response): Promise<void>
         message: 'requestForSigning is required and must be an object',
       },
     });
-    return;
+    return null;
   }
 
   // Validate required fields in requestForSigning
@@ -202,7 +230,7 @@ export async function executeMetaTx(req: Request, res: Response): Promise<void>
         message: 'from must be a valid Ethereum address',
       },
     });
-    return;
+    return null;
   }
 
   if (!to || !isValidAddress(to)) {
@@ -213,7 +241,7 @@ export async function executeMetaTx(req: Request, res: Response): Promise<void>
         message: 'to must be a valid Ethereum address',
       },
     });
-    return;
+    return null;
   }
 
   if (value === undefined || value === null) {
@@ -224,7 +252,7 @@ export async function executeMetaTx(req: Request, res: Response): Promise<void>
         message: 'value is required',
       },
     });
-    return;
+    return null;
   }
 
   if (!gas) {
@@ -235,7 +263,7 @@ export async function executeMetaTx(req: Request, res: Response): Promise<void>
         message: 'gas is required',
       },
     });
-    return;
+    return null;
   }
 
   if (nonce === undefined || nonce === null) {
@@ -246,7 +274,7 @@ export async function executeMetaTx(req: Request, res: Response): Promise<void>
         message: 'nonce is required',
       },
     });
-    return;
+    return null;
   }
 
   if (!deadline) {
@@ -257,7 +285,7 @@ export async function executeMetaTx(req: Request, res: Response): Promise<void>
         message: 'deadline is required',
       },
     });
-    return;
+    return null;
   }
 
   if (!data || typeof data !== 'string' || !data.startsWith('0x')) {
@@ -268,7 +296,7 @@ export async function executeMetaTx(req: Request, res: Response): Promise<void>
         message: 'data must be a hex string starting with 0x',
       },
     });
-    return;
+    return null;
   }
 
   // Validate forwardSignature
@@ -284,7 +312,7 @@ export async function executeMetaTx(req: Request, res: Response): Promise<void>
         message: 'forwardSignature must be a hex string starting with 0x',
       },
     });
-    return;
+    return null;
   }
 
   // Convert to BigInt
@@ -298,8 +326,39 @@ export async function executeMetaTx(req: Request, res: Response): Promise<void>
     data,
   };
 
+  return { request, forwardSignature };
+}
+
+/**
+ * Executes a meta-transaction mint (relayer mode).
+ *
+ * RELAYER MODE:
+ * Receives the user's signature and request data, then submits the
+ * meta-transaction to the ERC2771 forwarder on behalf of the user.
+ * The relayer (company) pays the gas fees.
+ *
+ * POST /api/prompts/execute-metatx
+ *
+ * @param req - Express request
+ * @param res - Express response
+ */
+export async function executeMetaTx(req: Request, res: Response): Promise<void> {
+  const { chainId } = req.body;
+
+  // Validate requestForSigning and forwardSignature
+  const parsed = parseMetaTxRequest(req.body, res);
+  if (!parsed) {
+    return;
+  }
+  const { request, forwardSignature } = parsed;
+
   // Call service layer
-  const result = await promptMiningService.executeMetaTxMint(request, forwardSignature, chainId);
+  const result = await promptMiningService.executeMetaTxMint(
+    request,
+    forwardSignature,
+    chainId,
+    getRequestApiKey(req)
+  );
 
   // Return success response
   const response: ApiResponse = {
@@ -317,6 +376,9 @@ export async function executeMetaTx(req: Request, res: Response): Promise<void>
  * Backend wallet signs and submits the transaction.
  * Specified user receives Activity Points without needing to sign or pay gas.
  *
+ * The mint is queued as a background job and 202 Accepted is returned
+ * immediately with the job ID. Progress is reported by GET /api/jobs/:id.
+ *
  * POST /api/prompts/mint-for-user
  *
  * @param req - Express request
@@ -348,21 +410,363 @@ export async function mintPromptForUser(req: Request, res: Response): Promise<vo
     return;
   }
 
+  // Canonicalize now so the job's prompt hash is the one that will be minted
+  const { canonicalPrompt, canonicalizationVersion } = promptMiningService.canonicalize(prompt);
+
   // Use provided activityPoints (in wei) or calculate based on prompt and author
   const activityPoints = providedActivityPoints !== undefined 
     ? providedActivityPoints 
-    : calculateReward(prompt.trim(), author);
+    : calculateReward(canonicalPrompt, author);
+
+  // Queue the mint for background processing
+  const job = await mintJobService.enqueueMintJob(
+    canonicalPrompt,
+    author,
+    activityPoints,
+    chainId,
+    getRequestApiKey(req)
+  );
+
+  // Return accepted response with the job to poll
+  const response: ApiResponse = {
+    success: true,
+    data: {
+      jobId: job.id,
+      status: job.status,
+      promptHash: job.promptHash,
+      canonicalPrompt,
+      canonicalizationVersion,
+      statusUrl: `/api/jobs/${job.id}`,
+    },
+  };
+
+  res.status(202).json(response);
+}
+
+/**
+ * Mints many prompts on behalf of users in one request (backend-signed mode).
+ *
+ * BATCH BACKEND-SIGNED MODE:
+ * Each item is validated, hashed and minted independently. Items that fail
+ * (validation, duplicates, PZERO or blockchain errors) are reported with
+ * the standard API error codes without affecting the other items.
+ *
+ * POST /api/prompts/mint-batch
+ *
+ * @param req - Express request
+ * @param res - Express response
+ */
+export async function mintPromptBatch(req: Request, res: Response): Promise<void> {
+  const { items } = req.body;
+
+  // Validate the batch itself
+  if (!Array.isArray(items) || items.length === 0) {
+    res.status(400).json({
+      success: false,
+      error: {
+        code: 'INVALID_ITEMS',
+        message: 'items is required and must be a non-empty array',
+      },
+    });
+    return;
+  }
+
+  if (items.length > config.batchMint.maxItems) {
+    res.status(400).json({
+      success: false,
+      error: {
+        code: 'BATCH_TOO_LARGE',
+        message: `A batch can contain at most ${config.batchMint.maxItems} items`,
+      },
+    });
+    return;
+  }
+
+  // Validate each item; invalid items fail individually
+  const invalid: BatchMintItemResult[] = [];
+  const valid: Parameters<typeof promptMiningService.mintPromptBatch>[0] = [];
+
+  items.forEach((item: any, index: number) => {
+    const { prompt, author, activityPoints: providedActivityPoints, chainId } = item ?? {};
+
+    if (!prompt || typeof prompt !== 'string' || prompt.trim().length === 0) {
+      invalid.push({
+        index,
+        success: false,
+        error: {
+          code: 'INVALID_PROMPT',
+          message: 'Prompt is required and must be a non-empty string',
+        },
+      });
+      return;
+    }
+
+    if (!author || !isValidAddress(author)) {
+      invalid.push({
+        index,
+        success: false,
+        error: {
+          code: 'INVALID_AUTHOR',
+          message: 'Author must be a valid Ethereum address',
+        },
+      });
+      return;
+    }
+
+    // Use provided activityPoints (in wei) or calculate based on prompt and author
+    const activityPoints = providedActivityPoints !== undefined
+      ? providedActivityPoints
+      : calculateReward(prompt.trim(), author);
+
+    valid.push({ index, prompt: prompt.trim(), author, activityPoints, chainId });
+  });
+
+  // Call service layer for the valid items
+  const minted =
+    valid.length > 0 ? await promptMiningService.mintPromptBatch(valid, getRequestApiKey(req)) : [];
+  const results = [...invalid, ...minted].sort((a, b) => a.index - b.index);
+  const succeeded = results.filter((result) => result.success).length;
+
+  // Return per-item results
+  const response: ApiResponse<BatchMintResponse> = {
+    success: true,
+    data: {
+      total: items.length,
+      succeeded,
+      failed: items.length - succeeded,
+      canonicalizationVersion: getCanonicalizationVersion(config.canonicalization),
+      results,
+    },
+  };
+
+  res.status(200).json(response);
+}
+
+/**
+ * Simulates a mint without broadcasting it (dry run).
+ *
+ * Backend-signed mints ({prompt, author, activityPoints?}) run the
+ * mint-for-user flow up to submission. Meta-transactions
+ * ({requestForSigning, forwardSignature}) run the execute-metatx flow up to
+ * submission. Both return the gas estimate and cost, or the decoded revert
+ * reason if the transaction would fail.
+ *
+ * POST /api/prompts/simulate
+ *
+ * @param req - Express request
+ * @param res - Express response
+ */
+export async function simulateMint(req: Request, res: Response): Promise<void> {
+  const { prompt, author, activityPoints: providedActivityPoints, chainId } = req.body;
+
+  let result: MintSimulationResponse;
+
+  if (req.body.requestForSigning !== undefined) {
+    // Meta-transaction simulation
+    const parsed = parseMetaTxRequest(req.body, res);
+    if (!parsed) {
+      return;
+    }
+
+    result = await promptMiningService.simulateMetaTxMint(
+      parsed.request,
+      parsed.forwardSignature,
+      chainId
+    );
+  } else {
+    // Backend-signed simulation
+    if (!prompt || typeof prompt !== 'string' || prompt.trim().length === 0) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_PROMPT',
+          message: 'Prompt is required and must be a non-empty string',
+        },
+      });
+      return;
+    }
+
+    if (!author || !isValidAddress(author)) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_AUTHOR',
+          message: 'Author must be a valid Ethereum address',
+        },
+      });
+      return;
+    }
+
+    // Use provided activityPoints (in wei) or calculate based on prompt and author
+    const activityPoints =
+      providedActivityPoints !== undefined
+        ? providedActivityPoints
+        : calculateReward(prompt.trim(), author);
+
+    result = await promptMiningService.simulateMintForUser(
+      prompt.trim(),
+      author,
+      activityPoints,
+      chainId
+    );
+  }
+
+  // Return simulation result (a predicted revert is a successful simulation)
+  const response: ApiResponse<MintSimulationResponse> = {
+    success: true,
+    data: result,
+  };
+
+  res.status(200).json(response);
+}
+
+/**
+ * Validates the fields of a migration request.
+ *
+ * @param body - Migration request or batch item
+ * @returns The validation error, or null if the request is valid
+ */
+function validateMigrationRequest(body: any): { code: string; message: string } | null {
+  const { prompt, targetPromptMiner, targetDataPoint } = body ?? {};
+
+  if (!prompt || typeof prompt !== 'string' || prompt.trim().length === 0) {
+    return {
+      code: 'INVALID_PROMPT',
+      message: 'Prompt is required and must be a non-empty string (prompt text or hash)',
+    };
+  }
+
+  if (prompt.startsWith('0x') && !isValidHash(prompt)) {
+    return {
+      code: 'INVALID_HASH',
+      message: 'Invalid prompt hash format. Must be a 32-byte hex string (0x...)',
+    };
+  }
+
+  if (!targetPromptMiner || !isValidAddress(targetPromptMiner)) {
+    return {
+      code: 'INVALID_TARGET_PROMPT_MINER',
+      message: 'targetPromptMiner must be a valid Ethereum address',
+    };
+  }
+
+  if (!targetDataPoint || !isValidAddress(targetDataPoint)) {
+    return {
+      code: 'INVALID_TARGET_DATA_POINT',
+      message: 'targetDataPoint must be a valid Ethereum address',
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Migrates a minted prompt to another PromptMiner contract and data point.
+ *
+ * The prompt can be given as text (canonicalized and hashed) or as its hash.
+ * The target must be configured in the chain's migrationTargets.
+ *
+ * POST /api/prompts/migrate
+ *
+ * @param req - Express request
+ * @param res - Express response
+ */
+export async function migratePrompt(req: Request, res: Response): Promise<void> {
+  const { prompt, targetPromptMiner, targetDataPoint, chainId } = req.body;
+
+  // Validate input
+  const invalid = validateMigrationRequest(req.body);
+  if (invalid) {
+    res.status(400).json({ success: false, error: invalid });
+    return;
+  }
 
   // Call service layer
-  const result = await promptMiningService.mintPromptForUser(prompt.trim(), author, activityPoints, chainId);
+  const result = await promptMiningService.migratePrompt(
+    prompt.trim(),
+    targetPromptMiner,
+    targetDataPoint,
+    chainId
+  );
 
   // Return success response
-  const response: ApiResponse = {
+  const response: ApiResponse<MigratePromptResponse> = {
     success: true,
     data: result,
   };
 
-  res.status(201).json(response);
+  res.status(200).json(response);
+}
+
+/**
+ * Migrates many prompts to other PromptMiner contracts in one request.
+ *
+ * Each item is validated and migrated independently. Items that fail are
+ * reported with the standard API error codes without affecting the others.
+ *
+ * POST /api/prompts/migrate-batch
+ *
+ * @param req - Express request
+ * @param res - Express response
+ */
+export async function migratePromptBatch(req: Request, res: Response): Promise<void> {
+  const { items } = req.body;
+
+  // Validate the batch itself
+  if (!Array.isArray(items) || items.length === 0) {
+    res.status(400).json({
+      success: false,
+      error: {
+        code: 'INVALID_ITEMS',
+        message: 'items is required and must be a non-empty array',
+      },
+    });
+    return;
+  }
+
+  if (items.length > config.batchMint.maxItems) {
+    res.status(400).json({
+      success: false,
+      error: {
+        code: 'BATCH_TOO_LARGE',
+        message: `A batch can contain at most ${config.batchMint.maxItems} items`,
+      },
+    });
+    return;
+  }
+
+  // Validate each item; invalid items fail individually
+  const invalid: MigratePromptItemResult[] = [];
+  const valid: Parameters<typeof promptMiningService.migratePromptBatch>[0] = [];
+
+  items.forEach((item: any, index: number) => {
+    const error = validateMigrationRequest(item);
+    if (error) {
+      invalid.push({ index, success: false, error });
+      return;
+    }
+
+    const { prompt, targetPromptMiner, targetDataPoint, chainId } = item;
+    valid.push({ index, prompt: prompt.trim(), targetPromptMiner, targetDataPoint, chainId });
+  });
+
+  // Call service layer for the valid items
+  const migrated = valid.length > 0 ? await promptMiningService.migratePromptBatch(valid) : [];
+  const results = [...invalid, ...migrated].sort((a, b) => a.index - b.index);
+  const succeeded = results.filter((result) => result.success).length;
+
+  // Return per-item results
+  const response: ApiResponse<BatchMigrateResponse> = {
+    success: true,
+    data: {
+      total: items.length,
+      succeeded,
+      failed: items.length - succeeded,
+      results,
+    },
+  };
+
+  res.status(200).json(response);
 }
 
 /**
@@ -401,6 +805,121 @@ export async function getPromptStatus(req: Request, res: Response): Promise<void
   res.status(200).json(response);
 }
 
+/**
+ * Reads the content stored for a minted prompt.
+ *
+ * GET /api/prompts/:hash/content
+ *
+ * @param req - Express request
+ * @param res - Express response
+ */
+export async function getPromptContent(req: Request, res: Response): Promise<void> {
+  const { hash } = req.params;
+  const { chainId } = req.query;
+
+  // Validate hash format
+  if (!hash || !isValidHash(hash)) {
+    res.status(400).json({
+      success: false,
+      error: {
+        code: 'INVALID_HASH',
+        message: 'Invalid prompt hash format. Must be a 32-byte hex string (0x...)',
+      },
+    });
+    return;
+  }
+
+  // Call service layer
+  const result = await promptMiningService.getPromptContent(hash, chainId as string | undefined);
+
+  // Return success response
+  const response: ApiResponse<PromptContentResponse> = {
+    success: true,
+    data: result,
+  };
+
+  res.status(200).json(response);
+}
+
+/**
+ * Decrypts the encrypted content of a minted prompt.
+ *
+ * Requires an admin API key (x-api-key) or the author's signature over the
+ * decrypt message with its timestamp in the body.
+ *
+ * POST /api/prompts/:hash/decrypt
+ *
+ * @param req - Express request
+ * @param res - Express response
+ */
+export async function decryptPromptContent(req: Request, res: Response): Promise<void> {
+  const { hash } = req.params;
+  const { signature, timestamp, chainId } = req.body ?? {};
+
+  // Validate hash format
+  if (!hash || !isValidHash(hash)) {
+    res.status(400).json({
+      success: false,
+      error: {
+        code: 'INVALID_HASH',
+        message: 'Invalid prompt hash format. Must be a 32-byte hex string (0x...)',
+      },
+    });
+    return;
+  }
+
+  let access: Parameters<typeof promptMiningService.decryptPromptContent>[1];
+  if (isAdminRequest(req)) {
+    access = { admin: true };
+  } else {
+    if (signature === undefined && timestamp === undefined) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'MISSING_AUTHORIZATION',
+          message: "Provide an admin API key or the author's signature and timestamp",
+        },
+      });
+      return;
+    }
+
+    if (typeof signature !== 'string' || !/^0x[0-9a-fA-F]{130}$/.test(signature)) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_SIGNATURE',
+          message: 'signature must be a 65-byte hex string (0x...)',
+        },
+      });
+      return;
+    }
+
+    if (!Number.isInteger(timestamp) || timestamp <= 0) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_TIMESTAMP',
+          message: 'timestamp must be a Unix timestamp in seconds',
+        },
+      });
+      return;
+    }
+
+    access = { signature, timestamp };
+  }
+
+  // Call service layer
+  const result = await promptMiningService.decryptPromptContent(hash, access, chainId);
+
+  // Return decrypted content
+  const response: ApiResponse<PromptContentResponse> = {
+    success: true,
+    data: result,
+  };
+
+  res.status(200).json(response);
+}
+
 /**
  * Gets activity points balance for an address.
  *
@@ -470,3 +989,52 @@ export async function getQuota(_req: Request, res: Response): Promise<void> {
 
   res.status(200).json(response);
 }
+
+/**
+ * Gets the remaining gas sponsorship of the calling API key and an author.
+ *
+ * GET /api/sponsorship
+ *
+ * @param req - Express request
+ * @param res - Express response
+ */
+export async function getGasSponsorship(req: Request, res: Response): Promise<void> {
+  const { author, chainId } = req.query;
+
+  if (author !== undefined && (typeof author !== 'string' || !isValidAddress(author))) {
+    res.status(400).json({
+      success: false,
+      error: {
+        code: 'INVALID_AUTHOR',
+        message: 'Author must be a valid Ethereum address',
+      },
+    });
+    return;
+  }
+
+  const chain = chainId ? getChainConfig(chainId as string) : getDefaultChainConfig();
+  if (!chain) {
+    res.status(400).json({
+      success: false,
+      error: {
+        code: 'INVALID_CHAIN',
+        message: `Chain configuration not found for chainId: ${chainId}`,
+      },
+    });
+    return;
+  }
+
+  // Call service layer
+  const result = await gasBudgetService.getSponsorshipStatus(
+    chain.chainId,
+    getRequestApiKey(req),
+    author
+  );
+
+  const response: ApiResponse<GasSponsorshipStatus> = {
+    success: true,
+    data: result,
+  };
+
+  res.status(200).json(response);
+}
@@ -0,0 +1,99 @@
+import { Request, Response } from 'express';
+import * as transactionStatusService from '../services/transactionStatusService';
+import { isValidHash } from '../utils/crypto';
+import { ApiResponse, RegisterTransactionRequest, TransactionStatusInfo } from '../types';
+
+/**
+ * Controller for transaction status endpoints.
+ *
+ * Tracks mint transactions of all three minting modes: user-signed
+ * transactions are registered by the client, backend-signed and relayed
+ * ones are recorded automatically.
+ */
+
+/**
+ * Sends a 400 validation error.
+ */
+function sendValidationError(res: Response, code: string, message: string): void {
+  res.status(400).json({
+    success: false,
+    error: { code, message },
+  });
+}
+
+/**
+ * Registers a user-signed mint transaction for status tracking.
+ *
+ * POST /api/transactions
+ *
+ * @param req - Express request
+ * @param res - Express response
+ */
+export async function registerTransaction(req: Request, res: Response): Promise<void> {
+  const { transactionHash, promptHash, chainId }: Partial<RegisterTransactionRequest> =
+    req.body ?? {};
+
+  if (typeof transactionHash !== 'string' || !isValidHash(transactionHash)) {
+    sendValidationError(
+      res,
+      'INVALID_TRANSACTION_HASH',
+      'transactionHash must be a 32-byte hex string'
+    );
+    return;
+  }
+
+  if (typeof promptHash !== 'string' || !isValidHash(promptHash)) {
+    sendValidationError(res, 'INVALID_HASH', 'promptHash must be a 32-byte hex string');
+    return;
+  }
+
+  if (chainId !== undefined && typeof chainId !== 'string') {
+    sendValidationError(res, 'INVALID_CHAIN', 'chainId must be a string');
+    return;
+  }
+
+  // Call service layer
+  const record = await transactionStatusService.registerTransaction(
+    transactionHash,
+    promptHash,
+    chainId
+  );
+
+  const response: ApiResponse<TransactionStatusInfo> = {
+    success: true,
+    data: record,
+  };
+
+  res.status(201).json(response);
+}
+
+/**
+ * Gets the status of a tracked transaction.
+ *
+ * GET /api/transactions/:hash
+ *
+ * @param req - Express request
+ * @param res - Express response
+ */
+export async function getTransaction(req: Request, res: Response): Promise<void> {
+  const { hash } = req.params;
+
+  if (!isValidHash(hash)) {
+    sendValidationError(
+      res,
+      'INVALID_TRANSACTION_HASH',
+      'Transaction hash must be a 32-byte hex string'
+    );
+    return;
+  }
+
+  // Call service layer
+  const status = await transactionStatusService.getTransactionStatus(hash);
+
+  const response: ApiResponse<TransactionStatusInfo> = {
+    success: true,
+    data: status,
+  };
+
+  res.status(200).json(response);
+}
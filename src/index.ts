@@ -5,6 +5,7 @@ import { config, validateConfig } from './config';
 import routes from './routes';
 import { errorHandler, notFoundHandler } from './middleware/errorHandler';
 import * as promptMiningService from './services/promptMiningService';
+import * as mintJobService from './services/mintJobService';
 
 /**
  * Main application entry point.
@@ -33,6 +34,11 @@ try {
   process.exit(1);
 }
 
+// Resume mint jobs left unfinished by the previous run
+mintJobService.recoverMintJobs().catch((error: any) => {
+  console.error('Mint job recovery failed:', error.message);
+});
+
 // Create Express app
 const app = express();
 
@@ -75,10 +81,25 @@ const server = app.listen(config.server.port, () => {
   console.log('\nAvailable endpoints:');
   console.log('  GET  /health                           - Health check');
   console.log('  POST /api/prompts/mint                 - Mint a prompt');
+  console.log('  POST /api/prompts/mint-batch           - Mint a batch of prompts');
+  console.log('  POST /api/prompts/simulate             - Simulate a mint (dry run)');
   console.log('  POST /api/prompts/migrate              - Migrate a prompt');
+  console.log('  POST /api/prompts/migrate-batch        - Migrate a batch of prompts');
   console.log('  GET  /api/prompts/:hash                - Check prompt status');
+  console.log('  GET  /api/prompts/:hash/content        - Read minted prompt content');
+  console.log('  POST /api/prompts/:hash/decrypt        - Decrypt prompt content (author/admin)');
+  console.log('  GET  /api/prompts/:hash/events         - Stream prompt mint progress (SSE)');
+  console.log('  GET  /api/events                       - Stream mint progress of an API key (SSE)');
+  console.log('  GET  /api/jobs/:id                     - Check mint job status');
+  console.log('  POST /api/transactions                 - Track a user-signed mint transaction');
+  console.log('  GET  /api/transactions/:hash           - Check mint transaction status');
+  console.log('  GET  /api/admin/transactions/pending   - List pending wallet transactions');
+  console.log('  GET  /api/admin/relayers               - List relayer wallets');
+  console.log('  GET  /api/admin/indexer                - On-chain indexer progress');
+  console.log('  POST /api/authorizations/verify        - Verify a PZERO authorization (admin)');
   console.log('  GET  /api/activity-points/:address     - Get balance');
   console.log('  GET  /api/quota                        - Get PZERO quota');
+  console.log('  GET  /api/sponsorship                  - Get remaining gas sponsorship');
   console.log('═══════════════════════════════════════════════════\n');
 });
 
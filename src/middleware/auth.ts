@@ -117,3 +117,89 @@ export const conditionalAuth = (required: boolean) => {
     }
   };
 };
+
+/**
+ * Checks whether a request carries an admin API key (PM_ADMIN_API_KEYS).
+ *
+ * For endpoints that accept admins next to other kinds of proof, such as
+ * the prompt content decrypt endpoint.
+ *
+ * @param req - Express request object
+ * @returns True if the 'x-api-key' header is a configured admin key
+ */
+export const isAdminRequest = (req: Request): boolean => {
+  const apiKey = req.headers['x-api-key'] as string | undefined;
+  return !!apiKey && config.auth.adminApiKeys.includes(apiKey);
+};
+
+/**
+ * Gets the API key of a request if it is a configured API key (PM_API_KEYS).
+ *
+ * For attributing usage, such as gas sponsorship, to the calling API key on
+ * endpoints where authentication may be disabled.
+ *
+ * @param req - Express request object
+ * @returns The 'x-api-key' header if it is a valid API key, otherwise undefined
+ */
+export const getRequestApiKey = (req: Request): string | undefined => {
+  const apiKey = req.headers['x-api-key'] as string | undefined;
+  return apiKey && config.auth.validApiKeys.includes(apiKey) ? apiKey : undefined;
+};
+
+/**
+ * Admin authentication middleware.
+ *
+ * Validates the 'x-api-key' header against the configured admin API keys
+ * (PM_ADMIN_API_KEYS). Admin endpoints act on the backend wallet directly,
+ * so regular API keys are not accepted and the endpoints are disabled when
+ * no admin keys are configured.
+ *
+ * @param req - Express request object
+ * @param res - Express response object
+ * @param next - Express next function
+ *
+ * @throws {401} If API key is missing
+ * @throws {403} If API key is not an admin key or admin endpoints are disabled
+ *
+ * @example
+ * router.post('/transactions/:hash/cancel', requireAdmin, controller.cancelTransaction);
+ */
+export const requireAdmin = (req: Request, res: Response, next: NextFunction): void => {
+  const apiKey = req.headers['x-api-key'] as string | undefined;
+
+  // Admin endpoints are disabled unless admin keys are configured
+  if (config.auth.adminApiKeys.length === 0) {
+    res.status(403).json({
+      success: false,
+      error: {
+        code: 'ADMIN_DISABLED',
+        message: 'Admin endpoints are disabled. Configure PM_ADMIN_API_KEYS to enable them.',
+      },
+    });
+    return;
+  }
+
+  if (!apiKey) {
+    res.status(401).json({
+      success: false,
+      error: {
+        code: 'MISSING_API_KEY',
+        message: 'API key is required. Please provide it in the x-api-key header.',
+      },
+    });
+    return;
+  }
+
+  if (!config.auth.adminApiKeys.includes(apiKey)) {
+    res.status(403).json({
+      success: false,
+      error: {
+        code: 'FORBIDDEN',
+        message: 'This API key is not allowed to use admin endpoints.',
+      },
+    });
+    return;
+  }
+
+  next();
+};
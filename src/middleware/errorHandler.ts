@@ -21,32 +21,29 @@ export class ApiError extends Error {
 }
 
 /**
- * Centralized error handling middleware.
+ * Resolved error information used to build an API error response.
+ */
+export interface ResolvedApiError {
+  statusCode: number;
+  errorCode: string;
+  message: string;
+  details?: any;
+}
+
+/**
+ * Maps any thrown error to an HTTP status code, error code and message.
  *
- * Catches all errors thrown in the application and returns consistent,
- * secure error responses. Logs errors for debugging while preventing
- * sensitive information leakage to clients.
+ * Shared by the error handling middleware and by code paths that report
+ * errors outside of a request (background jobs, per-item batch results),
+ * so the same failure always surfaces with the same error code.
  *
  * @param err - Error object
- * @param req - Express request object
- * @param res - Express response object
- * @param _next - Express next function (unused but required by Express)
+ * @returns Resolved status code, error code, message and details
  *
  * @example
- * // Apply as last middleware in Express app
- * app.use(errorHandler);
- *
- * @security
- * - In production, stack traces are not sent to clients
- * - Sensitive error details are logged server-side only
- * - Generic messages for unexpected errors
+ * const { errorCode, message } = resolveApiError(error);
  */
-export const errorHandler = (
-  err: Error | ApiError,
-  req: Request,
-  res: Response,
-  _next: NextFunction
-): void => {
+export const resolveApiError = (err: Error | ApiError): ResolvedApiError => {
   // Default to 500 server error
   let statusCode = 500;
   let errorCode = 'INTERNAL_SERVER_ERROR';
@@ -102,8 +99,44 @@ export const errorHandler = (
     statusCode = 409;
     errorCode = 'PROMPT_ALREADY_MINTED';
     message = err.message;
+  } else if (err.message && err.message.includes('was cancelled by')) {
+    statusCode = 409;
+    errorCode = 'TRANSACTION_CANCELLED';
+    message = 'The transaction was cancelled by an administrator';
   }
 
+  return { statusCode, errorCode, message, details };
+};
+
+/**
+ * Centralized error handling middleware.
+ *
+ * Catches all errors thrown in the application and returns consistent,
+ * secure error responses. Logs errors for debugging while preventing
+ * sensitive information leakage to clients.
+ *
+ * @param err - Error object
+ * @param req - Express request object
+ * @param res - Express response object
+ * @param _next - Express next function (unused but required by Express)
+ *
+ * @example
+ * // Apply as last middleware in Express app
+ * app.use(errorHandler);
+ *
+ * @security
+ * - In production, stack traces are not sent to clients
+ * - Sensitive error details are logged server-side only
+ * - Generic messages for unexpected errors
+ */
+export const errorHandler = (
+  err: Error | ApiError,
+  req: Request,
+  res: Response,
+  _next: NextFunction
+): void => {
+  const { statusCode, errorCode, message, details } = resolveApiError(err);
+
   // Log error for debugging (server-side only)
   if (config.env === 'development') {
     console.error('Error Details:', {
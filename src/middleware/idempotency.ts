@@ -0,0 +1,201 @@
+import { createHash } from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { config } from '../config';
+import { TtlCache } from '../utils/ttlCache';
+
+/**
+ * Stored state of an idempotent request.
+ */
+export interface IdempotencyRecord {
+  /** 'in_progress' while the first request is being handled */
+  state: 'in_progress' | 'completed';
+  /** Hash of the method, path and body of the first request */
+  fingerprint: string;
+  /** HTTP status code of the stored response */
+  statusCode?: number;
+  /** JSON body of the stored response */
+  body?: any;
+}
+
+/**
+ * Storage backend for idempotency records.
+ *
+ * The default store keeps records in process memory. Deployments running
+ * several instances should provide a shared implementation (e.g. Redis with
+ * SET NX PX) via setIdempotencyStore().
+ */
+export interface IdempotencyStore {
+  get(key: string): Promise<IdempotencyRecord | null>;
+  /** Stores the record only if no record exists for the key. Returns true if stored. */
+  reserve(key: string, record: IdempotencyRecord, ttlMs: number): Promise<boolean>;
+  set(key: string, record: IdempotencyRecord, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * In-memory idempotency store with TTL-based expiry.
+ */
+export class InMemoryIdempotencyStore implements IdempotencyStore {
+  private cache = new TtlCache<IdempotencyRecord>(config.idempotency.ttlMs);
+
+  get(key: string): Promise<IdempotencyRecord | null> {
+    return Promise.resolve(this.cache.get(key) ?? null);
+  }
+
+  reserve(key: string, record: IdempotencyRecord, ttlMs: number): Promise<boolean> {
+    if (this.cache.has(key)) {
+      return Promise.resolve(false);
+    }
+    this.cache.set(key, record, ttlMs);
+    return Promise.resolve(true);
+  }
+
+  set(key: string, record: IdempotencyRecord, ttlMs: number): Promise<void> {
+    this.cache.set(key, record, ttlMs);
+    return Promise.resolve();
+  }
+
+  delete(key: string): Promise<void> {
+    this.cache.delete(key);
+    return Promise.resolve();
+  }
+}
+
+let store: IdempotencyStore = new InMemoryIdempotencyStore();
+
+/**
+ * Replaces the idempotency store.
+ *
+ * @param idempotencyStore - Store implementation to use from now on
+ *
+ * @example
+ * setIdempotencyStore(new RedisIdempotencyStore(redisClient));
+ */
+export function setIdempotencyStore(idempotencyStore: IdempotencyStore): void {
+  store = idempotencyStore;
+}
+
+/**
+ * Serializes a value to JSON with object keys sorted, so that semantically
+ * identical bodies produce the same fingerprint.
+ */
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const keys = Object.keys(value).sort();
+    return `{${keys.map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Idempotency middleware for state-changing endpoints.
+ *
+ * When a request carries an `Idempotency-Key` header, the first response is
+ * stored (keyed by API key plus idempotency key) and replayed for retries
+ * with the same body. Reusing a key with a different body is rejected.
+ * Requests without the header are handled normally.
+ *
+ * Server errors (5xx) are not stored, so a retry after a transient failure
+ * is processed again.
+ *
+ * @param req - Express request object
+ * @param res - Express response object
+ * @param next - Express next function
+ *
+ * @throws {400} If the Idempotency-Key header is malformed
+ * @throws {409} If a request with the same key is still being processed
+ * @throws {422} If the key was already used with a different request body
+ *
+ * @example
+ * router.post('/mint-for-user', strictRateLimiter, authenticate, idempotency, controller.mint);
+ */
+export const idempotency = (req: Request, res: Response, next: NextFunction): void => {
+  const idempotencyKey = req.headers['idempotency-key'] as string | undefined;
+
+  // No key provided, process the request normally
+  if (idempotencyKey === undefined) {
+    next();
+    return;
+  }
+
+  if (idempotencyKey.length === 0 || idempotencyKey.length > 255) {
+    res.status(400).json({
+      success: false,
+      error: {
+        code: 'INVALID_IDEMPOTENCY_KEY',
+        message: 'Idempotency-Key header must be between 1 and 255 characters',
+      },
+    });
+    return;
+  }
+
+  const apiKey = (req.headers['x-api-key'] as string | undefined) || 'anonymous';
+  const storeKey = createHash('sha256').update(`${apiKey}:${idempotencyKey}`).digest('hex');
+  const fingerprint = createHash('sha256')
+    .update(`${req.method}:${req.baseUrl}${req.path}:${stableStringify(req.body)}`)
+    .digest('hex');
+  const ttlMs = config.idempotency.ttlMs;
+
+  const handle = async (): Promise<void> => {
+    const reserved = await store.reserve(storeKey, { state: 'in_progress', fingerprint }, ttlMs);
+
+    if (!reserved) {
+      const existing = await store.get(storeKey);
+
+      if (existing && existing.fingerprint !== fingerprint) {
+        res.status(422).json({
+          success: false,
+          error: {
+            code: 'IDEMPOTENCY_KEY_REUSED',
+            message: 'This Idempotency-Key was already used with a different request.',
+          },
+        });
+        return;
+      }
+
+      if (existing?.state === 'completed') {
+        res.setHeader('Idempotent-Replayed', 'true');
+        res.status(existing.statusCode!).json(existing.body);
+        return;
+      }
+
+      if (existing) {
+        res.status(409).json({
+          success: false,
+          error: {
+            code: 'IDEMPOTENCY_REQUEST_IN_PROGRESS',
+            message: 'A request with this Idempotency-Key is still being processed.',
+          },
+        });
+        return;
+      }
+
+      // Record expired between reserve and get; handle as a new request
+      await store.set(storeKey, { state: 'in_progress', fingerprint }, ttlMs);
+    }
+
+    // Capture the response so it can be replayed for retries
+    const originalJson = res.json.bind(res);
+    res.json = (body: any): Response => {
+      const record: IdempotencyRecord = {
+        state: 'completed',
+        fingerprint,
+        statusCode: res.statusCode,
+        body,
+      };
+      const saved =
+        res.statusCode >= 500 ? store.delete(storeKey) : store.set(storeKey, record, ttlMs);
+      saved.catch((error: any) => {
+        console.error('Failed to store idempotent response:', error.message);
+      });
+      return originalJson(body);
+    };
+
+    next();
+  };
+
+  handle().catch(next);
+};
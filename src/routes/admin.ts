@@ -0,0 +1,201 @@
+import { Router } from 'express';
+import { requireAdmin } from '../middleware/auth';
+import { strictRateLimiter } from '../middleware/rateLimiter';
+import { asyncHandler } from '../middleware/errorHandler';
+import * as adminController from '../controllers/adminController';
+
+const router = Router();
+
+// All admin endpoints require an admin API key (PM_ADMIN_API_KEYS)
+router.use(requireAdmin);
+
+/**
+ * List pending transactions of the backend wallet.
+ *
+ * GET /api/admin/transactions/pending
+ *
+ * Transactions sent by the backend wallet (backend-signed mints and relayed
+ * meta-transactions) are tracked until mined. Transactions pending longer
+ * than PM_STUCK_TX_TIMEOUT_MS are sped up automatically.
+ *
+ * @returns {PendingTransactionInfo[]} Pending transactions, oldest first
+ *
+ * @throws {401} If the API key is missing
+ * @throws {403} If the API key is not an admin key or admin endpoints are disabled
+ *
+ * @example
+ * GET /api/admin/transactions/pending
+ * x-api-key: your-admin-api-key
+ *
+ * Response:
+ * {
+ *   "success": true,
+ *   "data": [
+ *     {
+ *       "originalHash": "0xabc...",
+ *       "currentHash": "0xdef...",
+ *       "hashes": ["0xabc...", "0xdef..."],
+ *       "chainId": "72080",
+ *       "from": "0x1234...",
+ *       "nonce": 42,
+ *       "fees": { "maxFeePerGas": "3600000000", "maxPriorityFeePerGas": "1200000000" },
+ *       "bumps": 1,
+ *       "cancelling": false,
+ *       "submittedAt": "2025-11-19T10:00:00.000Z",
+ *       "lastBroadcastAt": "2025-11-19T10:03:00.000Z"
+ *     }
+ *   ]
+ * }
+ */
+router.get('/transactions/pending', adminController.listPendingTransactions);
+
+/**
+ * Speed up a pending transaction.
+ *
+ * POST /api/admin/transactions/:hash/speed-up
+ *
+ * Rebroadcasts the transaction with the same nonce and higher fees. Any
+ * hash broadcast for the transaction can be used. The mint waiting on it
+ * completes with the receipt of whichever broadcast is mined.
+ *
+ * @param {string} req.params.hash - Transaction hash
+ * @param {number} [req.body.feeBumpPercent] - Fee increase in percent (10-1000, default PM_STUCK_TX_FEE_BUMP_PERCENT)
+ * @returns {PendingTransactionInfo} Updated pending transaction
+ *
+ * @throws {400} If the hash or fee bump is invalid
+ * @throws {401} If the API key is missing
+ * @throws {403} If the API key is not an admin key or admin endpoints are disabled
+ * @throws {404} If the transaction is not pending
+ * @throws {409} If the nonce was already mined, a replacement is in progress, or the fee ceiling is reached
+ *
+ * @example
+ * POST /api/admin/transactions/0xabc.../speed-up
+ * x-api-key: your-admin-api-key
+ * Content-Type: application/json
+ *
+ * {
+ *   "feeBumpPercent": 30
+ * }
+ */
+router.post(
+  '/transactions/:hash/speed-up',
+  strictRateLimiter,
+  asyncHandler(adminController.speedUpTransaction)
+);
+
+/**
+ * Cancel a pending transaction.
+ *
+ * POST /api/admin/transactions/:hash/cancel
+ *
+ * Replaces the transaction with a 0-value transfer from the backend wallet
+ * to itself, using the same nonce and higher fees. Once the transfer is
+ * mined, the waiting mint fails with TRANSACTION_CANCELLED.
+ *
+ * @param {string} req.params.hash - Transaction hash
+ * @returns {PendingTransactionInfo} Updated pending transaction
+ *
+ * @throws {400} If the hash is invalid
+ * @throws {401} If the API key is missing
+ * @throws {403} If the API key is not an admin key or admin endpoints are disabled
+ * @throws {404} If the transaction is not pending
+ * @throws {409} If the nonce was already mined, a replacement is in progress, or the fee ceiling is reached
+ *
+ * @example
+ * POST /api/admin/transactions/0xabc.../cancel
+ * x-api-key: your-admin-api-key
+ */
+router.post(
+  '/transactions/:hash/cancel',
+  strictRateLimiter,
+  asyncHandler(adminController.cancelTransaction)
+);
+
+/**
+ * List relayer wallets.
+ *
+ * GET /api/admin/relayers
+ *
+ * Backend-signed mints and relayed meta-transactions are spread over the
+ * relayer wallets of each chain (PM_RELAYER_SIGNERS, or the backend
+ * wallet alone). A wallet is skipped while its balance is below the
+ * chain's critical threshold (drained) or while one of its transactions
+ * has been pending longer than PM_STUCK_TX_TIMEOUT_MS since it was last
+ * broadcast or sped up (stuck). balanceLevel
+ * compares the balance with the chain's warning and critical thresholds.
+ *
+ * @returns {RelayerWalletStats[]} Relayer wallets of every chain
+ *
+ * @throws {401} If the API key is missing
+ * @throws {403} If the API key is not an admin key or admin endpoints are disabled
+ * @throws {500} If a chain's RPC cannot be reached to read balances
+ *
+ * @example
+ * GET /api/admin/relayers
+ * x-api-key: your-admin-api-key
+ *
+ * Response:
+ * {
+ *   "success": true,
+ *   "data": [
+ *     {
+ *       "chainId": "72080",
+ *       "address": "0x1234...",
+ *       "status": "available",
+ *       "balance": "250000000000000000",
+ *       "balanceEther": "0.25",
+ *       "balanceLevel": "ok",
+ *       "warningThreshold": "0.01",
+ *       "criticalThreshold": "0.001",
+ *       "inFlight": 1,
+ *       "pending": 2,
+ *       "stuck": 0,
+ *       "sent": 154,
+ *       "failed": 1,
+ *       "lastUsedAt": "2025-11-19T10:00:00.000Z"
+ *     }
+ *   ]
+ * }
+ */
+router.get('/relayers', asyncHandler(adminController.listRelayers));
+
+/**
+ * Get the progress of the on-chain indexer.
+ *
+ * GET /api/admin/indexer
+ *
+ * The indexer follows PromptMinted events and ActivityPoints transfers of
+ * every chain (PM_INDEXER_ENABLED). lastIndexedBlock trails headBlock while
+ * catching up; lastError is set while passes fail (e.g. RPC unreachable)
+ * and reorgs counts the rollbacks since startup.
+ *
+ * @returns {IndexerChainStatus[]} Indexer progress per chain
+ *
+ * @throws {401} If the API key is missing
+ * @throws {403} If the API key is not an admin key or admin endpoints are disabled
+ * @throws {503} If the indexer is disabled (INDEXER_DISABLED)
+ *
+ * @example
+ * GET /api/admin/indexer
+ * x-api-key: your-admin-api-key
+ *
+ * Response:
+ * {
+ *   "success": true,
+ *   "data": [
+ *     {
+ *       "chainId": "72080",
+ *       "lastIndexedBlock": 1250000,
+ *       "headBlock": 1250003,
+ *       "mints": 1200,
+ *       "transfers": 1210,
+ *       "reorgs": 0,
+ *       "lastError": null,
+ *       "lastRunAt": "2025-11-19T10:00:00.000Z"
+ *     }
+ *   ]
+ * }
+ */
+router.get('/indexer', asyncHandler(adminController.getIndexerStatus));
+
+export default router;
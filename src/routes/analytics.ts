@@ -15,14 +15,20 @@ const router = Router();
  * Returns a paginated list of all prompts minted by this customer.
  * Useful for displaying prompt history or building dashboards.
  *
+ * With source=index the prompts come from the local on-chain index instead
+ * of PZERO, newest first, with activity points in wei and an id of the form
+ * chainId:transactionHash:logIndex.
+ *
  * @param {number} req.query.page - Page number (default: 1)
  * @param {number} req.query.limit - Items per page (default: 50, max: 100)
  * @param {string} req.query.chainId - Optional filter by chain ID
+ * @param {string} req.query.source - 'pzero' | 'index' (default: PM_ANALYTICS_SOURCE)
  * @returns {PZeroPromptsResponse} Paginated list of prompts
  *
- * @throws {400} If pagination parameters are invalid
+ * @throws {400} If pagination parameters or the source are invalid
  * @throws {401} If authentication is required but invalid/missing
  * @throws {429} If rate limit exceeded
+ * @throws {503} If source=index and the indexer is disabled (INDEXER_DISABLED)
  *
  * Example:
  * GET /api/analytics/prompts?page=1&limit=50&chainId=72080
@@ -66,17 +72,24 @@ router.get(
  * Returns analytics data showing prompt minting trends over time.
  * Useful for creating charts and graphs of minting activity.
  *
+ * With source=index the data is computed from the local on-chain index (UTC):
+ * day has 24 hourly data points, week the 7 days ending with the date, month
+ * every day of the date's calendar month. Activity points are in wei.
+ *
  * @param {string} req.query.period - Time period: 'day' | 'week' | 'month' (required)
  * @param {string} req.query.date - ISO date string (optional, defaults to current period)
+ * @param {string} req.query.source - 'pzero' | 'index' (default: PM_ANALYTICS_SOURCE)
  * @returns {PZeroAnalyticsResponse} Time-series analytics data
  *
- * @throws {400} If period is missing or invalid
+ * @throws {400} If period is missing or invalid, or the date or source is invalid
  * @throws {401} If authentication is required but invalid/missing
  * @throws {429} If rate limit exceeded
+ * @throws {503} If source=index and the indexer is disabled (INDEXER_DISABLED)
  *
  * Example:
  * GET /api/analytics/time-series?period=week
  * GET /api/analytics/time-series?period=day&date=2025-11-19
+ * GET /api/analytics/time-series?period=month&date=2025-11-19&source=index
  *
  * Response:
  * {
@@ -121,13 +134,21 @@ router.get(
  * Returns aggregate statistics across all customer prompts.
  * Useful for displaying summary metrics on dashboards.
  *
+ * With source=index the statistics are computed from the local on-chain
+ * index, with activity points in wei. Compare both sources to check PZERO's
+ * numbers against the chain.
+ *
+ * @param {string} req.query.source - 'pzero' | 'index' (default: PM_ANALYTICS_SOURCE)
  * @returns {PZeroStatsResponse} Overall statistics
  *
+ * @throws {400} If the source is invalid
  * @throws {401} If authentication is required but invalid/missing
  * @throws {429} If rate limit exceeded
+ * @throws {503} If source=index and the indexer is disabled (INDEXER_DISABLED)
  *
  * Example:
  * GET /api/analytics/stats
+ * GET /api/analytics/stats?source=index
  *
  * Response:
  * {
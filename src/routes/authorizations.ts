@@ -0,0 +1,74 @@
+import { Router } from 'express';
+import { requireAdmin } from '../middleware/auth';
+import { strictRateLimiter } from '../middleware/rateLimiter';
+import * as authorizationController from '../controllers/authorizationController';
+
+const router = Router();
+
+/**
+ * Verify a PZERO mint authorization.
+ *
+ * POST /api/authorizations/verify
+ *
+ * Support tool: rebuilds the message PZERO signs for a mint (the same
+ * message the PromptMiner contract checks), recovers the signer and compares
+ * it with the chain's pzeroSignerAddress from PM_CHAINS. Useful when a mint
+ * reverts with an invalid signature, e.g. to tell a wrong author or points
+ * amount from a PZERO key rotation.
+ *
+ * Authorizations returned by this service are already verified before they
+ * are used or handed to a frontend (AUTHORIZATION_SIGNER_MISMATCH).
+ *
+ * Rate limited like other sensitive endpoints, as every call recovers a
+ * signature.
+ *
+ * @param {string} req.body.signature - Authorization signature
+ * @param {string} req.body.promptHash - Prompt hash the authorization was issued for
+ * @param {string} req.body.author - Author the authorization was issued for
+ * @param {string|string[]} [req.body.activityPoints] - Activity points in wei (as sent by the client)
+ * @param {string} [req.body.encodedActivityPoints] - ABI-encoded activity points (as sent to PZERO)
+ * @param {string} [req.body.chainId] - Chain ID (default chain if omitted)
+ * @param {string} [req.body.signerAddress] - PromptMiner address (the chain's promptMinerAddress if omitted)
+ * @returns {AuthorizationVerification} Verification result; valid is false with a reason on mismatch
+ *
+ * @throws {400} If a parameter is invalid, or neither or both activity points forms are given
+ * @throws {401} If the API key is missing
+ * @throws {403} If the API key is not an admin key or admin endpoints are disabled
+ * @throws {429} If the rate limit is exceeded
+ * @throws {503} If the chain has no pzeroSignerAddress to verify against (PZERO_SIGNER_NOT_CONFIGURED)
+ *
+ * @example
+ * POST /api/authorizations/verify
+ * x-api-key: your-admin-api-key
+ * Content-Type: application/json
+ *
+ * {
+ *   "signature": "0xabcd...",
+ *   "promptHash": "0x1234567890abcdef...",
+ *   "author": "0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb1",
+ *   "activityPoints": "10000000000000000000",
+ *   "chainId": "97"
+ * }
+ *
+ * Response:
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "valid": false,
+ *     "recoveredSigner": "0x8ba1f109551bD432803012645Ac136ddd64DBA72",
+ *     "expectedSigner": "0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed",
+ *     "signedMessage": "0x0000...0061dfa2...",
+ *     "signerAddress": "0xdFa2B6e5B4e7C2a1...",
+ *     "chainId": "97",
+ *     "reason": "Signed by 0x8ba1f109551bD432803012645Ac136ddd64DBA72, not by the PZERO signer 0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed"
+ *   }
+ * }
+ */
+router.post(
+  '/verify',
+  strictRateLimiter,
+  requireAdmin,
+  authorizationController.verifyAuthorization
+);
+
+export default router;
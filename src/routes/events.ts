@@ -0,0 +1,43 @@
+import { Router } from 'express';
+import { authenticate } from '../middleware/auth';
+import { lenientRateLimiter } from '../middleware/rateLimiter';
+import * as eventController from '../controllers/eventController';
+
+const router = Router();
+
+/**
+ * Stream the mint progress of an API key (Server-Sent Events).
+ *
+ * GET /api/events
+ *
+ * Pushes the events of every mint started with the request's API key
+ * (x-api-key), in the same format as GET /api/prompts/:hash/events:
+ * authorized, submitted, confirmed and failed. An API key is always
+ * required, since it selects the events; mints started without one are
+ * only streamed per prompt.
+ *
+ * A client reconnecting with the Last-Event-ID header is first sent the
+ * events it missed, from the last PM_EVENTS_BUFFER_SIZE events.
+ *
+ * @returns {text/event-stream} MintEvent objects as event data
+ *
+ * @throws {401} If the API key is missing or invalid
+ * @throws {429} If rate limit exceeded
+ *
+ * @example
+ * GET /api/events
+ * Accept: text/event-stream
+ * x-api-key: your-api-key
+ *
+ * Response (200, text/event-stream):
+ * id: 9f86d081-57
+ * event: submitted
+ * data: {"id":"9f86d081-57","type":"submitted","promptHash":"0xabcd...","chainId":"72080","source":"relayer","author":"0x8ba1f1...","transactionHash":"0x9e2f...","timestamp":"2025-11-19T10:05:02.000Z"}
+ *
+ * id: 9f86d081-58
+ * event: failed
+ * data: {"id":"9f86d081-58","type":"failed","promptHash":"0x7788...","chainId":"72080","source":"backend-signed","author":"0x742d35...","error":{"code":"PROMPT_ALREADY_MINTED","message":"Prompt has already been minted. Prompt hash: 0x7788..."},"timestamp":"2025-11-19T10:05:03.000Z"}
+ */
+router.get('/', lenientRateLimiter, authenticate, eventController.streamApiKeyEvents);
+
+export default router;
@@ -3,6 +3,7 @@ import { ethers } from 'ethers';
 import { getDefaultChainConfig } from '../config';
 import { ApiResponse, HealthCheckResponse } from '../types';
 import { asyncHandler } from '../middleware/errorHandler';
+import * as blockchainService from '../services/blockchainService';
 
 const router = Router();
 
@@ -19,6 +20,10 @@ const startTime = Date.now();
  * - Uptime
  * - Version
  * - Blockchain connection status
+ * - Relayer wallet balances and thresholds per chain (from the last balance poll)
+ *
+ * The status is 'degraded' (still 200) while the relayer wallets of a chain
+ * are below the critical balance: reads work but mints are refused.
  *
  * This endpoint does not require authentication and is useful for:
  * - Load balancer health checks
@@ -50,6 +55,9 @@ router.get(
       blockchainStatus = 'disconnected';
     }
 
+    // Relayer balances from the last poll (no RPC calls)
+    const relayers = blockchainService.getRelayerBalanceSummaries();
+
     // Calculate uptime in seconds
     const uptime = Math.floor((Date.now() - startTime) / 1000);
 
@@ -57,6 +65,8 @@ router.get(
     let status: 'healthy' | 'degraded' | 'unhealthy' = 'healthy';
     if (blockchainStatus === 'disconnected') {
       status = 'unhealthy';
+    } else if (relayers.some((relayer) => relayer.level === 'critical')) {
+      status = 'degraded';
     }
 
     const response: ApiResponse<HealthCheckResponse> = {
@@ -72,12 +82,13 @@ router.get(
             chainId,
             blockNumber,
           },
+          relayers,
         },
       },
     };
 
     // Return appropriate status code
-    const statusCode = status === 'healthy' ? 200 : 503;
+    const statusCode = status === 'unhealthy' ? 503 : 200;
     res.status(statusCode).json(response);
   })
 );
@@ -3,6 +3,11 @@ import healthRoutes from './health';
 import promptRoutes from './prompts';
 import activityPointsRoutes from './activityPoints';
 import analyticsRoutes from './analytics';
+import jobRoutes from './jobs';
+import transactionRoutes from './transactions';
+import adminRoutes from './admin';
+import authorizationRoutes from './authorizations';
+import eventRoutes from './events';
 import { asyncHandler } from '../middleware/errorHandler';
 import * as promptController from '../controllers/promptController';
 import { conditionalAuth } from '../middleware/auth';
@@ -18,7 +23,13 @@ import { config } from '../config';
  * - /api/prompts - Prompt minting and management (configurable auth)
  * - /api/activity-points - Activity points balance queries (configurable auth)
  * - /api/analytics - Customer analytics and statistics (configurable auth)
+ * - /api/jobs - Asynchronous mint job status (configurable auth)
+ * - /api/transactions - Mint transaction status tracking (configurable auth)
+ * - /api/admin - Backend wallet operations (admin API key required)
+ * - /api/authorizations - PZERO authorization verification (admin API key required)
+ * - /api/events - Mint progress stream of the calling API key (API key required)
  * - /api/quota - PZERO quota status (configurable auth)
+ * - /api/sponsorship - Remaining gas sponsorship (configurable auth)
  *
  * @example
  * import routes from './routes';
@@ -33,6 +44,11 @@ router.use('/health', healthRoutes);
 router.use('/api/prompts', promptRoutes);
 router.use('/api/activity-points', activityPointsRoutes);
 router.use('/api/analytics', analyticsRoutes);
+router.use('/api/jobs', jobRoutes);
+router.use('/api/transactions', transactionRoutes);
+router.use('/api/admin', adminRoutes);
+router.use('/api/authorizations', authorizationRoutes);
+router.use('/api/events', eventRoutes);
 
 // Quota endpoint - useful for monitoring PZERO usage
 router.get(
@@ -41,4 +57,49 @@ router.get(
   asyncHandler(promptController.getQuota)
 );
 
+/**
+ * Remaining gas sponsorship.
+ *
+ * GET /api/sponsorship?author=0x...&chainId=72080
+ *
+ * Shows how much of its daily and monthly gas budget the calling API key
+ * (x-api-key) and, if given, an author have left on a chain. Budgets are
+ * native-token amounts (PM_GAS_BUDGET_*, or the chain's gasBudget); null
+ * means unlimited. Spending is reset at the start of each UTC day / month.
+ *
+ * @param {string} req.query.author - Optional author address
+ * @param {string} req.query.chainId - Optional chain ID (default: first chain)
+ * @returns {GasSponsorshipStatus} Budgets, spending and remaining amounts
+ *
+ * @throws {400} If the author or chain is invalid
+ * @throws {401} If authentication is required but invalid/missing
+ *
+ * @example
+ * GET /api/sponsorship?author=0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb1
+ * x-api-key: your-api-key
+ *
+ * Response:
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "chainId": "72080",
+ *     "apiKey": {
+ *       "id": "3f2a9c1b7e04",
+ *       "daily": { "budget": "1.0", "spent": "0.25", "remaining": "0.75", "resetsAt": "2025-11-20T00:00:00.000Z" },
+ *       "monthly": { "budget": null, "spent": "4.5", "remaining": null, "resetsAt": "2025-12-01T00:00:00.000Z" }
+ *     },
+ *     "author": {
+ *       "address": "0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb1",
+ *       "daily": { "budget": "0.01", "spent": "0.002", "remaining": "0.008", "resetsAt": "2025-11-20T00:00:00.000Z" },
+ *       "monthly": { "budget": "0.1", "spent": "0.03", "remaining": "0.07", "resetsAt": "2025-12-01T00:00:00.000Z" }
+ *     }
+ *   }
+ * }
+ */
+router.get(
+  '/api/sponsorship',
+  conditionalAuth(config.auth.requireAuthRead),
+  asyncHandler(promptController.getGasSponsorship)
+);
+
 export default router;
@@ -0,0 +1,67 @@
+import { Router } from 'express';
+import { config } from '../config';
+import { conditionalAuth } from '../middleware/auth';
+import { lenientRateLimiter } from '../middleware/rateLimiter';
+import { asyncHandler } from '../middleware/errorHandler';
+import * as jobController from '../controllers/jobController';
+
+const router = Router();
+
+/**
+ * Get the status of a mint job.
+ *
+ * GET /api/jobs/:id
+ *
+ * Reports the progress of a backend-signed mint accepted by
+ * POST /api/prompts/mint-for-user. Status moves through
+ * queued → authorizing → submitted → confirmed, or ends in failed.
+ *
+ * A confirmed job's finality is 'included' until the mint has the chain's
+ * `confirmations`, then 'final'. If the transaction is reorged out first,
+ * its hash is added to reorgedTransactions and the job goes back to queued
+ * (at most PM_REORG_MAX_REQUEUES times, then it fails with MINT_REORGED).
+ *
+ * @param {string} req.params.id - Job ID returned when the mint was accepted
+ * @returns {MintJob} Job status, transaction hash and receipt
+ *
+ * @throws {401} If authentication is required but invalid/missing
+ * @throws {404} If the job does not exist
+ * @throws {429} If rate limit exceeded
+ *
+ * @example
+ * GET /api/jobs/3f0c2a4e-8b1d-4c55-9a8e-2f1d6b7c9e10
+ * x-api-key: your-api-key (optional based on config)
+ *
+ * Response:
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "id": "3f0c2a4e-8b1d-4c55-9a8e-2f1d6b7c9e10",
+ *     "status": "confirmed",
+ *     "promptHash": "0x...",
+ *     "author": "0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb1",
+ *     "chainId": "72080",
+ *     "transactionHash": "0x...",
+ *     "contentURI": "ipfs://bafkrei...",
+ *     "receipt": {
+ *       "blockNumber": 12345,
+ *       "gasUsed": "450000",
+ *       "effectiveGasPrice": "1500000000",
+ *       "feePaid": "675000000000000",
+ *       "status": 1
+ *     },
+ *     "finality": "final",
+ *     "requiredConfirmations": 12,
+ *     "createdAt": "2025-11-19T10:00:00.000Z",
+ *     "updatedAt": "2025-11-19T10:00:12.000Z"
+ *   }
+ * }
+ */
+router.get(
+  '/:id',
+  lenientRateLimiter,
+  conditionalAuth(config.auth.requireAuthRead),
+  asyncHandler(jobController.getJob)
+);
+
+export default router;
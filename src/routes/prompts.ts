@@ -3,10 +3,18 @@ import { config } from '../config';
 import { conditionalAuth } from '../middleware/auth';
 import { strictRateLimiter, lenientRateLimiter } from '../middleware/rateLimiter';
 import { asyncHandler } from '../middleware/errorHandler';
+import { idempotency } from '../middleware/idempotency';
 import * as promptController from '../controllers/promptController';
+import * as eventController from '../controllers/eventController';
 
 const router = Router();
 
+/*
+ * All minting and authorization routes honor an optional Idempotency-Key
+ * header: retries with the same key and body replay the first response
+ * instead of consuming PZERO quota or minting again.
+ */
+
 /**
  * Get PZERO authorization for user-signed minting.
  *
@@ -22,8 +30,11 @@ const router = Router();
  * @throws {400} If request validation fails
  * @throws {401} If authentication is required but invalid/missing
  * @throws {402} If PZERO quota exceeded
+ * @throws {409} If the prompt has already been minted (PROMPT_ALREADY_MINTED)
  * @throws {429} If rate limit exceeded
  * @throws {500} If PZERO authorization fails
+ * @throws {502} If PZERO's authorization is malformed (INVALID_AUTHORIZATION_RESPONSE) or its
+ *   signature does not verify (AUTHORIZATION_SIGNER_MISMATCH)
  *
  * @example
  * POST /api/prompts/authorize
@@ -40,12 +51,17 @@ const router = Router();
  *   "success": true,
  *   "data": {
  *     "promptHash": "0x...",
+ *     "canonicalPrompt": "What is artificial intelligence?",
+ *     "canonicalizationVersion": "v1:NFC,collapse-whitespace,strip-zero-width",
  *     "authorization": {
- *       "signature": "0x..."
+ *       "signature": "0x...",
+ *       "nonce": "42",
+ *       "expiry": 1735401600
  *     },
  *     "mintData": {
  *       "prompt": "What is artificial intelligence?",
- *       "author": "0x..."
+ *       "author": "0x...",
+ *       "contentURI": "ipfs://bafkrei..."
  *     },
  *     "transaction": {
  *       "to": "0x2a8094B1021990989c7C17A983fa533DDC142a64",
@@ -59,6 +75,7 @@ router.post(
   '/authorize',
   strictRateLimiter,
   conditionalAuth(config.auth.requireAuthMint),
+  idempotency,
   asyncHandler(promptController.authorizePromptMint)
 );
 
@@ -80,9 +97,14 @@ router.post(
  *
  * @throws {400} If request validation fails
  * @throws {401} If authentication is required but invalid/missing
- * @throws {402} If PZERO quota exceeded
+ * @throws {402} If PZERO quota exceeded, or the gas budget of the API key or author is used up
+ *   (GAS_BUDGET_EXCEEDED)
+ * @throws {409} If the prompt has already been minted (PROMPT_ALREADY_MINTED)
  * @throws {429} If rate limit exceeded
  * @throws {500} If PZERO authorization fails
+ * @throws {502} If PZERO's authorization is malformed (INVALID_AUTHORIZATION_RESPONSE) or its
+ *   signature does not verify (AUTHORIZATION_SIGNER_MISMATCH)
+ * @throws {503} If the relayer wallets are below the critical balance (RELAYER_FUNDS_CRITICAL)
  *
  * @example
  * POST /api/prompts/signable-mint-data
@@ -101,6 +123,9 @@ router.post(
  *   "success": true,
  *   "data": {
  *     "promptHash": "0x...",
+ *     "canonicalPrompt": "What is artificial intelligence?",
+ *     "canonicalizationVersion": "v1:NFC,collapse-whitespace,strip-zero-width",
+ *     "contentURI": "ipfs://bafkrei...",
  *     "domain": {
  *       "name": "ERC2771Forwarder",
  *       "version": "1",
@@ -120,7 +145,9 @@ router.post(
  *       "data": "0x..."
  *     },
  *     "authorization": {
- *       "signature": "0x..."
+ *       "signature": "0x...",
+ *       "nonce": "42",
+ *       "expiry": 1735401600
  *     }
  *   }
  * }
@@ -129,6 +156,7 @@ router.post(
   '/signable-mint-data',
   strictRateLimiter,
   conditionalAuth(config.auth.requireAuthMint),
+  idempotency,
   asyncHandler(promptController.getSignableMintData)
 );
 
@@ -141,11 +169,26 @@ router.post(
  * Receives user's signature and request data, then submits the
  * meta-transaction to the ERC2771 forwarder. The relayer pays gas.
  *
+ * Only mints are relayed: `to` must be the chain's PromptMiner, `value`
+ * must be 0 and `data` must call mint(bytes32,string,bytes,bytes). The
+ * embedded PZERO authorization must match the prompt hash, activity points
+ * and author it was issued for. Authorizations not issued by this server
+ * must verify against the chain's pzeroSignerAddress, so chains without one
+ * only relay authorizations this server issued. The EIP-712
+ * signature, forwarder nonce and deadline are checked before sending, so
+ * requests the forwarder would reject cost no gas.
+ *
+ * The response is sent once the transaction is included in a block.
+ * finality is 'final' when the chain's `confirmations` is 1, otherwise
+ * 'included': follow GET /api/transactions/:hash until it is final. A
+ * relayed mint reorged out of the chain is not sent again; its status
+ * becomes dropped with reorged set.
+ *
  * @param {object} req.body - Meta-transaction execution data
  * @param {object} req.body.requestForSigning - The signed request data
  * @param {string} req.body.requestForSigning.from - User's address
  * @param {string} req.body.requestForSigning.to - PromptMiner contract address
- * @param {string} req.body.requestForSigning.value - Value to send (usually "0")
+ * @param {string} req.body.requestForSigning.value - Value to send (must be "0")
  * @param {string} req.body.requestForSigning.gas - Gas limit
  * @param {string} req.body.requestForSigning.nonce - Forwarder nonce
  * @param {string} req.body.requestForSigning.deadline - Deadline timestamp
@@ -153,10 +196,17 @@ router.post(
  * @param {string} req.body.forwardSignature - User's EIP-712 signature
  * @returns {object} Transaction receipt
  *
- * @throws {400} If request validation fails
- * @throws {401} If authentication is required but invalid/missing
+ * @throws {400} If request validation fails, or the request is not a relayable mint
+ *   (META_TX_VALUE_NOT_ALLOWED, META_TX_TARGET_NOT_ALLOWED, META_TX_FUNCTION_NOT_ALLOWED,
+ *   META_TX_INVALID_CALLDATA, META_TX_AUTHORIZATION_MISMATCH, META_TX_AUTHORIZATION_INVALID),
+ *   or the forwarder would reject it (META_TX_SIGNATURE_INVALID, META_TX_NONCE_STALE,
+ *   META_TX_NONCE_MISMATCH, META_TX_DEADLINE_EXPIRED)
+ * @throws {401} If authentication is required but invalid/missing, or the
+ *   embedded PZERO authorization has expired (AUTHORIZATION_EXPIRED)
+ * @throws {402} If the gas budget of the API key or author is used up (GAS_BUDGET_EXCEEDED)
  * @throws {429} If rate limit exceeded
  * @throws {500} If meta-transaction execution fails
+ * @throws {503} If the relayer wallets are below the critical balance (RELAYER_FUNDS_CRITICAL)
  *
  * @example
  * POST /api/prompts/execute-metatx
@@ -183,7 +233,11 @@ router.post(
  *     "transactionHash": "0x...",
  *     "blockNumber": 12345,
  *     "from": "0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb1",
- *     "gasUsed": "450000"
+ *     "gasUsed": "450000",
+ *     "effectiveGasPrice": "1500000000",
+ *     "feePaid": "675000000000000",
+ *     "finality": "included",
+ *     "requiredConfirmations": 12
  *   }
  * }
  */
@@ -191,6 +245,7 @@ router.post(
   '/execute-metatx',
   strictRateLimiter,
   conditionalAuth(config.auth.requireAuthMint),
+  idempotency,
   asyncHandler(promptController.executeMetaTx)
 );
 
@@ -204,16 +259,20 @@ router.post(
  * Specified user receives Activity Points without needing to sign or pay gas.
  * This is the simplest approach - backend has full control.
  *
+ * The mint is processed asynchronously: the request is queued as a job and
+ * 202 Accepted is returned right away. Poll GET /api/jobs/:id for progress
+ * (queued, authorizing, submitted, confirmed or failed).
+ *
  * @param {object} req.body - Mint request data
  * @param {string} req.body.prompt - The prompt text
  * @param {string} req.body.author - Ethereum address that will receive Activity Points
- * @returns {object} Transaction receipt and mint details
+ * @returns {object} Job ID and initial job status
  *
  * @throws {400} If request validation fails
  * @throws {401} If authentication is required but invalid/missing
- * @throws {402} If PZERO quota exceeded
+ * @throws {402} If the gas budget of the API key or author is used up (GAS_BUDGET_EXCEEDED)
  * @throws {429} If rate limit exceeded
- * @throws {500} If blockchain transaction fails
+ * @throws {503} If the relayer wallets are below the critical balance (RELAYER_FUNDS_CRITICAL)
  *
  * @example
  * POST /api/prompts/mint-for-user
@@ -225,14 +284,16 @@ router.post(
  *   "author": "0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb1"
  * }
  *
- * Response:
+ * Response (202 Accepted):
  * {
  *   "success": true,
  *   "data": {
- *     "transactionHash": "0x...",
+ *     "jobId": "3f0c2a4e-8b1d-4c55-9a8e-2f1d6b7c9e10",
+ *     "status": "queued",
  *     "promptHash": "0x...",
- *     "blockNumber": 12345,
- *     "gasUsed": "450000"
+ *     "canonicalPrompt": "What is artificial intelligence?",
+ *     "canonicalizationVersion": "v1:NFC,collapse-whitespace,strip-zero-width",
+ *     "statusUrl": "/api/jobs/3f0c2a4e-8b1d-4c55-9a8e-2f1d6b7c9e10"
  *   }
  * }
  */
@@ -240,9 +301,302 @@ router.post(
   '/mint-for-user',
   strictRateLimiter,
   conditionalAuth(config.auth.requireAuthMint),
+  idempotency,
   asyncHandler(promptController.mintPromptForUser)
 );
 
+/**
+ * Mint many prompts on behalf of users (batch backend-signed mode).
+ *
+ * POST /api/prompts/mint-batch
+ *
+ * BATCH BACKEND-SIGNED MODE:
+ * Canonicalizes, hashes and dedupes all prompts locally, requests PZERO authorizations
+ * concurrently and submits the mints from the backend wallet. Each item
+ * gets its own success or failure, so one bad item does not sink the batch.
+ * Failed mints carry the code of their failure: PROMPT_ALREADY_MINTED,
+ * AUTHORIZATION_SIGNATURE_INVALID, TRANSACTION_REVERTED (other reverts,
+ * decoded in the message) or MINT_FAILED (node errors).
+ *
+ * Minted items report finality 'included' until they have the chain's
+ * `confirmations` (follow GET /api/transactions/:hash). Items reorged out
+ * of the chain are not sent again; their status becomes dropped with
+ * reorged set.
+ *
+ * @param {object} req.body - Batch mint request data
+ * @param {BatchMintItem[]} req.body.items - Items to mint ({prompt, author, activityPoints?, chainId?})
+ * @returns {BatchMintResponse} Per-item results in request order
+ *
+ * @throws {400} If items is missing, empty or larger than PM_MINT_BATCH_MAX_ITEMS
+ * @throws {401} If authentication is required but invalid/missing
+ * @throws {429} If rate limit exceeded
+ *
+ * @example
+ * POST /api/prompts/mint-batch
+ * Content-Type: application/json
+ * x-api-key: your-api-key
+ *
+ * {
+ *   "items": [
+ *     { "prompt": "What is AI?", "author": "0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb1" },
+ *     { "prompt": "What is AI?", "author": "0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb1" }
+ *   ]
+ * }
+ *
+ * Response:
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "total": 2,
+ *     "succeeded": 1,
+ *     "failed": 1,
+ *     "canonicalizationVersion": "v1:NFC,collapse-whitespace,strip-zero-width",
+ *     "results": [
+ *       {
+ *         "index": 0,
+ *         "success": true,
+ *         "promptHash": "0x...",
+ *         "canonicalPrompt": "What is AI?",
+ *         "data": {
+ *           "transactionHash": "0x...",
+ *           "contentURI": "ipfs://bafkrei...",
+ *           "blockNumber": 12345,
+ *           "gasUsed": "450000",
+ *           "effectiveGasPrice": "1500000000",
+ *           "feePaid": "675000000000000",
+ *           "finality": "included",
+ *           "requiredConfirmations": 12
+ *         }
+ *       },
+ *       {
+ *         "index": 1,
+ *         "success": false,
+ *         "promptHash": "0x...",
+ *         "canonicalPrompt": "What is AI?",
+ *         "error": { "code": "DUPLICATE_PROMPT", "message": "Prompt duplicates item 0 in this batch" }
+ *       }
+ *     ]
+ *   }
+ * }
+ */
+router.post(
+  '/mint-batch',
+  strictRateLimiter,
+  conditionalAuth(config.auth.requireAuthMint),
+  idempotency,
+  asyncHandler(promptController.mintPromptBatch)
+);
+
+/**
+ * Simulate a mint without broadcasting it (dry run).
+ *
+ * POST /api/prompts/simulate
+ *
+ * Runs the backend-signed (mint-for-user) or meta-transaction
+ * (execute-metatx) flow up to submission, then estimates gas against the
+ * PromptMiner or ERC2771 forwarder instead of sending the transaction.
+ * Reverts are decoded from the contract ABIs (e.g. PromptAlreadyMinted,
+ * ActionSignatureInvalid). Meta-transactions the relayer refuses to send
+ * (see execute-metatx) are rejected with the same 400 errors.
+ *
+ * The backend-signed simulation requests a real PZERO authorization
+ * (hash only), which counts against the PZERO quota.
+ *
+ * @param {object} req.body - Body of mint-for-user, or of execute-metatx (requestForSigning, forwardSignature)
+ * @returns {MintSimulationResponse} Gas estimate and cost, or the decoded revert reason
+ *
+ * @throws {400} If request validation fails, or the meta-transaction would be refused (META_TX_*)
+ * @throws {401} If authentication is required but invalid/missing
+ * @throws {429} If rate limit exceeded
+ * @throws {500} If simulation fails (e.g. RPC unreachable)
+ *
+ * @example
+ * POST /api/prompts/simulate
+ * x-api-key: your-api-key (optional based on config)
+ * Content-Type: application/json
+ *
+ * {
+ *   "prompt": "What is AI?",
+ *   "author": "0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb1"
+ * }
+ *
+ * Response (would succeed):
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "mode": "backend-signed",
+ *     "promptHash": "0x...",
+ *     "canonicalPrompt": "What is AI?",
+ *     "canonicalizationVersion": "v1:NFC,collapse-whitespace,strip-zero-width",
+ *     "wouldSucceed": true,
+ *     "estimatedGas": "375000",
+ *     "gasLimit": "450000",
+ *     "fees": { "maxFeePerGas": "3000000000", "maxPriorityFeePerGas": "1000000000" },
+ *     "estimatedCost": "562500000000000",
+ *     "estimatedCostEther": "0.0005625",
+ *     "maxCost": "1350000000000000"
+ *   }
+ * }
+ *
+ * Response (would revert):
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "mode": "meta-transaction",
+ *     "wouldSucceed": false,
+ *     "revert": {
+ *       "name": "ERC2771ForwarderInvalidSigner",
+ *       "contract": "ERC2771Forwarder",
+ *       "args": { "signer": "0x...", "from": "0x..." },
+ *       "message": "Invalid signature. The signature does not match the request.",
+ *       "data": "0xc9..."
+ *     }
+ *   }
+ * }
+ */
+router.post(
+  '/simulate',
+  strictRateLimiter,
+  conditionalAuth(config.auth.requireAuthMint),
+  asyncHandler(promptController.simulateMint)
+);
+
+/**
+ * Migrate a minted prompt to another PromptMiner contract (backend-signed).
+ *
+ * POST /api/prompts/migrate
+ *
+ * Moves a prompt from the chain's PromptMiner to another PromptMiner and
+ * data point by calling migratePrompt with the backend wallet (which pays
+ * for gas). The target PromptMiner/data point pair must be listed in the
+ * chain's migrationTargets in PM_CHAINS, and the target PromptMiner must be
+ * allowed to manage the data point in the DataIndex (allowDataManager).
+ *
+ * The prompt can be given as text (canonicalized and hashed) or as its hash.
+ *
+ * @param {string} req.body.prompt - Prompt text or prompt hash (0x...)
+ * @param {string} req.body.targetPromptMiner - PromptMiner contract to migrate to
+ * @param {string} req.body.targetDataPoint - Data point to migrate to
+ * @param {string} req.body.chainId - Optional chain ID (default: first configured chain)
+ * @returns {MigratePromptResponse} Migration transaction details
+ *
+ * @throws {400} If validation fails or the target is not configured (MIGRATION_TARGET_NOT_CONFIGURED)
+ * @throws {401} If authentication is required but invalid/missing
+ * @throws {404} If the prompt is not minted on the source PromptMiner (PROMPT_NOT_MINTED)
+ * @throws {409} If the prompt is already on the target PromptMiner (PROMPT_ALREADY_MIGRATED)
+ * @throws {429} If rate limit exceeded
+ * @throws {500} If the migration would revert or its transaction fails
+ * @throws {501} If no PromptMiner ABI declares migratePrompt or PM_MIGRATION_ARGS does not bind its inputs (MIGRATION_NOT_SUPPORTED)
+ *
+ * @example
+ * POST /api/prompts/migrate
+ * x-api-key: your-api-key (optional based on config)
+ * Content-Type: application/json
+ *
+ * {
+ *   "prompt": "0x1234567890abcdef...",
+ *   "targetPromptMiner": "0x5FbDB2315678afecb367f032d93F642f64180aa3",
+ *   "targetDataPoint": "0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0"
+ * }
+ *
+ * Response:
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "promptHash": "0x1234567890abcdef...",
+ *     "sourcePromptMiner": "0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512",
+ *     "targetPromptMiner": "0x5FbDB2315678afecb367f032d93F642f64180aa3",
+ *     "targetDataPoint": "0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0",
+ *     "transactionHash": "0xabc...",
+ *     "blockNumber": 12345,
+ *     "gasUsed": "98000",
+ *     "effectiveGasPrice": "1000000000",
+ *     "feePaid": "98000000000000"
+ *   }
+ * }
+ */
+router.post(
+  '/migrate',
+  strictRateLimiter,
+  conditionalAuth(config.auth.requireAuthMigrate),
+  idempotency,
+  asyncHandler(promptController.migratePrompt)
+);
+
+/**
+ * Migrate many prompts to other PromptMiner contracts in one request (backend-signed).
+ *
+ * POST /api/prompts/migrate-batch
+ *
+ * Each item takes the body of POST /api/prompts/migrate and is migrated
+ * independently: one failing item (e.g. PROMPT_NOT_MINTED) does not affect
+ * the others. Transactions are sent in order from the backend wallet.
+ * At most PM_MINT_BATCH_MAX_ITEMS items are accepted per request.
+ *
+ * @param {Array} req.body.items - Migration requests ({prompt, targetPromptMiner, targetDataPoint, chainId?})
+ * @returns {BatchMigrateResponse} Per-item results, in request order
+ *
+ * @throws {400} If items is missing, empty or too large
+ * @throws {401} If authentication is required but invalid/missing
+ * @throws {429} If rate limit exceeded
+ *
+ * @example
+ * POST /api/prompts/migrate-batch
+ * x-api-key: your-api-key (optional based on config)
+ * Content-Type: application/json
+ *
+ * {
+ *   "items": [
+ *     { "prompt": "What is AI?", "targetPromptMiner": "0x5FbDB2...", "targetDataPoint": "0x9fE467..." },
+ *     { "prompt": "0xabcdef...", "targetPromptMiner": "0x5FbDB2...", "targetDataPoint": "0x9fE467..." }
+ *   ]
+ * }
+ *
+ * Response:
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "total": 2,
+ *     "succeeded": 1,
+ *     "failed": 1,
+ *     "results": [
+ *       {
+ *         "index": 0,
+ *         "success": true,
+ *         "promptHash": "0x1234...",
+ *         "canonicalPrompt": "What is AI?",
+ *         "data": {
+ *           "sourcePromptMiner": "0xe7f172...",
+ *           "targetPromptMiner": "0x5FbDB2...",
+ *           "targetDataPoint": "0x9fE467...",
+ *           "transactionHash": "0xabc...",
+ *           "blockNumber": 12345,
+ *           "gasUsed": "98000",
+ *           "effectiveGasPrice": "1000000000",
+ *           "feePaid": "98000000000000"
+ *         }
+ *       },
+ *       {
+ *         "index": 1,
+ *         "success": false,
+ *         "promptHash": "0xabcdef...",
+ *         "error": {
+ *           "code": "PROMPT_NOT_MINTED",
+ *           "message": "Prompt is not minted on PromptMiner 0xe7f172.... Prompt hash: 0xabcdef..."
+ *         }
+ *       }
+ *     ]
+ *   }
+ * }
+ */
+router.post(
+  '/migrate-batch',
+  strictRateLimiter,
+  conditionalAuth(config.auth.requireAuthMigrate),
+  idempotency,
+  asyncHandler(promptController.migratePromptBatch)
+);
+
 /**
  * Check if a prompt is minted.
  *
@@ -270,4 +624,162 @@ router.get(
   asyncHandler(promptController.getPromptStatus)
 );
 
+/**
+ * Stream the mint progress of a prompt (Server-Sent Events).
+ *
+ * GET /api/prompts/:hash/events
+ *
+ * Pushes an event at each step of the prompt's mints in any minting mode,
+ * instead of polling:
+ * - authorized: PZERO authorized the mint
+ * - submitted: the mint transaction was broadcast (transactionHash)
+ * - confirmed: the mint transaction was mined (transactionHash,
+ *   blockNumber, finality)
+ * - failed: the mint failed (error.code, as the minting endpoints return it)
+ *
+ * User-signed mints only publish authorized (or failed): the user's wallet
+ * submits the transaction. The stream stays open until the client closes
+ * it; idle streams are sent a comment every PM_EVENTS_HEARTBEAT_MS.
+ *
+ * Each event's id is `<bootId>-<seq>`: a sequence number prefixed with the
+ * ID of the process that published it. A client reconnecting with the
+ * Last-Event-ID header (EventSource does this automatically) is first sent
+ * the events it missed, from the last PM_EVENTS_BUFFER_SIZE events; after a
+ * restart, it is sent all of them.
+ *
+ * @param {string} req.params.hash - Prompt hash (keccak256)
+ * @returns {text/event-stream} MintEvent objects as event data
+ *
+ * @throws {400} If hash format is invalid
+ * @throws {401} If authentication is required but invalid/missing
+ * @throws {429} If rate limit exceeded
+ *
+ * @example
+ * GET /api/prompts/0x1234567890abcdef.../events
+ * Accept: text/event-stream
+ * x-api-key: your-api-key (optional based on config)
+ * Last-Event-ID: 9f86d081-41 (when reconnecting)
+ *
+ * Response (200, text/event-stream):
+ * id: 9f86d081-42
+ * event: authorized
+ * data: {"id":"9f86d081-42","type":"authorized","promptHash":"0x1234...","chainId":"72080","source":"backend-signed","author":"0x742d35...","timestamp":"2025-11-19T10:00:01.000Z"}
+ *
+ * id: 9f86d081-43
+ * event: submitted
+ * data: {"id":"9f86d081-43","type":"submitted",...,"transactionHash":"0x5c504e...","timestamp":"2025-11-19T10:00:02.000Z"}
+ *
+ * id: 9f86d081-44
+ * event: confirmed
+ * data: {"id":"9f86d081-44","type":"confirmed",...,"transactionHash":"0x5c504e...","blockNumber":12345,"finality":"final","timestamp":"2025-11-19T10:00:12.000Z"}
+ */
+router.get(
+  '/:hash/events',
+  lenientRateLimiter,
+  conditionalAuth(config.auth.requireAuthRead),
+  eventController.streamPromptEvents
+);
+
+/**
+ * Read the content of a minted prompt.
+ *
+ * GET /api/prompts/:hash/content
+ *
+ * Reads the prompt's contentURI from the PromptMiner contract and resolves
+ * it through the content store for its scheme (local:// or ipfs://).
+ * Prompts minted while PM_CONTENT_STORE was none have no content. Encrypted
+ * content is returned as stored (encrypted: true); see POST /:hash/decrypt.
+ *
+ * @param {string} req.params.hash - Prompt hash (keccak256)
+ * @param {string} [req.query.chainId] - Optional chain ID (default chain if omitted)
+ * @returns {PromptContentResponse} Content URI and stored content
+ *
+ * @throws {400} If hash format is invalid
+ * @throws {401} If authentication is required but invalid/missing
+ * @throws {404} If the prompt is not minted (PROMPT_NOT_MINTED) or has no content (CONTENT_NOT_FOUND)
+ * @throws {422} If the content URI scheme is not supported (UNSUPPORTED_CONTENT_URI)
+ * @throws {429} If rate limit exceeded
+ * @throws {502} If the content store cannot be reached (CONTENT_STORE_ERROR)
+ *
+ * @example
+ * GET /api/prompts/0x1234567890abcdef.../content
+ * x-api-key: your-api-key (optional based on config)
+ *
+ * Response:
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "promptHash": "0x1234567890abcdef...",
+ *     "contentURI": "ipfs://bafkreigh2akiscaildc...",
+ *     "contentType": "application/json",
+ *     "content": "{\"promptHash\":\"0x1234...\",\"prompt\":\"What is AI?\",\"author\":\"0x742d35...\",...}",
+ *     "encrypted": false
+ *   }
+ * }
+ */
+router.get(
+  '/:hash/content',
+  lenientRateLimiter,
+  conditionalAuth(config.auth.requireAuthRead),
+  asyncHandler(promptController.getPromptContent)
+);
+
+/**
+ * Decrypt the content of a minted prompt.
+ *
+ * POST /api/prompts/:hash/decrypt
+ *
+ * With PM_CONTENT_ENCRYPTION_ENABLED, content stores only hold ciphertext.
+ * This endpoint returns the plaintext to:
+ * - admins, identified by an admin API key (PM_ADMIN_API_KEYS) in x-api-key
+ * - the prompt's author (as recorded on chain), proven by a personal_sign
+ *   signature over the message below, made at most
+ *   PM_CONTENT_DECRYPT_SIGNATURE_TTL_SECONDS ago:
+ *
+ *   Decrypt prompt content
+ *   Prompt: <promptHash, lowercase>
+ *   Timestamp: <timestamp>
+ *
+ * @param {string} req.params.hash - Prompt hash (keccak256)
+ * @param {object} req.body - Author proof (omit for admin API keys)
+ * @param {string} [req.body.signature] - Author's signature over the decrypt message
+ * @param {number} [req.body.timestamp] - Unix timestamp (seconds) used in the message
+ * @param {string} [req.body.chainId] - Optional chain ID (default chain if omitted)
+ * @returns {PromptContentResponse} Decrypted content
+ *
+ * @throws {400} If the hash, signature or timestamp is malformed
+ * @throws {401} If no proof is given, or the signature is invalid or expired
+ * @throws {403} If the signer is not the prompt's author (NOT_PROMPT_AUTHOR)
+ * @throws {404} If the prompt is not minted or has no content
+ * @throws {409} If the content is not encrypted (CONTENT_NOT_ENCRYPTED)
+ * @throws {429} If rate limit exceeded
+ * @throws {503} If no master key is configured (DECRYPTION_UNAVAILABLE)
+ *
+ * @example
+ * POST /api/prompts/0x1234567890abcdef.../decrypt
+ * Content-Type: application/json
+ *
+ * {
+ *   "signature": "0x...",
+ *   "timestamp": 1735401600
+ * }
+ *
+ * Response:
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "promptHash": "0x1234567890abcdef...",
+ *     "contentURI": "ipfs://bafkreigh2akiscaildc...",
+ *     "contentType": "application/json",
+ *     "content": "{\"promptHash\":\"0x1234...\",\"prompt\":\"What is AI?\",...}",
+ *     "encrypted": false
+ *   }
+ * }
+ */
+router.post(
+  '/:hash/decrypt',
+  strictRateLimiter,
+  asyncHandler(promptController.decryptPromptContent)
+);
+
 export default router;
@@ -0,0 +1,144 @@
+import { Router } from 'express';
+import { config } from '../config';
+import { conditionalAuth } from '../middleware/auth';
+import { lenientRateLimiter, standardRateLimiter } from '../middleware/rateLimiter';
+import { asyncHandler } from '../middleware/errorHandler';
+import * as transactionController from '../controllers/transactionController';
+
+const router = Router();
+
+/**
+ * Register a user-signed mint transaction for status tracking.
+ *
+ * POST /api/transactions
+ *
+ * In user-signed mode the user's wallet submits the mint, so the backend
+ * does not see the transaction. Register its hash to follow it with
+ * GET /api/transactions/:hash. Backend-signed and relayed mints are tracked
+ * automatically and need no registration. Registering the same transaction
+ * again returns the existing record.
+ *
+ * If the chain's node already knows the transaction, it must call mint on
+ * the chain's PromptMiner (directly, or as a meta-transaction through its
+ * trusted forwarder) for the given prompt hash.
+ *
+ * @param {object} req.body - Transaction to track
+ * @param {string} req.body.transactionHash - Hash of the submitted transaction
+ * @param {string} req.body.promptHash - Hash of the prompt the transaction mints
+ * @param {string} req.body.chainId - Optional chain ID (default: first chain)
+ * @returns {TransactionStatusInfo} The tracked transaction (status pending)
+ *
+ * @throws {400} If validation fails or the chain is not configured
+ * @throws {401} If authentication is required but invalid/missing
+ * @throws {409} If the hash is already tracked for another prompt or chain and the transaction
+ *   is not on chain yet (TRANSACTION_ALREADY_REGISTERED)
+ * @throws {422} If the transaction does not mint the prompt on the chain's PromptMiner
+ *   (TRANSACTION_MISMATCH)
+ * @throws {429} If rate limit exceeded
+ *
+ * @example
+ * POST /api/transactions
+ * Content-Type: application/json
+ * x-api-key: your-api-key (optional based on config)
+ *
+ * {
+ *   "transactionHash": "0x5c504ed432cb51138bcf09aa5e8a410dd4a1e204ef84bfed1be16dfba1b22060",
+ *   "promptHash": "0x...",
+ *   "chainId": "72080"
+ * }
+ *
+ * Response (201):
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "transactionHash": "0x5c504ed432cb51138bcf09aa5e8a410dd4a1e204ef84bfed1be16dfba1b22060",
+ *     "chainId": "72080",
+ *     "promptHash": "0x...",
+ *     "source": "user-signed",
+ *     "status": "pending",
+ *     "registeredAt": "2025-11-19T10:00:00.000Z",
+ *     "updatedAt": "2025-11-19T10:00:00.000Z"
+ *   }
+ * }
+ */
+router.post(
+  '/',
+  standardRateLimiter,
+  conditionalAuth(config.auth.requireAuthMint),
+  asyncHandler(transactionController.registerTransaction)
+);
+
+/**
+ * Get the status of a tracked mint transaction.
+ *
+ * GET /api/transactions/:hash
+ *
+ * Reads the transaction from its chain:
+ * - pending: not mined yet
+ * - confirmed: mined successfully, with the number of confirmations;
+ *   finality is 'final' once they reach the chain's `confirmations`,
+ *   'included' before
+ * - reverted: mined but reverted, with the decoded revert reason
+ * - dropped: gone from the node and its nonce was used by another
+ *   transaction (replacedBy is set when the backend sped it up), or never
+ *   seen within PM_TX_STATUS_DROPPED_AFTER_MS of registration. reorged is
+ *   set when a mined backend transaction was reorged out and dropped
+ *
+ * @param {string} req.params.hash - Transaction hash
+ * @returns {TransactionStatusInfo} Current status
+ *
+ * @throws {400} If the hash is not a 32-byte hex string
+ * @throws {401} If authentication is required but invalid/missing
+ * @throws {404} If the transaction is not tracked (TRANSACTION_NOT_FOUND)
+ * @throws {429} If rate limit exceeded
+ *
+ * @example
+ * GET /api/transactions/0x5c504ed432cb51138bcf09aa5e8a410dd4a1e204ef84bfed1be16dfba1b22060
+ * x-api-key: your-api-key (optional based on config)
+ *
+ * Response (confirmed):
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "transactionHash": "0x5c504ed432cb51138bcf09aa5e8a410dd4a1e204ef84bfed1be16dfba1b22060",
+ *     "chainId": "72080",
+ *     "promptHash": "0x...",
+ *     "source": "backend-signed",
+ *     "status": "confirmed",
+ *     "from": "0x8ba1f109551bD432803012645Ac136ddd64DBA72",
+ *     "nonce": 42,
+ *     "blockNumber": 12345,
+ *     "confirmations": 6,
+ *     "finality": "included",
+ *     "requiredConfirmations": 12,
+ *     "registeredAt": "2025-11-19T10:00:00.000Z",
+ *     "updatedAt": "2025-11-19T10:00:12.000Z"
+ *   }
+ * }
+ *
+ * Response (reverted):
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "transactionHash": "0x...",
+ *     "status": "reverted",
+ *     "blockNumber": 12345,
+ *     "confirmations": 2,
+ *     "revert": {
+ *       "name": "PromptAlreadyMinted",
+ *       "contract": "PromptDO",
+ *       "args": {},
+ *       "message": "Prompt has already been minted"
+ *     },
+ *     ...
+ *   }
+ * }
+ */
+router.get(
+  '/:hash',
+  lenientRateLimiter,
+  conditionalAuth(config.auth.requireAuthRead),
+  asyncHandler(transactionController.getTransaction)
+);
+
+export default router;
@@ -1,17 +1,68 @@
+import { readFileSync } from 'fs';
 import { ethers } from 'ethers';
 import {
   getTypedDataForMetaTxMint as sdkGetTypedDataForMetaTxMint,
   buildRequest as sdkBuildRequest,
   contractFactories,
+  ERC2771_FORWARD_REQUEST_TYPES,
 } from '@project_zero/prompt-mining-sdk';
 import type {
   PromptMinerWithActivityPointsActionUpgradeableType,
 } from '@project_zero/prompt-mining-sdk';
-import { config, getChainConfig, getDefaultChainConfig } from '../config';
+import {
+  config,
+  getChainConfig,
+  getDefaultChainConfig,
+  MigrationArg,
+  MigrationTarget,
+} from '../config';
+import { sendWithNonce } from './nonceManager';
+import { PZeroError, invalidateMintAuthorizations } from './pzeroAuthService';
+import { applyGasBuffer, formatFeeOverrides, getFeeOverrides } from './feeService';
+import {
+  getFailedTransactionReceipt,
+  trackTransaction,
+  waitForTransaction,
+} from './pendingTransactionService';
+import {
+  ensureRelayerFunds as ensureChainRelayerFunds,
+  getBalanceSummaries,
+  getRelayerStats as getChainRelayerStats,
+  startBalanceMonitor,
+  withRelayer,
+} from './relayerPool';
+import { BackendSigner, getSignerProvider } from './signerProvider';
+import { RevertSource, decodeRevert, isRevertError } from '../utils/revertDecoder';
+import {
+  DecodedRevert,
+  RelayerBalanceSummary,
+  RelayerWalletStats,
+  TransactionSimulation,
+} from '../types';
+import { ApiError, resolveApiError } from '../middleware/errorHandler';
+import { TtlCache } from '../utils/ttlCache';
+
+/**
+ * Provider and wallet per chain, created once and reused.
+ *
+ * Reusing the wallet keeps a single signer per chain so the nonce manager
+ * can order its transactions.
+ */
+const connections = new Map<string, { provider: ethers.JsonRpcProvider; wallet: BackendSigner }>();
+
+/**
+ * Recently minted prompt hashes per chain.
+ *
+ * Only positive answers are cached: a minted prompt stays minted (until it
+ * is migrated away), while a "not minted" answer can change with the next block.
+ */
+const mintedPrompts = new TtlCache<true>(config.mintedCache.ttlMs);
 
 /**
  * Initializes blockchain provider and wallet for a specific chain.
  *
+ * The provider and wallet are created on first use and cached per chain.
+ *
  * @param chainId - Optional chain ID. If not provided, uses default chain.
  * @returns Initialized provider, wallet, and chain config
  *
@@ -22,7 +73,7 @@ import { config, getChainConfig, getDefaultChainConfig } from '../config';
  */
 export function initializeBlockchain(chainId?: string): {
   provider: ethers.JsonRpcProvider;
-  wallet: ethers.Wallet;
+  wallet: BackendSigner;
   chain: ReturnType<typeof getChainConfig> | ReturnType<typeof getDefaultChainConfig>;
 } {
   // Get chain configuration
@@ -32,17 +83,24 @@ export function initializeBlockchain(chainId?: string): {
     throw new Error(`Chain with ID ${chainId} not found in configuration`);
   }
 
+  const existing = connections.get(chain.chainId);
+  if (existing) {
+    return { ...existing, chain };
+  }
+
   // Initialize provider for this chain
   const provider = new ethers.JsonRpcProvider(chain.rpcUrl);
 
-  // Initialize wallet with chain's provider
-  const wallet = new ethers.Wallet(config.privateKey, provider);
+  // Initialize wallet with chain's provider (in-process key, keystore or remote signer)
+  const signerProvider = getSignerProvider();
+  const wallet = signerProvider.getSigner(provider);
+  connections.set(chain.chainId, { provider, wallet });
 
   console.log(`Blockchain initialized for ${chain.name}:`);
   console.log(`- Chain ID: ${chain.chainId}`);
   console.log(`- RPC: ${chain.rpcUrl}`);
   console.log(`- PromptMiner: ${chain.promptMinerAddress}`);
-  console.log(`- Wallet: ${wallet.address}`);
+  console.log(`- Wallet: ${wallet.address} (${signerProvider.type})`);
 
   return { provider, wallet, chain };
 }
@@ -51,9 +109,13 @@ export function initializeBlockchain(chainId?: string): {
  * Gets PromptMiner contract instance for a specific chain.
  *
  * @param chainId - Optional chain ID. If not provided, uses default chain.
+ * @param signer - Optional wallet to connect (e.g. a relayer). Defaults to the backend wallet.
  * @returns PromptMiner contract connected to wallet
  */
-function getPromptMinerContract(chainId?: string): PromptMinerWithActivityPointsActionUpgradeableType {
+function getPromptMinerContract(
+  chainId?: string,
+  signer?: BackendSigner
+): PromptMinerWithActivityPointsActionUpgradeableType {
   const { wallet, chain } = initializeBlockchain(chainId);
   
   if (!chain) {
@@ -63,16 +125,261 @@ function getPromptMinerContract(chainId?: string): PromptMinerWithActivityPoints
   // Create a fresh contract instance connected to the specific wallet/provider
   const contract = contractFactories.PromptMinerWithActivityPoints.connect(
     chain.promptMinerAddress,
-    wallet // Pass wallet directly to connect method
+    signer ?? wallet // Pass wallet directly to connect method
   );
 
   return contract;
 }
 
+/**
+ * Error of the PZERO action validator for an expired authorization.
+ *
+ * The SDK ABIs do not declare it, so it is decoded through this fragment.
+ */
+const PZERO_AUTHORIZATION_ABI = ['error AuthorizationExpired(uint256 expiry)'];
+
+/**
+ * ABIs used to decode reverts of direct mints.
+ *
+ * PromptDO errors (e.g. PromptAlreadyMinted) and the action validator's
+ * AuthorizationExpired bubble up through the PromptMiner.
+ */
+function getPromptMinerRevertSources(): RevertSource[] {
+  return [
+    {
+      name: 'PromptMiner',
+      iface: contractFactories.PromptMinerWithActivityPoints.createInterface(),
+    },
+    { name: 'PromptDO', iface: contractFactories.PromptDO.createInterface() },
+    { name: 'PZeroAuthorization', iface: new ethers.Interface(PZERO_AUTHORIZATION_ABI) },
+  ];
+}
+
+/**
+ * Checks whether a decoded revert reports an expired PZERO authorization,
+ * either as the AuthorizationExpired custom error or as an
+ * Error("AUTHORIZATION_EXPIRED") reason string.
+ */
+function isAuthorizationExpiredRevert(revert: DecodedRevert): boolean {
+  return (
+    revert.name === 'AuthorizationExpired' ||
+    (revert.name === 'Error' && revert.args.reason === 'AUTHORIZATION_EXPIRED')
+  );
+}
+
+/**
+ * Decodes the revert of a forwarded meta-transaction.
+ *
+ * The forwarder reports any revert of the target as FailedCall. In that
+ * case the inner call is replayed as the forwarder (with the ERC-2771
+ * sender suffix) to recover the PromptMiner's own error.
+ *
+ * @param error - Error thrown by the forwarder call
+ * @param forwarder - Forwarder contract connected to the relayer wallet
+ * @param requestForSigning - The forward request signed by the user
+ * @returns Decoded revert reason
+ */
+async function decodeMetaTxRevert(
+  error: any,
+  forwarder: ethers.BaseContract,
+  requestForSigning: { from: string; to: string; gas: bigint; data: string }
+): Promise<DecodedRevert> {
+  const revert = decodeRevert(error, [
+    { name: 'ERC2771Forwarder', iface: forwarder.interface },
+    ...getPromptMinerRevertSources(),
+  ]);
+  if (revert.name !== 'FailedCall') {
+    return revert;
+  }
+
+  try {
+    const provider = forwarder.runner!.provider!;
+    await provider.call({
+      from: await forwarder.getAddress(),
+      to: requestForSigning.to,
+      data: ethers.concat([requestForSigning.data, requestForSigning.from]),
+      gasLimit: requestForSigning.gas,
+    });
+  } catch (innerError: any) {
+    if (isRevertError(innerError)) {
+      return decodeRevert(innerError, getPromptMinerRevertSources());
+    }
+  }
+  return revert;
+}
+
+/**
+ * ERC2771Forwarder execute function and errors.
+ *
+ * The SDK does not export the forwarder factory, so mined forwarder
+ * transactions are decoded through this ABI fragment.
+ */
+const FORWARDER_ABI = [
+  'function execute((address from, address to, uint256 value, uint256 gas, uint48 deadline, bytes data, bytes signature) request) payable',
+  'error ERC2771ForwarderInvalidSigner(address signer, address from)',
+  'error ERC2771ForwarderExpiredRequest(uint48 deadline)',
+  'error ERC2771ForwarderMismatchedValue(uint256 requestedValue, uint256 msgValue)',
+  'error ERC2771UntrustfulTarget(address target, address forwarder)',
+  'error InvalidAccountNonce(address account, uint256 currentNonce)',
+  'error FailedCall()',
+];
+
+/**
+ * Finds out why a mined transaction reverted.
+ *
+ * The transaction is replayed with eth_call against the state of the block
+ * it was mined in and the revert is decoded from the PromptMiner and
+ * PromptDO ABIs, or the forwarder ABI for relayed meta-transactions.
+ *
+ * @param tx - The reverted transaction
+ * @param blockNumber - Block it was mined in
+ * @returns Decoded revert reason (generic if the revert cannot be reproduced)
+ *
+ * @example
+ * const receipt = await provider.getTransactionReceipt(hash);
+ * if (receipt?.status === 0) {
+ *   const revert = await decodeMinedRevert((await provider.getTransaction(hash))!, receipt.blockNumber);
+ * }
+ */
+export async function decodeMinedRevert(
+  tx: ethers.TransactionResponse,
+  blockNumber: number
+): Promise<DecodedRevert> {
+  try {
+    await tx.provider.call({
+      from: tx.from,
+      to: tx.to,
+      data: tx.data,
+      value: tx.value,
+      gasLimit: tx.gasLimit,
+      blockTag: blockNumber,
+    });
+  } catch (error: any) {
+    if (isRevertError(error)) {
+      const forwarder = new ethers.Contract(tx.to!, FORWARDER_ABI, tx.provider);
+      const execute = forwarder.interface.parseTransaction({ data: tx.data, value: tx.value });
+      if (execute) {
+        const [request] = execute.args;
+        return await decodeMetaTxRevert(error, forwarder, request);
+      }
+      return decodeRevert(error, getPromptMinerRevertSources());
+    }
+    return { name: 'Reverted', args: {}, message: error.shortMessage ?? error.message };
+  }
+
+  // The replay succeeded: the revert depended on the order within the block or ran out of gas
+  return {
+    name: 'Reverted',
+    args: {},
+    message: 'Transaction reverted, but the revert could not be reproduced (it may have run out of gas)',
+  };
+}
+
+/**
+ * Builds a successful simulation from a gas estimate.
+ *
+ * @param chain - Chain configuration
+ * @param provider - Provider for the chain
+ * @param estimatedGas - Gas estimate from the node
+ * @returns Gas limit, fees and expected cost the transaction would use
+ */
+async function toSimulation(
+  chain: NonNullable<ReturnType<typeof getChainConfig>>,
+  provider: ethers.Provider,
+  estimatedGas: bigint
+): Promise<TransactionSimulation> {
+  const gasLimit = applyGasBuffer(chain, estimatedGas);
+  const [fees, feeData] = await Promise.all([
+    getFeeOverrides(chain, provider),
+    provider.getFeeData(),
+  ]);
+  const maxPricePerGas = fees.type === 2 ? fees.maxFeePerGas : fees.gasPrice;
+  const estimatedCost = estimatedGas * (feeData.gasPrice ?? maxPricePerGas);
+
+  return {
+    wouldSucceed: true,
+    estimatedGas: estimatedGas.toString(),
+    gasLimit: gasLimit.toString(),
+    fees: formatFeeOverrides(fees),
+    estimatedCost: estimatedCost.toString(),
+    estimatedCostEther: ethers.formatEther(estimatedCost),
+    maxCost: (gasLimit * maxPricePerGas).toString(),
+  };
+}
+
+/**
+ * Builds the minted-prompt cache key for a chain.
+ */
+function mintedCacheKey(chainId: string, promptHash: string): string {
+  return `${chainId}:${promptHash.toLowerCase()}`;
+}
+
+/**
+ * Lists the prompts minted by a transaction on the chain's PromptMiner.
+ *
+ * @param receipt - Receipt of a mint or meta-transaction
+ * @param chainId - Chain the transaction was mined on
+ * @returns Hashes of the minted prompts
+ */
+function getMintedPromptHashes(receipt: ethers.TransactionReceipt, chainId: string): string[] {
+  const chain = getChainConfig(chainId);
+  if (!chain) {
+    return [];
+  }
+
+  const iface = contractFactories.PromptMinerWithActivityPoints.createInterface();
+  const promptHashes: string[] = [];
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== chain.promptMinerAddress.toLowerCase()) {
+      continue;
+    }
+    const parsed = iface.parseLog(log);
+    if (parsed?.name === 'PromptMinted') {
+      promptHashes.push(parsed.args.prompt as string);
+    }
+  }
+  return promptHashes;
+}
+
+/**
+ * Records prompts minted by a confirmed transaction in the minted-prompt cache.
+ *
+ * Cached PZERO authorizations for these prompts are dropped.
+ *
+ * @param receipt - Receipt of a mint or meta-transaction
+ * @param chainId - Chain the transaction was mined on
+ */
+function rememberMintedPrompts(receipt: ethers.TransactionReceipt, chainId: string): void {
+  for (const promptHash of getMintedPromptHashes(receipt, chainId)) {
+    if (config.mintedCache.ttlMs > 0) {
+      mintedPrompts.set(mintedCacheKey(chainId, promptHash), true);
+    }
+    invalidateMintAuthorizations(promptHash, chainId);
+  }
+}
+
+/**
+ * Removes prompts of a transaction that was reorged out from the minted-prompt cache.
+ *
+ * @param receipt - Receipt the transaction had before the reorg
+ * @param chainId - Chain the transaction was mined on
+ *
+ * @example
+ * forgetMintedPrompts(receipt, '72080');
+ */
+export function forgetMintedPrompts(receipt: ethers.TransactionReceipt, chainId: string): void {
+  for (const promptHash of getMintedPromptHashes(receipt, chainId)) {
+    mintedPrompts.delete(mintedCacheKey(chainId, promptHash));
+  }
+}
+
 /**
  * Checks if a prompt has been minted.
  *
  * This is a read-only operation that queries the PromptMiner contract.
+ * Positive answers are cached for PM_MINTED_CACHE_TTL_MS, so repeated
+ * requests for a hot duplicate do not cost an RPC call each time. Cached
+ * PZERO authorizations of a minted prompt are dropped.
  *
  * @param promptHash - Keccak256 hash of the prompt
  * @param chainId - Optional chain ID. If not provided, uses default chain.
@@ -83,9 +390,21 @@ function getPromptMinerContract(chainId?: string): PromptMinerWithActivityPoints
  */
 export async function checkPromptMinted(promptHash: string, chainId?: string): Promise<boolean> {
   const contract = getPromptMinerContract(chainId);
+  const { chain } = initializeBlockchain(chainId);
+  const cacheKey = mintedCacheKey(chain!.chainId, promptHash);
+
+  if (mintedPrompts.has(cacheKey)) {
+    return true;
+  }
 
   try {
     const isMinted = await contract.isPromptMinted(promptHash);
+    if (isMinted) {
+      if (config.mintedCache.ttlMs > 0) {
+        mintedPrompts.set(cacheKey, true);
+      }
+      invalidateMintAuthorizations(promptHash, chain!.chainId);
+    }
     return isMinted;
   } catch (error: any) {
     console.error(`Failed to check prompt status:`, error.message);
@@ -93,6 +412,48 @@ export async function checkPromptMinted(promptHash: string, chainId?: string): P
   }
 }
 
+/**
+ * Gets the content URI recorded on chain for a minted prompt.
+ *
+ * @param promptHash - Keccak256 hash of the prompt
+ * @param chainId - Optional chain ID. If not provided, uses default chain.
+ * @returns The content URI ('' if the prompt was minted without content or is not minted)
+ *
+ * @example
+ * const contentURI = await getPromptContentURI(promptHash, '56');
+ */
+export async function getPromptContentURI(promptHash: string, chainId?: string): Promise<string> {
+  const contract = getPromptMinerContract(chainId);
+
+  try {
+    return await contract.promptContentURI(promptHash);
+  } catch (error: any) {
+    console.error(`Failed to read prompt content URI:`, error.message);
+    throw new Error(`Failed to query prompt content URI: ${error.message}`);
+  }
+}
+
+/**
+ * Gets the author recorded on chain for a minted prompt.
+ *
+ * @param promptHash - Keccak256 hash of the prompt
+ * @param chainId - Optional chain ID. If not provided, uses default chain.
+ * @returns The author's address (the zero address if the prompt is not minted)
+ *
+ * @example
+ * const author = await getPromptAuthor(promptHash, '56');
+ */
+export async function getPromptAuthor(promptHash: string, chainId?: string): Promise<string> {
+  const contract = getPromptMinerContract(chainId);
+
+  try {
+    return await contract.promptAuthor(promptHash);
+  } catch (error: any) {
+    console.error(`Failed to read prompt author:`, error.message);
+    throw new Error(`Failed to query prompt author: ${error.message}`);
+  }
+}
+
 /**
  * Gets activity points balance for an address from a specific token contract.
  *
@@ -134,15 +495,36 @@ export async function getActivityPointsBalance(
 /**
  * Gets current gas price from the network.
  *
- * Useful for estimating transaction costs.
+ * Useful for estimating transaction costs. Follows the chain's fee policy:
+ * returns maxFeePerGas on EIP-1559 chains and gasPrice on legacy chains.
  *
  * @param chainId - Optional chain ID. If not provided, uses default chain.
  * @returns Gas price in wei
  */
 export async function getCurrentGasPrice(chainId?: string): Promise<bigint> {
-  const { provider } = initializeBlockchain(chainId);
-  const feeData = await provider.getFeeData();
-  return feeData.gasPrice || BigInt(0);
+  const { provider, chain } = initializeBlockchain(chainId);
+  const fees = await getFeeOverrides(chain!, provider);
+  return fees.type === 2 ? fees.maxFeePerGas : fees.gasPrice;
+}
+
+/**
+ * Estimates the most a mint may cost on a chain.
+ *
+ * Used to reserve gas sponsorship budgets before the mint is sent, when its
+ * gas cannot be estimated yet (no PZERO authorization): assumes
+ * PM_GAS_BUDGET_RESERVE_GAS gas plus the chain's buffer, at the current
+ * maxFeePerGas (or gasPrice).
+ *
+ * @param chainId - Optional chain ID. If not provided, uses default chain.
+ * @returns Estimated maximum fee in wei (gasLimit × maxFeePerGas)
+ *
+ * @throws {ApiError} GAS_PRICE_ABOVE_CEILING if the network's price is above the chain's ceiling
+ */
+export async function estimateMaxMintFee(chainId?: string): Promise<bigint> {
+  const { provider, chain } = initializeBlockchain(chainId);
+  const fees = await getFeeOverrides(chain!, provider);
+  const gasLimit = applyGasBuffer(chain!, BigInt(config.gasBudgetReserveGas));
+  return gasLimit * (fees.type === 2 ? fees.maxFeePerGas : fees.gasPrice);
 }
 
 /**
@@ -166,6 +548,50 @@ export async function getWalletBalance(chainId?: string): Promise<{
   };
 }
 
+/**
+ * Gets the state of the relayer wallets of every configured chain.
+ *
+ * @returns Statistics per relayer wallet, grouped by chain in PM_CHAINS order
+ *
+ * @throws {Error} If a chain's RPC cannot be reached to read balances
+ */
+export async function getRelayerStats(): Promise<RelayerWalletStats[]> {
+  const stats = await Promise.all(
+    config.chains.map((chain) =>
+      getChainRelayerStats(chain.chainId, initializeBlockchain(chain.chainId).provider)
+    )
+  );
+  return stats.flat();
+}
+
+/**
+ * Refuses a mint early when the relayer wallets of a chain are out of funds.
+ *
+ * @param chainId - Optional chain ID. If not provided, uses default chain.
+ *
+ * @throws {ApiError} RELAYER_FUNDS_CRITICAL if every relayer wallet is below the critical threshold
+ */
+export async function ensureRelayerFunds(chainId?: string): Promise<void> {
+  const { provider, chain } = initializeBlockchain(chainId);
+  await ensureChainRelayerFunds(chain!.chainId, provider);
+}
+
+/**
+ * Starts polling the relayer balances of every configured chain.
+ */
+export function startRelayerBalanceMonitor(): void {
+  startBalanceMonitor((chainId) => initializeBlockchain(chainId).provider);
+}
+
+/**
+ * Gets the relayer balances of every chain from the last balance poll.
+ *
+ * @returns Balance summary per chain (no RPC calls)
+ */
+export function getRelayerBalanceSummaries(): RelayerBalanceSummary[] {
+  return getBalanceSummaries();
+}
+
 /**
  * Gets typed data for meta-transaction mint using SDK.
  *
@@ -176,6 +602,7 @@ export async function getWalletBalance(chainId?: string): Promise<{
  * @param gas - Gas limit for the meta-transaction
  * @param deadline - Timestamp deadline for the meta-transaction
  * @param promptHash - The keccak256 hash of the prompt
+ * @param contentURI - Content URI of the prompt ('' if content storage is disabled)
  * @param encodedPoints - The ABI-encoded activity points
  * @param actionSignature - The PZERO authorization signature
  * @param chainId - Optional chain ID. If not provided, uses default chain.
@@ -187,6 +614,7 @@ export async function getWalletBalance(chainId?: string): Promise<{
  *   500000n,
  *   BigInt(Math.floor(Date.now() / 1000) + 3600),
  *   promptHash,
+ *   'ipfs://bafkrei...',
  *   encodedPoints,
  *   pzeroSignature,
  *   '56'
@@ -197,6 +625,7 @@ export async function getTypedDataForMetaTxMint(
   gas: bigint,
   deadline: bigint,
   promptHash: string,
+  contentURI: string,
   encodedPoints: string,
   actionSignature: string,
   chainId?: string
@@ -222,7 +651,6 @@ export async function getTypedDataForMetaTxMint(
   const { wallet } = initializeBlockchain(chainId);
 
   // Use the SDK function to get typed data
-  // contentURI is empty string for now (will be used for IPFS/Arweave URIs in the future)
   return await sdkGetTypedDataForMetaTxMint(
     contract,
     wallet,
@@ -230,24 +658,259 @@ export async function getTypedDataForMetaTxMint(
     gas,
     deadline,
     promptHash,
-    '', // contentURI - empty for now
+    contentURI,
     encodedPoints,
     actionSignature
   );
 }
 
+/**
+ * PromptMiner function meta-transactions may call: the author is the
+ * forwarded sender, so the variant with an explicit author is not relayed.
+ */
+const META_TX_MINT_FUNCTION = 'mint(bytes32,string,bytes,bytes)';
+
+/**
+ * Checks whether calldata calls the PromptMiner mint function meant for
+ * meta-transactions (by selector only; the arguments may still be malformed).
+ *
+ * @param data - Calldata of the forwarded call (requestForSigning.data)
+ * @returns True if the data starts with the meta-transaction mint selector
+ */
+export function isMetaTxMintCall(data: string): boolean {
+  const iface = contractFactories.PromptMinerWithActivityPoints.createInterface();
+  const selector = iface.getFunction(META_TX_MINT_FUNCTION).selector;
+  return ethers.isHexString(data) && data.slice(0, 10).toLowerCase() === selector;
+}
+
+/**
+ * Decodes the PromptMiner mint call carried by a meta-transaction.
+ *
+ * @param data - Calldata of the forwarded call (requestForSigning.data)
+ * @returns The mint arguments, or null if the data is not a well-formed
+ *   meta-transaction mint (mint(bytes32,string,bytes,bytes))
+ *
+ * @example
+ * const mint = decodeMintCall(requestForSigning.data);
+ * console.log(mint?.actionSignature);
+ */
+export function decodeMintCall(data: string): {
+  promptHash: string;
+  contentURI: string;
+  actionData: string;
+  actionSignature: string;
+} | null {
+  if (!isMetaTxMintCall(data)) {
+    return null;
+  }
+
+  const iface = contractFactories.PromptMinerWithActivityPoints.createInterface();
+  let args: ethers.Result;
+  try {
+    args = iface.decodeFunctionData(META_TX_MINT_FUNCTION, data);
+  } catch {
+    return null;
+  }
+
+  return {
+    promptHash: args.prompt as string,
+    contentURI: args.contentURI as string,
+    actionData: args.actionData as string,
+    actionSignature: args.actionSignature as string,
+  };
+}
+
+/** Trusted forwarders of the PromptMiner contracts, by chain. They never change. */
+const trustedForwarders = new Map<string, string>();
+
+/**
+ * Gets the ERC-2771 forwarder the chain's PromptMiner trusts.
+ */
+async function getTrustedForwarder(chainId: string): Promise<string> {
+  let forwarder = trustedForwarders.get(chainId);
+  if (!forwarder) {
+    forwarder = ethers.getAddress(await getPromptMinerContract(chainId).trustedForwarder());
+    trustedForwarders.set(chainId, forwarder);
+  }
+  return forwarder;
+}
+
+/**
+ * Finds the prompt a submitted transaction mints on a chain's PromptMiner.
+ *
+ * Recognizes mints sent by the user's wallet to the PromptMiner and
+ * meta-transaction mints relayed through its trusted forwarder.
+ *
+ * @param tx - Transaction as returned by the node
+ * @param chainId - Chain the transaction was sent on
+ * @returns The minted prompt hash, or null if the transaction is not a
+ *   mint on the chain's PromptMiner
+ *
+ * @example
+ * const tx = await provider.getTransaction(hash);
+ * const promptHash = tx && (await getMintedPromptOfTransaction(tx, '72080'));
+ */
+export async function getMintedPromptOfTransaction(
+  tx: ethers.TransactionResponse,
+  chainId: string
+): Promise<string | null> {
+  const chain = getChainConfig(chainId);
+  if (!chain) {
+    throw new Error(`Chain configuration not found for chainId: ${chainId}`);
+  }
+  if (!tx.to) {
+    return null;
+  }
+
+  const promptMiner = ethers.getAddress(chain.promptMinerAddress);
+  if (ethers.getAddress(tx.to) === promptMiner) {
+    return decodeMintCall(tx.data)?.promptHash ?? null;
+  }
+
+  if (ethers.getAddress(tx.to) !== (await getTrustedForwarder(chainId))) {
+    return null;
+  }
+  const execute = new ethers.Interface(FORWARDER_ABI).parseTransaction({
+    data: tx.data,
+    value: tx.value,
+  });
+  if (!execute) {
+    return null;
+  }
+  const [request] = execute.args;
+  if (ethers.getAddress(request.to as string) !== promptMiner) {
+    return null;
+  }
+  return decodeMintCall(request.data as string)?.promptHash ?? null;
+}
+
+/**
+ * EIP-712 domains of the forwarders, by chain and forwarder address.
+ * The domain of a deployed forwarder never changes.
+ */
+const forwarderDomains = new Map<string, ethers.TypedDataDomain>();
+
+/**
+ * ERC2771Forwarder contract as returned by the SDK.
+ */
+type ForwarderContract = Awaited<ReturnType<typeof sdkBuildRequest>>['erc2771Forwarder'];
+
+/**
+ * Checks a forward request the way the ERC2771Forwarder will, without sending it.
+ *
+ * The user's EIP-712 signature is verified against the forwarder's domain,
+ * and the request's nonce and deadline against the forwarder's current
+ * nonces(from) and the latest block time. A request failing here would
+ * revert on-chain with the relayer paying for the gas.
+ *
+ * @param requestForSigning - The request data that was signed by the user
+ * @param forwardSignature - The user's EIP-712 signature
+ * @param forwarder - Forwarder contract connected to a provider
+ * @param chainId - Chain the request will be relayed on
+ *
+ * @throws {ApiError} META_TX_DEADLINE_EXPIRED if the deadline has passed
+ * @throws {ApiError} META_TX_NONCE_STALE if the nonce has already been used
+ * @throws {ApiError} META_TX_NONCE_MISMATCH if the nonce is ahead of the forwarder's
+ * @throws {ApiError} META_TX_SIGNATURE_INVALID if the signature is not from `from`
+ */
+async function verifyForwardRequest(
+  requestForSigning: {
+    from: string;
+    to: string;
+    value: bigint;
+    gas: bigint;
+    nonce: bigint;
+    deadline: bigint;
+    data: string;
+  },
+  forwardSignature: string,
+  forwarder: ForwarderContract,
+  chainId: string
+): Promise<void> {
+  const provider = forwarder.runner!.provider!;
+  const domainKey = `${chainId}:${(await forwarder.getAddress()).toLowerCase()}`;
+
+  const [domain, currentNonce, block] = await Promise.all([
+    forwarderDomains.get(domainKey) ??
+      forwarder.eip712Domain().then((data) => {
+        const fetched = {
+          name: data.name,
+          version: data.version,
+          chainId: data.chainId,
+          verifyingContract: data.verifyingContract,
+        };
+        forwarderDomains.set(domainKey, fetched);
+        return fetched;
+      }),
+    forwarder.nonces(requestForSigning.from),
+    provider.getBlock('latest'),
+  ]);
+
+  const now = BigInt(block?.timestamp ?? Math.floor(Date.now() / 1000));
+  if (requestForSigning.deadline < now) {
+    throw new ApiError(
+      400,
+      'META_TX_DEADLINE_EXPIRED',
+      `The meta-transaction deadline ${requestForSigning.deadline} has passed (block time ${now})`
+    );
+  }
+
+  if (requestForSigning.nonce < currentNonce) {
+    throw new ApiError(
+      400,
+      'META_TX_NONCE_STALE',
+      `Forwarder nonce ${requestForSigning.nonce} of ${requestForSigning.from} has already been used (current nonce ${currentNonce}). Request new typed data and sign again.`
+    );
+  }
+  if (requestForSigning.nonce > currentNonce) {
+    throw new ApiError(
+      400,
+      'META_TX_NONCE_MISMATCH',
+      `Forwarder nonce ${requestForSigning.nonce} of ${requestForSigning.from} is ahead of the current nonce ${currentNonce}`
+    );
+  }
+
+  let signer: string;
+  try {
+    signer = ethers.verifyTypedData(
+      domain,
+      ERC2771_FORWARD_REQUEST_TYPES,
+      requestForSigning,
+      forwardSignature
+    );
+  } catch (error: any) {
+    throw new ApiError(
+      400,
+      'META_TX_SIGNATURE_INVALID',
+      `The forward signature is malformed: ${error.shortMessage ?? error.message}`
+    );
+  }
+  if (signer.toLowerCase() !== requestForSigning.from.toLowerCase()) {
+    throw new ApiError(
+      400,
+      'META_TX_SIGNATURE_INVALID',
+      `The forward request is signed by ${signer}, not by ${requestForSigning.from}`
+    );
+  }
+}
+
 /**
  * Executes a meta-transaction mint through the ERC2771 forwarder.
  *
  * This function acts as a relayer, building the forward request and
  * submitting it to the ERC2771Forwarder contract which will verify
- * the user's signature and execute the mint operation.
+ * the user's signature and execute the mint operation. The signature,
+ * forwarder nonce and deadline are checked locally first, so requests
+ * the forwarder would reject are refused without spending gas.
  *
  * @param requestForSigning - The request data that was signed by the user
  * @param forwardSignature - The user's EIP-712 signature
  * @param chainId - Optional chain ID. If not provided, uses default chain.
+ * @param onSubmitted - Optional callback invoked once the transaction is broadcast
  * @returns Transaction receipt from the forwarder execution
  *
+ * @throws {ApiError} META_TX_DEADLINE_EXPIRED, META_TX_NONCE_STALE, META_TX_NONCE_MISMATCH
+ *   or META_TX_SIGNATURE_INVALID if the forwarder would reject the request
  * @throws {Error} If meta-transaction execution fails
  *
  * @example
@@ -276,9 +939,10 @@ export async function executeMetaTxMint(
     data: string;
   },
   forwardSignature: string,
-  chainId?: string
+  chainId?: string,
+  onSubmitted?: (tx: ethers.TransactionResponse) => void
 ): Promise<ethers.TransactionReceipt> {
-  const { wallet } = initializeBlockchain(chainId);
+  const { provider, wallet, chain } = initializeBlockchain(chainId);
 
   console.log(`Building meta-transaction request...`);
   console.log(`- User (from): ${requestForSigning.from}`);
@@ -296,41 +960,280 @@ export async function executeMetaTxMint(
   console.log(`Forward request built successfully`);
   console.log(`- Forwarder address: ${await erc2771Forwarder.getAddress()}`);
 
-  // Connect the forwarder to our wallet (relayer)
-  const forwarderWithSigner = erc2771Forwarder.connect(wallet);
+  // Check the signature, nonce and deadline before paying for gas
+  await verifyForwardRequest(
+    requestForSigning,
+    forwardSignature,
+    erc2771Forwarder.connect(provider),
+    chain!.chainId
+  );
 
   try {
-    console.log(`Executing meta-transaction through forwarder...`);
+    // Relay from the least busy wallet of the relayer pool
+    const tx = await withRelayer(chain!.chainId, provider, async (relayer) => {
+      const forwarderWithSigner = erc2771Forwarder.connect(relayer);
+      console.log(`Executing meta-transaction through forwarder...`);
+      console.log(`- Relayer: ${relayer.address}`);
+
+      // Estimate gas (includes forwarder overhead) and apply the chain's fee policy
+      const estimatedGas = await forwarderWithSigner.execute.estimateGas(request);
+      const gasLimit = applyGasBuffer(chain!, estimatedGas);
+      const fees = await getFeeOverrides(chain!, provider);
+      console.log(`- Estimated gas: ${estimatedGas.toString()} (limit ${gasLimit.toString()})`);
+
+      // Execute the forward request with the next relayer nonce
+      // The forwarder will verify the signature and call the PromptMiner contract
+      const sent = await sendWithNonce(chain!.chainId, relayer, (nonce) =>
+        forwarderWithSigner.execute(request, { gasLimit, ...fees, nonce })
+      );
 
-    // Execute the forward request
-    // The forwarder will verify the signature and call the PromptMiner contract
-    const tx = await forwarderWithSigner.execute(request, {
-      gasLimit: request.gas + 50000n, // Add buffer for forwarder overhead
+      // Watch for the transaction getting stuck in the mempool
+      trackTransaction(chain!.chainId, relayer, sent);
+      return sent;
     });
 
     console.log(`Meta-transaction submitted: ${tx.hash}`);
+    onSubmitted?.(tx);
     console.log(`Waiting for confirmation...`);
 
-    // Wait for transaction confirmation
-    const receipt = await tx.wait();
+    // Wait for confirmation, following speed-ups of a stuck transaction
+    const receipt = await waitForTransaction(tx);
 
-    console.log(`Meta-transaction executed! Block: ${receipt!.blockNumber}`);
-    console.log(`   Gas used: ${receipt!.gasUsed.toString()}`);
+    rememberMintedPrompts(receipt, chain!.chainId);
 
-    return receipt!;
+    console.log(`Meta-transaction executed! Block: ${receipt.blockNumber}`);
+    console.log(`   Gas used: ${receipt.gasUsed.toString()}`);
+    console.log(`   Fee paid: ${ethers.formatEther(receipt.fee)}`);
+
+    return receipt;
   } catch (error: any) {
     console.error(`Failed to execute meta-transaction:`, error.message);
 
-    // Provide helpful error messages
-    if (error.message.includes('ERC2771ForwarderExpiredRequest')) {
-      throw new Error('Meta-transaction expired. The deadline has passed.');
-    } else if (error.message.includes('ERC2771ForwarderInvalidSigner')) {
-      throw new Error('Invalid signature. The signature does not match the request.');
-    } else if (error.message.includes('ERC2771UntrustfulTarget')) {
-      throw new Error('Target contract does not trust this forwarder.');
+    // Errors with an API error code (e.g. fee ceiling) are passed through
+    if (error instanceof ApiError) {
+      throw error;
+    }
+
+    // Explain reverts using the forwarder and PromptMiner error ABIs
+    if (isRevertError(error)) {
+      const revert = await decodeMetaTxRevert(error, erc2771Forwarder, requestForSigning);
+      throw keepReceipt(toRevertApiError(revert, revert.message), error);
     }
 
-    throw new Error(`Meta-transaction execution failed: ${error.message}`);
+    throw keepReceipt(toFailedMintApiError(error, 'Meta-transaction execution failed'), error);
+  }
+}
+
+/**
+ * API error codes of mint reverts, by custom error name. Other reverts are
+ * reported as TRANSACTION_REVERTED.
+ */
+const REVERT_API_ERRORS: Record<string, { statusCode: number; code: string }> = {
+  PromptAlreadyMinted: { statusCode: 409, code: 'PROMPT_ALREADY_MINTED' },
+  ActionSignatureInvalid: { statusCode: 502, code: 'AUTHORIZATION_SIGNATURE_INVALID' },
+  AuthorizationExpired: { statusCode: 401, code: 'AUTHORIZATION_EXPIRED' },
+  ERC2771ForwarderExpiredRequest: { statusCode: 400, code: 'META_TX_DEADLINE_EXPIRED' },
+  ERC2771ForwarderInvalidSigner: { statusCode: 400, code: 'META_TX_SIGNATURE_INVALID' },
+  InvalidAccountNonce: { statusCode: 400, code: 'META_TX_NONCE_STALE' },
+};
+
+/**
+ * Turns a decoded mint revert into an API error with a specific code, so
+ * batch items, mint jobs and mint events report why the mint failed.
+ *
+ * @param revert - Decoded revert
+ * @param message - Error message
+ * @returns API error; the revert name is in its details
+ */
+function toRevertApiError(revert: DecodedRevert, message: string): ApiError {
+  const { statusCode, code } = REVERT_API_ERRORS[revert.name] ?? {
+    statusCode: 422,
+    code: 'TRANSACTION_REVERTED',
+  };
+  return new ApiError(statusCode, code, message, { revert: revert.name });
+}
+
+/**
+ * Turns a mint that failed without a revert into an API error. Errors the
+ * API already has a code for (e.g. a cancelled transaction) keep it; the
+ * others, usually node or network failures, are reported as MINT_FAILED.
+ *
+ * @param error - Error thrown while sending or waiting
+ * @param prefix - Start of the MINT_FAILED message
+ */
+function toFailedMintApiError(error: any, prefix: string): ApiError {
+  const known = resolveApiError(error);
+  if (known.errorCode !== 'INTERNAL_SERVER_ERROR') {
+    return new ApiError(known.statusCode, known.errorCode, known.message, known.details);
+  }
+  return new ApiError(502, 'MINT_FAILED', `${prefix}: ${error.shortMessage ?? error.message}`);
+}
+
+/**
+ * Keeps the receipt of a transaction mined for a failed mint on the error
+ * that describes the failure, so its fee can still be charged to gas budgets.
+ */
+function keepReceipt<T extends Error>(described: T, error: any): T {
+  const receipt = getFailedTransactionReceipt(error);
+  return receipt ? Object.assign(described, { receipt }) : described;
+}
+
+/**
+ * Translates a failed direct mint into a descriptive error.
+ *
+ * @param error - Error thrown by ethers while sending or waiting
+ * @param walletAddress - Address of the backend wallet that sent the mint
+ * @returns Error with a helpful message
+ */
+function toMintError(error: any, walletAddress: string): Error {
+  console.error(`Direct mint failed:`, error.message);
+  return keepReceipt(describeMintError(error, walletAddress), error);
+}
+
+/**
+ * Describes why a direct mint failed.
+ */
+function describeMintError(error: any, walletAddress: string): Error {
+  // Enhanced error handling
+  if (error instanceof ApiError) {
+    return error;
+  } else if (error.code === 'INSUFFICIENT_FUNDS') {
+    return new ApiError(
+      402,
+      'INSUFFICIENT_FUNDS',
+      `Insufficient funds for gas. Wallet ${walletAddress} needs more native token.`
+    );
+  } else if (error.message?.includes('INVALID_SIGNATURE')) {
+    return new ApiError(
+      502,
+      'AUTHORIZATION_SIGNATURE_INVALID',
+      'Invalid PZERO signature. Authorization may be corrupted or tampered with.'
+    );
+  } else if (isRevertError(error)) {
+    const revert = decodeRevert(error, getPromptMinerRevertSources());
+    if (isAuthorizationExpiredRevert(revert)) {
+      // Retried once with a fresh authorization by the mint flows
+      return new PZeroError(
+        'AUTHORIZATION_EXPIRED',
+        'PZERO authorization expired. Please request a new authorization.',
+        401,
+        { revert: revert.name }
+      );
+    }
+    return toRevertApiError(revert, `Mint transaction failed: ${revert.message}`);
+  }
+
+  return toFailedMintApiError(error, 'Mint transaction failed');
+}
+
+/**
+ * Submits a direct mint transaction without waiting for confirmation (backend-signed mode).
+ *
+ * Use waitForMint() to wait for the receipt. Splitting submission from
+ * confirmation lets callers broadcast several mints before waiting on any.
+ *
+ * Contract signature: mint(address author, bytes32 promptHash, string contentURI, bytes actionData, bytes actionSignature)
+ *
+ * @param author - The address that will receive the Activity Points (can be any address)
+ * @param promptHash - The keccak256 hash of the prompt
+ * @param contentURI - Content URI of the prompt ('' if content storage is disabled)
+ * @param encodedPoints - The ABI-encoded activity points (actionData)
+ * @param actionSignature - The PZERO authorization signature
+ * @param chainId - Optional chain ID. If not provided, uses default chain.
+ * @returns Broadcast transaction
+ *
+ * @throws {Error} If the transaction cannot be submitted
+ */
+export async function submitMint(
+  author: string,
+  promptHash: string,
+  contentURI: string,
+  encodedPoints: string,
+  actionSignature: string,
+  chainId?: string
+): Promise<ethers.TransactionResponse> {
+  const { provider, chain } = initializeBlockchain(chainId);
+
+  console.log(`Executing direct mint transaction...`);
+  console.log(`- Author: ${author}`);
+  console.log(`- Prompt hash: ${promptHash}`);
+  console.log(`- Content URI: ${contentURI || '(empty)'}`);
+  console.log(`- PZERO authorization: ${actionSignature.slice(0, 10)}...`);
+
+  // Send from the least busy wallet of the relayer pool
+  return await withRelayer(chain!.chainId, provider, async (wallet) => {
+    console.log(`- Relayer: ${wallet.address}`);
+
+    try {
+      // Call mint function on PromptMiner contract
+      // Signature: mint(address author, bytes32 promptHash, string contentURI, bytes actionData, bytes actionSignature)
+      // Note: Using full signature to call the specific overload (with author parameter)
+      const contract = getPromptMinerContract(chainId, wallet);
+      const mint = contract['mint(address,bytes32,string,bytes,bytes)'];
+
+      // Estimate gas and apply the chain's fee policy
+      const estimatedGas = await mint.estimateGas(
+        author,
+        promptHash,
+        contentURI,
+        encodedPoints,
+        actionSignature
+      );
+      const gasLimit = applyGasBuffer(chain!, estimatedGas);
+      const fees = await getFeeOverrides(chain!, provider);
+      console.log(`- Estimated gas: ${estimatedGas.toString()} (limit ${gasLimit.toString()})`);
+
+      const tx = await sendWithNonce(chain!.chainId, wallet, (nonce) =>
+        mint(
+          author, // Address of the author (receives rewards)
+          promptHash, // Prompt hash (bytes32)
+          contentURI, // Content URI of the prompt (empty if content storage is disabled)
+          encodedPoints, // Encoded activity points amount (actionData)
+          actionSignature, // PZERO authorization signature
+          {
+            gasLimit, // Estimated gas plus the chain's buffer
+            ...fees, // EIP-1559 or legacy pricing per the chain's fee policy
+            nonce, // Assigned by the nonce manager
+          }
+        )
+      );
+
+      console.log(`Transaction submitted: ${tx.hash}`);
+
+      // Watch for the transaction getting stuck in the mempool
+      trackTransaction(chain!.chainId, wallet, tx);
+      return tx;
+    } catch (error: any) {
+      throw toMintError(error, wallet.address);
+    }
+  });
+}
+
+/**
+ * Waits for a submitted direct mint transaction to be confirmed.
+ *
+ * If the transaction was sped up, the receipt of the replacement is returned.
+ *
+ * @param tx - Transaction returned by submitMint()
+ * @returns Transaction receipt
+ *
+ * @throws {Error} If the transaction fails, reverts or is cancelled
+ */
+export async function waitForMint(tx: ethers.TransactionResponse): Promise<ethers.TransactionReceipt> {
+  try {
+    console.log(`Waiting for confirmation of ${tx.hash}...`);
+
+    // Wait for confirmation, following speed-ups of a stuck transaction
+    const receipt = await waitForTransaction(tx);
+    rememberMintedPrompts(receipt, tx.chainId.toString());
+
+    console.log(`Prompt minted! Block: ${receipt.blockNumber}`);
+    console.log(`   Gas used: ${receipt.gasUsed.toString()}`);
+    console.log(`   Fee paid: ${ethers.formatEther(receipt.fee)}`);
+
+    return receipt;
+  } catch (error: any) {
+    throw toMintError(error, tx.from);
   }
 }
 
@@ -348,10 +1251,11 @@ export async function executeMetaTxMint(
  *
  * @param author - The address that will receive the Activity Points (can be any address)
  * @param promptHash - The keccak256 hash of the prompt
- * @param contentURI - Content URI for metadata (empty string for now)
+ * @param contentURI - Content URI of the prompt ('' if content storage is disabled)
  * @param encodedPoints - The ABI-encoded activity points (actionData)
  * @param actionSignature - The PZERO authorization signature
  * @param chainId - Optional chain ID. If not provided, uses default chain.
+ * @param onSubmitted - Optional callback invoked once the transaction is broadcast
  * @returns Transaction receipt
  *
  * @throws {Error} If mint transaction fails
@@ -373,54 +1277,374 @@ export async function executeMint(
   contentURI: string,
   encodedPoints: string,
   actionSignature: string,
-  chainId?: string
+  chainId?: string,
+  onSubmitted?: (tx: ethers.TransactionResponse) => void
 ): Promise<ethers.TransactionReceipt> {
+  const tx = await submitMint(author, promptHash, contentURI, encodedPoints, actionSignature, chainId);
+  onSubmitted?.(tx);
+  return await waitForMint(tx);
+}
+
+/**
+ * Simulates a direct mint without broadcasting it (backend-signed mode).
+ *
+ * Runs the same gas estimate as submitMint(). A revert is decoded from the
+ * PromptMiner and PromptDO ABIs instead of being thrown.
+ *
+ * @param author - The address that would receive the Activity Points
+ * @param promptHash - The keccak256 hash of the prompt
+ * @param contentURI - Content URI of the prompt ('' if content storage is disabled)
+ * @param encodedPoints - The ABI-encoded activity points (actionData)
+ * @param actionSignature - The PZERO authorization signature
+ * @param chainId - Optional chain ID. If not provided, uses default chain.
+ * @returns Gas estimate and cost, or the decoded revert reason
+ *
+ * @throws {Error} If the node cannot be reached (reverts are reported, not thrown)
+ *
+ * @example
+ * const simulation = await simulateMint(author, promptHash, '', encodedPoints, signature, '56');
+ * if (!simulation.wouldSucceed) console.log(simulation.revert?.name);
+ */
+export async function simulateMint(
+  author: string,
+  promptHash: string,
+  contentURI: string,
+  encodedPoints: string,
+  actionSignature: string,
+  chainId?: string
+): Promise<TransactionSimulation> {
   const contract = getPromptMinerContract(chainId);
-  const { wallet } = initializeBlockchain(chainId);
+  const { provider, chain } = initializeBlockchain(chainId);
+  const mint = contract['mint(address,bytes32,string,bytes,bytes)'];
 
-  console.log(`Executing direct mint transaction...`);
-  console.log(`- Author: ${author}`);
+  let estimatedGas: bigint;
+  try {
+    estimatedGas = await mint.estimateGas(
+      author,
+      promptHash,
+      contentURI,
+      encodedPoints,
+      actionSignature
+    );
+  } catch (error: any) {
+    if (!isRevertError(error)) {
+      throw error;
+    }
+    const revert = decodeRevert(error, getPromptMinerRevertSources());
+    console.log(`Mint simulation reverted: ${revert.name}`);
+    return { wouldSucceed: false, revert };
+  }
+
+  return await toSimulation(chain!, provider, estimatedGas);
+}
+
+/**
+ * Simulates a meta-transaction mint without broadcasting it (relayer mode).
+ *
+ * Runs the same gas estimate as executeMetaTxMint(). A revert is decoded
+ * from the ERC2771Forwarder ABI, or from the PromptMiner ABI when the
+ * forwarded call itself reverts.
+ *
+ * @param requestForSigning - The request data that was signed by the user
+ * @param forwardSignature - The user's EIP-712 signature
+ * @param chainId - Optional chain ID. If not provided, uses default chain.
+ * @returns Gas estimate and cost, or the decoded revert reason
+ *
+ * @throws {ApiError} META_TX_DEADLINE_EXPIRED, META_TX_NONCE_STALE, META_TX_NONCE_MISMATCH
+ *   or META_TX_SIGNATURE_INVALID if the forwarder would reject the request
+ * @throws {Error} If the node cannot be reached (reverts are reported, not thrown)
+ */
+export async function simulateMetaTxMint(
+  requestForSigning: {
+    from: string;
+    to: string;
+    value: bigint;
+    gas: bigint;
+    nonce: bigint;
+    deadline: bigint;
+    data: string;
+  },
+  forwardSignature: string,
+  chainId?: string
+): Promise<TransactionSimulation> {
+  const { provider, wallet, chain } = initializeBlockchain(chainId);
+
+  const { request, erc2771Forwarder } = await sdkBuildRequest(
+    requestForSigning,
+    forwardSignature,
+    wallet
+  );
+  await verifyForwardRequest(
+    requestForSigning,
+    forwardSignature,
+    erc2771Forwarder.connect(provider),
+    chain!.chainId
+  );
+  const forwarderWithSigner = erc2771Forwarder.connect(wallet);
+
+  let estimatedGas: bigint;
+  try {
+    estimatedGas = await forwarderWithSigner.execute.estimateGas(request);
+  } catch (error: any) {
+    if (!isRevertError(error)) {
+      throw error;
+    }
+    const revert = await decodeMetaTxRevert(error, forwarderWithSigner, requestForSigning);
+    console.log(`Meta-transaction simulation reverted: ${revert.name}`);
+    return { wouldSucceed: false, revert };
+  }
+
+  return await toSimulation(chain!, provider, estimatedGas);
+}
+
+/** migratePrompt fragment, once loaded */
+let migrationFunction: ethers.FunctionFragment | null = null;
+
+/**
+ * Loads the PromptMiner migratePrompt function from the contract's ABI.
+ *
+ * The SDK's PromptMiner ABI is used if it declares migratePrompt. The
+ * current SDK does not, so the ABI is read from the contract artifact at
+ * PM_MIGRATION_ABI_PATH (a Hardhat/Foundry artifact with an `abi` field, or
+ * a bare ABI array). The fragment is never guessed: a call with the wrong
+ * signature would revert or do something else.
+ *
+ * @throws {ApiError} MIGRATION_NOT_SUPPORTED if no ABI declares migratePrompt
+ * @throws {Error} If PM_MIGRATION_ABI_PATH cannot be read as an ABI
+ */
+function getMigrationFunction(): ethers.FunctionFragment {
+  if (migrationFunction) {
+    return migrationFunction;
+  }
+
+  let iface = contractFactories.PromptMinerWithActivityPoints.createInterface() as ethers.Interface;
+  let source = 'the SDK PromptMiner ABI';
+  if (!iface.hasFunction('migratePrompt') && config.migration.abiPath) {
+    try {
+      const artifact = JSON.parse(readFileSync(config.migration.abiPath, 'utf8'));
+      iface = new ethers.Interface(Array.isArray(artifact) ? artifact : artifact.abi);
+    } catch (error: any) {
+      throw new Error(`Cannot read PromptMiner ABI ${config.migration.abiPath}: ${error.message}`);
+    }
+    source = config.migration.abiPath;
+  }
+  if (!iface.hasFunction('migratePrompt')) {
+    throw new ApiError(
+      501,
+      'MIGRATION_NOT_SUPPORTED',
+      'No PromptMiner ABI declares migratePrompt. Set PM_MIGRATION_ABI_PATH to the PromptMiner contract artifact.'
+    );
+  }
+
+  migrationFunction = iface.getFunction('migratePrompt')!;
+  console.log(`Prompt migrations call ${migrationFunction.format('full')} from ${source}`);
+  return migrationFunction;
+}
+
+/** Solidity type of each migration argument */
+const MIGRATION_ARG_TYPES: Record<MigrationArg, string> = {
+  promptHash: 'bytes32',
+  promptMiner: 'address',
+  dataPoint: 'address',
+};
+
+/**
+ * Builds the migratePrompt arguments from PM_MIGRATION_ARGS.
+ *
+ * Inputs are bound by position, never by name: PM_MIGRATION_ARGS must list
+ * one argument per input of the fragment, each of the input's type.
+ * Anything else is refused rather than sent with the addresses swapped.
+ *
+ * @throws {ApiError} MIGRATION_NOT_SUPPORTED if an input cannot be bound
+ */
+function getMigrationArgs(
+  fragment: ethers.FunctionFragment,
+  promptHash: string,
+  target: MigrationTarget
+): string[] {
+  const signature = fragment.format('full');
+  const bound = config.migration.args;
+  if (!bound) {
+    throw new ApiError(
+      501,
+      'MIGRATION_NOT_SUPPORTED',
+      `Set PM_MIGRATION_ARGS to the arguments of ${signature} in input order (e.g. promptHash,promptMiner,dataPoint)`
+    );
+  }
+  if (bound.length !== fragment.inputs.length) {
+    throw new ApiError(
+      501,
+      'MIGRATION_NOT_SUPPORTED',
+      `PM_MIGRATION_ARGS lists ${bound.length} argument(s), but ${signature} takes ${fragment.inputs.length}`
+    );
+  }
+
+  const values: Record<MigrationArg, string> = {
+    promptHash,
+    promptMiner: target.promptMinerAddress,
+    dataPoint: target.dataPointAddress,
+  };
+  return fragment.inputs.map((input, position) => {
+    const arg = bound[position];
+    if (input.type !== MIGRATION_ARG_TYPES[arg]) {
+      throw new ApiError(
+        501,
+        'MIGRATION_NOT_SUPPORTED',
+        `PM_MIGRATION_ARGS binds ${arg} (${MIGRATION_ARG_TYPES[arg]}) to input ${position} '${input.format('full')}' of ${signature}`
+      );
+    }
+    return values[arg];
+  });
+}
+
+/**
+ * Checks if a prompt has been minted on a PromptMiner other than the chain's configured one.
+ *
+ * Used to check migration targets. Answers are not cached.
+ *
+ * @param promptMinerAddress - PromptMiner contract to query
+ * @param promptHash - Keccak256 hash of the prompt
+ * @param chainId - Optional chain ID. If not provided, uses default chain.
+ * @returns True if the prompt is minted on that PromptMiner
+ */
+export async function checkPromptMintedAt(
+  promptMinerAddress: string,
+  promptHash: string,
+  chainId?: string
+): Promise<boolean> {
+  const { provider } = initializeBlockchain(chainId);
+  const contract = contractFactories.PromptMinerWithActivityPoints.connect(
+    promptMinerAddress,
+    provider
+  );
+
+  try {
+    return await contract.isPromptMinted(promptHash);
+  } catch (error: any) {
+    console.error(`Failed to check prompt status on ${promptMinerAddress}:`, error.message);
+    throw new Error(`Failed to query prompt status: ${error.message}`);
+  }
+}
+
+/**
+ * Translates a failed migration into a descriptive error.
+ *
+ * @param error - Error thrown by ethers while sending or waiting
+ * @param walletAddress - Address of the backend wallet that sent the migration
+ * @returns Error with a helpful message
+ */
+function toMigrationError(error: any, walletAddress: string): Error {
+  console.error(`Prompt migration failed:`, error.message);
+
+  if (error instanceof ApiError) {
+    return error;
+  } else if (error.code === 'INSUFFICIENT_FUNDS') {
+    return new Error(`Insufficient funds for gas. Wallet ${walletAddress} needs more native token.`);
+  } else if (isRevertError(error)) {
+    const revert = decodeRevert(error, getPromptMinerRevertSources());
+    return new Error(`Migration transaction failed: ${revert.message}`);
+  }
+
+  return new Error(`Migration transaction failed: ${error.message}`);
+}
+
+/**
+ * Submits a prompt migration without waiting for confirmation.
+ *
+ * Moves a minted prompt from the chain's PromptMiner to another PromptMiner
+ * and data point. The backend wallet signs and pays for the transaction.
+ * Use waitForMigration() to wait for the receipt.
+ *
+ * The migratePrompt fragment comes from the PromptMiner ABI (see
+ * getMigrationFunction()). The call is first run with staticCall, so a
+ * migration that would revert is refused with its decoded reason before
+ * anything is sent.
+ *
+ * @param promptHash - The keccak256 hash of the prompt
+ * @param target - PromptMiner and data point to migrate the prompt to
+ * @param chainId - Optional chain ID. If not provided, uses default chain.
+ * @returns Broadcast transaction
+ *
+ * @throws {ApiError} MIGRATION_NOT_SUPPORTED if no PromptMiner ABI declares migratePrompt or PM_MIGRATION_ARGS does not bind its inputs
+ * @throws {Error} If the migration would revert or the transaction cannot be submitted
+ *
+ * @example
+ * const tx = await submitMigration(promptHash, chain.migrationTargets[0], '56');
+ * const receipt = await waitForMigration(tx, promptHash);
+ */
+export async function submitMigration(
+  promptHash: string,
+  target: MigrationTarget,
+  chainId?: string
+): Promise<ethers.TransactionResponse> {
+  const { wallet, chain } = initializeBlockchain(chainId);
+  if (!chain) {
+    throw new Error(`Chain configuration not found for chainId: ${chainId}`);
+  }
+
+  const fragment = getMigrationFunction();
+  const args = getMigrationArgs(fragment, promptHash, target);
+  const contract = new ethers.Contract(chain.promptMinerAddress, [fragment], wallet);
+  const migratePrompt = contract.getFunction(fragment);
+
+  console.log(`Executing prompt migration...`);
   console.log(`- Prompt hash: ${promptHash}`);
-  console.log(`- Content URI: ${contentURI || '(empty)'}`);
-  console.log(`- PZERO authorization: ${actionSignature.slice(0, 10)}...`);
+  console.log(`- From PromptMiner: ${chain.promptMinerAddress}`);
+  console.log(`- To PromptMiner: ${target.promptMinerAddress}`);
+  console.log(`- To data point: ${target.dataPointAddress}`);
 
   try {
-    // Call mint function on PromptMiner contract
-    // Signature: mint(address author, bytes32 promptHash, string contentURI, bytes actionData, bytes actionSignature)
-    // Note: Using full signature to call the specific overload (with author parameter)
-    const tx = await contract['mint(address,bytes32,string,bytes,bytes)'](
-      author, // Address of the author (receives rewards)
-      promptHash, // Prompt hash (bytes32)
-      contentURI, // Content URI / metadata (empty string for now)
-      encodedPoints, // Encoded activity points amount (actionData)
-      actionSignature, // PZERO authorization signature
-      {
-        gasLimit: 500000, // Adjust based on contract complexity
-      }
+    // Preflight: refuse a migration that would revert before paying for it
+    await migratePrompt.staticCall(...args);
+
+    // Estimate gas and apply the chain's fee policy
+    const estimatedGas = await migratePrompt.estimateGas(...args);
+    const gasLimit = applyGasBuffer(chain, estimatedGas);
+    const fees = await getFeeOverrides(chain, wallet.provider!);
+    console.log(`- Estimated gas: ${estimatedGas.toString()} (limit ${gasLimit.toString()})`);
+
+    const tx: ethers.TransactionResponse = await sendWithNonce(chain.chainId, wallet, (nonce) =>
+      migratePrompt(...args, { gasLimit, ...fees, nonce })
     );
 
     console.log(`Transaction submitted: ${tx.hash}`);
-    console.log(`Waiting for confirmation...`);
 
-    // Wait for transaction confirmation
-    const receipt = await tx.wait();
+    // Watch for the transaction getting stuck in the mempool
+    trackTransaction(chain.chainId, wallet, tx);
+    return tx;
+  } catch (error: any) {
+    throw toMigrationError(error, wallet.address);
+  }
+}
 
-    console.log(`Prompt minted! Block: ${receipt!.blockNumber}`);
-    console.log(`   Gas used: ${receipt!.gasUsed.toString()}`);
+/**
+ * Waits for a submitted prompt migration to be confirmed.
+ *
+ * If the transaction was sped up, the receipt of the replacement is returned.
+ *
+ * @param tx - Transaction returned by submitMigration()
+ * @param promptHash - The keccak256 hash of the migrated prompt
+ * @returns Transaction receipt
+ *
+ * @throws {Error} If the transaction fails, reverts or is cancelled
+ */
+export async function waitForMigration(
+  tx: ethers.TransactionResponse,
+  promptHash: string
+): Promise<ethers.TransactionReceipt> {
+  try {
+    console.log(`Waiting for confirmation of ${tx.hash}...`);
+    const receipt = await waitForTransaction(tx);
 
-    return receipt!;
-  } catch (error: any) {
-    console.error(`Direct mint failed:`, error.message);
-
-    // Enhanced error handling
-    if (error.code === 'INSUFFICIENT_FUNDS') {
-      throw new Error(`Insufficient funds for gas. Wallet ${wallet.address} needs more native token.`);
-    } else if (error.message?.includes('AUTHORIZATION_EXPIRED')) {
-      throw new Error('PZERO authorization expired. Please request a new authorization.');
-    } else if (error.message?.includes('INVALID_SIGNATURE')) {
-      throw new Error('Invalid PZERO signature. Authorization may be corrupted or tampered with.');
-    }
+    // The prompt left the source PromptMiner, so its cached minted status is stale
+    mintedPrompts.delete(mintedCacheKey(tx.chainId.toString(), promptHash));
+
+    console.log(`Prompt migrated! Block: ${receipt.blockNumber}`);
+    console.log(`   Gas used: ${receipt.gasUsed.toString()}`);
+    console.log(`   Fee paid: ${ethers.formatEther(receipt.fee)}`);
 
-    throw new Error(`Mint transaction failed: ${error.message}`);
+    return receipt;
+  } catch (error: any) {
+    throw toMigrationError(error, tx.from);
   }
 }
@@ -0,0 +1,353 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import axios from 'axios';
+import { config } from '../config';
+import { ApiError } from '../middleware/errorHandler';
+import { CanonicalPrompt } from '../types';
+import {
+  EncryptedEnvelope,
+  decryptEnvelope,
+  encryptEnvelope,
+  isEncryptedEnvelope,
+  parseMasterKey,
+} from '../utils/envelopeEncryption';
+
+/**
+ * Prompt content storage (contentURI).
+ *
+ * Mints put a content URI on chain next to the prompt hash. When a content
+ * store is configured (PM_CONTENT_STORE), every mint first stores the
+ * canonical prompt, or a metadata JSON describing it (PM_CONTENT_FORMAT),
+ * and passes the resulting URI to the PromptMiner. With PM_CONTENT_STORE=none
+ * the contentURI stays empty.
+ *
+ * Two stores are built in:
+ * - local: files in PM_CONTENT_LOCAL_DIR, URIs like local://<promptHash>.json
+ * - ipfs: any IPFS node HTTP API (e.g. a local Kubo node), URIs like ipfs://<cid>
+ *
+ * PRIVACY: content stored on IPFS is public. Enable PM_CONTENT_ENCRYPTION_ENABLED
+ * to store only ciphertext (AES-256-GCM with a per-prompt data key wrapped by
+ * PM_CONTENT_MASTER_KEY). Plaintext is then only returned by the decrypt
+ * endpoint, to the prompt's author or to admins.
+ */
+
+/**
+ * Content read from or written to a store.
+ */
+export interface StoredContent {
+  body: Buffer;
+  contentType: string;
+}
+
+/**
+ * Storage backend for prompt content.
+ */
+export interface ContentStore {
+  /** Scheme of the URIs returned by put(), e.g. 'ipfs' */
+  readonly scheme: string;
+  /** Stores content under a file name and returns its URI */
+  put(name: string, content: StoredContent): Promise<string>;
+  /** Reads content by URI, or returns null if it does not exist */
+  get(uri: string): Promise<StoredContent | null>;
+}
+
+/**
+ * Guesses the content type of stored content.
+ *
+ * Used where the store does not keep a content type (IPFS). Metadata is the
+ * only JSON content written by this service.
+ */
+function detectContentType(body: Buffer): string {
+  const text = body.toString('utf8').trimStart();
+  return text.startsWith('{') ? 'application/json' : 'text/plain; charset=utf-8';
+}
+
+/**
+ * Content store on the local filesystem.
+ */
+export class LocalContentStore implements ContentStore {
+  readonly scheme = 'local';
+
+  constructor(private readonly directory: string) {}
+
+  async put(name: string, content: StoredContent): Promise<string> {
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(path.join(this.directory, name), content.body);
+    return `${this.scheme}://${name}`;
+  }
+
+  async get(uri: string): Promise<StoredContent | null> {
+    const name = uri.slice(`${this.scheme}://`.length);
+    // Never resolve outside the content directory
+    if (!/^[\w.-]+$/.test(name) || name.startsWith('.')) {
+      return null;
+    }
+
+    try {
+      const body = await fs.readFile(path.join(this.directory, name));
+      return { body, contentType: detectContentType(body) };
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Content store backed by an IPFS node's HTTP API (/api/v0/add, /api/v0/cat).
+ *
+ * Content is added with CIDv1 and pinned on the node.
+ */
+export class IpfsContentStore implements ContentStore {
+  readonly scheme = 'ipfs';
+
+  constructor(
+    private readonly apiUrl: string,
+    private readonly timeoutMs: number
+  ) {}
+
+  async put(name: string, content: StoredContent): Promise<string> {
+    const form = new FormData();
+    form.append('file', new Blob([content.body], { type: content.contentType }), name);
+
+    try {
+      const response = await axios.post<{ Hash: string }>(
+        `${this.apiUrl}/api/v0/add?cid-version=1&pin=true`,
+        form,
+        { timeout: this.timeoutMs }
+      );
+      return `${this.scheme}://${response.data.Hash}`;
+    } catch (error: any) {
+      throw new ApiError(
+        502,
+        'CONTENT_STORE_ERROR',
+        `Failed to add content to IPFS: ${error.message}`
+      );
+    }
+  }
+
+  async get(uri: string): Promise<StoredContent | null> {
+    const cid = uri.slice(`${this.scheme}://`.length);
+    if (!/^[a-zA-Z0-9]+(\/[\w.-]+)*$/.test(cid)) {
+      return null;
+    }
+
+    try {
+      const response = await axios.post<ArrayBuffer>(`${this.apiUrl}/api/v0/cat`, null, {
+        params: { arg: cid },
+        responseType: 'arraybuffer',
+        timeout: this.timeoutMs,
+      });
+      const body = Buffer.from(response.data);
+      return { body, contentType: detectContentType(body) };
+    } catch (error: any) {
+      throw new ApiError(
+        502,
+        'CONTENT_STORE_ERROR',
+        `Failed to read ${uri} from IPFS: ${error.message}`
+      );
+    }
+  }
+}
+
+/**
+ * Gets the master key used to wrap content data keys.
+ *
+ * @returns The key, or null if PM_CONTENT_MASTER_KEY is not set
+ */
+function getMasterKey(): Buffer | null {
+  const { masterKey } = config.content.encryption;
+  return masterKey ? parseMasterKey(masterKey) : null;
+}
+
+/**
+ * Associated data binding encrypted content to its prompt.
+ */
+function promptAssociatedData(promptHash: string): Buffer {
+  return Buffer.from(promptHash.toLowerCase());
+}
+
+/**
+ * Parses stored content as an encrypted envelope.
+ *
+ * @returns The envelope, or null if the content is not encrypted
+ */
+function parseEnvelope(content: StoredContent): EncryptedEnvelope | null {
+  try {
+    const parsed: unknown = JSON.parse(content.body.toString('utf8'));
+    return isEncryptedEnvelope(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Creates a built-in store from the configuration.
+ */
+function createStore(kind: 'local' | 'ipfs'): ContentStore {
+  return kind === 'local'
+    ? new LocalContentStore(config.content.localDir)
+    : new IpfsContentStore(config.content.ipfsApiUrl, config.content.ipfsTimeoutMs);
+}
+
+let store: ContentStore | null =
+  config.content.store === 'none' ? null : createStore(config.content.store);
+
+/**
+ * Replaces the content store used for new mints.
+ *
+ * @param contentStore - Store implementation to use from now on, or null to mint without content
+ *
+ * @example
+ * setContentStore(new S3ContentStore(bucket));
+ */
+export function setContentStore(contentStore: ContentStore | null): void {
+  store = contentStore;
+}
+
+/**
+ * Stores a prompt's content before it is minted.
+ *
+ * Depending on PM_CONTENT_FORMAT, the canonical prompt is stored as plain
+ * text or wrapped in a metadata JSON. With PM_CONTENT_ENCRYPTION_ENABLED,
+ * that content is encrypted and only the envelope is stored.
+ *
+ * @param prompt - Canonical prompt (from promptMiningService.canonicalize)
+ * @param promptHash - Hash of the canonical prompt
+ * @param author - Ethereum address of the prompt author
+ * @returns URI to pass as contentURI, or '' if no content store is configured
+ *
+ * @throws {ApiError} CONTENT_STORE_ERROR if the store cannot be reached
+ *
+ * @example
+ * const contentURI = await storePromptContent(canonical, promptHash, author);
+ * // "ipfs://bafkrei..." or "" when storage is disabled
+ */
+export async function storePromptContent(
+  prompt: CanonicalPrompt,
+  promptHash: string,
+  author: string
+): Promise<string> {
+  if (!store) {
+    return '';
+  }
+
+  let content: StoredContent =
+    config.content.format === 'metadata'
+      ? {
+          body: Buffer.from(
+            JSON.stringify({
+              promptHash,
+              prompt: prompt.canonicalPrompt,
+              author,
+              canonicalizationVersion: prompt.canonicalizationVersion,
+              createdAt: new Date().toISOString(),
+            })
+          ),
+          contentType: 'application/json',
+        }
+      : { body: Buffer.from(prompt.canonicalPrompt), contentType: 'text/plain; charset=utf-8' };
+
+  let extension = config.content.format === 'metadata' ? 'json' : 'txt';
+
+  const masterKey = config.content.encryption.enabled ? getMasterKey() : null;
+  if (masterKey) {
+    const envelope = encryptEnvelope(
+      content.body,
+      content.contentType,
+      masterKey,
+      promptAssociatedData(promptHash)
+    );
+    content = { body: Buffer.from(JSON.stringify(envelope)), contentType: 'application/json' };
+    extension = 'enc.json';
+  }
+
+  return await store.put(`${promptHash}.${extension}`, content);
+}
+
+/**
+ * Checks whether stored content is an encrypted envelope.
+ *
+ * @param content - Content read from a store
+ * @returns True if the content must be decrypted to be read
+ */
+export function isEncryptedContent(content: StoredContent): boolean {
+  return parseEnvelope(content) !== null;
+}
+
+/**
+ * Decrypts content stored with PM_CONTENT_ENCRYPTION_ENABLED.
+ *
+ * Callers are responsible for checking that the requester may read the
+ * prompt (see promptMiningService.decryptPromptContent).
+ *
+ * @param content - Encrypted content read from a store
+ * @param promptHash - Hash of the prompt the content belongs to
+ * @returns The plaintext content
+ *
+ * @throws {ApiError} CONTENT_NOT_ENCRYPTED if the content is plaintext
+ * @throws {ApiError} DECRYPTION_UNAVAILABLE if no master key is configured
+ * @throws {ApiError} DECRYPTION_FAILED if the key does not match or the content was altered
+ */
+export function decryptContent(content: StoredContent, promptHash: string): StoredContent {
+  const envelope = parseEnvelope(content);
+  if (!envelope) {
+    throw new ApiError(409, 'CONTENT_NOT_ENCRYPTED', 'Prompt content is not encrypted');
+  }
+
+  const masterKey = getMasterKey();
+  if (!masterKey) {
+    throw new ApiError(
+      503,
+      'DECRYPTION_UNAVAILABLE',
+      'Content decryption is not available: PM_CONTENT_MASTER_KEY is not configured'
+    );
+  }
+
+  try {
+    const body = decryptEnvelope(envelope, masterKey, promptAssociatedData(promptHash));
+    return { body, contentType: envelope.contentType };
+  } catch (error: any) {
+    console.error(`Failed to decrypt content of prompt ${promptHash}:`, error.message);
+    throw new ApiError(500, 'DECRYPTION_FAILED', 'Prompt content could not be decrypted');
+  }
+}
+
+/**
+ * Reads content back from its URI.
+ *
+ * URIs are resolved by the configured store if the scheme matches, otherwise
+ * by the built-in store for the scheme, so content stays readable after
+ * switching stores.
+ *
+ * @param uri - Content URI as stored on chain
+ * @returns The stored content
+ *
+ * @throws {ApiError} UNSUPPORTED_CONTENT_URI if no store handles the URI scheme
+ * @throws {ApiError} CONTENT_NOT_FOUND if the store has no content for the URI
+ * @throws {ApiError} CONTENT_STORE_ERROR if the store cannot be reached
+ */
+export async function resolveContent(uri: string): Promise<StoredContent> {
+  const scheme = uri.split('://')[0];
+
+  let resolver: ContentStore;
+  if (store && store.scheme === scheme) {
+    resolver = store;
+  } else if (scheme === 'local' || scheme === 'ipfs') {
+    resolver = createStore(scheme);
+  } else {
+    throw new ApiError(
+      422,
+      'UNSUPPORTED_CONTENT_URI',
+      `Content URI ${uri} cannot be resolved by this service`
+    );
+  }
+
+  const content = await resolver.get(uri);
+  if (!content) {
+    throw new ApiError(404, 'CONTENT_NOT_FOUND', `No content found for ${uri}`);
+  }
+  return content;
+}
@@ -0,0 +1,256 @@
+import { ethers } from 'ethers';
+import { ChainConfig, ChainFeePolicy } from '../config';
+import { ApiError } from '../middleware/errorHandler';
+
+/**
+ * Fee and gas policy for transactions sent by the backend wallet.
+ *
+ * Replaces hardcoded gas limits with estimated gas plus a buffer, and picks
+ * EIP-1559 (maxFeePerGas / maxPriorityFeePerGas) or legacy (gasPrice)
+ * pricing per chain. A configured ceiling caps what the wallet will ever
+ * pay per unit of gas.
+ */
+
+/** Default multiplier applied to gas estimates */
+const DEFAULT_GAS_LIMIT_MULTIPLIER = 1.2;
+
+/** Minimum fee increase nodes accept for a replacement transaction */
+const MIN_REPLACEMENT_BUMP_PERCENT = 10n;
+
+/**
+ * Fee fields to spread into ethers transaction overrides.
+ */
+export type FeeOverrides =
+  { type: 2; maxFeePerGas: bigint; maxPriorityFeePerGas: bigint } | { type: 0; gasPrice: bigint };
+
+/**
+ * Fee actually paid by a mined transaction.
+ */
+export interface EffectiveFee {
+  /** Gas used by the transaction */
+  gasUsed: string;
+  /** Effective price paid per unit of gas, in wei */
+  effectiveGasPrice: string;
+  /** Total fee paid (gasUsed × effectiveGasPrice), in wei */
+  feePaid: string;
+}
+
+/**
+ * Gets the fee policy for a chain.
+ *
+ * @param chain - Chain configuration
+ * @returns The chain's fee policy (empty if none configured)
+ */
+function getFeePolicy(chain: ChainConfig): ChainFeePolicy {
+  return chain.feePolicy ?? {};
+}
+
+/**
+ * Gets the chain's maximum fee per gas.
+ *
+ * @param chain - Chain configuration
+ * @returns Ceiling in wei, or null if none is configured
+ */
+function getFeeCeiling(chain: ChainConfig): bigint | null {
+  const { maxFeePerGasGwei } = getFeePolicy(chain);
+  return maxFeePerGasGwei !== undefined
+    ? ethers.parseUnits(String(maxFeePerGasGwei), 'gwei')
+    : null;
+}
+
+/**
+ * Applies the chain's buffer multiplier to a gas estimate.
+ *
+ * @param chain - Chain configuration
+ * @param estimatedGas - Gas estimate from the node
+ * @returns Gas limit to use for the transaction
+ *
+ * @example
+ * const gasLimit = applyGasBuffer(chain, await contract.mint.estimateGas(...args));
+ */
+export function applyGasBuffer(chain: ChainConfig, estimatedGas: bigint): bigint {
+  const multiplier = getFeePolicy(chain).gasLimitMultiplier ?? DEFAULT_GAS_LIMIT_MULTIPLIER;
+  // Multiply in basis points to stay in bigint arithmetic
+  return (estimatedGas * BigInt(Math.round(multiplier * 10000))) / 10000n;
+}
+
+/**
+ * Builds fee overrides for a transaction according to the chain's fee policy.
+ *
+ * EIP-1559 chains get maxFeePerGas / maxPriorityFeePerGas from getFeeData()
+ * (or the configured priority fee). Chains without EIP-1559 support, or
+ * configured as 'legacy', get gasPrice. The configured ceiling caps
+ * maxFeePerGas / gasPrice.
+ *
+ * @param chain - Chain configuration
+ * @param provider - Provider for the chain
+ * @returns Fee overrides to spread into the transaction
+ *
+ * @throws {ApiError} GAS_PRICE_ABOVE_CEILING if the network's current price is above the ceiling
+ *
+ * @example
+ * const fees = await getFeeOverrides(chain, provider);
+ * await contract.mint(...args, { gasLimit, ...fees });
+ */
+export async function getFeeOverrides(
+  chain: ChainConfig,
+  provider: ethers.Provider
+): Promise<FeeOverrides> {
+  const policy = getFeePolicy(chain);
+  const feeData = await provider.getFeeData();
+  const ceiling = getFeeCeiling(chain);
+
+  const supports1559 = feeData.maxFeePerGas !== null && feeData.maxPriorityFeePerGas !== null;
+  const type = policy.type ?? (supports1559 ? 'eip1559' : 'legacy');
+
+  if (type === 'eip1559') {
+    if (!supports1559) {
+      throw new Error(
+        `Chain ${chain.chainId} is configured for EIP-1559 but the node returned no EIP-1559 fee data`
+      );
+    }
+
+    const maxPriorityFeePerGas =
+      policy.maxPriorityFeePerGasGwei !== undefined
+        ? ethers.parseUnits(String(policy.maxPriorityFeePerGasGwei), 'gwei')
+        : feeData.maxPriorityFeePerGas;
+
+    // Keep ethers' headroom over the base fee, adjusted for a configured tip
+    let maxFeePerGas = feeData.maxFeePerGas - feeData.maxPriorityFeePerGas + maxPriorityFeePerGas;
+
+    if (ceiling !== null && maxFeePerGas > ceiling) {
+      // The ceiling must at least cover the current base fee plus the tip
+      const baseFee = (feeData.maxFeePerGas - feeData.maxPriorityFeePerGas) / 2n;
+      if (baseFee + maxPriorityFeePerGas > ceiling) {
+        throw new ApiError(
+          503,
+          'GAS_PRICE_ABOVE_CEILING',
+          `Current network fees on chain ${chain.chainId} exceed the configured maximum of ${policy.maxFeePerGasGwei} gwei. Please retry later.`
+        );
+      }
+      maxFeePerGas = ceiling;
+    }
+
+    return { type: 2, maxFeePerGas, maxPriorityFeePerGas };
+  }
+
+  const gasPrice = feeData.gasPrice;
+  if (gasPrice === null) {
+    throw new Error(`Chain ${chain.chainId} returned no gas price`);
+  }
+  if (ceiling !== null && gasPrice > ceiling) {
+    throw new ApiError(
+      503,
+      'GAS_PRICE_ABOVE_CEILING',
+      `Current gas price on chain ${chain.chainId} exceeds the configured maximum of ${policy.maxFeePerGasGwei} gwei. Please retry later.`
+    );
+  }
+
+  return { type: 0, gasPrice };
+}
+
+/**
+ * Converts fee overrides to decimal strings for API responses.
+ *
+ * @param fees - Fee overrides
+ * @returns Fee fields in wei, as strings
+ */
+export function formatFeeOverrides(fees: FeeOverrides): {
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+  gasPrice?: string;
+} {
+  return fees.type === 2
+    ? {
+        maxFeePerGas: fees.maxFeePerGas.toString(),
+        maxPriorityFeePerGas: fees.maxPriorityFeePerGas.toString(),
+      }
+    : { gasPrice: fees.gasPrice.toString() };
+}
+
+/**
+ * Raises a fee value by a percentage.
+ */
+function bump(value: bigint, percent: bigint): bigint {
+  return (value * (100n + percent)) / 100n;
+}
+
+/**
+ * Computes fees for a replacement transaction (same nonce).
+ *
+ * Each fee field is raised by the given percentage over the previous
+ * broadcast, or set to the current network suggestion if that is higher.
+ * The chain's ceiling still applies; if it leaves no room for the minimum
+ * increase nodes require for a replacement, the bump is refused.
+ *
+ * @param chain - Chain configuration
+ * @param previous - Fees of the transaction being replaced
+ * @param current - Current network fees (from getFeeOverrides), if available
+ * @param percent - Percentage increase over the previous fees
+ * @returns Fee overrides for the replacement
+ *
+ * @throws {ApiError} FEE_CEILING_REACHED if the ceiling prevents a valid replacement
+ *
+ * @example
+ * const fees = bumpFeeOverrides(chain, tracked.fees, await getFeeOverrides(chain, provider), 20);
+ */
+export function bumpFeeOverrides(
+  chain: ChainConfig,
+  previous: FeeOverrides,
+  current: FeeOverrides | null,
+  percent: number
+): FeeOverrides {
+  const ceiling = getFeeCeiling(chain);
+  const rate = BigInt(percent);
+
+  const cap = (value: bigint, previousValue: bigint): bigint => {
+    if (ceiling === null || value <= ceiling) {
+      return value;
+    }
+    if (ceiling < bump(previousValue, MIN_REPLACEMENT_BUMP_PERCENT)) {
+      throw new ApiError(
+        409,
+        'FEE_CEILING_REACHED',
+        `Cannot raise fees on chain ${chain.chainId}: the configured maximum of ${chain.feePolicy?.maxFeePerGasGwei} gwei has been reached.`
+      );
+    }
+    return ceiling;
+  };
+  const max = (a: bigint, b: bigint | undefined): bigint => (b !== undefined && b > a ? b : a);
+
+  if (previous.type === 2) {
+    const suggested = current?.type === 2 ? current : undefined;
+    const maxFeePerGas = cap(
+      max(bump(previous.maxFeePerGas, rate), suggested?.maxFeePerGas),
+      previous.maxFeePerGas
+    );
+    let maxPriorityFeePerGas = max(
+      bump(previous.maxPriorityFeePerGas, rate),
+      suggested?.maxPriorityFeePerGas
+    );
+    if (maxPriorityFeePerGas > maxFeePerGas) {
+      maxPriorityFeePerGas = maxFeePerGas;
+    }
+    return { type: 2, maxFeePerGas, maxPriorityFeePerGas };
+  }
+
+  const suggested = current?.type === 0 ? current.gasPrice : undefined;
+  return {
+    type: 0,
+    gasPrice: cap(max(bump(previous.gasPrice, rate), suggested), previous.gasPrice),
+  };
+}
+
+/**
+ * Computes the fee actually paid by a mined transaction.
+ *
+ * @param receipt - Transaction receipt
+ * @returns Gas used, effective gas price and total fee (all in wei, as strings)
+ */
+export function getEffectiveFee(receipt: ethers.TransactionReceipt): EffectiveFee {
+  return {
+    gasUsed: receipt.gasUsed.toString(),
+    effectiveGasPrice: receipt.gasPrice.toString(),
+    feePaid: receipt.fee.toString(),
+  };
+}
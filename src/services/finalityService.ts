@@ -0,0 +1,180 @@
+import { ethers } from 'ethers';
+import * as blockchainService from './blockchainService';
+import * as transactionStatusService from './transactionStatusService';
+import { resetNonce } from './nonceManager';
+import { config, getChainConfig, getRequiredConfirmations } from '../config';
+import { MintFinality } from '../types';
+
+/**
+ * Finality tracking for mints sent by the backend.
+ *
+ * Mints are returned as soon as their transaction is included in a block.
+ * On chains whose `confirmations` is above 1 that block may still be
+ * replaced by a reorg, so such mints are reported as 'included' and watched
+ * every PM_FINALITY_CHECK_INTERVAL_MS until they have the chain's
+ * confirmations ('final').
+ *
+ * A watched transaction that disappears from the chain is left alone while
+ * the node still knows it: it is back in the mempool and will be mined
+ * again. Once the node has dropped it, the transaction is recorded as
+ * reorged and the owner of the mint is told, so a mint job can be
+ * re-queued. A transaction mined again in another block can revert there
+ * (e.g. the prompt was minted first on the new branch): it is then recorded
+ * as reverted and the owner told that the mint failed.
+ */
+
+/**
+ * Callbacks for the outcome of a watched mint.
+ */
+export interface FinalityListener {
+  /** Called once the mint has the chain's confirmations */
+  onFinal?: () => void;
+  /** Called when the transaction was reorged out and dropped by the node */
+  onReorged?: () => void;
+  /** Called when a reorg mined the transaction again and it reverted */
+  onReverted?: (receipt: ethers.TransactionReceipt) => void;
+}
+
+interface WatchedMint {
+  chainId: string;
+  /** Latest receipt (the block changes when a reorg mines it again) */
+  receipt: ethers.TransactionReceipt;
+  requiredConfirmations: number;
+  listener: FinalityListener;
+}
+
+/** Watched mints by lowercase transaction hash */
+const watched = new Map<string, WatchedMint>();
+let monitor: NodeJS.Timeout | null = null;
+
+/**
+ * Gets the confirmations after which a mint on a chain is final.
+ */
+function getRequired(chainId: string): number {
+  const chain = getChainConfig(chainId);
+  if (!chain) {
+    throw new Error(`Chain configuration not found for chainId: ${chainId}`);
+  }
+  return getRequiredConfirmations(chain);
+}
+
+/**
+ * Checks every watched mint once.
+ */
+async function checkWatchedMints(): Promise<void> {
+  const heads = new Map<string, number>();
+
+  for (const [hash, entry] of [...watched]) {
+    try {
+      const { provider } = blockchainService.initializeBlockchain(entry.chainId);
+      const receipt = await provider.getTransactionReceipt(hash);
+
+      if (receipt) {
+        if (receipt.blockHash !== entry.receipt.blockHash) {
+          console.warn(
+            `Mint ${receipt.hash} on chain ${entry.chainId} moved from block ${entry.receipt.blockNumber} to ${receipt.blockNumber} after a reorg`
+          );
+
+          if (receipt.status !== 1) {
+            watched.delete(hash);
+            console.warn(
+              `Mint ${receipt.hash} on chain ${entry.chainId} reverted in block ${receipt.blockNumber}`
+            );
+            blockchainService.forgetMintedPrompts(entry.receipt, entry.chainId);
+            await transactionStatusService.recordRevertedTransaction(receipt);
+            entry.listener.onReverted?.(receipt);
+            continue;
+          }
+          entry.receipt = receipt;
+        }
+
+        let head = heads.get(entry.chainId);
+        if (head === undefined) {
+          head = await provider.getBlockNumber();
+          heads.set(entry.chainId, head);
+        }
+        if (head - receipt.blockNumber + 1 >= entry.requiredConfirmations) {
+          watched.delete(hash);
+          console.log(`Mint ${receipt.hash} on chain ${entry.chainId} is final`);
+          entry.listener.onFinal?.();
+        }
+        continue;
+      }
+
+      // Back in the mempool: it will be mined again
+      if (await provider.getTransaction(hash)) {
+        continue;
+      }
+
+      watched.delete(hash);
+      console.warn(
+        `Mint ${entry.receipt.hash} on chain ${entry.chainId} was reorged out of block ${entry.receipt.blockNumber} and dropped`
+      );
+      blockchainService.forgetMintedPrompts(entry.receipt, entry.chainId);
+      // The wallet's next nonce went back with the dropped transaction
+      resetNonce(entry.chainId, entry.receipt.from);
+      await transactionStatusService.recordReorgedTransaction(entry.receipt.hash);
+      entry.listener.onReorged?.();
+    } catch (error: any) {
+      console.error(`Finality check of ${hash} failed:`, error.message);
+    }
+  }
+
+  if (monitor && watched.size === 0) {
+    clearInterval(monitor);
+    monitor = null;
+  }
+}
+
+function startMonitor(): void {
+  if (monitor) {
+    return;
+  }
+  monitor = setInterval(() => {
+    checkWatchedMints().catch((error: any) => {
+      console.error('Finality check failed:', error.message);
+    });
+  }, config.finality.checkIntervalMs);
+  // Do not keep the process alive just for the monitor
+  monitor.unref();
+}
+
+/**
+ * Determines the finality of a mined mint and watches it until final.
+ *
+ * Mints that already have the chain's confirmations are final and not
+ * watched.
+ *
+ * @param chainId - Chain the mint was mined on
+ * @param receipt - Receipt of the mint transaction
+ * @param listener - Optional callbacks for when the mint becomes final, is reorged out or reverts
+ * @returns Finality of the mint and the confirmations required on the chain
+ *
+ * @throws {Error} If the chain is not configured
+ *
+ * @example
+ * const { finality } = await trackFinality(chain.chainId, receipt, {
+ *   onReorged: () => requeue(job),
+ * });
+ */
+export async function trackFinality(
+  chainId: string,
+  receipt: ethers.TransactionReceipt,
+  listener: FinalityListener = {}
+): Promise<{ finality: MintFinality; requiredConfirmations: number }> {
+  const requiredConfirmations = getRequired(chainId);
+  // Counted as just included if the head cannot be read: the watcher catches up
+  const confirmations =
+    requiredConfirmations > 1 ? await receipt.confirmations().catch(() => 1) : 1;
+
+  if (confirmations >= requiredConfirmations) {
+    return { finality: 'final', requiredConfirmations };
+  }
+
+  watched.set(receipt.hash.toLowerCase(), { chainId, receipt, requiredConfirmations, listener });
+  startMonitor();
+  console.log(
+    `Mint ${receipt.hash} included with ${confirmations}/${requiredConfirmations} confirmations, watching for reorgs`
+  );
+  return { finality: 'included', requiredConfirmations };
+}
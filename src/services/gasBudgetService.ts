@@ -0,0 +1,423 @@
+import { createHash } from 'crypto';
+import { ethers } from 'ethers';
+import { GasBudgetLimits, getChainConfig, getGasBudgetLimits } from '../config';
+import { ApiError } from '../middleware/errorHandler';
+import { getFailedTransactionReceipt } from './pendingTransactionService';
+import { TtlCache } from '../utils/ttlCache';
+import { GasBudgetUsage, GasSponsorshipStatus } from '../types';
+
+/**
+ * Gas sponsorship budgets.
+ *
+ * In backend-signed and relayer mode the backend pays for gas. Each API key
+ * and each author address may spend up to a native-token amount per UTC day
+ * and per UTC month on each chain (PM_GAS_BUDGET_*, or the chain's
+ * gasBudget). Spending is the actual fee of every mined mint
+ * (gasUsed × effectiveGasPrice from the receipt).
+ *
+ * Before a mint is sent, its estimated maximum fee is reserved: it counts
+ * as spent right away, so concurrent mints (a batch, a burst of jobs) are
+ * checked against each other's reservations. A mint that does not fit in
+ * the remaining budget is refused with GAS_BUDGET_EXCEEDED, before a PZERO
+ * authorization is requested. Once mined, the reservation is settled to the
+ * receipt's fee, also when the mint reverted or was cancelled (the fee was
+ * paid); a mint that fails before anything is mined releases it.
+ */
+
+/**
+ * Who a sponsored mint is charged to.
+ */
+export interface GasSponsor {
+  /** API key of the request (only if it is a configured API key) */
+  apiKey?: string;
+  /** Author of the mint */
+  author: string;
+}
+
+type BudgetSubject = 'apiKey' | 'author';
+type BudgetPeriod = 'daily' | 'monthly';
+
+const BUDGET_FIELDS: Record<BudgetSubject, Record<BudgetPeriod, keyof GasBudgetLimits>> = {
+  apiKey: { daily: 'apiKeyDaily', monthly: 'apiKeyMonthly' },
+  author: { daily: 'authorDaily', monthly: 'authorMonthly' },
+};
+
+const SUBJECT_LABELS: Record<BudgetSubject, string> = {
+  apiKey: 'this API key',
+  author: 'this author',
+};
+
+/**
+ * Storage backend for gas spending.
+ *
+ * The default store keeps spending in process memory, so it is lost on
+ * restart. Deployments running several instances should provide a shared
+ * implementation (e.g. Redis INCRBY with an expiry) via setGasSpendStore().
+ */
+export interface GasSpendStore {
+  /** Gets the amount spent (wei) under a key, 0 if none */
+  get(key: string): Promise<bigint>;
+  /**
+   * Atomically adds to the amount spent under a key, keeping it until
+   * expiresAt (ms since epoch), and returns the new amount. Negative amounts
+   * release (part of) a reservation.
+   */
+  add(key: string, amountWei: bigint, expiresAt: number): Promise<bigint>;
+}
+
+/**
+ * Fee reserved against the budgets of a mint's API key and author.
+ */
+export interface GasReservation {
+  chainId: string;
+  /** Store keys the reservation was added to (the day and month it was made in) */
+  entries: Array<{ key: string; endsAt: number }>;
+  /** Reserved amount in wei (0 if no budget applies) */
+  amountWei: bigint;
+  /** Set once settled or released */
+  closed: boolean;
+}
+
+/**
+ * In-memory gas spend store. Entries expire when their period ends.
+ */
+export class InMemoryGasSpendStore implements GasSpendStore {
+  private cache = new TtlCache<bigint>(0);
+
+  get(key: string): Promise<bigint> {
+    return Promise.resolve(this.cache.get(key) ?? 0n);
+  }
+
+  add(key: string, amountWei: bigint, expiresAt: number): Promise<bigint> {
+    const total = (this.cache.get(key) ?? 0n) + amountWei;
+    this.cache.set(key, total, Math.max(expiresAt - Date.now(), 0));
+    return Promise.resolve(total);
+  }
+}
+
+let store: GasSpendStore = new InMemoryGasSpendStore();
+
+/**
+ * Replaces the gas spend store.
+ *
+ * @param spendStore - Store implementation to use from now on
+ *
+ * @example
+ * setGasSpendStore(new RedisGasSpendStore(redisClient));
+ */
+export function setGasSpendStore(spendStore: GasSpendStore): void {
+  store = spendStore;
+}
+
+/**
+ * Identifies an API key without storing or returning the key itself.
+ *
+ * @param apiKey - API key
+ * @returns First 12 hex characters of the key's SHA-256
+ */
+export function getApiKeyId(apiKey: string): string {
+  return createHash('sha256').update(apiKey).digest('hex').slice(0, 12);
+}
+
+/**
+ * Gets the current UTC day or month and when it ends.
+ */
+function getPeriod(period: BudgetPeriod, now: Date = new Date()): { key: string; endsAt: number } {
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+  if (period === 'daily') {
+    return {
+      key: now.toISOString().slice(0, 10),
+      endsAt: Date.UTC(year, month, now.getUTCDate() + 1),
+    };
+  }
+  return { key: now.toISOString().slice(0, 7), endsAt: Date.UTC(year, month + 1, 1) };
+}
+
+/**
+ * Lists the budget subjects a sponsor is charged to.
+ */
+function getSubjects(sponsor: GasSponsor): Array<{ subject: BudgetSubject; id: string }> {
+  const subjects: Array<{ subject: BudgetSubject; id: string }> = [
+    { subject: 'author', id: ethers.getAddress(sponsor.author) },
+  ];
+  if (sponsor.apiKey) {
+    subjects.unshift({ subject: 'apiKey', id: getApiKeyId(sponsor.apiKey) });
+  }
+  return subjects;
+}
+
+/**
+ * Gets the budgets of a chain.
+ */
+function getLimits(chainId: string): GasBudgetLimits {
+  const chain = getChainConfig(chainId);
+  if (!chain) {
+    throw new Error(`Chain configuration not found for chainId: ${chainId}`);
+  }
+  return getGasBudgetLimits(chain);
+}
+
+/**
+ * Lists the store keys a sponsor's mint is charged to, with their budgets.
+ */
+function getBudgetEntries(
+  chainId: string,
+  sponsor: GasSponsor
+): Array<{
+  subject: BudgetSubject;
+  period: BudgetPeriod;
+  budget?: string;
+  key: string;
+  endsAt: number;
+}> {
+  const limits = getLimits(chainId);
+  return getSubjects(sponsor).flatMap(({ subject, id }) =>
+    (['daily', 'monthly'] as const).map((period) => {
+      const { key, endsAt } = getPeriod(period);
+      return {
+        subject,
+        period,
+        budget: limits[BUDGET_FIELDS[subject][period]],
+        key: `${subject}:${id}:${chainId}:${key}`,
+        endsAt,
+      };
+    })
+  );
+}
+
+/**
+ * Adds an amount to every entry of a reservation.
+ *
+ * @returns The new amount spent under each entry
+ */
+function addToEntries(entries: GasReservation['entries'], amountWei: bigint): Promise<bigint[]> {
+  return Promise.all(entries.map(({ key, endsAt }) => store.add(key, amountWei, endsAt)));
+}
+
+/**
+ * Reads the spending of a subject against one budget.
+ */
+async function getUsage(
+  chainId: string,
+  subject: BudgetSubject,
+  id: string,
+  period: BudgetPeriod
+): Promise<GasBudgetUsage> {
+  const budget = getLimits(chainId)[BUDGET_FIELDS[subject][period]];
+  const { key, endsAt } = getPeriod(period);
+  const spent = await store.get(`${subject}:${id}:${chainId}:${key}`);
+  const budgetWei = budget === undefined ? null : ethers.parseEther(budget);
+  const remaining = budgetWei === null ? null : budgetWei > spent ? budgetWei - spent : 0n;
+
+  return {
+    budget: budget ?? null,
+    spent: ethers.formatEther(spent),
+    remaining: remaining === null ? null : ethers.formatEther(remaining),
+    resetsAt: new Date(endsAt).toISOString(),
+  };
+}
+
+/**
+ * Refuses a sponsored mint when a budget of its API key or author is used up.
+ *
+ * @param chainId - Chain the mint will be sent on
+ * @param sponsor - API key and author the mint is charged to
+ *
+ * @throws {ApiError} GAS_BUDGET_EXCEEDED if a daily or monthly budget is used up
+ *
+ * @example
+ * await ensureWithinGasBudget(chain.chainId, { apiKey, author });
+ */
+export async function ensureWithinGasBudget(chainId: string, sponsor: GasSponsor): Promise<void> {
+  for (const { subject, id } of getSubjects(sponsor)) {
+    for (const period of ['daily', 'monthly'] as const) {
+      const usage = await getUsage(chainId, subject, id, period);
+      if (usage.remaining !== null && ethers.parseEther(usage.remaining) === 0n) {
+        throw new ApiError(
+          402,
+          'GAS_BUDGET_EXCEEDED',
+          `The ${period} gas budget of ${usage.budget} for ${SUBJECT_LABELS[subject]} on chain ${chainId} is used up. It resets at ${usage.resetsAt}.`
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Reserves the estimated fee of a sponsored mint against the budgets of its
+ * API key and author.
+ *
+ * The fee is added to the spending and the budgets are checked against
+ * the totals the store returns, so each reservation is checked together
+ * with the ones made before it, even concurrently. If a budget is
+ * exceeded, the reservation is taken back and the mint refused.
+ * The fee is only estimated when a budget applies.
+ *
+ * @param chainId - Chain the mint will be sent on
+ * @param sponsor - API key and author the mint is charged to
+ * @param estimateFee - Estimates the mint's maximum fee in wei (gasLimit × maxFeePerGas)
+ * @returns The reservation, to settle with settleGasReservation() or release with releaseGasReservation()
+ *
+ * @throws {ApiError} GAS_BUDGET_EXCEEDED if the fee does not fit in a daily or monthly budget
+ *
+ * @example
+ * const reservation = await reserveGasBudget(chain.chainId, { apiKey, author }, () =>
+ *   blockchainService.estimateMaxMintFee(chain.chainId)
+ * );
+ */
+export async function reserveGasBudget(
+  chainId: string,
+  sponsor: GasSponsor,
+  estimateFee: () => Promise<bigint>
+): Promise<GasReservation> {
+  const entries = getBudgetEntries(chainId, sponsor);
+  const limited = entries.some((entry) => entry.budget !== undefined);
+  const reservation: GasReservation = {
+    chainId,
+    entries: entries.map(({ key, endsAt }) => ({ key, endsAt })),
+    amountWei: limited ? await estimateFee() : 0n,
+    closed: false,
+  };
+  if (!limited) {
+    return reservation;
+  }
+
+  const totals = await addToEntries(reservation.entries, reservation.amountWei);
+  for (const [index, { subject, period, budget, endsAt }] of entries.entries()) {
+    if (budget === undefined) continue;
+    const budgetWei = ethers.parseEther(budget);
+    const spent = totals[index];
+    if (spent <= budgetWei) continue;
+
+    await releaseGasReservation(reservation);
+    const resetsAt = new Date(endsAt).toISOString();
+    const usedUp = spent - reservation.amountWei >= budgetWei;
+    throw new ApiError(
+      402,
+      'GAS_BUDGET_EXCEEDED',
+      usedUp
+        ? `The ${period} gas budget of ${budget} for ${SUBJECT_LABELS[subject]} on chain ${chainId} is used up. It resets at ${resetsAt}.`
+        : `The ${period} gas budget of ${budget} for ${SUBJECT_LABELS[subject]} on chain ${chainId} has less left than the mint's estimated fee of ${ethers.formatEther(reservation.amountWei)}. It resets at ${resetsAt}.`
+    );
+  }
+  return reservation;
+}
+
+/**
+ * Settles a reservation to the fee a mined transaction actually paid.
+ *
+ * Does nothing if the reservation is already settled or released. Failures
+ * to record are logged, not thrown: the mint itself succeeded.
+ *
+ * @param reservation - Reservation made for the mint
+ * @param feePaid - Fee paid in wei (gasUsed × effectiveGasPrice)
+ *
+ * @example
+ * await settleGasReservation(reservation, receipt.fee);
+ */
+export async function settleGasReservation(
+  reservation: GasReservation,
+  feePaid: bigint
+): Promise<void> {
+  if (reservation.closed) {
+    return;
+  }
+  reservation.closed = true;
+  try {
+    await addToEntries(reservation.entries, feePaid - reservation.amountWei);
+  } catch (error: any) {
+    console.error(`Failed to record gas spend on chain ${reservation.chainId}:`, error.message);
+  }
+}
+
+/**
+ * Releases a reservation whose mint failed before it was mined.
+ *
+ * Does nothing if the reservation is already settled or released. Failures
+ * are logged, not thrown.
+ *
+ * @param reservation - Reservation made for the mint
+ *
+ * @example
+ * await releaseGasReservation(reservation);
+ */
+export async function releaseGasReservation(reservation: GasReservation): Promise<void> {
+  if (reservation.closed) {
+    return;
+  }
+  reservation.closed = true;
+  try {
+    await addToEntries(reservation.entries, -reservation.amountWei);
+  } catch (error: any) {
+    console.error(
+      `Failed to release gas reservation on chain ${reservation.chainId}:`,
+      error.message
+    );
+  }
+}
+
+/**
+ * Closes the reservation of a mint that failed.
+ *
+ * If a transaction was mined for the mint anyway (it reverted, or a
+ * cancellation was mined in its place), the reservation is settled to the
+ * fee it paid; otherwise it is released.
+ *
+ * @param reservation - Reservation made for the mint
+ * @param error - Error the mint failed with
+ *
+ * @example
+ * await closeFailedGasReservation(reservation, error);
+ */
+export async function closeFailedGasReservation(
+  reservation: GasReservation,
+  error: unknown
+): Promise<void> {
+  const receipt = getFailedTransactionReceipt(error);
+  if (receipt) {
+    await settleGasReservation(reservation, receipt.fee);
+  } else {
+    await releaseGasReservation(reservation);
+  }
+}
+
+/**
+ * Gets the remaining gas sponsorship of an API key and an author.
+ *
+ * @param chainId - Chain ID
+ * @param apiKey - API key of the request (only if it is a configured API key)
+ * @param author - Optional author address
+ * @returns Daily and monthly usage per subject
+ *
+ * @example
+ * const status = await getSponsorshipStatus('72080', apiKey, '0x742d35...');
+ * console.log(status.author?.daily.remaining);
+ */
+export async function getSponsorshipStatus(
+  chainId: string,
+  apiKey?: string,
+  author?: string
+): Promise<GasSponsorshipStatus> {
+  const describe = async (
+    subject: BudgetSubject,
+    id: string
+  ): Promise<{ daily: GasBudgetUsage; monthly: GasBudgetUsage }> => {
+    const [daily, monthly] = await Promise.all([
+      getUsage(chainId, subject, id, 'daily'),
+      getUsage(chainId, subject, id, 'monthly'),
+    ]);
+    return { daily, monthly };
+  };
+
+  const apiKeyId = apiKey ? getApiKeyId(apiKey) : null;
+  const authorAddress = author ? ethers.getAddress(author) : null;
+
+  return {
+    chainId,
+    apiKey: apiKeyId ? { id: apiKeyId, ...(await describe('apiKey', apiKeyId)) } : null,
+    author: authorAddress
+      ? { address: authorAddress, ...(await describe('author', authorAddress)) }
+      : null,
+  };
+}
@@ -0,0 +1,538 @@
+import { ethers } from 'ethers';
+import { contractFactories } from '@project_zero/prompt-mining-sdk';
+import * as blockchainService from './blockchainService';
+import {
+  IndexerCheckpoint,
+  IndexerStore,
+  InMemoryIndexerStore,
+  SqliteIndexerStore,
+} from './indexerStore';
+import { ChainConfig, config } from '../config';
+import { ApiError } from '../middleware/errorHandler';
+import {
+  AnalyticsDataPoint,
+  AnalyticsPeriod,
+  IndexedMint,
+  IndexedTransfer,
+  IndexerChainStatus,
+  PZeroAnalyticsResponse,
+  PZeroPromptsResponse,
+  PZeroStatsResponse,
+} from '../types';
+
+/**
+ * On-chain event indexer.
+ *
+ * Follows the PromptMinted events of each chain's PromptMiner and the
+ * Transfer events of its ActivityPoints token (getActionToken()), from
+ * PM_INDEXER_START_BLOCK or the chain's indexerStartBlock. Events are
+ * stored together with a checkpoint, so indexing resumes where it stopped.
+ *
+ * Before each pass the hashes of recently indexed blocks are compared with
+ * the chain. When a block was replaced by a reorg, events above the newest
+ * block still on the chain are rolled back and indexed again.
+ *
+ * The index is the local source of the analytics endpoints (source=index),
+ * so history and stats are available when PZERO is not and can be checked
+ * against the chain.
+ */
+
+const promptMinerInterface = contractFactories.PromptMinerWithActivityPoints.createInterface();
+const activityPointsInterface = contractFactories.ActivityPoints.createInterface();
+const PROMPT_MINTED_TOPIC = promptMinerInterface.getEvent('PromptMinted').topicHash;
+const TRANSFER_TOPIC = activityPointsInterface.getEvent('Transfer').topicHash;
+
+interface ChainState {
+  timer: NodeJS.Timeout | null;
+  headBlock: number | null;
+  reorgs: number;
+  lastError: string | null;
+  lastRunAt: string | null;
+}
+
+const states = new Map<string, ChainState>();
+let started = false;
+let store: IndexerStore | null = null;
+
+/**
+ * Replaces the indexer store.
+ *
+ * Call before startIndexer(). By default the index is kept in the SQLite database
+ * PM_INDEXER_DB_PATH (in memory if empty).
+ *
+ * @param indexerStore - Store implementation to use from now on
+ *
+ * @example
+ * setIndexerStore(new PostgresIndexerStore(pool));
+ */
+export function setIndexerStore(indexerStore: IndexerStore): void {
+  store = indexerStore;
+}
+
+function getStore(): IndexerStore {
+  if (!store) {
+    store = config.indexer.dbPath
+      ? new SqliteIndexerStore(config.indexer.dbPath)
+      : new InMemoryIndexerStore();
+  }
+  return store;
+}
+
+function getState(chainId: string): ChainState {
+  let state = states.get(chainId);
+  if (!state) {
+    state = { timer: null, headBlock: null, reorgs: 0, lastError: null, lastRunAt: null };
+    states.set(chainId, state);
+  }
+  return state;
+}
+
+/**
+ * Gets the checkpoint to start from when nothing is indexed yet.
+ */
+function getInitialCheckpoint(chain: ChainConfig): IndexerCheckpoint {
+  const startBlock = chain.indexerStartBlock ?? config.indexer.startBlock;
+  return { blockNumber: startBlock - 1, recentBlocks: [] };
+}
+
+/**
+ * Rolls back blocks that are no longer on the chain.
+ *
+ * @returns Checkpoint to continue from
+ */
+async function rollbackReorg(
+  chain: ChainConfig,
+  provider: ethers.Provider,
+  checkpoint: IndexerCheckpoint
+): Promise<IndexerCheckpoint> {
+  const { recentBlocks } = checkpoint;
+  const latest = recentBlocks[recentBlocks.length - 1];
+  if (!latest) {
+    return checkpoint;
+  }
+
+  // A node that does not return the block (e.g. a lagging load-balanced node)
+  // says nothing about a reorg: check again on the next pass
+  const latestBlock = await provider.getBlock(latest.number);
+  if (!latestBlock) {
+    console.warn(
+      `Block ${latest.number} not returned by chain ${chain.chainId}, skipping the reorg check`
+    );
+    return checkpoint;
+  }
+  if (latestBlock.hash === latest.hash) {
+    return checkpoint;
+  }
+
+  // Newest indexed block that is still on the chain
+  let rollbackTo = getInitialCheckpoint(chain);
+  for (let i = recentBlocks.length - 2; i >= 0; i--) {
+    const block = await provider.getBlock(recentBlocks[i].number);
+    if (!block) {
+      throw new Error(`Block ${recentBlocks[i].number} not found while rolling back a reorg`);
+    }
+    if (block.hash === recentBlocks[i].hash) {
+      rollbackTo = { blockNumber: block.number, recentBlocks: recentBlocks.slice(0, i + 1) };
+      break;
+    }
+  }
+
+  console.warn(
+    `Reorg detected on chain ${chain.chainId}: block ${latest.number} was replaced, rolling back to block ${rollbackTo.blockNumber}`
+  );
+  await getStore().rollback(chain.chainId, rollbackTo);
+  getState(chain.chainId).reorgs++;
+  return rollbackTo;
+}
+
+/**
+ * Gets a block, checking that it is the one a log was emitted in.
+ */
+async function getLogBlock(
+  provider: ethers.Provider,
+  blocks: Map<number, ethers.Block>,
+  log: ethers.Log
+): Promise<ethers.Block> {
+  let block = blocks.get(log.blockNumber);
+  if (!block) {
+    block = (await provider.getBlock(log.blockNumber)) ?? undefined;
+    if (!block) {
+      throw new Error(`Block ${log.blockNumber} not found`);
+    }
+    blocks.set(log.blockNumber, block);
+  }
+  if (block.hash !== log.blockHash) {
+    throw new Error(`Block ${log.blockNumber} was replaced while indexing, retrying`);
+  }
+  return block;
+}
+
+/**
+ * Indexes one block range.
+ *
+ * @returns Events of the range
+ */
+async function indexRange(
+  chain: ChainConfig,
+  provider: ethers.Provider,
+  token: string,
+  fromBlock: number,
+  toBlock: number
+): Promise<{ mints: IndexedMint[]; transfers: IndexedTransfer[] }> {
+  const logs = await provider.getLogs({
+    address: [chain.promptMinerAddress, token],
+    topics: [[PROMPT_MINTED_TOPIC, TRANSFER_TOPIC]],
+    fromBlock,
+    toBlock,
+  });
+
+  const blocks = new Map<number, ethers.Block>();
+  const mints: IndexedMint[] = [];
+  const transfers: IndexedTransfer[] = [];
+
+  for (const log of logs) {
+    const address = log.address.toLowerCase();
+    const block = await getLogBlock(provider, blocks, log);
+    const event = {
+      chainId: chain.chainId,
+      transactionHash: log.transactionHash,
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      logIndex: log.index,
+      timestamp: new Date(block.timestamp * 1000).toISOString(),
+    };
+
+    if (
+      address === chain.promptMinerAddress.toLowerCase() &&
+      log.topics[0] === PROMPT_MINTED_TOPIC
+    ) {
+      const parsed = promptMinerInterface.parseLog(log);
+      if (parsed) {
+        mints.push({
+          ...event,
+          promptHash: parsed.args.prompt as string,
+          author: ethers.getAddress(parsed.args.author as string),
+          activityPoints: '0',
+        });
+      }
+    } else if (address === token.toLowerCase() && log.topics[0] === TRANSFER_TOPIC) {
+      const parsed = activityPointsInterface.parseLog(log);
+      if (parsed) {
+        transfers.push({
+          ...event,
+          token: ethers.getAddress(token),
+          from: ethers.getAddress(parsed.args.from as string),
+          to: ethers.getAddress(parsed.args.to as string),
+          value: (parsed.args.value as bigint).toString(),
+        });
+      }
+    }
+  }
+
+  // The reward of a mint is what the author received in the same transaction
+  for (const mint of mints) {
+    const reward = transfers
+      .filter((t) => t.transactionHash === mint.transactionHash && t.to === mint.author)
+      .reduce((sum, t) => sum + BigInt(t.value), 0n);
+    mint.activityPoints = reward.toString();
+  }
+
+  return { mints, transfers };
+}
+
+/**
+ * Indexes a chain up to its latest block.
+ */
+async function indexChain(chain: ChainConfig): Promise<void> {
+  const state = getState(chain.chainId);
+  const { provider } = blockchainService.initializeBlockchain(chain.chainId);
+  const indexerStore = getStore();
+
+  let checkpoint = (await indexerStore.getCheckpoint(chain.chainId)) ?? getInitialCheckpoint(chain);
+  checkpoint = await rollbackReorg(chain, provider, checkpoint);
+
+  const head = await provider.getBlockNumber();
+  state.headBlock = head;
+
+  const promptMiner = contractFactories.PromptMinerWithActivityPoints.connect(
+    chain.promptMinerAddress,
+    provider
+  );
+  const token = await promptMiner.getActionToken();
+
+  while (checkpoint.blockNumber < head) {
+    const fromBlock = checkpoint.blockNumber + 1;
+    const toBlock = Math.min(fromBlock + config.indexer.batchBlocks - 1, head);
+
+    const end = await provider.getBlock(toBlock);
+    if (!end?.hash) {
+      throw new Error(`Block ${toBlock} not found`);
+    }
+    const { mints, transfers } = await indexRange(chain, provider, token, fromBlock, toBlock);
+    if ((await provider.getBlock(toBlock))?.hash !== end.hash) {
+      throw new Error(`Block ${toBlock} was replaced while indexing, retrying`);
+    }
+
+    checkpoint = {
+      blockNumber: toBlock,
+      recentBlocks: [...checkpoint.recentBlocks, { number: toBlock, hash: end.hash }].slice(
+        -config.indexer.reorgDepth
+      ),
+    };
+    await indexerStore.commit(chain.chainId, { mints, transfers, checkpoint });
+
+    if (mints.length > 0 || transfers.length > 0) {
+      console.log(
+        `Indexed blocks ${fromBlock}-${toBlock} on chain ${chain.chainId}: ${mints.length} mints, ${transfers.length} transfers`
+      );
+    }
+  }
+}
+
+/**
+ * Runs indexing passes on a chain until the process exits.
+ */
+function scheduleChain(chain: ChainConfig, delayMs: number): void {
+  const state = getState(chain.chainId);
+  state.timer = setTimeout(() => {
+    indexChain(chain)
+      .then(() => {
+        state.lastError = null;
+        state.lastRunAt = new Date().toISOString();
+      })
+      .catch((error: any) => {
+        state.lastError = error.message;
+        console.error(`Indexing failed on chain ${chain.chainId}:`, error.message);
+      })
+      .finally(() => scheduleChain(chain, config.indexer.pollIntervalMs));
+  }, delayMs);
+  // Do not keep the process alive just for the indexer
+  state.timer.unref();
+}
+
+/**
+ * Starts indexing every configured chain.
+ *
+ * The first pass runs immediately, then one every
+ * PM_INDEXER_POLL_INTERVAL_MS after the previous pass ends. Does nothing if
+ * already started.
+ *
+ * @throws {Error} If the index file cannot be loaded
+ */
+export function startIndexer(): void {
+  if (started) {
+    return;
+  }
+  started = true;
+
+  getStore();
+  for (const chain of config.chains) {
+    const startBlock = chain.indexerStartBlock ?? config.indexer.startBlock;
+    console.log(`Indexing chain ${chain.chainId} from block ${startBlock}`);
+    scheduleChain(chain, 0);
+  }
+}
+
+function ensureEnabled(): void {
+  if (!config.indexer.enabled) {
+    throw new ApiError(
+      503,
+      'INDEXER_DISABLED',
+      'The on-chain indexer is disabled. Set PM_INDEXER_ENABLED=true to use it.'
+    );
+  }
+}
+
+/**
+ * Gets the indexing progress of every configured chain.
+ *
+ * @returns Status per chain, in PM_CHAINS order
+ *
+ * @throws {ApiError} INDEXER_DISABLED if PM_INDEXER_ENABLED is false
+ */
+export async function getIndexerStatus(): Promise<IndexerChainStatus[]> {
+  ensureEnabled();
+  const indexerStore = getStore();
+
+  return Promise.all(
+    config.chains.map(async (chain) => {
+      const state = getState(chain.chainId);
+      const checkpoint = await indexerStore.getCheckpoint(chain.chainId);
+      const counts = await indexerStore.countEvents(chain.chainId);
+      return {
+        chainId: chain.chainId,
+        lastIndexedBlock: checkpoint?.blockNumber ?? null,
+        headBlock: state.headBlock,
+        mints: counts.mints,
+        transfers: counts.transfers,
+        reorgs: state.reorgs,
+        lastError: state.lastError,
+        lastRunAt: state.lastRunAt,
+      };
+    })
+  );
+}
+
+function sumActivityPoints(mints: IndexedMint[]): string {
+  return mints.reduce((sum, mint) => sum + BigInt(mint.activityPoints), 0n).toString();
+}
+
+/**
+ * Gets indexed mints, newest first, in the shape of PZERO's customer prompts.
+ *
+ * @param page - Page number (1-indexed)
+ * @param limit - Items per page
+ * @param chainId - Optional filter by chain ID
+ * @returns Paginated list of indexed prompts (activity points in wei)
+ *
+ * @throws {ApiError} INDEXER_DISABLED if PM_INDEXER_ENABLED is false
+ *
+ * @example
+ * const result = await getIndexedPrompts(1, 50, '72080');
+ */
+export async function getIndexedPrompts(
+  page: number,
+  limit: number,
+  chainId?: string
+): Promise<PZeroPromptsResponse> {
+  ensureEnabled();
+  const mints = await getStore().listMints({ chainId });
+
+  return {
+    prompts: mints.slice((page - 1) * limit, page * limit).map((mint) => ({
+      id: `${mint.chainId}:${mint.transactionHash}:${mint.logIndex}`,
+      promptHash: mint.promptHash,
+      author: mint.author,
+      activityPoints: mint.activityPoints,
+      chainId: mint.chainId,
+      transactionHash: mint.transactionHash,
+      createdAt: mint.timestamp,
+    })),
+    pagination: {
+      page,
+      limit,
+      total: mints.length,
+      totalPages: Math.ceil(mints.length / limit),
+    },
+  };
+}
+
+/**
+ * Splits a period into buckets (UTC).
+ *
+ * - day: 24 hourly buckets of the date
+ * - week: 7 daily buckets ending with the date
+ * - month: daily buckets of the date's calendar month
+ */
+function getBuckets(
+  period: AnalyticsPeriod,
+  date: Date
+): Array<{ label: string; start: number; end: number }> {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  const day = date.getUTCDate();
+  const HOUR = 3600000;
+  const DAY = 24 * HOUR;
+
+  if (period === 'day') {
+    const start = Date.UTC(year, month, day);
+    return Array.from({ length: 24 }, (_, hour) => ({
+      label: new Date(start + hour * HOUR).toISOString().slice(0, 13) + ':00',
+      start: start + hour * HOUR,
+      end: start + (hour + 1) * HOUR,
+    }));
+  }
+
+  const first = period === 'week' ? Date.UTC(year, month, day - 6) : Date.UTC(year, month, 1);
+  const days = period === 'week' ? 7 : new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return Array.from({ length: days }, (_, index) => ({
+    label: new Date(first + index * DAY).toISOString().slice(0, 10),
+    start: first + index * DAY,
+    end: first + (index + 1) * DAY,
+  }));
+}
+
+/**
+ * Gets time-based analytics of indexed mints, in the shape of PZERO's analytics.
+ *
+ * @param period - Time period: 'day' (hourly), 'week' (7 days ending with date) or 'month' (calendar month)
+ * @param date - Optional ISO date (YYYY-MM-DD, defaults to today, UTC)
+ * @returns Analytics data for the period (activity points in wei)
+ *
+ * @throws {ApiError} INDEXER_DISABLED if PM_INDEXER_ENABLED is false
+ *
+ * @example
+ * const analytics = await getIndexedAnalytics('week', '2025-11-19');
+ */
+export async function getIndexedAnalytics(
+  period: AnalyticsPeriod,
+  date?: string
+): Promise<PZeroAnalyticsResponse> {
+  ensureEnabled();
+  const buckets = getBuckets(period, date ? new Date(`${date}T00:00:00Z`) : new Date());
+  const first = buckets[0];
+  const last = buckets[buckets.length - 1];
+  const mints = await getStore().listMints({
+    since: new Date(first.start),
+    until: new Date(last.end),
+  });
+
+  const data: AnalyticsDataPoint[] = buckets.map((bucket) => {
+    const inBucket = mints.filter((mint) => {
+      const time = Date.parse(mint.timestamp);
+      return time >= bucket.start && time < bucket.end;
+    });
+    return {
+      date: bucket.label,
+      count: inBucket.length,
+      totalActivityPoints: sumActivityPoints(inBucket),
+    };
+  });
+
+  return {
+    period,
+    dateRange: {
+      start: new Date(first.start).toISOString().slice(0, 10),
+      end: new Date(last.end - 1).toISOString().slice(0, 10),
+    },
+    data,
+    summary: {
+      totalPrompts: mints.length,
+      totalActivityPoints: sumActivityPoints(mints),
+    },
+  };
+}
+
+/**
+ * Gets overall statistics of indexed mints, in the shape of PZERO's stats.
+ *
+ * @returns Totals, unique authors and a breakdown by chain (activity points in wei)
+ *
+ * @throws {ApiError} INDEXER_DISABLED if PM_INDEXER_ENABLED is false
+ *
+ * @example
+ * const stats = await getIndexedStats();
+ * console.log(`${stats.totalPrompts} prompts by ${stats.uniqueAuthors} authors`);
+ */
+export async function getIndexedStats(): Promise<PZeroStatsResponse> {
+  ensureEnabled();
+  const mints = await getStore().listMints({});
+
+  const byChain = config.chains.map((chain) => {
+    const chainMints = mints.filter((mint) => mint.chainId === chain.chainId);
+    return {
+      chainId: chain.chainId,
+      count: chainMints.length,
+      totalActivityPoints: sumActivityPoints(chainMints),
+    };
+  });
+
+  return {
+    totalPrompts: mints.length,
+    totalActivityPoints: sumActivityPoints(mints),
+    uniqueAuthors: new Set(mints.map((mint) => mint.author)).size,
+    byChain,
+    firstPromptAt: mints[mints.length - 1]?.timestamp,
+    lastPromptAt: mints[0]?.timestamp,
+  };
+}
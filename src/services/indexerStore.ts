@@ -0,0 +1,302 @@
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import Database from 'better-sqlite3';
+import { IndexedMint, IndexedTransfer } from '../types';
+
+/**
+ * Storage for the on-chain indexer.
+ *
+ * Events and the checkpoint of a chain are written together, so a crash
+ * never leaves events without the checkpoint that covers them (or the
+ * other way round). The default store is an SQLite database file; plug in
+ * another database with setIndexerStore() to share the index between
+ * instances.
+ */
+
+/**
+ * Where indexing of a chain stands.
+ */
+export interface IndexerCheckpoint {
+  /** Last block whose events are stored */
+  blockNumber: number;
+  /** Hashes of recently indexed blocks (batch ends), oldest first, used to detect reorgs */
+  recentBlocks: Array<{ number: number; hash: string }>;
+}
+
+/**
+ * Events of a block range, stored with the checkpoint at its end.
+ */
+export interface IndexerBatch {
+  mints: IndexedMint[];
+  transfers: IndexedTransfer[];
+  checkpoint: IndexerCheckpoint;
+}
+
+/**
+ * Filter for stored mints.
+ */
+export interface IndexedMintQuery {
+  chainId?: string;
+  /** Only mints at or after this time */
+  since?: Date;
+  /** Only mints before this time */
+  until?: Date;
+}
+
+/**
+ * Storage backend for indexed events.
+ */
+export interface IndexerStore {
+  getCheckpoint(chainId: string): Promise<IndexerCheckpoint | null>;
+  /** Stores a batch of events and its checkpoint atomically */
+  commit(chainId: string, batch: IndexerBatch): Promise<void>;
+  /** Removes events above a block and sets the checkpoint atomically (reorg rollback) */
+  rollback(chainId: string, checkpoint: IndexerCheckpoint): Promise<void>;
+  /** Lists stored mints, newest first */
+  listMints(query: IndexedMintQuery): Promise<IndexedMint[]>;
+  /** Counts the stored events of a chain */
+  countEvents(chainId: string): Promise<{ mints: number; transfers: number }>;
+}
+
+interface ChainIndex {
+  checkpoint: IndexerCheckpoint | null;
+  mints: IndexedMint[];
+  transfers: IndexedTransfer[];
+}
+
+/**
+ * In-memory indexer store. The index is rebuilt from the start block on restart.
+ */
+export class InMemoryIndexerStore implements IndexerStore {
+  protected chains = new Map<string, ChainIndex>();
+
+  private getChain(chainId: string): ChainIndex {
+    let chain = this.chains.get(chainId);
+    if (!chain) {
+      chain = { checkpoint: null, mints: [], transfers: [] };
+      this.chains.set(chainId, chain);
+    }
+    return chain;
+  }
+
+  getCheckpoint(chainId: string): Promise<IndexerCheckpoint | null> {
+    return Promise.resolve(this.chains.get(chainId)?.checkpoint ?? null);
+  }
+
+  commit(chainId: string, batch: IndexerBatch): Promise<void> {
+    const chain = this.getChain(chainId);
+    chain.mints.push(...batch.mints);
+    chain.transfers.push(...batch.transfers);
+    chain.checkpoint = batch.checkpoint;
+    return Promise.resolve();
+  }
+
+  rollback(chainId: string, checkpoint: IndexerCheckpoint): Promise<void> {
+    const chain = this.getChain(chainId);
+    chain.mints = chain.mints.filter((mint) => mint.blockNumber <= checkpoint.blockNumber);
+    chain.transfers = chain.transfers.filter(
+      (transfer) => transfer.blockNumber <= checkpoint.blockNumber
+    );
+    chain.checkpoint = checkpoint;
+    return Promise.resolve();
+  }
+
+  listMints(query: IndexedMintQuery): Promise<IndexedMint[]> {
+    const chains = query.chainId ? [this.chains.get(query.chainId)] : [...this.chains.values()];
+    const since = query.since?.getTime() ?? -Infinity;
+    const until = query.until?.getTime() ?? Infinity;
+
+    const mints = chains
+      .flatMap((chain) => chain?.mints ?? [])
+      .filter((mint) => {
+        const time = Date.parse(mint.timestamp);
+        return time >= since && time < until;
+      })
+      .sort(
+        (a, b) =>
+          Date.parse(b.timestamp) - Date.parse(a.timestamp) ||
+          b.blockNumber - a.blockNumber ||
+          b.logIndex - a.logIndex
+      );
+    return Promise.resolve(mints.map((mint) => ({ ...mint })));
+  }
+
+  countEvents(chainId: string): Promise<{ mints: number; transfers: number }> {
+    const chain = this.chains.get(chainId);
+    return Promise.resolve({
+      mints: chain?.mints.length ?? 0,
+      transfers: chain?.transfers.length ?? 0,
+    });
+  }
+}
+
+/**
+ * Indexer store kept in an SQLite database, so indexing resumes from the
+ * checkpoint after a restart.
+ *
+ * Every batch only inserts its own events and updates the checkpoint, in
+ * one transaction; a rollback deletes the events above its block. The
+ * database runs in WAL mode, so writes are appended to the log instead of
+ * rewriting the index.
+ */
+export class SqliteIndexerStore implements IndexerStore {
+  private readonly db: Database.Database;
+  private readonly statements: {
+    getCheckpoint: Database.Statement<[string], { block_number: number; recent_blocks: string }>;
+    setCheckpoint: Database.Statement<[string, number, string]>;
+    insertMint: Database.Statement<[string, number, number, string, string]>;
+    insertTransfer: Database.Statement<[string, number, number, string]>;
+    deleteMints: Database.Statement<[string, number]>;
+    deleteTransfers: Database.Statement<[string, number]>;
+    countMints: Database.Statement<[string], { count: number }>;
+    countTransfers: Database.Statement<[string], { count: number }>;
+  };
+
+  /**
+   * @param path - SQLite database file (created if missing)
+   *
+   * @throws {Error} If the file cannot be opened as an SQLite database
+   */
+  constructor(path: string) {
+    try {
+      mkdirSync(dirname(path), { recursive: true });
+      this.db = new Database(path);
+      this.db.pragma('journal_mode = WAL');
+      this.db.exec(`
+        CREATE TABLE IF NOT EXISTS checkpoints (
+          chain_id TEXT PRIMARY KEY,
+          block_number INTEGER NOT NULL,
+          recent_blocks TEXT NOT NULL
+        );
+        CREATE TABLE IF NOT EXISTS mints (
+          chain_id TEXT NOT NULL,
+          block_number INTEGER NOT NULL,
+          log_index INTEGER NOT NULL,
+          timestamp TEXT NOT NULL,
+          data TEXT NOT NULL,
+          PRIMARY KEY (chain_id, block_number, log_index)
+        );
+        CREATE INDEX IF NOT EXISTS mints_by_time ON mints (timestamp);
+        CREATE TABLE IF NOT EXISTS transfers (
+          chain_id TEXT NOT NULL,
+          block_number INTEGER NOT NULL,
+          log_index INTEGER NOT NULL,
+          data TEXT NOT NULL,
+          PRIMARY KEY (chain_id, block_number, log_index)
+        );
+      `);
+    } catch (error: any) {
+      throw new Error(`Cannot open indexer database ${path}: ${error.message}`);
+    }
+
+    this.statements = {
+      getCheckpoint: this.db.prepare(
+        'SELECT block_number, recent_blocks FROM checkpoints WHERE chain_id = ?'
+      ),
+      setCheckpoint: this.db.prepare(
+        'INSERT OR REPLACE INTO checkpoints (chain_id, block_number, recent_blocks) VALUES (?, ?, ?)'
+      ),
+      // Replace: a batch retried after a failed pass inserts the same events again
+      insertMint: this.db.prepare(
+        'INSERT OR REPLACE INTO mints (chain_id, block_number, log_index, timestamp, data) VALUES (?, ?, ?, ?, ?)'
+      ),
+      insertTransfer: this.db.prepare(
+        'INSERT OR REPLACE INTO transfers (chain_id, block_number, log_index, data) VALUES (?, ?, ?, ?)'
+      ),
+      deleteMints: this.db.prepare('DELETE FROM mints WHERE chain_id = ? AND block_number > ?'),
+      deleteTransfers: this.db.prepare(
+        'DELETE FROM transfers WHERE chain_id = ? AND block_number > ?'
+      ),
+      countMints: this.db.prepare('SELECT COUNT(*) AS count FROM mints WHERE chain_id = ?'),
+      countTransfers: this.db.prepare('SELECT COUNT(*) AS count FROM transfers WHERE chain_id = ?'),
+    };
+  }
+
+  private saveCheckpoint(chainId: string, checkpoint: IndexerCheckpoint): void {
+    this.statements.setCheckpoint.run(
+      chainId,
+      checkpoint.blockNumber,
+      JSON.stringify(checkpoint.recentBlocks)
+    );
+  }
+
+  getCheckpoint(chainId: string): Promise<IndexerCheckpoint | null> {
+    const row = this.statements.getCheckpoint.get(chainId);
+    return Promise.resolve(
+      row ? { blockNumber: row.block_number, recentBlocks: JSON.parse(row.recent_blocks) } : null
+    );
+  }
+
+  commit(chainId: string, batch: IndexerBatch): Promise<void> {
+    this.db.transaction(() => {
+      for (const mint of batch.mints) {
+        this.statements.insertMint.run(
+          chainId,
+          mint.blockNumber,
+          mint.logIndex,
+          mint.timestamp,
+          JSON.stringify(mint)
+        );
+      }
+      for (const transfer of batch.transfers) {
+        this.statements.insertTransfer.run(
+          chainId,
+          transfer.blockNumber,
+          transfer.logIndex,
+          JSON.stringify(transfer)
+        );
+      }
+      this.saveCheckpoint(chainId, batch.checkpoint);
+    })();
+    return Promise.resolve();
+  }
+
+  rollback(chainId: string, checkpoint: IndexerCheckpoint): Promise<void> {
+    this.db.transaction(() => {
+      this.statements.deleteMints.run(chainId, checkpoint.blockNumber);
+      this.statements.deleteTransfers.run(chainId, checkpoint.blockNumber);
+      this.saveCheckpoint(chainId, checkpoint);
+    })();
+    return Promise.resolve();
+  }
+
+  listMints(query: IndexedMintQuery): Promise<IndexedMint[]> {
+    const conditions: string[] = [];
+    const params: Array<string> = [];
+    if (query.chainId) {
+      conditions.push('chain_id = ?');
+      params.push(query.chainId);
+    }
+    // Timestamps are stored as ISO strings, which sort chronologically
+    if (query.since) {
+      conditions.push('timestamp >= ?');
+      params.push(query.since.toISOString());
+    }
+    if (query.until) {
+      conditions.push('timestamp < ?');
+      params.push(query.until.toISOString());
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.db
+      .prepare<string[], { data: string }>(
+        `SELECT data FROM mints ${where} ORDER BY timestamp DESC, block_number DESC, log_index DESC`
+      )
+      .all(...params);
+    return Promise.resolve(rows.map((row) => JSON.parse(row.data) as IndexedMint));
+  }
+
+  countEvents(chainId: string): Promise<{ mints: number; transfers: number }> {
+    return Promise.resolve({
+      mints: this.statements.countMints.get(chainId)!.count,
+      transfers: this.statements.countTransfers.get(chainId)!.count,
+    });
+  }
+
+  /**
+   * Closes the database.
+   */
+  close(): void {
+    this.db.close();
+  }
+}
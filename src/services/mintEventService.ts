@@ -0,0 +1,176 @@
+import { randomBytes } from 'crypto';
+import { config } from '../config';
+import { MintEvent, MintEventType } from '../types';
+
+/**
+ * Live mint progress for the Server-Sent Events endpoints.
+ *
+ * promptMiningService publishes an event at each step of a mint
+ * (authorized, submitted, confirmed, failed). Events are pushed to the
+ * subscribed streams and the last PM_EVENTS_BUFFER_SIZE are kept, so a
+ * client reconnecting with Last-Event-ID is sent the events it missed.
+ *
+ * Event IDs are `<bootId>-<seq>`: the sequence restarts with the process,
+ * and the boot ID tells a client's last ID from a previous process apart
+ * from one of this process.
+ *
+ * Events and subscriptions live in this process: behind a load balancer,
+ * a client only sees the mints handled by the instance it is connected to.
+ */
+
+/**
+ * The mint an event is published for.
+ */
+export interface MintEventTarget extends Pick<MintEvent, 'promptHash' | 'chainId' | 'source' | 'author'> {
+  /** API key of the request that started the mint (never sent to clients) */
+  apiKey?: string;
+}
+
+/**
+ * Step-specific fields of an event.
+ */
+export type MintEventDetails = Pick<
+  MintEvent,
+  'transactionHash' | 'blockNumber' | 'finality' | 'error'
+>;
+
+/**
+ * Selects the events a stream is sent.
+ */
+export interface MintEventFilter {
+  /** Only events of this prompt */
+  promptHash?: string;
+  /** Only events of mints started with this API key */
+  apiKey?: string;
+}
+
+interface PublishedEvent {
+  event: MintEvent;
+  /** Sequence number in this process */
+  seq: number;
+  apiKey?: string;
+}
+
+interface Subscription {
+  filter: MintEventFilter;
+  listener: (event: MintEvent) => void;
+}
+
+/** Recent events, oldest first */
+const recent: PublishedEvent[] = [];
+const subscriptions = new Set<Subscription>();
+/** Random per process, so event IDs of different processes never collide */
+const bootId = randomBytes(4).toString('hex');
+let lastSeq = 0;
+
+function matches(published: PublishedEvent, filter: MintEventFilter): boolean {
+  if (
+    filter.promptHash !== undefined &&
+    published.event.promptHash.toLowerCase() !== filter.promptHash.toLowerCase()
+  ) {
+    return false;
+  }
+  return filter.apiKey === undefined || published.apiKey === filter.apiKey;
+}
+
+/**
+ * Sequence number of an event ID published by this process, or undefined
+ * for IDs of another process.
+ */
+function getSeqOfThisProcess(id: string): number | undefined {
+  const match = /^([0-9a-f]+)-(\d+)$/.exec(id);
+  if (!match || match[1] !== bootId) {
+    return undefined;
+  }
+  const seq = parseInt(match[2], 10);
+  return seq <= lastSeq ? seq : undefined;
+}
+
+function deliver(subscription: Subscription, event: MintEvent): void {
+  try {
+    subscription.listener(event);
+  } catch (error: any) {
+    console.error(`Delivering mint event ${event.id} failed:`, error.message);
+  }
+}
+
+/**
+ * Publishes a mint progress event to the subscribed streams.
+ *
+ * @param type - Progress step
+ * @param target - Mint the event belongs to
+ * @param details - Step-specific fields, such as the transaction hash
+ * @returns The published event
+ *
+ * @example
+ * publishMintEvent('submitted', { promptHash, chainId, source: 'backend-signed', author, apiKey }, {
+ *   transactionHash: tx.hash,
+ * });
+ */
+export function publishMintEvent(
+  type: MintEventType,
+  target: MintEventTarget,
+  details: MintEventDetails = {}
+): MintEvent {
+  const { apiKey, ...mint } = target;
+  const seq = ++lastSeq;
+  const event: MintEvent = {
+    id: `${bootId}-${seq}`,
+    type,
+    ...mint,
+    ...details,
+    timestamp: new Date().toISOString(),
+  };
+  const published: PublishedEvent = { event, seq, apiKey };
+
+  recent.push(published);
+  if (recent.length > config.events.bufferSize) {
+    recent.splice(0, recent.length - config.events.bufferSize);
+  }
+
+  for (const subscription of subscriptions) {
+    if (matches(published, subscription.filter)) {
+      deliver(subscription, event);
+    }
+  }
+  return event;
+}
+
+/**
+ * Subscribes to mint events.
+ *
+ * With lastEventId, the buffered events after it are sent first. An ID
+ * of another process (before a restart, or another instance) or one that
+ * cannot be parsed says nothing about what the client missed here, so all
+ * buffered events are sent.
+ *
+ * @param filter - Events to receive
+ * @param listener - Called with each matching event
+ * @param lastEventId - ID of the last event the client received, if reconnecting
+ * @returns Function that ends the subscription
+ *
+ * @example
+ * const unsubscribe = subscribeToMintEvents({ promptHash }, (event) => send(event), '9f86d081-41');
+ * req.on('close', unsubscribe);
+ */
+export function subscribeToMintEvents(
+  filter: MintEventFilter,
+  listener: (event: MintEvent) => void,
+  lastEventId?: string
+): () => void {
+  const subscription: Subscription = { filter, listener };
+
+  if (lastEventId !== undefined) {
+    const after = getSeqOfThisProcess(lastEventId) ?? 0;
+    for (const published of recent) {
+      if (published.seq > after && matches(published, filter)) {
+        deliver(subscription, published.event);
+      }
+    }
+  }
+
+  subscriptions.add(subscription);
+  return () => {
+    subscriptions.delete(subscription);
+  };
+}
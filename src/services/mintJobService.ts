@@ -0,0 +1,587 @@
+import { randomUUID } from 'crypto';
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import Database from 'better-sqlite3';
+import * as promptMiningService from './promptMiningService';
+import * as blockchainService from './blockchainService';
+import * as gasBudgetService from './gasBudgetService';
+import { resolveApiError } from '../middleware/errorHandler';
+import { config, getChainConfig, getDefaultChainConfig } from '../config';
+import { hashPrompt } from '../utils/crypto';
+import { MintJob, MintJobStatus } from '../types';
+
+/**
+ * Asynchronous mint job queue (backend-signed mode).
+ *
+ * POST /api/prompts/mint-for-user no longer blocks until the transaction
+ * is confirmed. The request is stored as a job and a background worker
+ * performs authorization, submission and confirmation, updating the job
+ * status as it goes. Clients poll GET /api/jobs/:id for the outcome.
+ *
+ * On chains with a `confirmations` depth, a confirmed job stays 'included'
+ * until its mint is final. If the transaction is reorged out instead, the
+ * job is queued again (up to PM_REORG_MAX_REQUEUES times) or fails.
+ *
+ * Jobs are kept in a pluggable store, by default the SQLite database
+ * PM_MINT_JOB_DB_PATH (in memory only if empty); replace it with
+ * setMintJobStore() to share jobs between instances. The store also keeps
+ * each job's mint parameters until the job is finished, so recoverMintJobs()
+ * can resume the jobs a previous run left unfinished. With the in-memory
+ * store there is nothing to resume after a restart.
+ */
+
+/**
+ * Mint parameters of a job, kept in the store until the job is finished.
+ *
+ * PRIVACY: holds the canonical prompt. Stores keep it apart from the job
+ * record, and it is never returned by the jobs endpoint.
+ */
+export interface MintJobInput {
+  jobId: string;
+  /** Canonical prompt text */
+  prompt: string;
+  author: string;
+  activityPoints: string | string[];
+  chainId: string;
+  /** API key charged for the gas, if the request carried one */
+  apiKey?: string;
+}
+
+/**
+ * Storage backend for mint jobs.
+ */
+export interface MintJobStore {
+  save(job: MintJob): Promise<void>;
+  get(id: string): Promise<MintJob | null>;
+  /** Removes finished jobs (and their inputs) last updated before the given timestamp (Unix milliseconds) */
+  prune(updatedBefore: number): Promise<void>;
+  /** Keeps the mint parameters of a job until it is finished */
+  saveInput(input: MintJobInput): Promise<void>;
+  getInput(jobId: string): Promise<MintJobInput | null>;
+  deleteInput(jobId: string): Promise<void>;
+  /** Lists jobs that are not finished (see isFinished) */
+  listUnfinished(): Promise<MintJob[]>;
+}
+
+/**
+ * Checks whether a job is finished: failed, or confirmed and no longer
+ * waiting for finality.
+ *
+ * @param job - Mint job
+ * @returns True if the job will not change anymore
+ */
+export function isFinished(job: MintJob): boolean {
+  return job.status === 'failed' || (job.status === 'confirmed' && job.finality !== 'included');
+}
+
+/**
+ * In-memory mint job store.
+ */
+export class InMemoryMintJobStore implements MintJobStore {
+  private jobs = new Map<string, MintJob>();
+  private inputs = new Map<string, MintJobInput>();
+
+  save(job: MintJob): Promise<void> {
+    this.jobs.set(job.id, { ...job });
+    return Promise.resolve();
+  }
+
+  get(id: string): Promise<MintJob | null> {
+    const job = this.jobs.get(id);
+    return Promise.resolve(job ? { ...job } : null);
+  }
+
+  prune(updatedBefore: number): Promise<void> {
+    for (const [id, job] of this.jobs) {
+      if (isFinished(job) && Date.parse(job.updatedAt) < updatedBefore) {
+        this.jobs.delete(id);
+        this.inputs.delete(id);
+      }
+    }
+    return Promise.resolve();
+  }
+
+  saveInput(input: MintJobInput): Promise<void> {
+    this.inputs.set(input.jobId, { ...input });
+    return Promise.resolve();
+  }
+
+  getInput(jobId: string): Promise<MintJobInput | null> {
+    const input = this.inputs.get(jobId);
+    return Promise.resolve(input ? { ...input } : null);
+  }
+
+  deleteInput(jobId: string): Promise<void> {
+    this.inputs.delete(jobId);
+    return Promise.resolve();
+  }
+
+  listUnfinished(): Promise<MintJob[]> {
+    return Promise.resolve(
+      [...this.jobs.values()].filter((job) => !isFinished(job)).map((job) => ({ ...job }))
+    );
+  }
+}
+
+/**
+ * Mint job store kept in an SQLite database, so unfinished jobs can be
+ * resumed by recoverMintJobs() after a restart.
+ *
+ * Jobs and inputs are stored as JSON in separate tables; a job's input row
+ * is deleted once the job is finished, so canonical prompts do not outlive
+ * their mint. The database runs in WAL mode.
+ */
+export class SqliteMintJobStore implements MintJobStore {
+  private readonly db: Database.Database;
+  private readonly statements: {
+    saveJob: Database.Statement<[string, number, string, string]>;
+    getJob: Database.Statement<[string], { data: string }>;
+    pruneInputs: Database.Statement<[string]>;
+    pruneJobs: Database.Statement<[string]>;
+    saveInput: Database.Statement<[string, string]>;
+    getInput: Database.Statement<[string], { data: string }>;
+    deleteInput: Database.Statement<[string]>;
+    listUnfinished: Database.Statement<[], { data: string }>;
+  };
+
+  /**
+   * @param path - SQLite database file (created if missing)
+   *
+   * @throws {Error} If the file cannot be opened as an SQLite database
+   */
+  constructor(path: string) {
+    try {
+      mkdirSync(dirname(path), { recursive: true });
+      this.db = new Database(path);
+      this.db.pragma('journal_mode = WAL');
+      this.db.exec(`
+        CREATE TABLE IF NOT EXISTS jobs (
+          id TEXT PRIMARY KEY,
+          finished INTEGER NOT NULL,
+          updated_at TEXT NOT NULL,
+          data TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS jobs_by_finished ON jobs (finished, updated_at);
+        CREATE TABLE IF NOT EXISTS inputs (
+          job_id TEXT PRIMARY KEY,
+          data TEXT NOT NULL
+        );
+      `);
+    } catch (error: any) {
+      throw new Error(`Cannot open mint job database ${path}: ${error.message}`);
+    }
+
+    // updated_at holds ISO timestamps, which sort chronologically
+    this.statements = {
+      saveJob: this.db.prepare(
+        'INSERT OR REPLACE INTO jobs (id, finished, updated_at, data) VALUES (?, ?, ?, ?)'
+      ),
+      getJob: this.db.prepare('SELECT data FROM jobs WHERE id = ?'),
+      pruneInputs: this.db.prepare(
+        'DELETE FROM inputs WHERE job_id IN (SELECT id FROM jobs WHERE finished = 1 AND updated_at < ?)'
+      ),
+      pruneJobs: this.db.prepare('DELETE FROM jobs WHERE finished = 1 AND updated_at < ?'),
+      saveInput: this.db.prepare('INSERT OR REPLACE INTO inputs (job_id, data) VALUES (?, ?)'),
+      getInput: this.db.prepare('SELECT data FROM inputs WHERE job_id = ?'),
+      deleteInput: this.db.prepare('DELETE FROM inputs WHERE job_id = ?'),
+      listUnfinished: this.db.prepare('SELECT data FROM jobs WHERE finished = 0'),
+    };
+  }
+
+  save(job: MintJob): Promise<void> {
+    this.statements.saveJob.run(
+      job.id,
+      isFinished(job) ? 1 : 0,
+      job.updatedAt,
+      JSON.stringify(job)
+    );
+    return Promise.resolve();
+  }
+
+  get(id: string): Promise<MintJob | null> {
+    const row = this.statements.getJob.get(id);
+    return Promise.resolve(row ? (JSON.parse(row.data) as MintJob) : null);
+  }
+
+  prune(updatedBefore: number): Promise<void> {
+    const before = new Date(updatedBefore).toISOString();
+    this.db.transaction(() => {
+      this.statements.pruneInputs.run(before);
+      this.statements.pruneJobs.run(before);
+    })();
+    return Promise.resolve();
+  }
+
+  saveInput(input: MintJobInput): Promise<void> {
+    this.statements.saveInput.run(input.jobId, JSON.stringify(input));
+    return Promise.resolve();
+  }
+
+  getInput(jobId: string): Promise<MintJobInput | null> {
+    const row = this.statements.getInput.get(jobId);
+    return Promise.resolve(row ? (JSON.parse(row.data) as MintJobInput) : null);
+  }
+
+  deleteInput(jobId: string): Promise<void> {
+    this.statements.deleteInput.run(jobId);
+    return Promise.resolve();
+  }
+
+  listUnfinished(): Promise<MintJob[]> {
+    return Promise.resolve(
+      this.statements.listUnfinished.all().map((row) => JSON.parse(row.data) as MintJob)
+    );
+  }
+
+  /**
+   * Closes the database.
+   */
+  close(): void {
+    this.db.close();
+  }
+}
+
+/**
+ * Queued mint, waiting for a worker.
+ */
+interface PendingMint extends MintJobInput {
+  /** Gas budget reserved when the job was accepted (reserved again when re-queued or recovered) */
+  reservation?: gasBudgetService.GasReservation;
+}
+
+let store: MintJobStore | null = null;
+const pendingMints: PendingMint[] = [];
+let activeWorkers = 0;
+
+/**
+ * Replaces the mint job store.
+ *
+ * Call before recoverMintJobs(). By default jobs are kept in the SQLite
+ * database PM_MINT_JOB_DB_PATH (in memory if empty).
+ *
+ * @param jobStore - Store implementation to use from now on
+ *
+ * @example
+ * setMintJobStore(new RedisMintJobStore(redisClient));
+ */
+export function setMintJobStore(jobStore: MintJobStore): void {
+  store = jobStore;
+}
+
+function getStore(): MintJobStore {
+  if (!store) {
+    store = config.mintJobs.dbPath
+      ? new SqliteMintJobStore(config.mintJobs.dbPath)
+      : new InMemoryMintJobStore();
+  }
+  return store;
+}
+
+/**
+ * Updates a job's status and persists it.
+ *
+ * @param job - Job to update (mutated in place)
+ * @param status - New status
+ * @param changes - Additional fields to set
+ */
+async function updateJob(
+  job: MintJob,
+  status: MintJobStatus,
+  changes: Partial<MintJob> = {}
+): Promise<void> {
+  Object.assign(job, changes, { status, updatedAt: new Date().toISOString() });
+  await getStore().save(job);
+  console.log(`Mint job ${job.id}: ${status}`);
+
+  // A finished job is never minted again: drop its prompt
+  if (isFinished(job)) {
+    await getStore().deleteInput(job.id);
+  }
+}
+
+/**
+ * Queues a job again after its transaction was reorged out, or fails it
+ * once PM_REORG_MAX_REQUEUES is reached.
+ *
+ * @param job - Job whose mint was reorged out (mutated in place)
+ * @param pending - Mint parameters of the job
+ * @param transactionHash - Hash of the reorged transaction
+ */
+async function requeueReorgedJob(
+  job: MintJob,
+  pending: PendingMint,
+  transactionHash: string
+): Promise<void> {
+  const reorgedTransactions = [...(job.reorgedTransactions ?? []), transactionHash];
+
+  if (reorgedTransactions.length > config.finality.maxRequeues) {
+    await updateJob(job, 'failed', {
+      reorgedTransactions,
+      finality: undefined,
+      error: {
+        code: 'MINT_REORGED',
+        message: `Mint transaction ${transactionHash} was reorged out of the chain`,
+      },
+    });
+    return;
+  }
+
+  await updateJob(job, 'queued', {
+    reorgedTransactions,
+    transactionHash: undefined,
+    contentURI: undefined,
+    receipt: undefined,
+    finality: undefined,
+    requiredConfirmations: undefined,
+  });
+  // The reorged mint's reservation was settled; the next attempt reserves its own
+  pendingMints.push({ ...pending, reservation: undefined });
+  drainQueue();
+}
+
+/**
+ * Runs a single mint job through authorization, submission and confirmation.
+ *
+ * @param pending - Queued mint parameters
+ */
+async function runJob(pending: PendingMint): Promise<void> {
+  const job = await getStore().get(pending.jobId);
+  if (!job) {
+    console.error(`Mint job ${pending.jobId} not found in store, skipping`);
+    await getStore().deleteInput(pending.jobId);
+    if (pending.reservation) {
+      await gasBudgetService.releaseGasReservation(pending.reservation);
+    }
+    return;
+  }
+
+  // Status updates from progress callbacks are chained so they are persisted in order
+  let progress: Promise<void> = Promise.resolve();
+
+  try {
+    const result = await promptMiningService.mintPromptForUser(
+      pending.prompt,
+      pending.author,
+      pending.activityPoints,
+      pending.chainId,
+      (status, details) => {
+        if (status === 'final') {
+          progress = progress.then(() => updateJob(job, 'confirmed', { finality: 'final' }));
+        } else if (status === 'reorged') {
+          progress = progress.then(() =>
+            requeueReorgedJob(job, pending, details?.transactionHash ?? '')
+          );
+        } else if (status === 'reverted') {
+          progress = progress.then(() =>
+            updateJob(job, 'failed', {
+              finality: undefined,
+              receipt: job.receipt && {
+                ...job.receipt,
+                blockNumber: details?.blockNumber ?? job.receipt.blockNumber,
+                status: 0,
+              },
+              error: {
+                code: 'TRANSACTION_REVERTED',
+                message: 'Mint transaction reverted after a reorg mined it again',
+              },
+            })
+          );
+        } else {
+          progress = progress.then(() => updateJob(job, status, details));
+        }
+        // Finality updates arrive after the job has run
+        progress = progress.catch((error: any) => {
+          console.error(`Failed to update mint job ${job.id}:`, error.message);
+        });
+      },
+      pending.apiKey,
+      pending.reservation
+    );
+
+    progress = progress.then(() =>
+      updateJob(job, 'confirmed', {
+        transactionHash: result.transactionHash,
+        contentURI: result.contentURI,
+        receipt: {
+          blockNumber: result.blockNumber,
+          gasUsed: result.gasUsed,
+          effectiveGasPrice: result.effectiveGasPrice,
+          feePaid: result.feePaid,
+          status: result.status,
+        },
+        finality: result.finality,
+        requiredConfirmations: result.requiredConfirmations,
+      })
+    );
+    await progress;
+  } catch (error: any) {
+    await progress.catch(() => undefined);
+    // Usually closed by the mint already; a no-op then
+    if (pending.reservation) {
+      await gasBudgetService.closeFailedGasReservation(pending.reservation, error);
+    }
+    const { errorCode, message } = resolveApiError(error);
+    await updateJob(job, 'failed', { error: { code: errorCode, message } });
+  }
+}
+
+/**
+ * Starts workers for queued jobs, up to the configured concurrency.
+ */
+function drainQueue(): void {
+  while (activeWorkers < config.mintJobs.concurrency && pendingMints.length > 0) {
+    const pending = pendingMints.shift()!;
+    activeWorkers++;
+
+    runJob(pending)
+      .catch((error: any) => {
+        console.error(`Mint job ${pending.jobId} crashed:`, error.message);
+      })
+      .finally(() => {
+        activeWorkers--;
+        drainQueue();
+      });
+  }
+}
+
+/**
+ * Accepts a backend-signed mint and queues it for background processing.
+ *
+ * The job is persisted with status 'queued' before this function returns.
+ * Authorization, submission and confirmation happen in the background.
+ *
+ * @param prompt - Canonical prompt text, from promptMiningService.canonicalize() (PRIVACY: never sent to PZERO)
+ * @param author - Ethereum address that will receive the Activity Points
+ * @param activityPoints - Amount of activity points to reward
+ * @param chainId - Optional chain ID. If not provided, uses default chain.
+ * @param apiKey - API key of the request, charged for the gas with the author
+ * @returns The newly created job
+ *
+ * @throws {Error} If the chain is not configured
+ * @throws {ApiError} RELAYER_FUNDS_CRITICAL if the relayer wallets are below the critical balance
+ * @throws {ApiError} GAS_BUDGET_EXCEEDED if the mint's estimated fee does not fit in the API key's or author's gas budget
+ *
+ * @example
+ * const job = await enqueueMintJob("What is AI?", "0x742d35...", "10", '72080');
+ * console.log(`Poll /api/jobs/${job.id} for progress`);
+ */
+export async function enqueueMintJob(
+  prompt: string,
+  author: string,
+  activityPoints: string | string[],
+  chainId?: string,
+  apiKey?: string
+): Promise<MintJob> {
+  const chain = chainId ? getChainConfig(chainId) : getDefaultChainConfig();
+  if (!chain) {
+    throw new Error(`Chain configuration not found for chainId: ${chainId}`);
+  }
+
+  // Refuse now rather than queue a job that cannot be sent. The fee is reserved
+  // until the job runs, so a burst of jobs cannot overspend the gas budgets.
+  await blockchainService.ensureRelayerFunds(chain.chainId);
+  const reservation = await promptMiningService.reserveMintGas(chain.chainId, { apiKey, author });
+
+  const now = new Date().toISOString();
+  const job: MintJob = {
+    id: randomUUID(),
+    status: 'queued',
+    promptHash: hashPrompt(prompt),
+    author,
+    chainId: chain.chainId,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  const input: MintJobInput = {
+    jobId: job.id,
+    prompt,
+    author,
+    activityPoints,
+    chainId: chain.chainId,
+    apiKey,
+  };
+
+  try {
+    await getStore().saveInput(input);
+    await getStore().save(job);
+  } catch (error) {
+    await getStore()
+      .deleteInput(job.id)
+      .catch(() => undefined);
+    await gasBudgetService.releaseGasReservation(reservation);
+    throw error;
+  }
+  await getStore().prune(Date.now() - config.mintJobs.retentionMs);
+  console.log(`Mint job ${job.id}: queued (prompt ${job.promptHash.slice(0, 10)}...)`);
+
+  pendingMints.push({ ...input, reservation });
+  drainQueue();
+
+  return job;
+}
+
+/**
+ * Gets a mint job by ID.
+ *
+ * @param id - Job ID returned when the mint was accepted
+ * @returns The job, or null if it does not exist (or has been pruned)
+ */
+export async function getMintJob(id: string): Promise<MintJob | null> {
+  return await getStore().get(id);
+}
+
+/**
+ * Resumes the mint jobs a previous run left unfinished.
+ *
+ * Called once at startup. Workers and finality watchers do not survive a
+ * restart, so every unfinished job in the store is handled here:
+ * - Jobs that have not sent a transaction (queued, authorizing) are queued
+ *   again from their stored input, reserving their gas budget again
+ * - Submitted jobs fail with MINT_INTERRUPTED: their transaction may still be
+ *   mined, so it is not sent twice. GET /api/transactions/:hash reports it.
+ * - Confirmed jobs waiting for finality stay 'included' and are no longer
+ *   re-queued if reorged out
+ * - Jobs without a stored input fail with MINT_INTERRUPTED
+ *
+ * @returns Number of jobs queued again
+ *
+ * @example
+ * const resumed = await recoverMintJobs();
+ * console.log(`${resumed} mint jobs resumed`);
+ */
+export async function recoverMintJobs(): Promise<number> {
+  const jobs = await getStore().listUnfinished();
+  let resumed = 0;
+
+  for (const job of jobs) {
+    if (job.status === 'confirmed') {
+      await getStore().deleteInput(job.id);
+      console.log(`Mint job ${job.id}: finality of ${job.transactionHash} no longer followed`);
+      continue;
+    }
+
+    const input = await getStore().getInput(job.id);
+    if (input && (job.status === 'queued' || job.status === 'authorizing')) {
+      await updateJob(job, 'queued');
+      pendingMints.push(input);
+      resumed++;
+      continue;
+    }
+
+    await updateJob(job, 'failed', {
+      error: {
+        code: 'MINT_INTERRUPTED',
+        message: job.transactionHash
+          ? `Server restarted while mint transaction ${job.transactionHash} was pending`
+          : 'Server restarted before the mint was sent',
+      },
+    });
+  }
+
+  if (jobs.length > 0) {
+    console.log(`Recovered ${jobs.length} unfinished mint jobs (${resumed} queued again)`);
+  }
+  drainQueue();
+  return resumed;
+}
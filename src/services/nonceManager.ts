@@ -0,0 +1,166 @@
+import { ethers } from 'ethers';
+
+/**
+ * Nonce manager for backend relayer wallets.
+ *
+ * Concurrent backend-signed and relayer transactions from the same wallet
+ * race for the same nonce when ethers picks it on its own. This module
+ * hands out nonces in order per chain and wallet address:
+ *
+ * - Broadcasts from one wallet on one chain are serialized (only the
+ *   broadcast, not the wait for confirmation)
+ * - The next nonce is tracked locally after a successful broadcast
+ * - After any failed broadcast the local counter is dropped and resynced
+ *   from getTransactionCount('pending') on next use
+ * - A broadcast rejected for a stale nonce is retried once with a fresh nonce
+ * - A broadcast the node reports as "already known" was accepted before
+ *   (e.g. by a retried RPC request): it counts as sent, with its hash
+ */
+
+interface NonceState {
+  /** Next nonce to hand out, or null when it must be resynced from the node */
+  next: number | null;
+  /** Tail of the broadcast queue for this wallet */
+  queue: Promise<void>;
+}
+
+const states = new Map<string, NonceState>();
+
+/**
+ * Error codes ethers uses for rejected nonces.
+ */
+const NONCE_ERROR_CODES = ['NONCE_EXPIRED', 'REPLACEMENT_UNDERPRICED'];
+
+function getState(chainId: string, address: string): NonceState {
+  const key = `${chainId}:${address.toLowerCase()}`;
+  let state = states.get(key);
+  if (!state) {
+    state = { next: null, queue: Promise.resolve() };
+    states.set(key, state);
+  }
+  return state;
+}
+
+/**
+ * Checks whether a broadcast failed because of its nonce.
+ *
+ * @param error - Error thrown while sending a transaction
+ * @returns True if the nonce was already used or too low
+ */
+export function isNonceError(error: any): boolean {
+  return (
+    NONCE_ERROR_CODES.includes(error?.code) ||
+    /nonce too low|nonce has already been used/i.test(error?.message ?? '')
+  );
+}
+
+/**
+ * Finds the transaction of a broadcast the node rejected as "already known".
+ *
+ * The node already holds this exact signed transaction, so the broadcast
+ * did happen. The signed transaction is read from the failed
+ * eth_sendRawTransaction request.
+ *
+ * @param error - Error thrown while sending a transaction
+ * @param provider - Provider the transaction was broadcast through
+ * @returns The transaction, or null if the error is not "already known" or it cannot be found
+ */
+async function findAlreadyKnownTransaction(
+  error: any,
+  provider: ethers.Provider
+): Promise<ethers.TransactionResponse | null> {
+  const message = `${error?.message ?? ''} ${error?.error?.message ?? ''}`;
+  const payload = error?.payload;
+  if (!/already known/i.test(message) || payload?.method !== 'eth_sendRawTransaction') {
+    return null;
+  }
+
+  try {
+    const { hash } = ethers.Transaction.from(payload.params[0] as string);
+    return hash ? await provider.getTransaction(hash) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Broadcasts a transaction with the next nonce for a wallet.
+ *
+ * Calls for the same chain and wallet are queued so each one gets its own
+ * nonce in order. The callback must broadcast the transaction with the given
+ * nonce and resolve once it has been accepted by the node (not mined).
+ *
+ * If the node answers that the transaction is already known, the broadcast
+ * transaction is returned instead of an error.
+ *
+ * @param chainId - Chain the transaction is sent on
+ * @param wallet - Wallet that signs the transaction (must be connected to a provider)
+ * @param send - Callback that broadcasts the transaction with the given nonce
+ * @returns The broadcast transaction
+ *
+ * @throws Rethrows the callback's error after resyncing the nonce
+ *
+ * @example
+ * const tx = await sendWithNonce(chain.chainId, wallet, (nonce) =>
+ *   contract.mint(author, promptHash, '', encodedPoints, signature, { nonce })
+ * );
+ */
+export async function sendWithNonce(
+  chainId: string,
+  wallet: ethers.Signer & { address: string },
+  send: (nonce: number) => Promise<ethers.TransactionResponse>
+): Promise<ethers.TransactionResponse> {
+  const state = getState(chainId, wallet.address);
+
+  const run = async (): Promise<ethers.TransactionResponse> => {
+    for (let attempt = 0; ; attempt++) {
+      if (state.next === null) {
+        state.next = await wallet.provider!.getTransactionCount(wallet.address, 'pending');
+      }
+
+      const nonce = state.next;
+      try {
+        const result = await send(nonce);
+        state.next = nonce + 1;
+        return result;
+      } catch (error: any) {
+        const known = await findAlreadyKnownTransaction(error, wallet.provider!);
+        if (known) {
+          console.warn(`Transaction ${known.hash} was already known to the node, using it`);
+          state.next = nonce + 1;
+          return known;
+        }
+
+        // Resync from the node before the next broadcast
+        state.next = null;
+
+        if (attempt === 0 && isNonceError(error)) {
+          console.warn(
+            `Nonce ${nonce} rejected for ${wallet.address} on chain ${chainId}, resyncing`
+          );
+          continue;
+        }
+        throw error;
+      }
+    }
+  };
+
+  const result = state.queue.then(run);
+  state.queue = result.then(
+    () => undefined,
+    () => undefined
+  );
+  return await result;
+}
+
+/**
+ * Forces the nonce for a wallet to be resynced from the node on next use.
+ *
+ * Useful after transactions were sent from the same key by another process.
+ *
+ * @param chainId - Chain ID
+ * @param address - Wallet address
+ */
+export function resetNonce(chainId: string, address: string): void {
+  getState(chainId, address).next = null;
+}
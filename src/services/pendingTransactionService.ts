@@ -0,0 +1,399 @@
+import { ethers } from 'ethers';
+import { config, getChainConfig } from '../config';
+import { ApiError } from '../middleware/errorHandler';
+import { FeeOverrides, bumpFeeOverrides, formatFeeOverrides, getFeeOverrides } from './feeService';
+import { BackendSigner } from './signerProvider';
+import { PendingTransactionInfo } from '../types';
+
+/**
+ * Tracker for pending transactions sent by the backend wallet.
+ *
+ * A transaction priced below the market can sit in the mempool indefinitely,
+ * blocking every later nonce of the wallet. Tracked transactions that are
+ * not mined within PM_STUCK_TX_TIMEOUT_MS are rebroadcast with the same
+ * nonce and higher fees, up to PM_STUCK_TX_MAX_AUTO_BUMPS times. Admins can
+ * also speed up or cancel (0-value self-transfer) a pending transaction.
+ *
+ * Waiting is done on the original transaction: ethers detects when its
+ * nonce was consumed by a replacement and reports the replacement's receipt.
+ */
+
+interface TrackedTransaction {
+  chainId: string;
+  wallet: BackendSigner;
+  nonce: number;
+  /** Most recent broadcast for this nonce; replacements copy its to/data/value */
+  latest: ethers.TransactionResponse;
+  hashes: string[];
+  fees: FeeOverrides;
+  bumps: number;
+  autoBumps: number;
+  cancelling: boolean;
+  /** Set while a replacement is being broadcast */
+  busy: boolean;
+  submittedAt: number;
+  lastBroadcastAt: number;
+}
+
+/** Gas limit of a plain transfer, used for cancellations */
+const TRANSFER_GAS_LIMIT = 21000n;
+
+const tracked = new Map<string, TrackedTransaction>();
+let monitor: NodeJS.Timeout | null = null;
+
+function trackingKey(tx: ethers.TransactionResponse): string {
+  return `${tx.chainId}:${tx.from.toLowerCase()}:${tx.nonce}`;
+}
+
+/**
+ * Reads the fee fields of a broadcast transaction.
+ */
+function feesOf(tx: ethers.TransactionResponse): FeeOverrides {
+  if (tx.type === 2) {
+    return {
+      type: 2,
+      maxFeePerGas: tx.maxFeePerGas!,
+      maxPriorityFeePerGas: tx.maxPriorityFeePerGas!,
+    };
+  }
+  return { type: 0, gasPrice: tx.gasPrice };
+}
+
+function toInfo(entry: TrackedTransaction): PendingTransactionInfo {
+  return {
+    originalHash: entry.hashes[0],
+    currentHash: entry.latest.hash,
+    hashes: [...entry.hashes],
+    chainId: entry.chainId,
+    from: entry.wallet.address,
+    nonce: entry.nonce,
+    fees: formatFeeOverrides(entry.fees),
+    bumps: entry.bumps,
+    cancelling: entry.cancelling,
+    submittedAt: new Date(entry.submittedAt).toISOString(),
+    lastBroadcastAt: new Date(entry.lastBroadcastAt).toISOString(),
+  };
+}
+
+/**
+ * Finds a tracked transaction by any hash broadcast for it.
+ *
+ * @throws {ApiError} TRANSACTION_NOT_PENDING if no pending transaction has this hash
+ */
+function findByHash(hash: string): TrackedTransaction {
+  const normalized = hash.toLowerCase();
+  for (const entry of tracked.values()) {
+    if (entry.hashes.some((h) => h.toLowerCase() === normalized)) {
+      return entry;
+    }
+  }
+  throw new ApiError(
+    404,
+    'TRANSACTION_NOT_PENDING',
+    `Transaction ${hash} is not a pending transaction of this service`
+  );
+}
+
+/**
+ * Rebroadcasts a tracked transaction with the same nonce and higher fees.
+ *
+ * @param entry - Tracked transaction
+ * @param mode - 'speed-up' repeats the latest broadcast, 'cancel' sends a 0-value self-transfer
+ * @param feeBumpPercent - Percentage increase over the latest fees
+ * @returns The replacement transaction
+ */
+async function replace(
+  entry: TrackedTransaction,
+  mode: 'speed-up' | 'cancel',
+  feeBumpPercent: number
+): Promise<ethers.TransactionResponse> {
+  if (entry.busy) {
+    throw new ApiError(
+      409,
+      'TRANSACTION_REPLACEMENT_IN_PROGRESS',
+      `A replacement for nonce ${entry.nonce} is already being broadcast`
+    );
+  }
+  entry.busy = true;
+
+  try {
+    const chain = getChainConfig(entry.chainId)!;
+    const provider = entry.wallet.provider!;
+
+    // Nothing to replace once the nonce has been mined
+    const minedCount = await provider.getTransactionCount(entry.wallet.address, 'latest');
+    if (minedCount > entry.nonce) {
+      throw new ApiError(
+        409,
+        'TRANSACTION_ALREADY_MINED',
+        `Nonce ${entry.nonce} has already been mined on chain ${entry.chainId}`
+      );
+    }
+
+    // Use the network's current fees if they are above the bumped ones
+    const current = await getFeeOverrides(chain, provider).catch(() => null);
+    const fees = bumpFeeOverrides(chain, entry.fees, current, feeBumpPercent);
+
+    const request: ethers.TransactionRequest =
+      mode === 'cancel'
+        ? { to: entry.wallet.address, value: 0n, data: '0x', gasLimit: TRANSFER_GAS_LIMIT }
+        : {
+            to: entry.latest.to,
+            value: entry.latest.value,
+            data: entry.latest.data,
+            gasLimit: entry.latest.gasLimit,
+          };
+
+    const tx = await entry.wallet.sendTransaction({
+      ...request,
+      ...fees,
+      nonce: entry.nonce,
+      chainId: entry.latest.chainId,
+    });
+
+    entry.latest = tx;
+    entry.hashes.push(tx.hash);
+    entry.fees = fees;
+    entry.bumps++;
+    entry.cancelling = entry.cancelling || mode === 'cancel';
+    entry.lastBroadcastAt = Date.now();
+
+    console.log(
+      `Replaced nonce ${entry.nonce} on chain ${entry.chainId} (${mode}): ${entry.hashes[0]} -> ${tx.hash}`
+    );
+    return tx;
+  } finally {
+    entry.busy = false;
+  }
+}
+
+/**
+ * Speeds up tracked transactions that have been pending longer than the timeout.
+ */
+async function checkStuckTransactions(): Promise<void> {
+  const { timeoutMs, feeBumpPercent, maxAutoBumps } = config.stuckTransactions;
+  const now = Date.now();
+
+  for (const entry of tracked.values()) {
+    if (entry.busy || now - entry.lastBroadcastAt < timeoutMs) {
+      continue;
+    }
+    if (entry.autoBumps >= maxAutoBumps) {
+      continue;
+    }
+
+    console.warn(
+      `Transaction ${entry.latest.hash} (nonce ${entry.nonce}, chain ${entry.chainId}) pending for ${Math.round((now - entry.lastBroadcastAt) / 1000)}s, bumping fees`
+    );
+
+    try {
+      entry.autoBumps++;
+      await replace(entry, 'speed-up', feeBumpPercent);
+    } catch (error: any) {
+      console.error(`Failed to speed up nonce ${entry.nonce}:`, error.message);
+    }
+  }
+}
+
+function startMonitor(): void {
+  if (monitor) {
+    return;
+  }
+  monitor = setInterval(() => {
+    checkStuckTransactions().catch((error: any) => {
+      console.error('Stuck transaction check failed:', error.message);
+    });
+  }, config.stuckTransactions.checkIntervalMs);
+  // Do not keep the process alive just for the monitor
+  monitor.unref();
+}
+
+function stopMonitorIfIdle(): void {
+  if (monitor && tracked.size === 0) {
+    clearInterval(monitor);
+    monitor = null;
+  }
+}
+
+/**
+ * Starts tracking a transaction broadcast by the backend wallet.
+ *
+ * Must be followed by waitForTransaction(), which stops tracking once the
+ * nonce is mined.
+ *
+ * @param chainId - Chain the transaction was sent on
+ * @param wallet - Wallet that signed the transaction (used for replacements)
+ * @param tx - Broadcast transaction
+ *
+ * @example
+ * const tx = await sendWithNonce(chain.chainId, wallet, (nonce) => contract.mint(..., { nonce }));
+ * trackTransaction(chain.chainId, wallet, tx);
+ * const receipt = await waitForTransaction(tx);
+ */
+export function trackTransaction(
+  chainId: string,
+  wallet: BackendSigner,
+  tx: ethers.TransactionResponse
+): void {
+  const now = Date.now();
+  tracked.set(trackingKey(tx), {
+    chainId,
+    wallet,
+    nonce: tx.nonce,
+    latest: tx,
+    hashes: [tx.hash],
+    fees: feesOf(tx),
+    bumps: 0,
+    autoBumps: 0,
+    cancelling: false,
+    busy: false,
+    submittedAt: now,
+    lastBroadcastAt: now,
+  });
+  startMonitor();
+}
+
+/**
+ * Waits for a tracked transaction, following speed-ups.
+ *
+ * @param tx - Transaction passed to trackTransaction()
+ * @returns Receipt of whichever broadcast for this nonce was mined
+ *
+ * @throws {Error} If the transaction reverted, was cancelled, or its nonce was used by another
+ *   transaction. When a transaction was mined for the nonce (a revert or the cancellation), the
+ *   error carries its receipt: see getFailedTransactionReceipt().
+ */
+export async function waitForTransaction(
+  tx: ethers.TransactionResponse
+): Promise<ethers.TransactionReceipt> {
+  try {
+    const receipt = await tx.wait();
+    return receipt!;
+  } catch (error: any) {
+    if (!ethers.isError(error, 'TRANSACTION_REPLACED')) {
+      throw error;
+    }
+
+    if (error.reason === 'repriced') {
+      console.log(`Transaction ${tx.hash} was sped up and mined as ${error.hash}`);
+      if (error.receipt.status === 0) {
+        throw Object.assign(new Error(`Transaction ${error.hash} reverted`), {
+          receipt: error.receipt,
+        });
+      }
+      return error.receipt;
+    }
+    if (error.reason === 'cancelled') {
+      throw Object.assign(new Error(`Transaction ${tx.hash} was cancelled by ${error.hash}`), {
+        receipt: error.receipt,
+      });
+    }
+    throw new Error(`Transaction ${tx.hash} was replaced by unrelated transaction ${error.hash}`);
+  } finally {
+    tracked.delete(trackingKey(tx));
+    stopMonitorIfIdle();
+  }
+}
+
+/**
+ * Gets the receipt of a transaction that was mined although the mint failed.
+ *
+ * A reverted transaction, or the cancellation mined in place of one, still
+ * paid its fee. ethers attaches the receipt to revert errors of wait(), and
+ * waitForTransaction() to the errors it throws; errors wrapping them keep it.
+ *
+ * @param error - Error thrown while sending or waiting for a transaction
+ * @returns The receipt, or null if nothing was mined
+ *
+ * @example
+ * const receipt = getFailedTransactionReceipt(error);
+ * if (receipt) console.log(`Paid ${ethers.formatEther(receipt.fee)} for a failed mint`);
+ */
+export function getFailedTransactionReceipt(error: any): ethers.TransactionReceipt | null {
+  const receipt = error?.receipt;
+  return receipt && typeof receipt.hash === 'string' && typeof receipt.fee === 'bigint'
+    ? receipt
+    : null;
+}
+
+/**
+ * Lists transactions of the backend wallet that are waiting to be mined.
+ *
+ * @returns Pending transactions, oldest first
+ */
+export function listPendingTransactions(): PendingTransactionInfo[] {
+  return [...tracked.values()].sort((a, b) => a.submittedAt - b.submittedAt).map(toInfo);
+}
+
+/**
+ * Counts the pending transactions of one wallet.
+ *
+ * Used by the relayer pool to spread load and to skip wallets whose nonces
+ * are blocked.
+ *
+ * @param chainId - Chain ID
+ * @param address - Wallet address
+ * @returns Number of pending transactions, and how many of them have gone
+ *   longer than PM_STUCK_TX_TIMEOUT_MS since their last broadcast or fee bump
+ */
+export function getWalletPendingStatus(
+  chainId: string,
+  address: string
+): { pending: number; stuck: number } {
+  const now = Date.now();
+  let pending = 0;
+  let stuck = 0;
+  for (const entry of tracked.values()) {
+    if (entry.chainId !== chainId || entry.wallet.address.toLowerCase() !== address.toLowerCase()) {
+      continue;
+    }
+    pending++;
+    if (now - entry.lastBroadcastAt >= config.stuckTransactions.timeoutMs) {
+      stuck++;
+    }
+  }
+  return { pending, stuck };
+}
+
+/**
+ * Rebroadcasts a pending transaction with the same nonce and higher fees.
+ *
+ * @param hash - Any hash broadcast for the transaction
+ * @param feeBumpPercent - Percentage increase over the latest fees (default: PM_STUCK_TX_FEE_BUMP_PERCENT)
+ * @returns Updated pending transaction
+ *
+ * @throws {ApiError} TRANSACTION_NOT_PENDING if the transaction is not pending
+ * @throws {ApiError} TRANSACTION_ALREADY_MINED if the nonce has been mined meanwhile
+ * @throws {ApiError} FEE_CEILING_REACHED if the chain's fee ceiling prevents a bump
+ *
+ * @example
+ * const pending = await speedUpTransaction('0xabc...', 30);
+ * console.log(`Now waiting on ${pending.currentHash}`);
+ */
+export async function speedUpTransaction(
+  hash: string,
+  feeBumpPercent: number = config.stuckTransactions.feeBumpPercent
+): Promise<PendingTransactionInfo> {
+  const entry = findByHash(hash);
+  await replace(entry, 'speed-up', feeBumpPercent);
+  return toInfo(entry);
+}
+
+/**
+ * Cancels a pending transaction by replacing it with a 0-value transfer to
+ * the backend wallet itself, using the same nonce and higher fees.
+ *
+ * The waiting mint fails with a cancellation error once the transfer is mined.
+ *
+ * @param hash - Any hash broadcast for the transaction
+ * @returns Updated pending transaction
+ *
+ * @throws {ApiError} TRANSACTION_NOT_PENDING if the transaction is not pending
+ * @throws {ApiError} TRANSACTION_ALREADY_MINED if the nonce has been mined meanwhile
+ * @throws {ApiError} FEE_CEILING_REACHED if the chain's fee ceiling prevents a bump
+ */
+export async function cancelTransaction(hash: string): Promise<PendingTransactionInfo> {
+  const entry = findByHash(hash);
+  await replace(entry, 'cancel', config.stuckTransactions.feeBumpPercent);
+  return toInfo(entry);
+}
@@ -1,9 +1,38 @@
 import { ethers } from 'ethers';
 import * as pzeroAuthService from './pzeroAuthService';
 import * as blockchainService from './blockchainService';
+import * as contentStorageService from './contentStorageService';
+import * as gasBudgetService from './gasBudgetService';
+import * as transactionStatusService from './transactionStatusService';
+import * as indexerService from './indexerService';
+import * as finalityService from './finalityService';
+import * as mintEventService from './mintEventService';
+import { getEffectiveFee } from './feeService';
 import { hashPrompt, encodeActivityPoints } from '../utils/crypto';
-import { PromptStatusResponse, ActivityPointsBalanceResponse } from '../types';
-import { getChainConfig, getDefaultChainConfig } from '../config';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { canonicalizePrompt, getCanonicalizationVersion } from '../utils/canonicalize';
+import {
+  PromptStatusResponse,
+  ActivityPointsBalanceResponse,
+  MintProgressListener,
+  BatchMintItemResult,
+  MintSimulationResponse,
+  CanonicalPrompt,
+  PromptContentResponse,
+  PZeroAuthorization,
+  PromptMigration,
+  MigratePromptResponse,
+  MigratePromptItemResult,
+  MintFinality,
+} from '../types';
+import {
+  config,
+  ChainConfig,
+  MigrationTarget,
+  getChainConfig,
+  getDefaultChainConfig,
+} from '../config';
+import { ApiError, resolveApiError } from '../middleware/errorHandler';
 import { ERC2771_FORWARD_REQUEST_TYPES } from '@project_zero/prompt-mining-sdk';
 
 /**
@@ -20,6 +49,171 @@ import { ERC2771_FORWARD_REQUEST_TYPES } from '@project_zero/prompt-mining-sdk';
  * - Full prompts go directly to blockchain (decentralized, public ledger)
  */
 
+/**
+ * Refuses to continue if a prompt has already been minted.
+ *
+ * Called before every PZERO authorization request so no quota is spent on
+ * prompts whose mint would revert. Recently minted hashes are answered from
+ * a local cache in blockchainService.
+ *
+ * @param promptHash - Keccak256 hash of the prompt
+ * @param chainId - Chain ID to check
+ *
+ * @throws {ApiError} PROMPT_ALREADY_MINTED if the prompt is already minted
+ */
+async function ensurePromptNotMinted(promptHash: string, chainId: string): Promise<void> {
+  const isMinted = await blockchainService.checkPromptMinted(promptHash, chainId);
+  if (isMinted) {
+    console.log(`   Prompt already minted! Hash: ${promptHash}`);
+    throw new ApiError(
+      409,
+      'PROMPT_ALREADY_MINTED',
+      `Prompt has already been minted. Prompt hash: ${promptHash}`
+    );
+  }
+}
+
+/**
+ * Submits a backend-signed mint, re-authorizing once if the PZERO authorization has expired.
+ *
+ * The authorization is checked before submission, and a mint failing with
+ * AUTHORIZATION_EXPIRED is retried once with a fresh authorization instead
+ * of failing the request.
+ *
+ * @param mint - Parameters the authorization was requested for
+ * @param authorization - Authorization returned by PZERO
+ * @param submit - Submits the mint with the given authorization signature
+ * @returns Result of the successful submission
+ *
+ * @throws {PZeroError} AUTHORIZATION_EXPIRED if the fresh authorization is expired as well
+ */
+async function submitWithReauthorization<T>(
+  mint: { promptHash: string; author: string; encodedPoints: string; chain: ChainConfig },
+  authorization: PZeroAuthorization,
+  submit: (signature: string) => Promise<T>
+): Promise<T> {
+  try {
+    pzeroAuthService.ensureAuthorizationNotExpired(authorization);
+    return await submit(authorization.signature);
+  } catch (error: any) {
+    if (!pzeroAuthService.isAuthorizationExpiredError(error)) {
+      throw error;
+    }
+
+    console.log(`   PZERO authorization expired, re-authorizing once...`);
+    const { promptHash, author, encodedPoints, chain } = mint;
+    pzeroAuthService.invalidateMintAuthorizations(promptHash, chain.chainId);
+    const fresh = await pzeroAuthService.requestMintAuthorization(
+      promptHash,
+      author,
+      encodedPoints,
+      chain.chainId,
+      chain.promptMinerAddress
+    );
+    pzeroAuthService.ensureAuthorizationNotExpired(fresh);
+    return await submit(fresh.signature);
+  }
+}
+
+/**
+ * Reserves the estimated maximum fee of a sponsored mint against the gas
+ * budgets of its API key and author.
+ *
+ * @param chainId - Chain the mint will be sent on
+ * @param sponsor - API key and author the mint is charged to
+ * @returns The reservation, to settle once mined or release on failure
+ *
+ * @throws {ApiError} GAS_BUDGET_EXCEEDED if the fee does not fit in a budget
+ *
+ * @example
+ * const reservation = await reserveMintGas(chain.chainId, { apiKey, author });
+ */
+export function reserveMintGas(
+  chainId: string,
+  sponsor: gasBudgetService.GasSponsor
+): Promise<gasBudgetService.GasReservation> {
+  return gasBudgetService.reserveGasBudget(chainId, sponsor, () =>
+    blockchainService.estimateMaxMintFee(chainId)
+  );
+}
+
+/**
+ * Publishes a failed event for a mint, with the API error code of the failure.
+ */
+function publishMintFailed(target: mintEventService.MintEventTarget, error: Error): void {
+  const { errorCode, message } = resolveApiError(error);
+  mintEventService.publishMintEvent('failed', target, { error: { code: errorCode, message } });
+}
+
+/**
+ * Tracks the finality of a mined mint. If a reorg mines it again and it
+ * reverts, a failed event is published. If it is reorged out and dropped, a
+ * failed event is published too, unless the listener handles the reorg (a
+ * mint job is re-queued and minted again).
+ *
+ * @param target - Mint the events belong to
+ * @param receipt - Receipt of the mint transaction
+ * @param listener - Further callbacks, e.g. for a mint job
+ */
+function trackMintFinality(
+  target: mintEventService.MintEventTarget,
+  receipt: ethers.TransactionReceipt,
+  listener: finalityService.FinalityListener = {}
+): Promise<{ finality: MintFinality; requiredConfirmations: number }> {
+  return finalityService.trackFinality(target.chainId, receipt, {
+    ...listener,
+    onReorged:
+      listener.onReorged ??
+      (() => {
+        mintEventService.publishMintEvent('failed', target, {
+          transactionHash: receipt.hash,
+          error: {
+            code: 'MINT_REORGED',
+            message: `Mint transaction ${receipt.hash} was reorged out of the chain`,
+          },
+        });
+      }),
+    onReverted: (revertedReceipt) => {
+      mintEventService.publishMintEvent('failed', target, {
+        transactionHash: revertedReceipt.hash,
+        blockNumber: revertedReceipt.blockNumber,
+        error: {
+          code: 'TRANSACTION_REVERTED',
+          message: 'Mint transaction reverted after a reorg mined it again',
+        },
+      });
+      listener.onReverted?.(revertedReceipt);
+    },
+  });
+}
+
+/**
+ * Canonicalizes a prompt with the configured steps (PM_CANONICALIZATION_*).
+ *
+ * Every flow hashes the canonical prompt, so prompts that differ only in
+ * whitespace, Unicode normalization, zero-width characters or (if enabled)
+ * case are the same prompt.
+ *
+ * @param prompt - User's prompt text
+ * @returns The canonical prompt and the canonicalization version used
+ *
+ * @throws {ApiError} INVALID_PROMPT if nothing is left after canonicalization
+ *
+ * @example
+ * const { canonicalPrompt } = canonicalize("What  is AI? ");
+ * console.log(canonicalPrompt); // "What is AI?"
+ */
+export function canonicalize(prompt: string): CanonicalPrompt {
+  const canonicalPrompt = canonicalizePrompt(prompt, config.canonicalization);
+  if (canonicalPrompt.length === 0) {
+    throw new ApiError(400, 'INVALID_PROMPT', 'Prompt is empty after canonicalization');
+  }
+  return {
+    canonicalPrompt,
+    canonicalizationVersion: getCanonicalizationVersion(config.canonicalization),
+  };
+}
+
 /**
  * Gets PZERO authorization for user-signed minting.
  *
@@ -28,17 +222,28 @@ import { ERC2771_FORWARD_REQUEST_TYPES } from '@project_zero/prompt-mining-sdk';
  * The user's wallet (Metamask) will then sign and submit the transaction.
  *
  * Privacy Flow:
- * 1. Hash prompt locally (full text stays private)
- * 2. Request PZERO authorization with hash only
- * 3. Return authorization to frontend
- * 4. Frontend uses authorization for user to sign transaction
+ * 1. Canonicalize and hash prompt locally (full text stays private)
+ * 2. Refuse already-minted prompts (no PZERO quota spent)
+ * 3. Request PZERO authorization with hash only
+ * 4. Store prompt content for the contentURI (if PM_CONTENT_STORE is set)
+ * 5. Return authorization to frontend
+ * 6. Frontend uses authorization for user to sign transaction
+ *
+ * Publishes an authorized event, or a failed event once the prompt is
+ * hashed. The user's wallet submits the transaction, so no submitted or
+ * confirmed events follow.
  *
  * @param prompt - User's prompt text (PRIVACY: never sent to PZERO)
  * @param author - Ethereum address of the prompt author
  * @param activityPoints - Amount of activity points to reward
+ * @param chainId - Optional chain ID. If not provided, uses default chain.
+ * @param apiKey - API key of the request, for the events of the mint
  * @returns PZERO authorization for frontend to use
  *
  * @throws {PZeroError} If PZERO authorization fails
+ * @throws {ApiError} INVALID_PROMPT if the prompt is empty after canonicalization
+ * @throws {ApiError} PROMPT_ALREADY_MINTED if the prompt is already minted
+ * @throws {ApiError} CONTENT_STORE_ERROR if the prompt content cannot be stored
  *
  * @example
  * // Backend returns this to frontend
@@ -53,15 +258,17 @@ export async function authorizePromptMint(
   prompt: string,
   author: string,
   activityPoints: string | string[],
-  chainId?: string
+  chainId?: string,
+  apiKey?: string
 ): Promise<{
   promptHash: string;
-  authorization: {
-    signature: string;
-  };
+  canonicalPrompt: string;
+  canonicalizationVersion: string;
+  authorization: PZeroAuthorization;
   mintData: {
     prompt: string;
     author: string;
+    contentURI: string;
   };
   transaction: {
     to: string;
@@ -78,55 +285,78 @@ export async function authorizePromptMint(
   }
   console.log(`Using chain: ${chain.name} (${chain.chainId})`);
 
-  // Step 1: Hash prompt locally
-  const promptHash = hashPrompt(prompt);
+  // Step 1: Canonicalize and hash prompt locally
+  const canonical = canonicalize(prompt);
+  const promptHash = hashPrompt(canonical.canonicalPrompt);
   console.log(`1. Hashed prompt locally: ${promptHash.slice(0, 10)}...`);
-
-  // Step 2: Encode activity points
-  const encodedPoints = encodeActivityPoints(activityPoints);
-  console.log(`2. Encoded activity points: ${encodedPoints}`);
-
-  // Step 3: Request PZERO authorization (hash only!)
-  console.log(`3. Requesting PZERO authorization (hash only)...`);
-  const authorization = await pzeroAuthService.requestMintAuthorization(
+  const target: mintEventService.MintEventTarget = {
     promptHash,
+    chainId: chain.chainId,
+    source: 'user-signed',
     author,
-    encodedPoints,
-    chain.chainId,
-    chain.promptMinerAddress
-  );
-  console.log(`   Authorization received: ${authorization.signature.slice(0, 10)}...`);
-  
-  // Step 4: Build transaction data for mint(bytes32 prompt, string calldata contentURI, bytes calldata actionData, bytes calldata actionSignature)
-  const contract = new ethers.Interface([
-    'function mint(bytes32 prompt, string calldata contentURI, bytes calldata actionData, bytes calldata actionSignature) external'
-  ]);
-  
-  const txData = contract.encodeFunctionData('mint', [
-    promptHash,           // bytes32 prompt
-    '',                   // string contentURI (empty for now)
-    encodedPoints,        // bytes actionData (encoded activity points)
-    authorization.signature // bytes actionSignature (PZERO authorization)
-  ]);
-  
-  console.log(`4. Encoded transaction data: ${txData.slice(0, 10)}...`);
-  console.log('=== Returning authorization to frontend ===\n');
+    apiKey,
+  };
 
-  return {
-    promptHash,
-    authorization: {
-      signature: authorization.signature,
-    },
-    mintData: {
-      prompt, // Full prompt returned so frontend can include in transaction
+  try {
+    // Step 2: Check if prompt is already minted (the user's transaction would revert)
+    await ensurePromptNotMinted(promptHash, chain.chainId);
+    console.log(`2. Prompt not yet minted, proceeding...`);
+
+    // Step 3: Encode activity points
+    const encodedPoints = encodeActivityPoints(activityPoints);
+    console.log(`3. Encoded activity points: ${encodedPoints}`);
+
+    // Step 4: Request PZERO authorization (hash only!)
+    console.log(`4. Requesting PZERO authorization (hash only)...`);
+    const authorization = await pzeroAuthService.requestMintAuthorization(
+      promptHash,
       author,
-    },
-    transaction: {
-      to: chain.promptMinerAddress,
-      data: txData,
-      value: '0',
-    },
-  };
+      encodedPoints,
+      chain.chainId,
+      chain.promptMinerAddress
+    );
+    console.log(`   Authorization received: ${authorization.signature.slice(0, 10)}...`);
+    console.log(`   Expires at: ${new Date(authorization.expiry * 1000).toISOString()}`);
+    mintEventService.publishMintEvent('authorized', target);
+
+    // Step 5: Store prompt content for the contentURI
+    const contentURI = await contentStorageService.storePromptContent(canonical, promptHash, author);
+    console.log(`5. Content URI: ${contentURI || '(empty)'}`);
+
+    // Step 6: Build transaction data for mint(bytes32 prompt, string calldata contentURI, bytes calldata actionData, bytes calldata actionSignature)
+    const contract = new ethers.Interface([
+      'function mint(bytes32 prompt, string calldata contentURI, bytes calldata actionData, bytes calldata actionSignature) external'
+    ]);
+
+    const txData = contract.encodeFunctionData('mint', [
+      promptHash,           // bytes32 prompt
+      contentURI,           // string contentURI (empty if content storage is disabled)
+      encodedPoints,        // bytes actionData (encoded activity points)
+      authorization.signature // bytes actionSignature (PZERO authorization)
+    ]);
+
+    console.log(`6. Encoded transaction data: ${txData.slice(0, 10)}...`);
+    console.log('=== Returning authorization to frontend ===\n');
+
+    return {
+      promptHash,
+      ...canonical,
+      authorization,
+      mintData: {
+        prompt: canonical.canonicalPrompt, // Full prompt returned so frontend can include in transaction
+        author,
+        contentURI,
+      },
+      transaction: {
+        to: chain.promptMinerAddress,
+        data: txData,
+        value: '0',
+      },
+    };
+  } catch (error: any) {
+    publishMintFailed(target, error);
+    throw error;
+  }
 }
 
 /**
@@ -134,7 +364,7 @@ export async function authorizePromptMint(
  *
  * This is a read-only operation that doesn't require PZERO authorization.
  *
- * @param promptOrHash - Either full prompt text or prompt hash
+ * @param promptOrHash - Either full prompt text (canonicalized before hashing) or prompt hash
  * @param chainId - Optional chain ID. If not provided, uses default chain.
  * @returns Prompt status
  *
@@ -144,14 +374,167 @@ export async function authorizePromptMint(
  */
 export async function getPromptStatus(promptOrHash: string, chainId?: string): Promise<PromptStatusResponse> {
   // If input looks like a hash (0x...), use it directly
-  // Otherwise, hash it first
-  const promptHash = promptOrHash.startsWith('0x') ? promptOrHash : hashPrompt(promptOrHash);
+  // Otherwise, canonicalize and hash it first
+  const canonical = promptOrHash.startsWith('0x') ? null : canonicalize(promptOrHash);
+  const promptHash = canonical ? hashPrompt(canonical.canonicalPrompt) : promptOrHash;
 
   const isMinted = await blockchainService.checkPromptMinted(promptHash, chainId);
 
   return {
     promptHash,
     isMinted,
+    ...canonical,
+  };
+}
+
+/**
+ * Reads the content of a minted prompt.
+ *
+ * The content URI is read from the PromptMiner contract and resolved through
+ * the content store for its scheme (local:// or ipfs://).
+ *
+ * @param promptHash - Hash of the prompt
+ * @param chainId - Optional chain ID. If not provided, uses default chain.
+ * @returns The content URI and the stored content
+ *
+ * @throws {ApiError} PROMPT_NOT_MINTED if the prompt has not been minted
+ * @throws {ApiError} CONTENT_NOT_FOUND if the prompt was minted without content, or the content is gone
+ * @throws {ApiError} UNSUPPORTED_CONTENT_URI if the URI scheme cannot be resolved
+ *
+ * @example
+ * const { contentURI, content } = await getPromptContent("0x1234...", '56');
+ */
+export async function getPromptContent(
+  promptHash: string,
+  chainId?: string
+): Promise<PromptContentResponse> {
+  const contentURI = await blockchainService.getPromptContentURI(promptHash, chainId);
+
+  if (!contentURI) {
+    const isMinted = await blockchainService.checkPromptMinted(promptHash, chainId);
+    if (!isMinted) {
+      throw new ApiError(404, 'PROMPT_NOT_MINTED', `Prompt ${promptHash} has not been minted`);
+    }
+    throw new ApiError(404, 'CONTENT_NOT_FOUND', `Prompt ${promptHash} was minted without content`);
+  }
+
+  const stored = await contentStorageService.resolveContent(contentURI);
+
+  return {
+    promptHash,
+    contentURI,
+    contentType: stored.contentType,
+    content: stored.body.toString('utf8'),
+    encrypted: contentStorageService.isEncryptedContent(stored),
+  };
+}
+
+/**
+ * Builds the message a prompt's author signs to decrypt its content.
+ *
+ * @param promptHash - Hash of the prompt
+ * @param timestamp - Unix timestamp (seconds) when the message was signed
+ * @returns Message to sign with personal_sign (EIP-191)
+ *
+ * @example
+ * const message = getDecryptMessage(promptHash, Math.floor(Date.now() / 1000));
+ * const signature = await signer.signMessage(message);
+ */
+export function getDecryptMessage(promptHash: string, timestamp: number): string {
+  return `Decrypt prompt content\nPrompt: ${promptHash.toLowerCase()}\nTimestamp: ${timestamp}`;
+}
+
+/**
+ * Checks that a decrypt request was signed by the prompt's author.
+ *
+ * The signature must be over getDecryptMessage() and no older than
+ * PM_CONTENT_DECRYPT_SIGNATURE_TTL_SECONDS.
+ *
+ * @throws {ApiError} SIGNATURE_EXPIRED if the timestamp is outside the accepted window
+ * @throws {ApiError} INVALID_SIGNATURE if the signature cannot be verified
+ * @throws {ApiError} PROMPT_NOT_MINTED if the prompt has no author on chain
+ * @throws {ApiError} NOT_PROMPT_AUTHOR if the signer is not the prompt's author
+ */
+async function verifyAuthorSignature(
+  promptHash: string,
+  signature: string,
+  timestamp: number,
+  chainId?: string
+): Promise<void> {
+  const now = Math.floor(Date.now() / 1000);
+  const ttl = config.content.encryption.decryptSignatureTtlSeconds;
+  // Allow a minute of clock skew for timestamps in the future
+  if (timestamp < now - ttl || timestamp > now + 60) {
+    throw new ApiError(
+      401,
+      'SIGNATURE_EXPIRED',
+      `Signature timestamp must be within the last ${ttl} seconds`
+    );
+  }
+
+  let signer: string;
+  try {
+    signer = ethers.verifyMessage(getDecryptMessage(promptHash, timestamp), signature);
+  } catch {
+    throw new ApiError(401, 'INVALID_SIGNATURE', 'Signature could not be verified');
+  }
+
+  const author = await blockchainService.getPromptAuthor(promptHash, chainId);
+  if (author === ethers.ZeroAddress) {
+    throw new ApiError(404, 'PROMPT_NOT_MINTED', `Prompt ${promptHash} has not been minted`);
+  }
+  if (signer.toLowerCase() !== author.toLowerCase()) {
+    throw new ApiError(403, 'NOT_PROMPT_AUTHOR', 'Only the prompt author can decrypt its content');
+  }
+}
+
+/**
+ * Decrypts the encrypted content of a minted prompt.
+ *
+ * Plaintext is only returned to admins (PM_ADMIN_API_KEYS, checked by the
+ * caller) or to the prompt's author, proven by a signature over
+ * getDecryptMessage(). The author is read from the PromptMiner contract.
+ *
+ * @param promptHash - Hash of the prompt
+ * @param access - { admin: true } for admin API keys, or the author's signature and its timestamp
+ * @param chainId - Optional chain ID. If not provided, uses default chain.
+ * @returns The decrypted content
+ *
+ * @throws {ApiError} SIGNATURE_EXPIRED, INVALID_SIGNATURE or NOT_PROMPT_AUTHOR if the author proof fails
+ * @throws {ApiError} PROMPT_NOT_MINTED if the prompt has not been minted
+ * @throws {ApiError} CONTENT_NOT_FOUND if the prompt was minted without content
+ * @throws {ApiError} CONTENT_NOT_ENCRYPTED if the content is stored in plaintext
+ * @throws {ApiError} DECRYPTION_UNAVAILABLE if no master key is configured
+ *
+ * @example
+ * const timestamp = Math.floor(Date.now() / 1000);
+ * const signature = await author.signMessage(getDecryptMessage(promptHash, timestamp));
+ * const { content } = await decryptPromptContent(promptHash, { signature, timestamp });
+ */
+export async function decryptPromptContent(
+  promptHash: string,
+  access: { admin: true } | { signature: string; timestamp: number },
+  chainId?: string
+): Promise<PromptContentResponse> {
+  if (!('admin' in access)) {
+    await verifyAuthorSignature(promptHash, access.signature, access.timestamp, chainId);
+  }
+
+  const stored = await getPromptContent(promptHash, chainId);
+  const decrypted = contentStorageService.decryptContent(
+    { body: Buffer.from(stored.content, 'utf8'), contentType: stored.contentType },
+    promptHash
+  );
+  console.log(
+    `Decrypted content of prompt ${promptHash.slice(0, 10)}... for ${'admin' in access ? 'admin' : 'author'}`
+  );
+
+  return {
+    promptHash,
+    contentURI: stored.contentURI,
+    contentType: decrypted.contentType,
+    content: decrypted.body.toString('utf8'),
+    encrypted: false,
   };
 }
 
@@ -208,19 +591,32 @@ export async function getQuotaStatus(): Promise<{
  * that will be used to execute a gasless meta-transaction through the ERC2771 forwarder.
  *
  * Flow:
- * 1. Hash prompt locally (privacy preserved)
- * 2. Request PZERO authorization with hash only
- * 3. Prepare meta-transaction typed data using SDK
- * 4. Return domain, types, and request for frontend to sign
+ * 1. Canonicalize and hash prompt locally (privacy preserved)
+ * 2. Refuse already-minted prompts (no PZERO quota spent)
+ * 3. Request PZERO authorization with hash only
+ * 4. Store prompt content for the contentURI (if PM_CONTENT_STORE is set)
+ * 5. Prepare meta-transaction typed data using SDK
+ * 6. Return domain, types, and request for frontend to sign
+ *
+ * Publishes an authorized event, or a failed event once the prompt is
+ * hashed (see mintEventService).
  *
  * @param prompt - User's prompt text (PRIVACY: never sent to PZERO)
  * @param author - Ethereum address of the prompt author (also the meta-tx signer)
  * @param activityPoints - Amount of activity points to reward
  * @param gas - Gas limit for the meta-transaction (default: 500000)
  * @param deadline - Timestamp deadline for the meta-transaction (default: 1 hour from now)
+ * @param chainId - Optional chain ID. If not provided, uses default chain.
+ * @param apiKey - API key of the request, charged for the relayed gas with the author and
+ *   attached to the mint's events
  * @returns Typed data for EIP-712 signing and additional metadata
  *
  * @throws {PZeroError} If PZERO authorization fails
+ * @throws {ApiError} INVALID_PROMPT if the prompt is empty after canonicalization
+ * @throws {ApiError} PROMPT_ALREADY_MINTED if the prompt is already minted
+ * @throws {ApiError} CONTENT_STORE_ERROR if the prompt content cannot be stored
+ * @throws {ApiError} RELAYER_FUNDS_CRITICAL if the relayer wallets are below the critical balance
+ * @throws {ApiError} GAS_BUDGET_EXCEEDED if the API key's or author's gas budget is used up
  *
  * @example
  * const signableData = await getSignableMintData(
@@ -239,9 +635,13 @@ export async function getSignableMintData(
   activityPoints: string | string[],
   gas: bigint = 500000n,
   deadline?: bigint,
-  chainId?: string
+  chainId?: string,
+  apiKey?: string
 ): Promise<{
   promptHash: string;
+  canonicalPrompt: string;
+  canonicalizationVersion: string;
+  contentURI: string;
   domain: {
     name: string;
     version: string;
@@ -258,9 +658,7 @@ export async function getSignableMintData(
     deadline: bigint;
     data: string;
   };
-  authorization: {
-    signature: string;
-  };
+  authorization: PZeroAuthorization;
 }> {
   console.log('=== Meta-Transaction Signable Data Flow ===');
 
@@ -271,52 +669,173 @@ export async function getSignableMintData(
   }
   console.log(`Using chain: ${chain.name} (${chain.chainId})`);
 
-  // Set default deadline to 1 hour from now if not provided
-  const metaTxDeadline = deadline ?? BigInt(Math.floor(Date.now() / 1000) + 3600);
-
-  // Step 1: Hash prompt locally
-  const promptHash = hashPrompt(prompt);
+  // Step 1: Canonicalize and hash prompt locally
+  const canonical = canonicalize(prompt);
+  const promptHash = hashPrompt(canonical.canonicalPrompt);
   console.log(`1. Hashed prompt locally: ${promptHash.slice(0, 10)}...`);
-
-  // Step 2: Encode activity points
-  const encodedPoints = encodeActivityPoints(activityPoints);
-  console.log(`2. Encoded activity points: ${encodedPoints.slice(0, 10)}...`);
-
-  // Step 3: Request PZERO authorization (hash only!)
-  console.log(`3. Requesting PZERO authorization (hash only)...`);
-  const authorization = await pzeroAuthService.requestMintAuthorization(
+  const target: mintEventService.MintEventTarget = {
     promptHash,
+    chainId: chain.chainId,
+    source: 'relayer',
     author,
-    encodedPoints,
-    chain.chainId,
-    chain.promptMinerAddress
-  );
-  console.log(`   Authorization received: ${authorization.signature.slice(0, 10)}...`);
+    apiKey,
+  };
 
-  // Step 4: Get typed data for meta-transaction using SDK
-  console.log(`4. Preparing meta-transaction typed data...`);
-  const typedData = await blockchainService.getTypedDataForMetaTxMint(
-    author,
-    gas,
-    metaTxDeadline,
-    promptHash,
-    encodedPoints,
-    authorization.signature,
-    chainId
-  );
-  console.log(`   Typed data prepared for signing`);
+  try {
+    // Refuse early if the relayer cannot pay for the meta-transaction or the gas budget is used up
+    await blockchainService.ensureRelayerFunds(chain.chainId);
+    await gasBudgetService.ensureWithinGasBudget(chain.chainId, { apiKey, author });
 
-  console.log('=== Returning signable data to frontend ===\n');
+    // Set default deadline to 1 hour from now if not provided
+    const metaTxDeadline = deadline ?? BigInt(Math.floor(Date.now() / 1000) + 3600);
 
-  return {
-    promptHash,
-    domain: typedData.domain,
-    types: typedData.types,
-    requestForSigning: typedData.requestForSigning,
-    authorization: {
-      signature: authorization.signature,
-    },
-  };
+    // Step 2: Check if prompt is already minted (the meta-transaction would revert)
+    await ensurePromptNotMinted(promptHash, chain.chainId);
+    console.log(`2. Prompt not yet minted, proceeding...`);
+
+    // Step 3: Encode activity points
+    const encodedPoints = encodeActivityPoints(activityPoints);
+    console.log(`3. Encoded activity points: ${encodedPoints.slice(0, 10)}...`);
+
+    // Step 4: Request PZERO authorization (hash only!)
+    console.log(`4. Requesting PZERO authorization (hash only)...`);
+    const authorization = await pzeroAuthService.requestMintAuthorization(
+      promptHash,
+      author,
+      encodedPoints,
+      chain.chainId,
+      chain.promptMinerAddress
+    );
+    console.log(`   Authorization received: ${authorization.signature.slice(0, 10)}...`);
+    console.log(`   Expires at: ${new Date(authorization.expiry * 1000).toISOString()}`);
+    mintEventService.publishMintEvent('authorized', target);
+
+    // Step 5: Store prompt content for the contentURI
+    const contentURI = await contentStorageService.storePromptContent(canonical, promptHash, author);
+    console.log(`5. Content URI: ${contentURI || '(empty)'}`);
+
+    // Step 6: Get typed data for meta-transaction using SDK
+    console.log(`6. Preparing meta-transaction typed data...`);
+    const typedData = await blockchainService.getTypedDataForMetaTxMint(
+      author,
+      gas,
+      metaTxDeadline,
+      promptHash,
+      contentURI,
+      encodedPoints,
+      authorization.signature,
+      chainId
+    );
+    console.log(`   Typed data prepared for signing`);
+
+    console.log('=== Returning signable data to frontend ===\n');
+
+    return {
+      promptHash,
+      ...canonical,
+      contentURI,
+      domain: typedData.domain,
+      types: typedData.types,
+      requestForSigning: typedData.requestForSigning,
+      authorization,
+    };
+  } catch (error: any) {
+    publishMintFailed(target, error);
+    throw error;
+  }
+}
+
+/**
+ * Rejects meta-transactions the relayer should not pay for.
+ *
+ * Only mints on the chain's PromptMiner are relayed: the forwarded call must
+ * target the configured PromptMiner without value and call the
+ * meta-transaction mint function. When the embedded PZERO authorization was
+ * issued by this service, its prompt hash, activity points and author must
+ * match the call. Otherwise it is verified against the chain's
+ * pzeroSignerAddress, and refused when the chain has none.
+ *
+ * @param requestForSigning - The request data that was signed by the user
+ * @param chain - Chain the meta-transaction is relayed on
+ * @returns The issued authorization embedded in the call, if known
+ *
+ * @throws {ApiError} META_TX_VALUE_NOT_ALLOWED if the request carries value
+ * @throws {ApiError} META_TX_TARGET_NOT_ALLOWED if `to` is not the chain's PromptMiner
+ * @throws {ApiError} META_TX_FUNCTION_NOT_ALLOWED if `data` does not call mint
+ * @throws {ApiError} META_TX_INVALID_CALLDATA if the mint arguments cannot be decoded
+ * @throws {ApiError} META_TX_AUTHORIZATION_MISMATCH if the call does not match the issued authorization
+ * @throws {ApiError} META_TX_AUTHORIZATION_INVALID if the authorization is not signed by PZERO
+ */
+function ensureRelayableMetaTx(
+  requestForSigning: { from: string; to: string; value: bigint; data: string },
+  chain: ChainConfig
+): pzeroAuthService.IssuedAuthorization | undefined {
+  const { from, to, value, data } = requestForSigning;
+
+  if (value !== 0n) {
+    throw new ApiError(400, 'META_TX_VALUE_NOT_ALLOWED', 'Meta-transactions must not carry value');
+  }
+
+  if (to.toLowerCase() !== chain.promptMinerAddress.toLowerCase()) {
+    throw new ApiError(
+      400,
+      'META_TX_TARGET_NOT_ALLOWED',
+      `Meta-transactions on chain ${chain.chainId} must target the PromptMiner ${chain.promptMinerAddress}`
+    );
+  }
+
+  if (!blockchainService.isMetaTxMintCall(data)) {
+    throw new ApiError(
+      400,
+      'META_TX_FUNCTION_NOT_ALLOWED',
+      'Only mint(bytes32,string,bytes,bytes) calls are relayed'
+    );
+  }
+
+  const mint = blockchainService.decodeMintCall(data);
+  if (!mint) {
+    throw new ApiError(400, 'META_TX_INVALID_CALLDATA', 'The mint call data cannot be decoded');
+  }
+
+  // Compare with the authorization this service issued for the signature
+  const issued = pzeroAuthService.findIssuedAuthorization(mint.actionSignature);
+  if (issued) {
+    const mismatch = [
+      issued.chainId !== chain.chainId && 'chain',
+      issued.signerAddress.toLowerCase() !== to.toLowerCase() && 'PromptMiner',
+      issued.promptHash.toLowerCase() !== mint.promptHash.toLowerCase() && 'prompt hash',
+      issued.encodedActivityPoints.toLowerCase() !== mint.actionData.toLowerCase() &&
+        'activity points',
+      issued.author.toLowerCase() !== from.toLowerCase() && 'author',
+    ].filter(Boolean);
+    if (mismatch.length > 0) {
+      throw new ApiError(
+        400,
+        'META_TX_AUTHORIZATION_MISMATCH',
+        `The mint call does not match the PZERO authorization it carries (${mismatch.join(', ')} differ)`
+      );
+    }
+    return issued;
+  }
+
+  // Unknown authorization (e.g. issued before a restart): check PZERO's signature locally.
+  // Without a pzeroSignerAddress it cannot be checked, so it is refused.
+  const verification = pzeroAuthService.verifyMintAuthorization(
+    mint.actionSignature,
+    mint.promptHash,
+    from,
+    mint.actionData,
+    chain.chainId,
+    chain.promptMinerAddress
+  );
+  if (!verification.valid) {
+    throw new ApiError(
+      400,
+      'META_TX_AUTHORIZATION_INVALID',
+      `The PZERO authorization in the mint call is not valid: ${verification.reason}`
+    );
+  }
+  return undefined;
 }
 
 /**
@@ -333,10 +852,27 @@ export async function getSignableMintData(
  * 4. Forwarder verifies signature and executes mint
  * 5. User receives Activity Points without paying gas
  *
+ * Only mints on the chain's PromptMiner that match their PZERO
+ * authorization are relayed (see ensureRelayableMetaTx). Mints carrying a
+ * PZERO authorization issued by this service are refused once the
+ * authorization has expired, since the forwarded call would revert.
+ *
+ * Publishes submitted and confirmed events for the mint, or a failed event
+ * once the request is known to be a relayable mint.
+ *
  * @param requestForSigning - The request data that was signed by the user
  * @param forwardSignature - The user's EIP-712 signature
- * @returns Transaction receipt
+ * @param chainId - Optional chain ID. If not provided, uses default chain.
+ * @param apiKey - API key of the request, charged for the gas with the signer and attached to
+ *   the mint's events
+ * @returns Transaction receipt, with the mint's finality (included or final)
  *
+ * @throws {ApiError} META_TX_* if the request is not a relayable mint (see ensureRelayableMetaTx)
+ * @throws {ApiError} META_TX_SIGNATURE_INVALID, META_TX_NONCE_STALE, META_TX_NONCE_MISMATCH or
+ *   META_TX_DEADLINE_EXPIRED if the forwarder would reject the signed request
+ * @throws {PZeroError} AUTHORIZATION_EXPIRED if the embedded authorization has expired
+ * @throws {ApiError} RELAYER_FUNDS_CRITICAL if the relayer wallets are below the critical balance
+ * @throws {ApiError} GAS_BUDGET_EXCEEDED if the estimated fee does not fit in the API key's or signer's gas budget
  * @throws {Error} If meta-transaction execution fails
  *
  * @example
@@ -364,27 +900,91 @@ export async function executeMetaTxMint(
     data: string;
   },
   forwardSignature: string,
-  chainId?: string
+  chainId?: string,
+  apiKey?: string
 ): Promise<{
   transactionHash: string;
   blockNumber: number;
   from: string;
   gasUsed: string;
+  effectiveGasPrice: string;
+  feePaid: string;
+  finality: MintFinality;
+  requiredConfirmations: number;
 }> {
   console.log('=== Meta-Transaction Execution Flow ===');
   console.log(`Relayer executing meta-transaction for user: ${requestForSigning.from}`);
 
-  const receipt = await blockchainService.executeMetaTxMint(requestForSigning, forwardSignature, chainId);
-
-  console.log(`   Meta-transaction executed! Tx: ${receipt.hash}`);
-  console.log('=== Meta-Transaction Complete ===\n');
+  const chain = chainId ? getChainConfig(chainId) : getDefaultChainConfig();
+  if (!chain) {
+    throw new Error(`Chain configuration not found for chainId: ${chainId}`);
+  }
 
-  return {
-    transactionHash: receipt.hash,
-    blockNumber: receipt.blockNumber,
-    from: requestForSigning.from,
-    gasUsed: receipt.gasUsed.toString(),
+  // Relay only mints on the chain's PromptMiner, matching their PZERO authorization
+  const issued = ensureRelayableMetaTx(requestForSigning, chain);
+  const { promptHash } = blockchainService.decodeMintCall(requestForSigning.data)!;
+  const target: mintEventService.MintEventTarget = {
+    promptHash,
+    chainId: chain.chainId,
+    source: 'relayer',
+    author: requestForSigning.from,
+    apiKey,
   };
+
+  // Released if the meta-transaction fails before it is mined
+  let reservation: gasBudgetService.GasReservation | null = null;
+
+  try {
+    // Refuse to relay a mint whose PZERO authorization has expired (it would revert)
+    if (issued) {
+      pzeroAuthService.ensureAuthorizationNotExpired(issued.authorization);
+    }
+
+    // Refuse to relay while the relayer wallets are out of funds or the fee does not fit the gas budget
+    await blockchainService.ensureRelayerFunds(chain.chainId);
+    reservation = await reserveMintGas(chain.chainId, { apiKey, author: requestForSigning.from });
+
+    let submittedHash: Promise<string | null> = Promise.resolve(null);
+    const receipt = await blockchainService.executeMetaTxMint(
+      requestForSigning,
+      forwardSignature,
+      chainId,
+      (tx) => {
+        submittedHash = transactionStatusService
+          .recordSubmittedTransaction(chain.chainId, tx, promptHash, 'relayer')
+          .then(() => tx.hash);
+        mintEventService.publishMintEvent('submitted', target, { transactionHash: tx.hash });
+      }
+    );
+    const relayedHash = await submittedHash;
+    if (relayedHash) {
+      await transactionStatusService.recordMinedTransaction(relayedHash, receipt);
+    }
+    await gasBudgetService.settleGasReservation(reservation, receipt.fee);
+    const finality = await trackMintFinality(target, receipt);
+    mintEventService.publishMintEvent('confirmed', target, {
+      transactionHash: receipt.hash,
+      blockNumber: receipt.blockNumber,
+      finality: finality.finality,
+    });
+
+    console.log(`   Meta-transaction executed! Tx: ${receipt.hash}`);
+    console.log('=== Meta-Transaction Complete ===\n');
+
+    return {
+      transactionHash: receipt.hash,
+      blockNumber: receipt.blockNumber,
+      from: requestForSigning.from,
+      ...getEffectiveFee(receipt),
+      ...finality,
+    };
+  } catch (error: any) {
+    if (reservation) {
+      await gasBudgetService.closeFailedGasReservation(reservation, error);
+    }
+    publishMintFailed(target, error);
+    throw error;
+  }
 }
 
 /**
@@ -395,17 +995,35 @@ export async function executeMetaTxMint(
  * them to sign anything or pay gas. The backend wallet signs and submits the transaction.
  *
  * Flow:
- * 1. Hash prompt locally (privacy preserved)
+ * 1. Canonicalize and hash prompt locally (privacy preserved)
  * 2. Request PZERO authorization with hash only
- * 3. Backend signs and submits transaction directly
- * 4. Specified author receives Activity Points
+ * 3. Store prompt content for the contentURI (if PM_CONTENT_STORE is set)
+ * 4. Backend signs and submits transaction directly (re-authorizing once if the authorization expired)
+ * 5. Specified author receives Activity Points
+ *
+ * Publishes authorized, submitted and confirmed events for the mint, or a
+ * failed event once the prompt is hashed.
  *
  * @param prompt - User's prompt text (PRIVACY: never sent to PZERO)
  * @param author - Ethereum address that will receive the Activity Points
  * @param activityPoints - Amount of activity points to reward
- * @returns Transaction receipt with mint details
+ * @param chainId - Optional chain ID. If not provided, uses default chain.
+ * @param onProgress - Optional callback notified when authorization starts, the transaction is
+ *   submitted and, for an included mint, when it becomes final or is reorged out
+ * @param apiKey - API key of the request, charged for the gas with the author and attached to
+ *   the mint's events
+ * @param reservation - Gas budget reservation already made for the mint (see reserveMintGas);
+ *   reserved here if not given. Settled to the fee paid once mined (even if the mint reverted),
+ *   released if the mint fails before anything is mined.
+ * @returns Transaction receipt with mint details and the mint's finality (included or final)
  *
  * @throws {PZeroError} If PZERO authorization fails
+ * @throws {ApiError} INVALID_PROMPT if the prompt is empty after canonicalization
+ * @throws {ApiError} PROMPT_ALREADY_MINTED if the prompt is already minted
+ * @throws {ApiError} CONTENT_STORE_ERROR if the prompt content cannot be stored
+ * @throws {ApiError} RELAYER_FUNDS_CRITICAL if the relayer wallets are below the critical balance
+ * @throws {ApiError} GAS_BUDGET_EXCEEDED if the mint's estimated fee does not fit in the API key's or author's gas budget
+ * @throws {PZeroError} AUTHORIZATION_EXPIRED if the authorization expired again after re-authorizing
  * @throws {Error} If blockchain transaction fails
  *
  * @example
@@ -421,12 +1039,23 @@ export async function mintPromptForUser(
   prompt: string,
   author: string,
   activityPoints: string | string[],
-  chainId?: string
+  chainId?: string,
+  onProgress?: MintProgressListener,
+  apiKey?: string,
+  reservation?: gasBudgetService.GasReservation
 ): Promise<{
   transactionHash: string;
   promptHash: string;
+  canonicalPrompt: string;
+  canonicalizationVersion: string;
+  contentURI: string;
   blockNumber: number;
   gasUsed: string;
+  effectiveGasPrice: string;
+  feePaid: string;
+  status: number | null;
+  finality: MintFinality;
+  requiredConfirmations: number;
 }> {
   console.log('=== Backend-Signed Mint Flow ===');
   console.log(`Minting prompt for author: ${author}`);
@@ -438,15 +1067,418 @@ export async function mintPromptForUser(
   }
   console.log(`Using chain: ${chain.name} (${chain.chainId})`);
 
-  // Step 1: Hash prompt locally
-  const promptHash = hashPrompt(prompt);
+  // Step 1: Canonicalize and hash prompt locally
+  const canonical = canonicalize(prompt);
+  const promptHash = hashPrompt(canonical.canonicalPrompt);
   console.log(`1. Hashed prompt locally: ${promptHash.slice(0, 10)}...`);
+  const target: mintEventService.MintEventTarget = {
+    promptHash,
+    chainId: chain.chainId,
+    source: 'backend-signed',
+    author,
+    apiKey,
+  };
 
-  // Step 2: Check if prompt is already minted
-  const isMinted = await blockchainService.checkPromptMinted(promptHash, chainId);
+  // Released if the mint fails before it is mined
+  let gasReservation = reservation ?? null;
+
+  try {
+    // Refuse early if the relayer cannot pay for the transaction or the fee does not fit the gas budget
+    await blockchainService.ensureRelayerFunds(chain.chainId);
+    gasReservation ??= await reserveMintGas(chain.chainId, { apiKey, author });
+
+    // Step 2: Check if prompt is already minted
+    await ensurePromptNotMinted(promptHash, chain.chainId);
+    console.log(`2. Prompt not yet minted, proceeding...`);
+
+    // Step 3: Encode activity points
+    const encodedPoints = encodeActivityPoints(activityPoints);
+    console.log(`3. Encoded activity points: ${encodedPoints}`);
+
+    // Step 4: Request PZERO authorization (hash only!)
+    console.log(`4. Requesting PZERO authorization (hash only)...`);
+    onProgress?.('authorizing');
+    const authorization = await pzeroAuthService.requestMintAuthorization(
+      promptHash,
+      author,
+      encodedPoints,
+      chain.chainId,
+      chain.promptMinerAddress
+    );
+    console.log(`   Authorization received: ${authorization.signature.slice(0, 10)}...`);
+    console.log(`   Expires at: ${new Date(authorization.expiry * 1000).toISOString()}`);
+    mintEventService.publishMintEvent('authorized', target);
+
+    // Step 5: Store prompt content for the contentURI
+    const contentURI = await contentStorageService.storePromptContent(canonical, promptHash, author);
+    console.log(`5. Content URI: ${contentURI || '(empty)'}`);
+
+    // Step 6: Backend signs and submits transaction (re-authorizing once if expired)
+    console.log(`6. Backend signing and submitting transaction...`);
+    // Resolves to the hash of the broadcast transaction once it has been recorded
+    let submittedHash: Promise<string | null> = Promise.resolve(null);
+    const receipt = await submitWithReauthorization(
+      { promptHash, author, encodedPoints, chain },
+      authorization,
+      (signature) =>
+        blockchainService.executeMint(
+          author, // User who receives rewards
+          promptHash, // Prompt hash
+          contentURI, // Content URI (empty if content storage is disabled)
+          encodedPoints, // Encoded activity points
+          signature, // PZERO authorization
+          chainId,
+          (tx) => {
+            submittedHash = transactionStatusService
+              .recordSubmittedTransaction(chain.chainId, tx, promptHash, 'backend-signed')
+              .then(() => tx.hash);
+            onProgress?.('submitted', { transactionHash: tx.hash });
+            mintEventService.publishMintEvent('submitted', target, { transactionHash: tx.hash });
+          }
+        )
+    );
+    console.log(`   Minted! Tx: ${receipt.hash}`);
+    const mintedHash = await submittedHash;
+    if (mintedHash) {
+      await transactionStatusService.recordMinedTransaction(mintedHash, receipt);
+    }
+    await gasBudgetService.settleGasReservation(gasReservation, receipt.fee);
+    const finality = await trackMintFinality(target, receipt, {
+      onFinal: () => onProgress?.('final', { transactionHash: receipt.hash }),
+      // Without a mint job to re-queue, a reorged mint is reported as failed
+      onReorged: onProgress && (() => onProgress('reorged', { transactionHash: receipt.hash })),
+      onReverted: (revertedReceipt) =>
+        onProgress?.('reverted', {
+          transactionHash: revertedReceipt.hash,
+          blockNumber: revertedReceipt.blockNumber,
+        }),
+    });
+    mintEventService.publishMintEvent('confirmed', target, {
+      transactionHash: receipt.hash,
+      blockNumber: receipt.blockNumber,
+      finality: finality.finality,
+    });
+
+    console.log('=== Backend-Signed Mint Complete ===\n');
+
+    return {
+      transactionHash: receipt.hash,
+      promptHash,
+      ...canonical,
+      contentURI,
+      blockNumber: receipt.blockNumber,
+      ...getEffectiveFee(receipt),
+      status: receipt.status,
+      ...finality,
+    };
+  } catch (error: any) {
+    if (gasReservation) {
+      await gasBudgetService.closeFailedGasReservation(gasReservation, error);
+    }
+    publishMintFailed(target, error);
+    throw error;
+  }
+}
+
+/**
+ * Mints many prompts on behalf of users in one call (backend-signed mode).
+ *
+ * BATCH BACKEND-SIGNED MODE:
+ * Each item goes through the same flow as mintPromptForUser, but the slow
+ * steps are shared across the batch: authorizations are requested
+ * concurrently and all mints are broadcast before waiting for receipts.
+ * A failing item never aborts the rest of the batch.
+ *
+ * Flow:
+ * 1. Canonicalize and hash prompts locally and drop duplicates within the batch
+ * 2. Check on-chain status, request PZERO authorizations and store content concurrently
+ * 3. Submit mints one after another from the backend wallet
+ * 4. Wait for all receipts concurrently
+ *
+ * Each unique item publishes the same events as mintPromptForUser.
+ *
+ * @param items - Items to mint, each tagged with its position in the request
+ * @param apiKey - API key of the request, charged for the gas with each item's author and
+ *   attached to the items' events
+ * @returns Per-item results, in the order of the given items
+ *
+ * @example
+ * const results = await mintPromptBatch([
+ *   { index: 0, prompt: "What is AI?", author: "0x742d35...", activityPoints: "10" },
+ *   { index: 1, prompt: "What is ML?", author: "0x8ba1f1...", activityPoints: "10" },
+ * ]);
+ * results.filter((r) => !r.success).forEach((r) => console.log(r.index, r.error?.code));
+ */
+export async function mintPromptBatch(
+  items: Array<{
+    index: number;
+    prompt: string;
+    author: string;
+    activityPoints: string | string[];
+    chainId?: string;
+  }>,
+  apiKey?: string
+): Promise<BatchMintItemResult[]> {
+  console.log('=== Backend-Signed Batch Mint Flow ===');
+  console.log(`Minting ${items.length} prompt(s)`);
+
+  const results = new Map<number, BatchMintItemResult>();
+  const canonicalPrompts = new Map<number, CanonicalPrompt>();
+  const fail = (index: number, error: Error, promptHash?: string): void => {
+    const { errorCode, message } = resolveApiError(error);
+    results.set(index, {
+      index,
+      success: false,
+      promptHash,
+      canonicalPrompt: canonicalPrompts.get(index)?.canonicalPrompt,
+      error: { code: errorCode, message },
+    });
+  };
+
+  // Step 1: Canonicalize and hash prompts locally and dedupe within the batch
+  interface PreparedMint {
+    index: number;
+    author: string;
+    chain: ChainConfig;
+    canonical: CanonicalPrompt;
+    promptHash: string;
+    encodedPoints: string;
+  }
+  type AuthorizedMint = PreparedMint & { authorization: PZeroAuthorization; contentURI: string };
+  const eventTarget = (mint: PreparedMint): mintEventService.MintEventTarget => ({
+    promptHash: mint.promptHash,
+    chainId: mint.chain.chainId,
+    source: 'backend-signed',
+    author: mint.author,
+    apiKey,
+  });
+  // Gas budget reservations by item index, closed when the item fails (charged if it was mined)
+  const reservations = new Map<number, gasBudgetService.GasReservation>();
+  const failMint = (mint: PreparedMint, error: Error): void => {
+    fail(mint.index, error, mint.promptHash);
+    const reservation = reservations.get(mint.index);
+    if (reservation) {
+      void gasBudgetService.closeFailedGasReservation(reservation, error);
+    }
+    publishMintFailed(eventTarget(mint), error);
+  };
+  const firstIndexByKey = new Map<string, number>();
+  const prepared: PreparedMint[] = [];
+
+  for (const item of items) {
+    const chain = item.chainId ? getChainConfig(item.chainId) : getDefaultChainConfig();
+    if (!chain) {
+      const message = `Chain configuration not found for chainId: ${item.chainId}`;
+      fail(item.index, new ApiError(400, 'INVALID_CHAIN', message));
+      continue;
+    }
+
+    let canonical: CanonicalPrompt;
+    try {
+      canonical = canonicalize(item.prompt);
+    } catch (error: any) {
+      fail(item.index, error);
+      continue;
+    }
+    canonicalPrompts.set(item.index, canonical);
+
+    const promptHash = hashPrompt(canonical.canonicalPrompt);
+    const key = `${chain.chainId}:${promptHash}`;
+    const firstIndex = firstIndexByKey.get(key);
+    if (firstIndex !== undefined) {
+      fail(
+        item.index,
+        new ApiError(409, 'DUPLICATE_PROMPT', `Prompt duplicates item ${firstIndex} in this batch`),
+        promptHash
+      );
+      continue;
+    }
+    firstIndexByKey.set(key, item.index);
+
+    try {
+      prepared.push({
+        index: item.index,
+        author: item.author,
+        chain,
+        canonical,
+        promptHash,
+        encodedPoints: encodeActivityPoints(item.activityPoints),
+      });
+    } catch (error: any) {
+      fail(item.index, new ApiError(400, 'INVALID_ACTIVITY_POINTS', error.message), promptHash);
+    }
+  }
+  console.log(`1. Hashed ${items.length} prompt(s), ${prepared.length} unique`);
+
+  // Step 2: Check status, request PZERO authorizations (hash only!) and store content concurrently
+  console.log(`2. Requesting PZERO authorizations (hash only)...`);
+  const authorizeMint = async (mint: PreparedMint): Promise<AuthorizedMint | null> => {
+    try {
+      const { promptHash, chain } = mint;
+      await blockchainService.ensureRelayerFunds(chain.chainId);
+      reservations.set(
+        mint.index,
+        await reserveMintGas(chain.chainId, { apiKey, author: mint.author })
+      );
+      await ensurePromptNotMinted(promptHash, chain.chainId);
+
+      const authorization = await pzeroAuthService.requestMintAuthorization(
+        promptHash,
+        mint.author,
+        mint.encodedPoints,
+        chain.chainId,
+        chain.promptMinerAddress
+      );
+      mintEventService.publishMintEvent('authorized', eventTarget(mint));
+
+      const contentURI = await contentStorageService.storePromptContent(
+        mint.canonical,
+        promptHash,
+        mint.author
+      );
+      return { ...mint, authorization, contentURI };
+    } catch (error: any) {
+      failMint(mint, error);
+      return null;
+    }
+  };
+  const authorized = await mapWithConcurrency(prepared, config.batchMint.concurrency, authorizeMint);
+
+  // Step 3: Submit mints sequentially so the backend wallet's nonces stay in order
+  // (authorizations that expired while waiting are renewed once)
+  console.log(`3. Backend signing and submitting transactions...`);
+  const submitted: Array<{ mint: AuthorizedMint; tx: ethers.TransactionResponse }> = [];
+  for (const mint of authorized) {
+    if (!mint) continue;
+    try {
+      const tx = await submitWithReauthorization(mint, mint.authorization, (signature) =>
+        blockchainService.submitMint(
+          mint.author,
+          mint.promptHash,
+          mint.contentURI,
+          mint.encodedPoints,
+          signature,
+          mint.chain.chainId
+        )
+      );
+      await transactionStatusService.recordSubmittedTransaction(
+        mint.chain.chainId,
+        tx,
+        mint.promptHash,
+        'backend-signed'
+      );
+      mintEventService.publishMintEvent('submitted', eventTarget(mint), {
+        transactionHash: tx.hash,
+      });
+      submitted.push({ mint, tx });
+    } catch (error: any) {
+      failMint(mint, error);
+    }
+  }
+
+  // Step 4: Wait for all receipts concurrently
+  console.log(`4. Waiting for ${submitted.length} transaction(s)...`);
+  await Promise.all(
+    submitted.map(async ({ mint, tx }) => {
+      try {
+        const receipt = await blockchainService.waitForMint(tx);
+        await transactionStatusService.recordMinedTransaction(tx.hash, receipt);
+        await gasBudgetService.settleGasReservation(reservations.get(mint.index)!, receipt.fee);
+        const finality = await trackMintFinality(eventTarget(mint), receipt);
+        mintEventService.publishMintEvent('confirmed', eventTarget(mint), {
+          transactionHash: receipt.hash,
+          blockNumber: receipt.blockNumber,
+          finality: finality.finality,
+        });
+        results.set(mint.index, {
+          index: mint.index,
+          success: true,
+          promptHash: mint.promptHash,
+          canonicalPrompt: mint.canonical.canonicalPrompt,
+          data: {
+            transactionHash: receipt.hash,
+            contentURI: mint.contentURI,
+            blockNumber: receipt.blockNumber,
+            ...getEffectiveFee(receipt),
+            ...finality,
+          },
+        });
+      } catch (error: any) {
+        failMint(mint, error);
+      }
+    })
+  );
+
+  const succeeded = [...results.values()].filter((result) => result.success).length;
+  console.log(`=== Batch Mint Complete: ${succeeded}/${items.length} minted ===\n`);
+
+  return items.map((item) => results.get(item.index)!);
+}
+
+/**
+ * Simulates a backend-signed mint without broadcasting it.
+ *
+ * DRY-RUN MODE:
+ * Runs the same flow as mintPromptForUser up to submission, then estimates
+ * gas for the mint instead of sending it. Use it to check whether a mint
+ * would succeed and what it would cost before spending gas.
+ *
+ * Note: a real PZERO authorization is requested (hash only), so the
+ * simulation counts against the PZERO quota. Already-minted prompts are
+ * reported without contacting PZERO. Prompt content is not stored, so the
+ * estimate is for a mint with an empty contentURI.
+ *
+ * @param prompt - User's prompt text (PRIVACY: never sent to PZERO)
+ * @param author - Ethereum address that would receive the Activity Points
+ * @param activityPoints - Amount of activity points to reward
+ * @param chainId - Optional chain ID. If not provided, uses default chain.
+ * @returns Gas estimate and cost, or the decoded revert reason
+ *
+ * @throws {PZeroError} If PZERO authorization fails
+ * @throws {ApiError} INVALID_PROMPT if the prompt is empty after canonicalization
+ *
+ * @example
+ * const simulation = await simulateMintForUser("What is AI?", "0x742d35...", "10");
+ * if (!simulation.wouldSucceed) {
+ *   console.log(`Would revert: ${simulation.revert?.name}`);
+ * }
+ */
+export async function simulateMintForUser(
+  prompt: string,
+  author: string,
+  activityPoints: string | string[],
+  chainId?: string
+): Promise<MintSimulationResponse> {
+  console.log('=== Backend-Signed Mint Simulation ===');
+
+  // Get chain configuration
+  const chain = chainId ? getChainConfig(chainId) : getDefaultChainConfig();
+  if (!chain) {
+    throw new Error(`Chain configuration not found for chainId: ${chainId}`);
+  }
+  console.log(`Using chain: ${chain.name} (${chain.chainId})`);
+
+  // Step 1: Canonicalize and hash prompt locally
+  const canonical = canonicalize(prompt);
+  const promptHash = hashPrompt(canonical.canonicalPrompt);
+  console.log(`1. Hashed prompt locally: ${promptHash.slice(0, 10)}...`);
+
+  // Step 2: Check if prompt is already minted (no PZERO call needed to know it would fail)
+  const isMinted = await blockchainService.checkPromptMinted(promptHash, chain.chainId);
   if (isMinted) {
     console.log(`   Prompt already minted! Hash: ${promptHash}`);
-    throw new Error(`Prompt has already been minted. Prompt hash: ${promptHash}`);
+    return {
+      mode: 'backend-signed',
+      promptHash,
+      ...canonical,
+      wouldSucceed: false,
+      revert: {
+        name: 'PromptAlreadyMinted',
+        contract: 'PromptDO',
+        args: {},
+        message: 'Prompt has already been minted',
+      },
+    };
   }
   console.log(`2. Prompt not yet minted, proceeding...`);
 
@@ -464,39 +1496,384 @@ export async function mintPromptForUser(
     chain.promptMinerAddress
   );
   console.log(`   Authorization received: ${authorization.signature.slice(0, 10)}...`);
+  console.log(`   Expires at: ${new Date(authorization.expiry * 1000).toISOString()}`);
 
-  // Step 5: Backend signs and submits transaction
-  console.log(`5. Backend signing and submitting transaction...`);
-  const receipt = await blockchainService.executeMint(
-    author, // User who receives rewards
-    promptHash, // Prompt hash
-    '', // Content URI (empty for now)
-    encodedPoints, // Encoded activity points
-    authorization.signature, // PZERO authorization
+  // Step 5: Estimate gas instead of submitting
+  console.log(`5. Simulating mint transaction...`);
+  const simulation = await blockchainService.simulateMint(
+    author,
+    promptHash,
+    '', // Content URI (content is not stored for a dry run)
+    encodedPoints,
+    authorization.signature,
+    chain.chainId
+  );
+
+  const outcome = simulation.wouldSucceed ? 'would succeed' : 'would revert';
+  console.log(`=== Simulation Complete: ${outcome} ===\n`);
+
+  return { mode: 'backend-signed', promptHash, ...canonical, ...simulation };
+}
+
+/**
+ * Simulates a meta-transaction mint without broadcasting it.
+ *
+ * DRY-RUN MODE:
+ * Runs the same checks as executeMetaTxMint, then estimates gas for the
+ * forwarder call instead of sending it.
+ *
+ * @param requestForSigning - The request data that was signed by the user
+ * @param forwardSignature - The user's EIP-712 signature
+ * @param chainId - Optional chain ID. If not provided, uses default chain.
+ * @returns Gas estimate and cost, or the decoded revert reason
+ *
+ * @throws {ApiError} META_TX_* if the request is not a relayable mint (see ensureRelayableMetaTx)
+ * @throws {ApiError} META_TX_SIGNATURE_INVALID, META_TX_NONCE_STALE, META_TX_NONCE_MISMATCH or
+ *   META_TX_DEADLINE_EXPIRED if the forwarder would reject the signed request
+ */
+export async function simulateMetaTxMint(
+  requestForSigning: {
+    from: string;
+    to: string;
+    value: bigint;
+    gas: bigint;
+    nonce: bigint;
+    deadline: bigint;
+    data: string;
+  },
+  forwardSignature: string,
+  chainId?: string
+): Promise<MintSimulationResponse> {
+  console.log('=== Meta-Transaction Simulation ===');
+  console.log(`Simulating meta-transaction for user: ${requestForSigning.from}`);
+
+  const chain = chainId ? getChainConfig(chainId) : getDefaultChainConfig();
+  if (!chain) {
+    throw new Error(`Chain configuration not found for chainId: ${chainId}`);
+  }
+  ensureRelayableMetaTx(requestForSigning, chain);
+
+  const simulation = await blockchainService.simulateMetaTxMint(
+    requestForSigning,
+    forwardSignature,
     chainId
   );
-  console.log(`   Minted! Tx: ${receipt.hash}`);
 
-  console.log('=== Backend-Signed Mint Complete ===\n');
+  const outcome = simulation.wouldSucceed ? 'would succeed' : 'would revert';
+  console.log(`=== Simulation Complete: ${outcome} ===\n`);
+
+  return { mode: 'meta-transaction', ...simulation };
+}
+
+/**
+ * A prompt migration resolved against the chain configuration.
+ */
+interface PreparedMigration {
+  chain: ChainConfig;
+  target: MigrationTarget;
+  promptHash: string;
+  /** Set when the prompt was given as text */
+  canonical: CanonicalPrompt | null;
+}
+
+/**
+ * Resolves a migration request to a prompt hash and a configured migration target.
+ *
+ * @param promptOrHash - Either full prompt text (canonicalized before hashing) or prompt hash
+ * @param targetPromptMiner - PromptMiner contract to migrate to
+ * @param targetDataPoint - Data point to migrate to
+ * @param chainId - Optional chain ID. If not provided, uses default chain.
+ *
+ * @throws {ApiError} INVALID_CHAIN if the chain is not configured
+ * @throws {ApiError} MIGRATION_TARGET_NOT_CONFIGURED if the target is not in the chain's migrationTargets
+ * @throws {ApiError} INVALID_PROMPT if the prompt is empty after canonicalization
+ */
+function prepareMigration(
+  promptOrHash: string,
+  targetPromptMiner: string,
+  targetDataPoint: string,
+  chainId?: string
+): PreparedMigration {
+  const chain = chainId ? getChainConfig(chainId) : getDefaultChainConfig();
+  if (!chain) {
+    throw new ApiError(400, 'INVALID_CHAIN', `Chain configuration not found for chainId: ${chainId}`);
+  }
+
+  // Only migrate to PromptMiner/data point pairs the operator has configured
+  const target = chain.migrationTargets?.find(
+    (candidate) =>
+      candidate.promptMinerAddress.toLowerCase() === targetPromptMiner.toLowerCase() &&
+      candidate.dataPointAddress.toLowerCase() === targetDataPoint.toLowerCase()
+  );
+  if (!target) {
+    throw new ApiError(
+      400,
+      'MIGRATION_TARGET_NOT_CONFIGURED',
+      `PromptMiner ${targetPromptMiner} with data point ${targetDataPoint} is not a configured migration target on chain ${chain.chainId}`
+    );
+  }
+
+  const canonical = promptOrHash.startsWith('0x') ? null : canonicalize(promptOrHash);
+  const promptHash = canonical ? hashPrompt(canonical.canonicalPrompt) : promptOrHash;
+
+  return { chain, target, promptHash, canonical };
+}
+
+/**
+ * Checks that a prompt can be migrated before sending a transaction.
+ *
+ * @throws {ApiError} PROMPT_NOT_MINTED if the prompt is not minted on the source PromptMiner
+ * @throws {ApiError} PROMPT_ALREADY_MIGRATED if the prompt is already minted on the target PromptMiner
+ */
+async function ensurePromptMigratable(migration: PreparedMigration): Promise<void> {
+  const { promptHash, chain, target } = migration;
+
+  const isMinted = await blockchainService.checkPromptMinted(promptHash, chain.chainId);
+  if (!isMinted) {
+    throw new ApiError(
+      404,
+      'PROMPT_NOT_MINTED',
+      `Prompt is not minted on PromptMiner ${chain.promptMinerAddress}. Prompt hash: ${promptHash}`
+    );
+  }
+
+  const isOnTarget = await blockchainService.checkPromptMintedAt(
+    target.promptMinerAddress,
+    promptHash,
+    chain.chainId
+  );
+  if (isOnTarget) {
+    throw new ApiError(
+      409,
+      'PROMPT_ALREADY_MIGRATED',
+      `Prompt is already minted on PromptMiner ${target.promptMinerAddress}. Prompt hash: ${promptHash}`
+    );
+  }
+}
 
+/**
+ * Builds the migration details reported to clients.
+ */
+function toPromptMigration(
+  migration: PreparedMigration,
+  receipt: ethers.TransactionReceipt
+): PromptMigration {
   return {
+    sourcePromptMiner: migration.chain.promptMinerAddress,
+    targetPromptMiner: migration.target.promptMinerAddress,
+    targetDataPoint: migration.target.dataPointAddress,
     transactionHash: receipt.hash,
-    promptHash,
     blockNumber: receipt.blockNumber,
-    gasUsed: receipt.gasUsed.toString(),
+    ...getEffectiveFee(receipt),
   };
 }
 
+/**
+ * Migrates a minted prompt to another PromptMiner contract and data point.
+ *
+ * The backend wallet sends migratePrompt on the chain's PromptMiner. The
+ * target PromptMiner must be allowed to manage the target data point in the
+ * DataIndex contract (allowDataManager), and the pair must be listed in the
+ * chain's migrationTargets (PM_CHAINS).
+ *
+ * Flow:
+ * 1. Resolve the prompt hash and the configured migration target
+ * 2. Check the prompt is minted on the source and not on the target
+ * 3. Submit the migration and wait for confirmation
+ *
+ * @param promptOrHash - Either full prompt text (canonicalized before hashing) or prompt hash
+ * @param targetPromptMiner - PromptMiner contract to migrate to
+ * @param targetDataPoint - Data point to migrate to
+ * @param chainId - Optional chain ID. If not provided, uses default chain.
+ * @returns Migration details
+ *
+ * @throws {ApiError} MIGRATION_TARGET_NOT_CONFIGURED if the target is not configured for the chain
+ * @throws {ApiError} PROMPT_NOT_MINTED if the prompt is not minted on the source PromptMiner
+ * @throws {ApiError} PROMPT_ALREADY_MIGRATED if the prompt is already on the target PromptMiner
+ * @throws {Error} If the migration transaction fails
+ *
+ * @example
+ * const result = await migratePrompt("0x1234...", "0xPromptMiner2...", "0xNewDataPoint...", '56');
+ * console.log(`Migrated in ${result.transactionHash}`);
+ */
+export async function migratePrompt(
+  promptOrHash: string,
+  targetPromptMiner: string,
+  targetDataPoint: string,
+  chainId?: string
+): Promise<MigratePromptResponse> {
+  console.log('=== Prompt Migration Flow ===');
+
+  // Step 1: Resolve prompt hash and migration target
+  const migration = prepareMigration(promptOrHash, targetPromptMiner, targetDataPoint, chainId);
+  console.log(`1. Prompt hash: ${migration.promptHash}`);
+
+  // Step 2: Check prompt status on source and target
+  console.log(`2. Checking prompt status on source and target PromptMiner...`);
+  await ensurePromptMigratable(migration);
+
+  // Step 3: Submit migration and wait for confirmation
+  console.log(`3. Backend signing and submitting migration...`);
+  const tx = await blockchainService.submitMigration(
+    migration.promptHash,
+    migration.target,
+    migration.chain.chainId
+  );
+  const receipt = await blockchainService.waitForMigration(tx, migration.promptHash);
+
+  console.log(`=== Migration Complete ===\n`);
+
+  return {
+    promptHash: migration.promptHash,
+    ...migration.canonical,
+    ...toPromptMigration(migration, receipt),
+  };
+}
+
+/**
+ * Migrates many prompts in one request.
+ *
+ * Each item succeeds or fails independently; failures are reported with the
+ * standard API error codes. Like mintPromptBatch, checks run concurrently,
+ * transactions are submitted sequentially so the backend wallet's nonces
+ * stay in order, and receipts are awaited concurrently.
+ *
+ * @param items - Items to migrate, each tagged with its position in the request
+ * @returns Per-item results, in the order of the given items
+ *
+ * @example
+ * const results = await migratePromptBatch([
+ *   { index: 0, prompt: "0x1234...", targetPromptMiner: "0xPM2...", targetDataPoint: "0xDP..." },
+ *   { index: 1, prompt: "What is ML?", targetPromptMiner: "0xPM2...", targetDataPoint: "0xDP..." },
+ * ]);
+ */
+export async function migratePromptBatch(
+  items: Array<{
+    index: number;
+    prompt: string;
+    targetPromptMiner: string;
+    targetDataPoint: string;
+    chainId?: string;
+  }>
+): Promise<MigratePromptItemResult[]> {
+  console.log('=== Batch Prompt Migration Flow ===');
+  console.log(`Migrating ${items.length} prompt(s)`);
+
+  type IndexedMigration = PreparedMigration & { index: number };
+  const results = new Map<number, MigratePromptItemResult>();
+  const fail = (index: number, error: Error, migration?: PreparedMigration): void => {
+    const { errorCode, message } = resolveApiError(error);
+    results.set(index, {
+      index,
+      success: false,
+      promptHash: migration?.promptHash,
+      canonicalPrompt: migration?.canonical?.canonicalPrompt,
+      error: { code: errorCode, message },
+    });
+  };
+
+  // Step 1: Resolve prompt hashes and migration targets, and dedupe within the batch
+  const firstIndexByKey = new Map<string, number>();
+  const prepared: IndexedMigration[] = [];
+  for (const item of items) {
+    let migration: PreparedMigration;
+    try {
+      migration = prepareMigration(
+        item.prompt,
+        item.targetPromptMiner,
+        item.targetDataPoint,
+        item.chainId
+      );
+    } catch (error: any) {
+      fail(item.index, error);
+      continue;
+    }
+
+    const key = `${migration.chain.chainId}:${migration.promptHash.toLowerCase()}`;
+    const firstIndex = firstIndexByKey.get(key);
+    if (firstIndex !== undefined) {
+      const message = `Prompt duplicates item ${firstIndex} in this batch`;
+      fail(item.index, new ApiError(409, 'DUPLICATE_PROMPT', message), migration);
+      continue;
+    }
+    firstIndexByKey.set(key, item.index);
+    prepared.push({ ...migration, index: item.index });
+  }
+  console.log(`1. Resolved ${items.length} prompt(s), ${prepared.length} unique`);
+
+  // Step 2: Check prompt status on source and target concurrently
+  console.log(`2. Checking prompt status on source and target PromptMiners...`);
+  const checked = await mapWithConcurrency(
+    prepared,
+    config.batchMint.concurrency,
+    async (migration): Promise<IndexedMigration | null> => {
+      try {
+        await ensurePromptMigratable(migration);
+        return migration;
+      } catch (error: any) {
+        fail(migration.index, error, migration);
+        return null;
+      }
+    }
+  );
+
+  // Step 3: Submit migrations sequentially so the backend wallet's nonces stay in order
+  console.log(`3. Backend signing and submitting migrations...`);
+  const submitted: Array<{ migration: IndexedMigration; tx: ethers.TransactionResponse }> = [];
+  for (const migration of checked) {
+    if (!migration) continue;
+    try {
+      const tx = await blockchainService.submitMigration(
+        migration.promptHash,
+        migration.target,
+        migration.chain.chainId
+      );
+      submitted.push({ migration, tx });
+    } catch (error: any) {
+      fail(migration.index, error, migration);
+    }
+  }
+
+  // Step 4: Wait for all receipts concurrently
+  console.log(`4. Waiting for ${submitted.length} transaction(s)...`);
+  await Promise.all(
+    submitted.map(async ({ migration, tx }) => {
+      try {
+        const receipt = await blockchainService.waitForMigration(tx, migration.promptHash);
+        results.set(migration.index, {
+          index: migration.index,
+          success: true,
+          promptHash: migration.promptHash,
+          canonicalPrompt: migration.canonical?.canonicalPrompt,
+          data: toPromptMigration(migration, receipt),
+        });
+      } catch (error: any) {
+        fail(migration.index, error, migration);
+      }
+    })
+  );
+
+  const succeeded = [...results.values()].filter((result) => result.success).length;
+  console.log(`=== Batch Migration Complete: ${succeeded}/${items.length} migrated ===\n`);
+
+  return items.map((item) => results.get(item.index)!);
+}
+
 /**
  * Initializes the blockchain connection.
  *
  * This should be called at application startup to ensure
- * blockchain connectivity is established early.
+ * blockchain connectivity is established early. Also starts polling the
+ * relayer wallet balances and, if enabled, the on-chain indexer.
  *
- * @throws {Error} If blockchain initialization fails
+ * @throws {Error} If blockchain initialization fails or the index file cannot be loaded
  */
 export function initialize(): void {
   console.log('Initializing prompt mining service...');
   blockchainService.initializeBlockchain();
   console.log('Blockchain initialized');
+  blockchainService.startRelayerBalanceMonitor();
+  if (config.indexer.enabled) {
+    indexerService.startIndexer();
+  }
 }
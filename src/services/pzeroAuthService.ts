@@ -1,6 +1,9 @@
 import axios, { AxiosInstance, AxiosError } from 'axios';
-import { config } from '../config';
+import { config, getChainConfig } from '../config';
+import { TtlCache } from '../utils/ttlCache';
+import { getPromptHashForSigning, recoverAuthorizationSigner } from '../utils/crypto';
 import {
+  AuthorizationVerification,
   PZeroAuthorization,
   PZeroMintAuthRequest,
   PZeroErrorCode,
@@ -38,6 +41,300 @@ const pzeroClient: AxiosInstance = axios.create({
   },
 });
 
+/**
+ * Checks whether an authorization has expired or expires within
+ * PM_PZERO_EXPIRY_MARGIN_SECONDS.
+ *
+ * The margin leaves time for a transaction to be mined before PZERO's
+ * expiry is reached on chain.
+ *
+ * @param authorization - Authorization returned by PZERO
+ * @returns True if the authorization should no longer be used
+ */
+export function isAuthorizationExpired(authorization: PZeroAuthorization): boolean {
+  const nowSeconds = Math.floor(Date.now() / 1000);
+  return authorization.expiry - config.pzero.expiryMarginSeconds <= nowSeconds;
+}
+
+/**
+ * Refuses an authorization that has expired or is about to.
+ *
+ * @param authorization - Authorization returned by PZERO
+ * @throws {PZeroError} AUTHORIZATION_EXPIRED if the authorization should no longer be used
+ */
+export function ensureAuthorizationNotExpired(authorization: PZeroAuthorization): void {
+  if (isAuthorizationExpired(authorization)) {
+    const expiredAt = new Date(authorization.expiry * 1000).toISOString();
+    throw new PZeroError(
+      'AUTHORIZATION_EXPIRED',
+      `PZERO authorization expires at ${expiredAt}. Please request a new authorization.`,
+      401,
+      { expiry: authorization.expiry }
+    );
+  }
+}
+
+/**
+ * Checks whether an error reports an expired PZERO authorization.
+ *
+ * @param error - Error thrown by an authorization check or a mint
+ * @returns True if the mint can be retried with a fresh authorization
+ */
+export function isAuthorizationExpiredError(error: unknown): boolean {
+  return error instanceof PZeroError && error.code === 'AUTHORIZATION_EXPIRED';
+}
+
+/**
+ * Checks locally that a mint authorization was signed by PZERO.
+ *
+ * Rebuilds the message the PromptMiner contract verifies from the
+ * authorization parameters, recovers the signer and compares it with the
+ * chain's pzeroSignerAddress (PM_CHAINS).
+ *
+ * @param signature - Authorization signature
+ * @param promptHash - Keccak256 hash of the prompt
+ * @param author - Ethereum address of the prompt author
+ * @param encodedActivityPoints - ABI-encoded activity points
+ * @param chainId - Chain the authorization is for
+ * @param signerAddress - PromptMiner contract address
+ * @returns The verification result, with the reason if the signature is not valid
+ *
+ * @example
+ * const verification = verifyMintAuthorization(signature, promptHash, author, encodedPoints, '97', promptMiner);
+ * if (!verification.valid) console.warn(verification.reason);
+ */
+export function verifyMintAuthorization(
+  signature: string,
+  promptHash: string,
+  author: string,
+  encodedActivityPoints: string,
+  chainId: string,
+  signerAddress: string
+): AuthorizationVerification {
+  const expectedSigner = getChainConfig(chainId)?.pzeroSignerAddress ?? null;
+  const verification: AuthorizationVerification = {
+    valid: false,
+    recoveredSigner: null,
+    expectedSigner,
+    signedMessage: getPromptHashForSigning(
+      chainId,
+      signerAddress,
+      promptHash,
+      author,
+      encodedActivityPoints
+    ),
+    signerAddress,
+    chainId,
+  };
+
+  try {
+    verification.recoveredSigner = recoverAuthorizationSigner(
+      chainId,
+      signerAddress,
+      promptHash,
+      author,
+      encodedActivityPoints,
+      signature
+    );
+  } catch (error: any) {
+    return {
+      ...verification,
+      reason: `Signature is malformed: ${error.shortMessage ?? error.message}`,
+    };
+  }
+
+  if (!expectedSigner) {
+    return { ...verification, reason: `No PZERO signer is configured for chain ${chainId}` };
+  }
+  if (verification.recoveredSigner !== expectedSigner) {
+    return {
+      ...verification,
+      reason: `Signed by ${verification.recoveredSigner}, not by the PZERO signer ${expectedSigner}`,
+    };
+  }
+
+  return { ...verification, valid: true };
+}
+
+/**
+ * Refuses an authorization that was not signed by the chain's PZERO signer.
+ *
+ * Chains without a pzeroSignerAddress are not checked (a warning is logged
+ * at startup). Such authorizations come straight from PZERO; the relayer
+ * refuses any it did not issue itself on those chains.
+ *
+ * @throws {PZeroError} AUTHORIZATION_SIGNER_MISMATCH if the signature does not match
+ */
+function ensureSignedByPZero(
+  authorization: PZeroAuthorization,
+  promptHash: string,
+  author: string,
+  encodedActivityPoints: string,
+  chainId: string,
+  signerAddress: string
+): void {
+  if (!getChainConfig(chainId)?.pzeroSignerAddress) {
+    return;
+  }
+
+  const verification = verifyMintAuthorization(
+    authorization.signature,
+    promptHash,
+    author,
+    encodedActivityPoints,
+    chainId,
+    signerAddress
+  );
+  if (!verification.valid) {
+    console.error(`PZERO authorization for ${promptHash} failed verification: ${verification.reason}`);
+    throw new PZeroError(
+      'AUTHORIZATION_SIGNER_MISMATCH',
+      `PZERO authorization could not be verified: ${verification.reason}`,
+      502,
+      {
+        expectedSigner: verification.expectedSigner,
+        recoveredSigner: verification.recoveredSigner,
+      }
+    );
+  }
+}
+
+/** How long issued authorizations are remembered past their expiry */
+const ISSUED_AUTHORIZATION_GRACE_MS = 60 * 60 * 1000;
+
+/**
+ * An authorization issued by PZERO through this service, with the
+ * parameters it was requested for.
+ */
+export interface IssuedAuthorization {
+  authorization: PZeroAuthorization;
+  promptHash: string;
+  author: string;
+  encodedActivityPoints: string;
+  chainId: string;
+  /** PromptMiner contract the authorization is valid for */
+  signerAddress: string;
+}
+
+/**
+ * Authorizations issued by PZERO, by signature.
+ *
+ * Lets the relayer check a meta-transaction against the authorization it
+ * embeds (parameters and expiry). Entries are kept for a while past expiry
+ * so that late submissions are still recognized as expired.
+ */
+const issuedAuthorizations = new TtlCache<IssuedAuthorization>(ISSUED_AUTHORIZATION_GRACE_MS);
+
+/**
+ * Finds an authorization issued by this service from its signature.
+ *
+ * @param signature - PZERO authorization signature
+ * @returns The authorization with the parameters it was issued for, or
+ *   undefined if unknown (e.g. issued before a restart or by another instance)
+ */
+export function findIssuedAuthorization(signature: string): IssuedAuthorization | undefined {
+  return issuedAuthorizations.get(signature.toLowerCase());
+}
+
+/**
+ * An authorization kept for reuse, with the parameters it was issued for.
+ */
+interface CachedAuthorization {
+  author: string;
+  encodedActivityPoints: string;
+  signerAddress: string;
+  authorization: PZeroAuthorization;
+  expiresAt: number;
+}
+
+/**
+ * Recently issued PZERO authorizations, grouped by chain and prompt hash.
+ *
+ * A retried request for the same prompt, author, points, chain and signer
+ * reuses the signature instead of consuming PZERO quota again. Grouping by
+ * prompt lets all authorizations of a prompt be dropped once it is minted.
+ */
+const authorizationCache = new TtlCache<CachedAuthorization[]>(config.authorizationCache.ttlMs);
+
+/**
+ * Builds the authorization cache key for a prompt on a chain.
+ */
+function authorizationCacheKey(chainId: string, promptHash: string): string {
+  return `${chainId}:${promptHash.toLowerCase()}`;
+}
+
+/**
+ * Finds a cached authorization issued for exactly these parameters.
+ */
+function findCachedAuthorization(
+  promptHash: string,
+  author: string,
+  encodedActivityPoints: string,
+  chainId: string,
+  signerAddress: string
+): PZeroAuthorization | undefined {
+  const now = Date.now();
+  const cached = authorizationCache
+    .get(authorizationCacheKey(chainId, promptHash))
+    ?.find(
+      (entry) =>
+        entry.expiresAt > now &&
+        entry.author.toLowerCase() === author.toLowerCase() &&
+        entry.encodedActivityPoints.toLowerCase() === encodedActivityPoints.toLowerCase() &&
+        entry.signerAddress.toLowerCase() === signerAddress.toLowerCase()
+    );
+  return cached?.authorization;
+}
+
+/**
+ * Keeps an authorization for reuse for PM_AUTHORIZATION_CACHE_TTL_MS, or
+ * until PM_PZERO_EXPIRY_MARGIN_SECONDS before it expires if that is sooner.
+ */
+function cacheAuthorization(
+  promptHash: string,
+  author: string,
+  encodedActivityPoints: string,
+  chainId: string,
+  signerAddress: string,
+  authorization: PZeroAuthorization
+): void {
+  const { ttlMs } = config.authorizationCache;
+  if (ttlMs === 0) {
+    return;
+  }
+
+  const now = Date.now();
+  const usableUntil = (authorization.expiry - config.pzero.expiryMarginSeconds) * 1000;
+  const expiresAt = Math.min(now + ttlMs, usableUntil);
+  if (expiresAt <= now) {
+    return;
+  }
+
+  const key = authorizationCacheKey(chainId, promptHash);
+  const entries = (authorizationCache.get(key) ?? []).filter((entry) => entry.expiresAt > now);
+  entries.push({
+    author,
+    encodedActivityPoints,
+    signerAddress,
+    authorization,
+    expiresAt,
+  });
+  authorizationCache.set(key, entries, Math.max(...entries.map((entry) => entry.expiresAt)) - now);
+}
+
+/**
+ * Drops all cached authorizations for a prompt.
+ *
+ * Called once a prompt is seen as minted: its authorizations can no longer
+ * be used, so keeping them would only hand out signatures that revert.
+ *
+ * @param promptHash - Keccak256 hash of the prompt
+ * @param chainId - Chain the prompt was minted on
+ */
+export function invalidateMintAuthorizations(promptHash: string, chainId: string): void {
+  authorizationCache.delete(authorizationCacheKey(chainId, promptHash));
+}
+
 /**
  * Retry logic with exponential backoff.
  *
@@ -167,6 +464,53 @@ function handlePZeroApiError(error: unknown): never {
   );
 }
 
+/**
+ * Checks the authorization in a PZERO mint authorization response.
+ *
+ * An authorization that is missing or malformed would otherwise be cached
+ * and handed out, or fail later with an unrelated error (a NaN expiry is
+ * never seen as expired).
+ *
+ * @param authorization - The response's authorization field
+ * @returns The authorization, with the nonce as a decimal string
+ * @throws {PZeroError} INVALID_AUTHORIZATION_RESPONSE if a field is missing or malformed
+ */
+function parseAuthorizationResponse(authorization: any): PZeroAuthorization {
+  const problems: string[] = [];
+  if (typeof authorization !== 'object' || authorization === null) {
+    problems.push('authorization is missing');
+  } else {
+    const { signature, nonce, expiry } = authorization;
+    if (typeof signature !== 'string' || !/^0x[0-9a-fA-F]{130}$/.test(signature)) {
+      problems.push('signature is not a 65-byte hex string');
+    }
+    if (
+      !(typeof nonce === 'number' && Number.isSafeInteger(nonce) && nonce >= 0) &&
+      !(typeof nonce === 'string' && /^\d+$/.test(nonce))
+    ) {
+      problems.push('nonce is not a non-negative integer');
+    }
+    if (typeof expiry !== 'number' || !Number.isSafeInteger(expiry) || expiry <= 0) {
+      problems.push('expiry is not a Unix timestamp in seconds');
+    }
+  }
+
+  if (problems.length > 0) {
+    console.error(`PZERO returned a malformed authorization: ${problems.join(', ')}`);
+    throw new PZeroError(
+      'INVALID_AUTHORIZATION_RESPONSE',
+      `PZERO returned a malformed authorization: ${problems.join(', ')}`,
+      502,
+      { problems }
+    );
+  }
+  return {
+    signature: authorization.signature,
+    nonce: String(authorization.nonce),
+    expiry: authorization.expiry,
+  };
+}
+
 /**
  * Requests mint authorization from PZERO.
  *
@@ -174,12 +518,25 @@ function handlePZeroApiError(error: unknown): never {
  * This function sends ONLY the prompt HASH to PZERO, never the full prompt text.
  * This ensures user privacy while still allowing PZERO to authorize and track usage.
  *
+ * QUOTA:
+ * Authorizations are cached for PM_AUTHORIZATION_CACHE_TTL_MS. A repeated
+ * request with the same prompt hash, author, points, chain and signer reuses
+ * the cached signature without calling PZERO, until the prompt is minted or
+ * the authorization is about to expire.
+ *
+ * VERIFICATION:
+ * The response is checked to hold a well-formed signature, nonce and
+ * expiry, and when the chain has a pzeroSignerAddress, the signature is
+ * checked locally, before the authorization is cached or returned.
+ *
  * @param promptHash - Keccak256 hash of the prompt (NOT the full prompt!)
  * @param author - Ethereum address of the prompt author
  * @param activityPoints - Amount of activity points to reward (in ether or wei)
- * @returns PZERO authorization signature
+ * @returns PZERO authorization: signature, nonce and expiry
  *
  * @throws {PZeroError} If authorization fails
+ * @throws {PZeroError} INVALID_AUTHORIZATION_RESPONSE if PZERO's response has no well-formed authorization
+ * @throws {PZeroError} AUTHORIZATION_SIGNER_MISMATCH if PZERO's signature does not verify
  *
  * @security
  * - Only promptHash is sent, not full prompt
@@ -201,6 +558,19 @@ export async function requestMintAuthorization(
   chainId: string,
   signerAddress: string // The PromptMiner contract address
 ): Promise<PZeroAuthorization> {
+  // Reuse a recent authorization for the same parameters (no quota consumed)
+  const cached = findCachedAuthorization(
+    promptHash,
+    author,
+    encodedActivityPoints,
+    chainId,
+    signerAddress
+  );
+  if (cached) {
+    console.log(`Reusing cached PZERO authorization for ${promptHash}`);
+    return cached;
+  }
+
   const requestBody: PZeroMintAuthRequest = {
     promptHash, // ONLY hash, never full prompt
     author,
@@ -210,22 +580,48 @@ export async function requestMintAuthorization(
     timestamp: Date.now(),
   };
 
+  let responseData: any;
   try {
     const response = await retryWithBackoff(async () => {
       return await pzeroClient.post('/authorize/mint', requestBody);
     });
-
-    const { authorization, quota } = response.data;
-
-    // Log quota status for monitoring
-    if (quota && config.env !== 'production') {
-      console.log(`PZERO Quota: ${quota.used}/${quota.limit} (${quota.tier})`);
-    }
-
-    return authorization;
+    responseData = response.data;
   } catch (error) {
     handlePZeroApiError(error);
   }
+
+  const authorization = parseAuthorizationResponse(responseData?.authorization);
+
+  // Log quota status for monitoring
+  const quota = responseData?.quota;
+  if (quota && config.env !== 'production') {
+    console.log(`PZERO Quota: ${quota.used}/${quota.limit} (${quota.tier})`);
+  }
+
+  // Never hand out or reuse a signature the contract would reject
+  ensureSignedByPZero(
+    authorization,
+    promptHash,
+    author,
+    encodedActivityPoints,
+    chainId,
+    signerAddress
+  );
+
+  issuedAuthorizations.set(
+    authorization.signature.toLowerCase(),
+    { authorization, promptHash, author, encodedActivityPoints, chainId, signerAddress },
+    Math.max(authorization.expiry * 1000 - Date.now(), 0) + ISSUED_AUTHORIZATION_GRACE_MS
+  );
+  cacheAuthorization(
+    promptHash,
+    author,
+    encodedActivityPoints,
+    chainId,
+    signerAddress,
+    authorization
+  );
+  return authorization;
 }
 
 /**
@@ -0,0 +1,420 @@
+import { ethers } from 'ethers';
+import { config, getChainConfig, getRelayerBalanceThresholds } from '../config';
+import { ApiError } from '../middleware/errorHandler';
+import { getWalletPendingStatus } from './pendingTransactionService';
+import { BackendSigner, createRelayerSignerProviders, getSignerProvider } from './signerProvider';
+import {
+  RelayerBalanceLevel,
+  RelayerBalanceSummary,
+  RelayerWalletStats,
+  RelayerWalletStatus,
+} from '../types';
+
+/**
+ * Pool of relayer wallets per chain.
+ *
+ * Backend-signed mints and relayed meta-transactions are sent from a pool of
+ * hot wallets (PM_RELAYER_SIGNERS) instead of a single wallet, so
+ * throughput is not capped by one wallet's nonce sequence and one drained or
+ * blocked wallet does not stop minting. Relayer wallets come from the same
+ * kind of signer as the backend wallet (PM_SIGNER_TYPE). Chains without
+ * relayer signers use a pool of one: the backend wallet.
+ *
+ * Each transaction goes to the least busy wallet (in-flight plus pending
+ * transactions), least recently used first on ties. Wallets are skipped
+ * while their balance is below the chain's critical threshold or while they
+ * have a transaction pending longer than PM_STUCK_TX_TIMEOUT_MS since it
+ * was last broadcast or bumped.
+ *
+ * Balances are polled every PM_RELAYER_BALANCE_POLL_INTERVAL_MS by the
+ * balance monitor, and read again after a failed send. Changes of a chain's
+ * balance level (ok, warning, critical) are logged once. While every wallet
+ * of a chain is below the critical threshold, mints on that chain are
+ * refused with RELAYER_FUNDS_CRITICAL before any PZERO authorization is
+ * requested.
+ *
+ * Prompt migrations are not relayed: they stay on the backend wallet, which
+ * holds the PromptMiner permissions.
+ */
+
+interface RelayerWallet {
+  wallet: BackendSigner;
+  /** Last balance read, or null before the first read */
+  balance: bigint | null;
+  /** When the balance was read (0 forces a new read) */
+  balanceReadAt: number;
+  inFlight: number;
+  sent: number;
+  failed: number;
+  lastUsedAt: number | null;
+}
+
+const pools = new Map<string, RelayerWallet[]>();
+
+/** Last logged balance level per chain */
+const reportedLevels = new Map<string, RelayerBalanceLevel>();
+
+let balanceMonitor: NodeJS.Timeout | null = null;
+
+/**
+ * Gets the relayer wallets of a chain, creating them on first use.
+ */
+function getPool(chainId: string, provider: ethers.Provider): RelayerWallet[] {
+  let pool = pools.get(chainId);
+  if (!pool) {
+    const signerProviders = createRelayerSignerProviders(chainId) ?? [getSignerProvider()];
+    const wallets: BackendSigner[] = signerProviders.map((signerProvider) =>
+      signerProvider.getSigner(provider)
+    );
+    pool = wallets.map((wallet) => ({
+      wallet,
+      balance: null,
+      balanceReadAt: 0,
+      inFlight: 0,
+      sent: 0,
+      failed: 0,
+      lastUsedAt: null,
+    }));
+    pools.set(chainId, pool);
+    console.log(
+      `Relayer pool for chain ${chainId}: ${pool.map((relayer) => relayer.wallet.address).join(', ')}`
+    );
+  }
+  return pool;
+}
+
+/**
+ * Gets the relayer balance thresholds of a chain.
+ */
+function getThresholds(chainId: string): { warning: string; critical: string } {
+  const chain = getChainConfig(chainId);
+  if (!chain) {
+    throw new Error(`Chain configuration not found for chainId: ${chainId}`);
+  }
+  return getRelayerBalanceThresholds(chain);
+}
+
+/**
+ * Compares a balance with a chain's thresholds.
+ */
+function getBalanceLevel(
+  balance: bigint | null,
+  thresholds: { warning: string; critical: string }
+): RelayerBalanceLevel {
+  if (balance === null) {
+    return 'unknown';
+  }
+  if (balance < ethers.parseEther(thresholds.critical)) {
+    return 'critical';
+  }
+  if (balance < ethers.parseEther(thresholds.warning)) {
+    return 'warning';
+  }
+  return 'ok';
+}
+
+/**
+ * Level of a chain's pool: critical when no wallet can be used, warning when
+ * any wallet is running low.
+ */
+function getPoolLevel(
+  pool: RelayerWallet[],
+  thresholds: { warning: string; critical: string }
+): RelayerBalanceLevel {
+  const levels = pool
+    .map((relayer) => getBalanceLevel(relayer.balance, thresholds))
+    .filter((level) => level !== 'unknown');
+  if (levels.length === 0) {
+    return 'unknown';
+  }
+  if (levels.every((level) => level === 'critical')) {
+    return 'critical';
+  }
+  return levels.some((level) => level !== 'ok') ? 'warning' : 'ok';
+}
+
+/**
+ * Logs a change of a chain's balance level.
+ */
+function reportBalanceLevel(chainId: string, pool: RelayerWallet[]): void {
+  const thresholds = getThresholds(chainId);
+  const level = getPoolLevel(pool, thresholds);
+  const previous = reportedLevels.get(chainId);
+  if (level === previous || level === 'unknown') {
+    return;
+  }
+  reportedLevels.set(chainId, level);
+
+  const balances = pool
+    .map((relayer) => `${relayer.wallet.address} ${ethers.formatEther(relayer.balance ?? 0n)}`)
+    .join(', ');
+  if (level === 'critical') {
+    console.error(
+      `Relayer balance CRITICAL on chain ${chainId} (below ${thresholds.critical}): ${balances}. Mints are refused until the relayer wallets are funded.`
+    );
+  } else if (level === 'warning') {
+    console.warn(
+      `Relayer balance low on chain ${chainId} (below ${thresholds.warning}): ${balances}`
+    );
+  } else if (previous) {
+    console.log(`Relayer balance back to normal on chain ${chainId}: ${balances}`);
+  }
+}
+
+/**
+ * Reads the balances that are older than maxAgeMs and logs level changes.
+ */
+async function refreshBalances(
+  chainId: string,
+  pool: RelayerWallet[],
+  maxAgeMs: number
+): Promise<void> {
+  const now = Date.now();
+  const stale = pool.filter(
+    (relayer) => relayer.balance === null || now - relayer.balanceReadAt >= maxAgeMs
+  );
+  if (stale.length === 0) {
+    return;
+  }
+
+  await Promise.all(
+    stale.map(async (relayer) => {
+      relayer.balance = await relayer.wallet.provider!.getBalance(relayer.wallet.address);
+      relayer.balanceReadAt = Date.now();
+    })
+  );
+  reportBalanceLevel(chainId, pool);
+}
+
+/**
+ * Determines whether a relayer wallet can take new transactions.
+ */
+function getStatus(relayer: RelayerWallet, chainId: string): RelayerWalletStatus {
+  if (getWalletPendingStatus(chainId, relayer.wallet.address).stuck > 0) {
+    return 'stuck';
+  }
+  const level = getBalanceLevel(relayer.balance, getThresholds(chainId));
+  if (level === 'critical' || level === 'unknown') {
+    return 'drained';
+  }
+  return 'available';
+}
+
+/**
+ * Error for a chain whose relayer wallets are all below the critical threshold.
+ */
+function fundsCriticalError(chainId: string): ApiError {
+  return new ApiError(
+    503,
+    'RELAYER_FUNDS_CRITICAL',
+    `Relayer wallets on chain ${chainId} are below the critical balance of ${getThresholds(chainId).critical}. Minting is paused until they are funded.`
+  );
+}
+
+/**
+ * Picks the least busy available wallet of a chain and counts it as in
+ * flight.
+ *
+ * The wallet is reserved in the same tick as it is chosen, so concurrent
+ * picks see each other's load.
+ *
+ * @throws {ApiError} RELAYER_FUNDS_CRITICAL if every wallet is drained
+ * @throws {ApiError} NO_RELAYER_AVAILABLE if every wallet is drained or stuck
+ */
+async function pickRelayer(chainId: string, provider: ethers.Provider): Promise<RelayerWallet> {
+  const pool = getPool(chainId, provider);
+  await refreshBalances(chainId, pool, config.relayers.balancePollIntervalMs);
+
+  const load = (relayer: RelayerWallet): number =>
+    relayer.inFlight + getWalletPendingStatus(chainId, relayer.wallet.address).pending;
+
+  const available = pool
+    .filter((relayer) => getStatus(relayer, chainId) === 'available')
+    .sort((a, b) => load(a) - load(b) || (a.lastUsedAt ?? 0) - (b.lastUsedAt ?? 0));
+
+  if (available.length === 0) {
+    if (pool.every((relayer) => getStatus(relayer, chainId) === 'drained')) {
+      throw fundsCriticalError(chainId);
+    }
+    const statuses = pool.map((relayer) => `${relayer.wallet.address} ${getStatus(relayer, chainId)}`);
+    console.error(`No relayer wallet available on chain ${chainId}: ${statuses.join(', ')}`);
+    throw new ApiError(
+      503,
+      'NO_RELAYER_AVAILABLE',
+      `No relayer wallet is available on chain ${chainId} (all drained or stuck). Please try again later.`
+    );
+  }
+
+  const relayer = available[0];
+  relayer.inFlight++;
+  relayer.lastUsedAt = Date.now();
+  return relayer;
+}
+
+/**
+ * Sends a transaction from the least busy relayer wallet of a chain.
+ *
+ * The wallet counts as in flight until the callback settles, so the
+ * callback should cover preparing and broadcasting the transaction but not
+ * waiting for its receipt (pending transactions are counted separately).
+ *
+ * @param chainId - Chain the transaction is sent on
+ * @param provider - Provider for the chain
+ * @param send - Callback that prepares and broadcasts the transaction with the given wallet
+ * @returns Whatever the callback returns
+ *
+ * @throws {ApiError} RELAYER_FUNDS_CRITICAL if every wallet is drained
+ * @throws {ApiError} NO_RELAYER_AVAILABLE if every wallet is drained or stuck
+ * @throws Rethrows the callback's error
+ *
+ * @example
+ * const tx = await withRelayer(chain.chainId, provider, async (wallet) => {
+ *   const tx = await sendWithNonce(chain.chainId, wallet, (nonce) => contract.connect(wallet).mint(..., { nonce }));
+ *   trackTransaction(chain.chainId, wallet, tx);
+ *   return tx;
+ * });
+ */
+export async function withRelayer<T>(
+  chainId: string,
+  provider: ethers.Provider,
+  send: (wallet: BackendSigner) => Promise<T>
+): Promise<T> {
+  const relayer = await pickRelayer(chainId, provider);
+
+  try {
+    const result = await send(relayer.wallet);
+    relayer.sent++;
+    return result;
+  } catch (error) {
+    relayer.failed++;
+    // The failure may be a drained wallet: read the balance again before the next pick
+    relayer.balanceReadAt = 0;
+    throw error;
+  } finally {
+    relayer.inFlight--;
+  }
+}
+
+/**
+ * Reports the state of every relayer wallet of a chain.
+ *
+ * @param chainId - Chain ID
+ * @param provider - Provider for the chain
+ * @returns Statistics per wallet, in configuration order
+ */
+export async function getRelayerStats(
+  chainId: string,
+  provider: ethers.Provider
+): Promise<RelayerWalletStats[]> {
+  const pool = getPool(chainId, provider);
+  await refreshBalances(chainId, pool, config.relayers.balancePollIntervalMs);
+  const thresholds = getThresholds(chainId);
+
+  return pool.map((relayer) => {
+    const { pending, stuck } = getWalletPendingStatus(chainId, relayer.wallet.address);
+    const balance = relayer.balance ?? 0n;
+    return {
+      chainId,
+      address: relayer.wallet.address,
+      status: getStatus(relayer, chainId),
+      balance: balance.toString(),
+      balanceEther: ethers.formatEther(balance),
+      balanceLevel: getBalanceLevel(relayer.balance, thresholds),
+      warningThreshold: thresholds.warning,
+      criticalThreshold: thresholds.critical,
+      inFlight: relayer.inFlight,
+      pending,
+      stuck,
+      sent: relayer.sent,
+      failed: relayer.failed,
+      lastUsedAt: relayer.lastUsedAt ? new Date(relayer.lastUsedAt).toISOString() : null,
+    };
+  });
+}
+
+/**
+ * Refuses a mint early when a chain's relayer wallets are out of funds.
+ *
+ * Called before requesting a PZERO authorization, so that a mint that could
+ * not be sent does not use up an authorization. Uses the last polled
+ * balances unless they are older than the poll interval.
+ *
+ * @param chainId - Chain the mint will be sent on
+ * @param provider - Provider for the chain
+ *
+ * @throws {ApiError} RELAYER_FUNDS_CRITICAL if every wallet is below the critical threshold
+ *
+ * @example
+ * await ensureRelayerFunds(chain.chainId, provider);
+ */
+export async function ensureRelayerFunds(
+  chainId: string,
+  provider: ethers.Provider
+): Promise<void> {
+  const pool = getPool(chainId, provider);
+  await refreshBalances(chainId, pool, config.relayers.balancePollIntervalMs);
+
+  if (getPoolLevel(pool, getThresholds(chainId)) === 'critical') {
+    throw fundsCriticalError(chainId);
+  }
+}
+
+/**
+ * Starts polling the relayer balances of every configured chain.
+ *
+ * Balances are read immediately and then every
+ * PM_RELAYER_BALANCE_POLL_INTERVAL_MS. Does nothing if already started.
+ *
+ * @param getProvider - Returns the provider of a chain
+ */
+export function startBalanceMonitor(getProvider: (chainId: string) => ethers.Provider): void {
+  if (balanceMonitor) {
+    return;
+  }
+
+  const poll = (): void => {
+    for (const chain of config.chains) {
+      const pool = getPool(chain.chainId, getProvider(chain.chainId));
+      refreshBalances(chain.chainId, pool, 0).catch((error: any) => {
+        console.error(`Relayer balance check failed on chain ${chain.chainId}:`, error.message);
+      });
+    }
+  };
+
+  poll();
+  balanceMonitor = setInterval(poll, config.relayers.balancePollIntervalMs);
+  // Do not keep the process alive just for the monitor
+  balanceMonitor.unref();
+}
+
+/**
+ * Summarizes the relayer balances of every chain from the last poll.
+ *
+ * Does not read balances, so it is cheap enough for health checks. Chains
+ * whose pool has not been created yet are omitted.
+ *
+ * @returns Balance summary per chain, in PM_CHAINS order
+ */
+export function getBalanceSummaries(): RelayerBalanceSummary[] {
+  return config.chains.flatMap((chain) => {
+    const pool = pools.get(chain.chainId);
+    if (!pool) {
+      return [];
+    }
+    const thresholds = getRelayerBalanceThresholds(chain);
+    return [
+      {
+        chainId: chain.chainId,
+        level: getPoolLevel(pool, thresholds),
+        warningThreshold: thresholds.warning,
+        criticalThreshold: thresholds.critical,
+        wallets: pool.map((relayer) => ({
+          address: relayer.wallet.address,
+          balance: relayer.balance === null ? null : ethers.formatEther(relayer.balance),
+          level: getBalanceLevel(relayer.balance, thresholds),
+          checkedAt: relayer.balanceReadAt ? new Date(relayer.balanceReadAt).toISOString() : null,
+        })),
+      },
+    ];
+  });
+}
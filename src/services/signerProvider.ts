@@ -0,0 +1,214 @@
+import { readFileSync } from 'fs';
+import { ethers } from 'ethers';
+import { config } from '../config';
+import { RemoteSigner } from '../utils/remoteSigner';
+
+/**
+ * Signer providers for the backend wallet.
+ *
+ * The backend wallet signs backend-signed mints, relayed meta-transactions
+ * (unless a chain has relayer signers) and prompt migrations. Where its key
+ * lives is configured with PM_SIGNER_TYPE:
+ *
+ * - private-key: in-process key from PM_PRIVATE_KEY (development)
+ * - keystore: encrypted JSON keystore (PM_KEYSTORE_PATH), decrypted once at
+ *   first use with PM_KEYSTORE_PASSWORD or the contents of PM_KEYSTORE_PASSWORD_FILE
+ * - remote: signing service speaking the Web3Signer JSON-RPC API
+ *   (PM_REMOTE_SIGNER_URL); the key never enters this process
+ *
+ * Relayer wallets (PM_RELAYER_SIGNERS) are resolved the same way: private
+ * keys, keystore paths decrypted with the backend keystore password, or
+ * further accounts of the remote signer.
+ */
+
+/**
+ * Signer used to send transactions from the backend.
+ */
+export type BackendSigner = ethers.Signer & { readonly address: string };
+
+/**
+ * Source of the backend wallet signer.
+ */
+export interface SignerProvider {
+  /** Kind of signer, e.g. 'remote' */
+  readonly type: string;
+  /** Address of the backend wallet */
+  readonly address: string;
+  /** Creates the backend signer connected to a chain's provider */
+  getSigner(provider: ethers.Provider): BackendSigner;
+}
+
+/**
+ * Signer provider for a key held in process memory.
+ */
+export class PrivateKeySignerProvider implements SignerProvider {
+  readonly type: string = 'private-key';
+  protected readonly wallet: ethers.Wallet | ethers.HDNodeWallet;
+
+  constructor(privateKey: string | ethers.Wallet | ethers.HDNodeWallet) {
+    this.wallet = typeof privateKey === 'string' ? new ethers.Wallet(privateKey) : privateKey;
+  }
+
+  get address(): string {
+    return this.wallet.address;
+  }
+
+  getSigner(provider: ethers.Provider): BackendSigner {
+    return this.wallet.connect(provider);
+  }
+}
+
+/**
+ * Reads and decrypts an encrypted JSON keystore.
+ *
+ * @throws {Error} If the file cannot be read or the password is wrong
+ */
+function decryptKeystore(
+  keystorePath: string,
+  password: string
+): ethers.Wallet | ethers.HDNodeWallet {
+  let json: string;
+  try {
+    json = readFileSync(keystorePath, 'utf8');
+  } catch (error: any) {
+    throw new Error(`Cannot read keystore ${keystorePath}: ${error.message}`);
+  }
+
+  try {
+    return ethers.Wallet.fromEncryptedJsonSync(json, password);
+  } catch (error: any) {
+    throw new Error(`Cannot decrypt keystore ${keystorePath}: ${error.message}`);
+  }
+}
+
+/**
+ * Signer provider for an encrypted JSON keystore (geth, Foundry, ethers).
+ *
+ * The keystore is decrypted when the provider is created; the decrypted
+ * key is only kept in memory.
+ */
+export class KeystoreSignerProvider extends PrivateKeySignerProvider {
+  readonly type = 'keystore';
+
+  /**
+   * @param keystorePath - Path of the keystore JSON file
+   * @param password - Keystore password
+   *
+   * @throws {Error} If the file cannot be read or the password is wrong
+   */
+  constructor(keystorePath: string, password: string) {
+    super(decryptKeystore(keystorePath, password));
+  }
+}
+
+/**
+ * Signer provider for a remote signing service.
+ */
+export class RemoteSignerProvider implements SignerProvider {
+  readonly type = 'remote';
+
+  /**
+   * @param url - JSON-RPC endpoint of the signing service
+   * @param address - Account the service signs with
+   * @param timeoutMs - Timeout of each signing request
+   */
+  constructor(
+    private readonly url: string,
+    readonly address: string,
+    private readonly timeoutMs: number
+  ) {}
+
+  getSigner(provider: ethers.Provider): BackendSigner {
+    return new RemoteSigner(this.url, this.address, provider, this.timeoutMs);
+  }
+}
+
+/**
+ * Reads the keystore password from PM_KEYSTORE_PASSWORD_FILE or PM_KEYSTORE_PASSWORD.
+ */
+function readKeystorePassword(): string {
+  const { keystore } = config.signer;
+  return keystore.passwordFile
+    ? readFileSync(keystore.passwordFile, 'utf8').replace(/\r?\n$/, '')
+    : keystore.password!;
+}
+
+/**
+ * Creates a signer provider of the configured type for one account.
+ *
+ * @param entry - Private key, keystore path or remote signer address, by PM_SIGNER_TYPE
+ */
+function createSignerProviderFor(entry: string): SignerProvider {
+  const { type, remote } = config.signer;
+  switch (type) {
+    case 'keystore':
+      return new KeystoreSignerProvider(entry, readKeystorePassword());
+    case 'remote':
+      return new RemoteSignerProvider(remote.url, entry, remote.timeoutMs);
+    default:
+      return new PrivateKeySignerProvider(entry);
+  }
+}
+
+/**
+ * Creates the signer provider from the configuration.
+ */
+function createSignerProvider(): SignerProvider {
+  const { type, keystore, remote } = config.signer;
+  switch (type) {
+    case 'keystore':
+      return createSignerProviderFor(keystore.path);
+    case 'remote':
+      return createSignerProviderFor(remote.address);
+    default:
+      return createSignerProviderFor(config.privateKey);
+  }
+}
+
+/**
+ * Creates the signer providers of a chain's relayer wallets.
+ *
+ * @param chainId - Chain ID
+ * @returns One signer provider per PM_RELAYER_SIGNERS entry, or null when
+ *          the chain relays with the backend wallet
+ *
+ * @throws {Error} If a keystore cannot be read or decrypted
+ */
+export function createRelayerSignerProviders(chainId: string): SignerProvider[] | null {
+  const entries = config.relayers.signers[chainId];
+  return entries ? entries.map(createSignerProviderFor) : null;
+}
+
+let signerProvider: SignerProvider | null = null;
+
+/**
+ * Gets the signer provider of the backend wallet, creating it on first use.
+ *
+ * @returns The configured signer provider (or the one set with setSignerProvider)
+ *
+ * @throws {Error} If the keystore cannot be read or decrypted
+ *
+ * @example
+ * const wallet = getSignerProvider().getSigner(provider);
+ */
+export function getSignerProvider(): SignerProvider {
+  if (!signerProvider) {
+    signerProvider = createSignerProvider();
+  }
+  return signerProvider;
+}
+
+/**
+ * Replaces the signer provider of the backend wallet.
+ *
+ * Must be called before the first transaction: signers already connected to
+ * a chain keep their provider.
+ *
+ * @param provider - Signer provider to use from now on
+ *
+ * @example
+ * setSignerProvider(new KmsSignerProvider(keyId));
+ */
+export function setSignerProvider(provider: SignerProvider): void {
+  signerProvider = provider;
+}
@@ -0,0 +1,422 @@
+import { ethers } from 'ethers';
+import * as blockchainService from './blockchainService';
+import {
+  config,
+  getChainConfig,
+  getDefaultChainConfig,
+  getRequiredConfirmations,
+} from '../config';
+import { ApiError } from '../middleware/errorHandler';
+import { TransactionSource, TransactionStatus, TransactionStatusInfo } from '../types';
+
+/**
+ * Status tracking for mint transactions of all three minting modes.
+ *
+ * In user-signed mode the user's wallet submits the mint, so clients
+ * register the transaction hash (POST /api/transactions). Backend-signed
+ * and relayed mints are recorded automatically when they are broadcast and
+ * mined. GET /api/transactions/:hash reads the current status from the
+ * chain: pending, confirmed (with the number of confirmations and whether
+ * the chain's confirmations make it final), reverted (with the decoded
+ * revert reason) or dropped.
+ *
+ * Records are kept in a pluggable store. The default in-memory store is
+ * fine for a single instance; replace it with setTransactionStore() to
+ * share records between instances or keep them across restarts.
+ */
+
+/**
+ * Storage backend for tracked transactions.
+ */
+export interface TransactionStore {
+  save(record: TransactionStatusInfo): Promise<void>;
+  /** Gets a record by transaction hash (case-insensitive) */
+  get(hash: string): Promise<TransactionStatusInfo | null>;
+  /** Removes records last updated before the given timestamp (Unix milliseconds) */
+  prune(updatedBefore: number): Promise<void>;
+}
+
+/**
+ * In-memory transaction store.
+ */
+export class InMemoryTransactionStore implements TransactionStore {
+  private records = new Map<string, TransactionStatusInfo>();
+
+  save(record: TransactionStatusInfo): Promise<void> {
+    this.records.set(record.transactionHash.toLowerCase(), { ...record });
+    return Promise.resolve();
+  }
+
+  get(hash: string): Promise<TransactionStatusInfo | null> {
+    const record = this.records.get(hash.toLowerCase());
+    return Promise.resolve(record ? { ...record } : null);
+  }
+
+  prune(updatedBefore: number): Promise<void> {
+    for (const [hash, record] of this.records) {
+      if (Date.parse(record.updatedAt) < updatedBefore) {
+        this.records.delete(hash);
+      }
+    }
+    return Promise.resolve();
+  }
+}
+
+/** Statuses that no longer change */
+const FINAL_STATUSES: TransactionStatus[] = ['reverted', 'dropped'];
+
+let store: TransactionStore = new InMemoryTransactionStore();
+
+/**
+ * Replaces the transaction store.
+ *
+ * @param transactionStore - Store implementation to use from now on
+ *
+ * @example
+ * setTransactionStore(new RedisTransactionStore(redisClient));
+ */
+export function setTransactionStore(transactionStore: TransactionStore): void {
+  store = transactionStore;
+}
+
+/**
+ * Persists a record, stamping its update time, and prunes expired records.
+ */
+async function saveRecord(record: TransactionStatusInfo): Promise<void> {
+  record.updatedAt = new Date().toISOString();
+  await store.save(record);
+  await store.prune(Date.now() - config.transactionStatus.retentionMs);
+}
+
+/**
+ * Creates a pending record.
+ */
+function newRecord(
+  transactionHash: string,
+  chainId: string,
+  promptHash: string,
+  source: TransactionSource
+): TransactionStatusInfo {
+  const now = new Date().toISOString();
+  return {
+    transactionHash,
+    chainId,
+    promptHash,
+    source,
+    status: 'pending',
+    registeredAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Registers a transaction submitted by the user's wallet (user-signed mode).
+ *
+ * Registering the same transaction again returns the existing record. If
+ * the chain's node already knows the transaction, it must be a mint of the
+ * prompt on the chain's PromptMiner (sent directly or through its trusted
+ * forwarder); a verified registration also replaces a conflicting record
+ * made before the transaction was seen, so nobody can squat a hash.
+ *
+ * @param transactionHash - Hash of the submitted transaction
+ * @param promptHash - Hash of the prompt the transaction mints
+ * @param chainId - Optional chain ID. If not provided, uses default chain.
+ * @returns The tracked transaction
+ *
+ * @throws {ApiError} INVALID_CHAIN if the chain is not configured
+ * @throws {ApiError} TRANSACTION_MISMATCH if the transaction does not mint the prompt on the chain's PromptMiner
+ * @throws {ApiError} TRANSACTION_ALREADY_REGISTERED if the hash is tracked for another prompt or chain
+ *   and the transaction is not on chain yet
+ * @throws {Error} If the chain's RPC cannot be reached
+ *
+ * @example
+ * const record = await registerTransaction('0xabc...', promptHash, '72080');
+ * console.log(`Poll /api/transactions/${record.transactionHash}`);
+ */
+export async function registerTransaction(
+  transactionHash: string,
+  promptHash: string,
+  chainId?: string
+): Promise<TransactionStatusInfo> {
+  const chain = chainId ? getChainConfig(chainId) : getDefaultChainConfig();
+  if (!chain) {
+    throw new ApiError(400, 'INVALID_CHAIN', `Chain configuration not found for chainId: ${chainId}`);
+  }
+
+  const existing = await store.get(transactionHash);
+  if (
+    existing &&
+    existing.chainId === chain.chainId &&
+    existing.promptHash.toLowerCase() === promptHash.toLowerCase()
+  ) {
+    return existing;
+  }
+
+  const { provider } = blockchainService.initializeBlockchain(chain.chainId);
+  const tx = await provider.getTransaction(transactionHash);
+  if (tx) {
+    const mintedPrompt = await blockchainService.getMintedPromptOfTransaction(tx, chain.chainId);
+    if (!mintedPrompt) {
+      throw new ApiError(
+        422,
+        'TRANSACTION_MISMATCH',
+        `Transaction ${transactionHash} is not a mint on the PromptMiner of chain ${chain.chainId}`
+      );
+    }
+    if (mintedPrompt.toLowerCase() !== promptHash.toLowerCase()) {
+      throw new ApiError(
+        422,
+        'TRANSACTION_MISMATCH',
+        `Transaction ${transactionHash} mints prompt ${mintedPrompt}, not ${promptHash}`
+      );
+    }
+  } else if (existing) {
+    throw new ApiError(
+      409,
+      'TRANSACTION_ALREADY_REGISTERED',
+      `Transaction ${transactionHash} is already tracked for prompt ${existing.promptHash} on chain ${existing.chainId}`
+    );
+  }
+
+  const record = newRecord(transactionHash, chain.chainId, promptHash, 'user-signed');
+  if (tx) {
+    record.from = tx.from;
+    record.nonce = tx.nonce;
+  }
+  await saveRecord(record);
+  console.log(`Tracking transaction ${transactionHash} (user-signed, chain ${chain.chainId})`);
+  return record;
+}
+
+/**
+ * Records a mint transaction broadcast by the backend (backend-signed or relayer mode).
+ *
+ * Failures to record are logged, not thrown: the mint itself goes on.
+ *
+ * @param chainId - Chain the transaction was sent on
+ * @param tx - Broadcast transaction
+ * @param promptHash - Hash of the prompt the transaction mints
+ * @param source - Minting mode
+ *
+ * @example
+ * const tx = await blockchainService.submitMint(...);
+ * await recordSubmittedTransaction(chain.chainId, tx, promptHash, 'backend-signed');
+ */
+export async function recordSubmittedTransaction(
+  chainId: string,
+  tx: ethers.TransactionResponse,
+  promptHash: string,
+  source: Exclude<TransactionSource, 'user-signed'>
+): Promise<void> {
+  try {
+    const record = newRecord(tx.hash, chainId, promptHash, source);
+    record.from = tx.from;
+    record.nonce = tx.nonce;
+    await saveRecord(record);
+  } catch (error: any) {
+    console.error(`Failed to record transaction ${tx.hash}:`, error.message);
+  }
+}
+
+/**
+ * Records the receipt of a mint transaction broadcast by the backend.
+ *
+ * If the transaction was sped up, the receipt belongs to the replacement:
+ * the original is marked dropped (replacedBy) and the replacement recorded.
+ *
+ * Failures to record are logged, not thrown: the mint itself succeeded.
+ *
+ * @param submittedHash - Hash passed to recordSubmittedTransaction()
+ * @param receipt - Receipt of whichever broadcast for the nonce was mined
+ *
+ * @example
+ * const receipt = await blockchainService.waitForMint(tx);
+ * await recordMinedTransaction(tx.hash, receipt);
+ */
+export async function recordMinedTransaction(
+  submittedHash: string,
+  receipt: ethers.TransactionReceipt
+): Promise<void> {
+  try {
+    const submitted = await store.get(submittedHash);
+    if (!submitted) {
+      return;
+    }
+
+    let record = submitted;
+    if (receipt.hash.toLowerCase() !== submittedHash.toLowerCase()) {
+      await saveRecord({ ...submitted, status: 'dropped', replacedBy: receipt.hash });
+      record = newRecord(receipt.hash, submitted.chainId, submitted.promptHash, submitted.source);
+      record.from = submitted.from;
+      record.nonce = submitted.nonce;
+    }
+
+    // A revert stays pending here so the next status read decodes its reason
+    if (receipt.status === 1) {
+      record.status = 'confirmed';
+    }
+    record.blockNumber = receipt.blockNumber;
+    await saveRecord(record);
+  } catch (error: any) {
+    console.error(`Failed to record receipt of ${receipt.hash}:`, error.message);
+  }
+}
+
+/**
+ * Records that a mined transaction sent by the backend was reorged out and
+ * dropped by the node.
+ *
+ * Failures to record are logged, not thrown.
+ *
+ * @param transactionHash - Hash of the reorged transaction
+ *
+ * @example
+ * await recordReorgedTransaction(receipt.hash);
+ */
+export async function recordReorgedTransaction(transactionHash: string): Promise<void> {
+  try {
+    const record = await store.get(transactionHash);
+    if (!record) {
+      return;
+    }
+
+    record.status = 'dropped';
+    record.reorged = true;
+    delete record.blockNumber;
+    delete record.confirmations;
+    delete record.finality;
+    await saveRecord(record);
+  } catch (error: any) {
+    console.error(`Failed to record reorg of ${transactionHash}:`, error.message);
+  }
+}
+
+/**
+ * Records that a mined transaction sent by the backend reverted after a
+ * reorg mined it again in another block.
+ *
+ * The revert reason is decoded right away: reverted records are answered
+ * from the store. Failures to record are logged, not thrown.
+ *
+ * @param receipt - Receipt of the transaction in its new block
+ *
+ * @example
+ * await recordRevertedTransaction(receipt);
+ */
+export async function recordRevertedTransaction(receipt: ethers.TransactionReceipt): Promise<void> {
+  try {
+    const record = await store.get(receipt.hash);
+    if (!record) {
+      return;
+    }
+
+    record.status = 'reverted';
+    record.reorged = true;
+    record.blockNumber = receipt.blockNumber;
+    delete record.confirmations;
+    delete record.finality;
+    delete record.requiredConfirmations;
+    const { provider } = blockchainService.initializeBlockchain(record.chainId);
+    const tx = await provider.getTransaction(receipt.hash);
+    if (tx) {
+      record.revert = await blockchainService.decodeMinedRevert(tx, receipt.blockNumber);
+    }
+    await saveRecord(record);
+  } catch (error: any) {
+    console.error(`Failed to record revert of ${receipt.hash}:`, error.message);
+  }
+}
+
+/**
+ * Reads the current status of a record from its chain.
+ *
+ * @param record - Record to refresh (mutated in place)
+ * @returns True if the record changed (status, or the sender seen for the first time)
+ */
+async function refresh(record: TransactionStatusInfo): Promise<boolean> {
+  const { provider } = blockchainService.initializeBlockchain(record.chainId);
+  const previous = record.status;
+  const receipt = await provider.getTransactionReceipt(record.transactionHash);
+
+  if (receipt) {
+    record.blockNumber = receipt.blockNumber;
+    record.confirmations = await receipt.confirmations();
+    if (receipt.status === 1) {
+      const required = getRequiredConfirmations(getChainConfig(record.chainId)!);
+      record.status = 'confirmed';
+      record.requiredConfirmations = required;
+      record.finality = record.confirmations >= required ? 'final' : 'included';
+    } else {
+      const tx = await provider.getTransaction(record.transactionHash);
+      record.status = 'reverted';
+      if (tx) {
+        record.revert = await blockchainService.decodeMinedRevert(tx, receipt.blockNumber);
+      }
+    }
+    return record.status !== previous;
+  }
+
+  delete record.blockNumber;
+  delete record.confirmations;
+  delete record.finality;
+
+  const tx = await provider.getTransaction(record.transactionHash);
+  if (tx) {
+    const firstSeen = record.nonce === undefined;
+    record.from = tx.from;
+    record.nonce = tx.nonce;
+    record.status = 'pending';
+    return firstSeen || record.status !== previous;
+  }
+
+  // Not known to the node: dropped once its nonce is used by another
+  // transaction, or when it never showed up within the grace period
+  const nonceUsed =
+    record.from !== undefined &&
+    record.nonce !== undefined &&
+    (await provider.getTransactionCount(record.from, 'latest')) > record.nonce;
+  const unseenFor = Date.now() - Date.parse(record.registeredAt);
+  record.status =
+    nonceUsed || unseenFor >= config.transactionStatus.droppedAfterMs ? 'dropped' : 'pending';
+  return record.status !== previous;
+}
+
+/**
+ * Gets the status of a tracked transaction.
+ *
+ * Pending and confirmed transactions are looked up on chain on every call;
+ * reverted and dropped ones are final and answered from the store.
+ *
+ * @param transactionHash - Transaction hash
+ * @returns Current status, with confirmations or the decoded revert reason
+ *
+ * @throws {ApiError} TRANSACTION_NOT_FOUND if the transaction is not tracked
+ * @throws {Error} If the chain's RPC cannot be reached
+ *
+ * @example
+ * const status = await getTransactionStatus('0xabc...');
+ * if (status.status === 'confirmed') console.log(`${status.confirmations} confirmations`);
+ */
+export async function getTransactionStatus(transactionHash: string): Promise<TransactionStatusInfo> {
+  const record = await store.get(transactionHash);
+  if (!record) {
+    throw new ApiError(
+      404,
+      'TRANSACTION_NOT_FOUND',
+      `Transaction ${transactionHash} is not tracked. Register it with POST /api/transactions.`
+    );
+  }
+
+  if (FINAL_STATUSES.includes(record.status)) {
+    return record;
+  }
+
+  const previous = record.status;
+  if (await refresh(record)) {
+    if (record.status !== previous) {
+      console.log(`Transaction ${record.transactionHash}: ${record.status}`);
+    }
+    await saveRecord(record);
+  }
+  return record;
+}
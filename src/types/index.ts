@@ -41,20 +41,19 @@ export interface MintPromptRequest {
  * USER-SIGNED MODE: This response is returned to the frontend.
  * The frontend uses this data to let the user sign the transaction with Metamask.
  */
-export interface PromptAuthorizationResponse {
+export interface PromptAuthorizationResponse extends CanonicalPrompt {
   /** Hash of the prompt */
   promptHash: string;
-  /** PZERO authorization signature and metadata */
-  authorization: {
-    /** PZERO's authorization signature (verified by smart contract) */
-    signature: string;
-  };
+  /** PZERO authorization signature and metadata (the transaction must be mined before expiry) */
+  authorization: PZeroAuthorization;
   /** Data to include in the user's transaction */
   mintData: {
     /** Full prompt text (user includes this in their Metamask transaction) */
     prompt: string;
     /** Author's Ethereum address */
     author: string;
+    /** Content URI included in the transaction ('' if content storage is disabled) */
+    contentURI: string;
   };
   /** Transaction data ready to be sent to the blockchain */
   transaction: {
@@ -78,8 +77,429 @@ export interface MintPromptResponse {
   transactionHash: string;
   /** Hash of the minted prompt */
   promptHash: string;
+  /** Content URI put on chain ('' if content storage is disabled) */
+  contentURI: string;
   /** Block number where the transaction was included */
   blockNumber: number;
+  /** Gas used by the transaction */
+  gasUsed: string;
+  /** Effective price paid per unit of gas, in wei */
+  effectiveGasPrice: string;
+  /** Total fee paid (gasUsed × effectiveGasPrice), in wei */
+  feePaid: string;
+}
+
+/**
+ * Canonical form of a submitted prompt.
+ *
+ * Prompts are canonicalized (Unicode normalization, whitespace collapsing,
+ * zero-width stripping, optional case folding) before hashing, so the
+ * prompt hash is the hash of canonicalPrompt.
+ */
+export interface CanonicalPrompt {
+  /** The prompt text that was hashed */
+  canonicalPrompt: string;
+  /** Canonicalization steps used, e.g. "v1:NFC,collapse-whitespace,strip-zero-width" */
+  canonicalizationVersion: string;
+}
+
+/**
+ * Single item of a batch mint request (backend-signed mode).
+ */
+export interface BatchMintItem {
+  /** The prompt text submitted by the user */
+  prompt: string;
+  /** Ethereum address of the prompt author */
+  author: string;
+  /** Amount of activity points to reward (optional, calculated if not provided) */
+  activityPoints?: string | string[];
+  /** Chain ID to use (optional, uses default chain if not provided) */
+  chainId?: string;
+}
+
+/**
+ * Outcome of a single item in a batch mint.
+ */
+export interface BatchMintItemResult {
+  /** Position of the item in the request array */
+  index: number;
+  /** Whether this item was minted */
+  success: boolean;
+  /** Hash of the prompt (absent if the item failed validation) */
+  promptHash?: string;
+  /** The prompt text that was hashed (absent if the item failed validation) */
+  canonicalPrompt?: string;
+  /** Mint details, if successful */
+  data?: {
+    transactionHash: string;
+    /** Content URI put on chain ('' if content storage is disabled) */
+    contentURI: string;
+    blockNumber: number;
+    gasUsed: string;
+    /** Effective price paid per unit of gas, in wei */
+    effectiveGasPrice: string;
+    /** Total fee paid (gasUsed × effectiveGasPrice), in wei */
+    feePaid: string;
+    /** Whether the mint is final or may still be reorged out */
+    finality: MintFinality;
+    /** Confirmations after which the mint is final on this chain */
+    requiredConfirmations: number;
+  };
+  /** Error information using the standard API error codes, if failed */
+  error?: {
+    code: string;
+    message: string;
+  };
+}
+
+/**
+ * Response data for a batch mint.
+ */
+export interface BatchMintResponse {
+  /** Number of items in the request */
+  total: number;
+  /** Number of items minted */
+  succeeded: number;
+  /** Number of items that failed */
+  failed: number;
+  /** Canonicalization steps applied to every prompt before hashing */
+  canonicalizationVersion: string;
+  /** Per-item results, in request order */
+  results: BatchMintItemResult[];
+}
+
+/**
+ * Lifecycle states of an asynchronous mint job.
+ *
+ * queued → authorizing → submitted → confirmed, or failed at any step.
+ */
+export type MintJobStatus = 'queued' | 'authorizing' | 'submitted' | 'confirmed' | 'failed';
+
+/**
+ * How settled a mined mint is.
+ *
+ * - included: mined, but a reorg may still remove it (fewer confirmations
+ *   than the chain's `confirmations`)
+ * - final: mined with at least the chain's `confirmations`
+ */
+export type MintFinality = 'included' | 'final';
+
+/**
+ * Progress callback invoked by the backend-signed mint flow.
+ *
+ * Used by the mint job worker to move a job through its lifecycle. After
+ * an included mint has been returned, 'final', 'reorged' or 'reverted'
+ * reports whether it reached the chain's confirmations, was reorged out, or
+ * reverted when a reorg mined it again.
+ */
+export type MintProgressListener = (
+  status: Extract<MintJobStatus, 'authorizing' | 'submitted'> | 'final' | 'reorged' | 'reverted',
+  details?: { transactionHash?: string; blockNumber?: number }
+) => void;
+
+/**
+ * Asynchronous mint job (backend-signed mode).
+ *
+ * Created by POST /api/prompts/mint-for-user and reported by GET /api/jobs/:id.
+ */
+export interface MintJob {
+  /** Unique job identifier */
+  id: string;
+  /** Current job status */
+  status: MintJobStatus;
+  /** Hash of the prompt being minted */
+  promptHash: string;
+  /** Ethereum address of the prompt author */
+  author: string;
+  /** Chain ID the mint is submitted to */
+  chainId: string;
+  /** Transaction hash, once the mint has been submitted */
+  transactionHash?: string;
+  /** Content URI put on chain, once the mint has finished ('' if content storage is disabled) */
+  contentURI?: string;
+  /** Receipt summary, once the mint has been confirmed */
+  receipt?: {
+    blockNumber: number;
+    gasUsed: string;
+    /** Effective price paid per unit of gas, in wei */
+    effectiveGasPrice: string;
+    /** Total fee paid (gasUsed × effectiveGasPrice), in wei */
+    feePaid: string;
+    status: number | null;
+  };
+  /** Whether the mint is final or may still be reorged out, once confirmed */
+  finality?: MintFinality;
+  /** Confirmations after which the mint is final on this chain, once confirmed */
+  requiredConfirmations?: number;
+  /** Transactions of this job that were reorged out (the job was re-queued after each) */
+  reorgedTransactions?: string[];
+  /** Error information, if the job failed */
+  error?: {
+    code: string;
+    message: string;
+  };
+  /** ISO timestamp when the job was created */
+  createdAt: string;
+  /** ISO timestamp of the last status change */
+  updatedAt: string;
+}
+
+/**
+ * Outcome of a tracked mint transaction.
+ *
+ * - pending: not mined yet
+ * - confirmed: mined successfully
+ * - reverted: mined, but the transaction reverted
+ * - dropped: no longer known to the node, or its nonce was used by another
+ *   transaction (e.g. a speed-up, see replacedBy)
+ */
+export type TransactionStatus = 'pending' | 'confirmed' | 'reverted' | 'dropped';
+
+/**
+ * Minting mode a tracked transaction was sent in.
+ */
+export type TransactionSource = 'user-signed' | 'backend-signed' | 'relayer';
+
+/**
+ * Request body for registering a user-signed transaction.
+ */
+export interface RegisterTransactionRequest {
+  /** Hash of the transaction submitted by the user's wallet */
+  transactionHash: string;
+  /** Hash of the prompt the transaction mints */
+  promptHash: string;
+  /** Chain the transaction was submitted to (default: first chain) */
+  chainId?: string;
+}
+
+/**
+ * Status of a tracked mint transaction.
+ *
+ * Reported by GET /api/transactions/:hash.
+ */
+export interface TransactionStatusInfo {
+  /** Transaction hash */
+  transactionHash: string;
+  /** Chain ID */
+  chainId: string;
+  /** Hash of the prompt the transaction mints */
+  promptHash: string;
+  /** Minting mode the transaction was sent in */
+  source: TransactionSource;
+  /** Current status */
+  status: TransactionStatus;
+  /** Sender, once the transaction has been seen on chain */
+  from?: string;
+  /** Sender nonce, once the transaction has been seen on chain */
+  nonce?: number;
+  /** Block the transaction was mined in */
+  blockNumber?: number;
+  /** Number of blocks since (and including) the block it was mined in */
+  confirmations?: number;
+  /** Whether the confirmed mint is final or may still be reorged out */
+  finality?: MintFinality;
+  /** Confirmations after which the mint is final on this chain, once confirmed */
+  requiredConfirmations?: number;
+  /**
+   * True if the transaction was mined, then reorged out: dropped by the node
+   * (status 'dropped'), or reverted when mined again (status 'reverted')
+   */
+  reorged?: boolean;
+  /** Decoded revert reason, if the transaction reverted */
+  revert?: DecodedRevert;
+  /** Hash of the transaction that replaced this one (same nonce), if known */
+  replacedBy?: string;
+  /** ISO timestamp when tracking started */
+  registeredAt: string;
+  /** ISO timestamp of the last status change */
+  updatedAt: string;
+}
+
+/**
+ * Progress step of a mint, pushed by the event streams:
+ * - authorized: PZERO authorized the mint
+ * - submitted: the mint transaction was broadcast
+ * - confirmed: the mint transaction was mined successfully
+ * - failed: the mint failed (error holds the API error code)
+ */
+export type MintEventType = 'authorized' | 'submitted' | 'confirmed' | 'failed';
+
+/**
+ * Mint progress event.
+ *
+ * Streamed by GET /api/prompts/:hash/events and GET /api/events as
+ * Server-Sent Events (event name = type, id = id, data = this object).
+ */
+export interface MintEvent {
+  /** `<bootId>-<seq>`: process boot ID and a sequence number increasing across all mints (sent as the SSE id) */
+  id: string;
+  /** Progress step */
+  type: MintEventType;
+  /** Hash of the prompt being minted */
+  promptHash: string;
+  /** Chain ID */
+  chainId: string;
+  /** Minting mode */
+  source: TransactionSource;
+  /** Address receiving the Activity Points */
+  author: string;
+  /** Mint transaction hash (submitted and confirmed) */
+  transactionHash?: string;
+  /** Block the transaction was mined in (confirmed) */
+  blockNumber?: number;
+  /** Whether the mint is final or may still be reorged out (confirmed) */
+  finality?: MintFinality;
+  /** Why the mint failed (failed) */
+  error?: {
+    code: string;
+    message: string;
+  };
+  /** ISO timestamp of the event */
+  timestamp: string;
+}
+
+/**
+ * Pending transaction sent by the backend wallet.
+ *
+ * Reported by the admin endpoints while the transaction waits to be mined.
+ */
+export interface PendingTransactionInfo {
+  /** Hash of the first broadcast */
+  originalHash: string;
+  /** Hash of the most recent broadcast (differs after a speed-up or cancel) */
+  currentHash: string;
+  /** All hashes broadcast for this nonce, oldest first */
+  hashes: string[];
+  /** Chain ID */
+  chainId: string;
+  /** Backend wallet address */
+  from: string;
+  /** Transaction nonce */
+  nonce: number;
+  /** Fee fields of the most recent broadcast, in wei */
+  fees: {
+    maxFeePerGas?: string;
+    maxPriorityFeePerGas?: string;
+    gasPrice?: string;
+  };
+  /** Number of fee bumps so far (automatic and manual) */
+  bumps: number;
+  /** Whether a cancellation has been broadcast */
+  cancelling: boolean;
+  /** ISO timestamp of the first broadcast */
+  submittedAt: string;
+  /** ISO timestamp of the most recent broadcast */
+  lastBroadcastAt: string;
+}
+
+/**
+ * Availability of a relayer wallet in the pool.
+ *
+ * - available: can be picked for new transactions
+ * - drained: balance is below the critical threshold
+ * - stuck: has a transaction pending longer than PM_STUCK_TX_TIMEOUT_MS
+ *   since its last broadcast or fee bump
+ */
+export type RelayerWalletStatus = 'available' | 'drained' | 'stuck';
+
+/**
+ * Balance of a relayer wallet (or of a chain's pool) against its thresholds.
+ *
+ * - ok: at or above the warning threshold
+ * - warning: below the warning threshold, still used
+ * - critical: below the critical threshold, not used
+ * - unknown: not read yet
+ */
+export type RelayerBalanceLevel = 'ok' | 'warning' | 'critical' | 'unknown';
+
+/**
+ * Statistics of a relayer wallet (admin endpoint).
+ */
+export interface RelayerWalletStats {
+  /** Chain ID */
+  chainId: string;
+  /** Wallet address */
+  address: string;
+  /** Whether the wallet can be picked for new transactions */
+  status: RelayerWalletStatus;
+  /** Native balance in wei, as last read (polled every PM_RELAYER_BALANCE_POLL_INTERVAL_MS) */
+  balance: string;
+  /** Native balance in ether units */
+  balanceEther: string;
+  /** Balance against the chain's thresholds */
+  balanceLevel: RelayerBalanceLevel;
+  /** Warning threshold of the chain, in ether units */
+  warningThreshold: string;
+  /** Critical threshold of the chain, in ether units */
+  criticalThreshold: string;
+  /** Transactions being prepared or broadcast by the wallet */
+  inFlight: number;
+  /** Transactions broadcast by the wallet and not yet mined */
+  pending: number;
+  /** Pending transactions not broadcast or bumped for PM_STUCK_TX_TIMEOUT_MS */
+  stuck: number;
+  /** Transactions broadcast since startup */
+  sent: number;
+  /** Failed attempts to send a transaction since startup */
+  failed: number;
+  /** ISO timestamp of the last time the wallet was picked, or null */
+  lastUsedAt: string | null;
+}
+
+/**
+ * Revert reason decoded from the contract ABIs.
+ */
+export interface DecodedRevert {
+  /** Error name, e.g. 'ERC2771ForwarderInvalidSigner' ('Error' / 'Panic' for built-in reverts) */
+  name: string;
+  /** Contract whose ABI declares the error, for custom errors */
+  contract?: string;
+  /** Decoded error arguments by parameter name, as strings */
+  args: Record<string, string>;
+  /** Human-readable explanation */
+  message: string;
+  /** Raw revert data, if the node returned it */
+  data?: string;
+}
+
+/**
+ * Result of simulating a transaction without broadcasting it.
+ */
+export interface TransactionSimulation {
+  /** Whether the transaction would succeed if broadcast now */
+  wouldSucceed: boolean;
+  /** Gas estimate from the node */
+  estimatedGas?: string;
+  /** Gas limit that would be used (estimate plus the chain's buffer) */
+  gasLimit?: string;
+  /** Fee fields that would be used, in wei */
+  fees?: {
+    maxFeePerGas?: string;
+    maxPriorityFeePerGas?: string;
+    gasPrice?: string;
+  };
+  /** Expected cost at the current gas price (estimatedGas × gas price), in wei */
+  estimatedCost?: string;
+  /** Expected cost in native token (human-readable) */
+  estimatedCostEther?: string;
+  /** Worst-case cost (gasLimit × max fee per gas), in wei */
+  maxCost?: string;
+  /** Decoded revert reason, if the transaction would fail */
+  revert?: DecodedRevert;
+}
+
+/**
+ * Response data for POST /api/prompts/simulate.
+ */
+export interface MintSimulationResponse extends TransactionSimulation {
+  /** Flow that was simulated */
+  mode: 'backend-signed' | 'meta-transaction';
+  /** Hash of the prompt (backend-signed mode) */
+  promptHash?: string;
+  /** The prompt text that was hashed (backend-signed mode) */
+  canonicalPrompt?: string;
+  /** Canonicalization steps used (backend-signed mode) */
+  canonicalizationVersion?: string;
 }
 
 /**
@@ -90,6 +510,92 @@ export interface PromptStatusResponse {
   promptHash: string;
   /** Whether the prompt is minted */
   isMinted: boolean;
+  /** The prompt text that was hashed (only when looked up by prompt text) */
+  canonicalPrompt?: string;
+  /** Canonicalization steps used (only when looked up by prompt text) */
+  canonicalizationVersion?: string;
+}
+
+/**
+ * Response data for reading a minted prompt's content.
+ */
+export interface PromptContentResponse {
+  /** Hash of the prompt */
+  promptHash: string;
+  /** Content URI recorded on chain */
+  contentURI: string;
+  /** MIME type of the content */
+  contentType: string;
+  /** The stored content: the prompt text, or a metadata JSON string */
+  content: string;
+  /** Whether content is an encrypted envelope (readable via POST /api/prompts/:hash/decrypt) */
+  encrypted: boolean;
+}
+
+/**
+ * On-chain details of a prompt migration.
+ */
+export interface PromptMigration {
+  /** PromptMiner contract the prompt was migrated from */
+  sourcePromptMiner: string;
+  /** PromptMiner contract the prompt was migrated to */
+  targetPromptMiner: string;
+  /** Data point the prompt was migrated to */
+  targetDataPoint: string;
+  transactionHash: string;
+  blockNumber: number;
+  gasUsed: string;
+  /** Effective price paid per unit of gas, in wei */
+  effectiveGasPrice: string;
+  /** Total fee paid (gasUsed × effectiveGasPrice), in wei */
+  feePaid: string;
+}
+
+/**
+ * Response data for POST /api/prompts/migrate.
+ */
+export interface MigratePromptResponse extends PromptMigration {
+  /** Hash of the migrated prompt */
+  promptHash: string;
+  /** The prompt text that was hashed (only when migrated by prompt text) */
+  canonicalPrompt?: string;
+  /** Canonicalization steps used (only when migrated by prompt text) */
+  canonicalizationVersion?: string;
+}
+
+/**
+ * Outcome of a single item in a batch migration.
+ */
+export interface MigratePromptItemResult {
+  /** Position of the item in the request array */
+  index: number;
+  /** Whether this item was migrated */
+  success: boolean;
+  /** Hash of the prompt (absent if the item failed validation) */
+  promptHash?: string;
+  /** The prompt text that was hashed (only when migrated by prompt text) */
+  canonicalPrompt?: string;
+  /** Migration details, if successful */
+  data?: PromptMigration;
+  /** Error information using the standard API error codes, if failed */
+  error?: {
+    code: string;
+    message: string;
+  };
+}
+
+/**
+ * Response data for POST /api/prompts/migrate-batch.
+ */
+export interface BatchMigrateResponse {
+  /** Number of items in the request */
+  total: number;
+  /** Number of items migrated */
+  succeeded: number;
+  /** Number of items that failed */
+  failed: number;
+  /** Per-item results, in request order */
+  results: MigratePromptItemResult[];
 }
 
 /**
@@ -125,9 +631,132 @@ export interface HealthCheckResponse {
       chainId?: string;
       blockNumber?: number;
     };
+    /** Relayer balances per chain, from the last balance poll */
+    relayers?: RelayerBalanceSummary[];
   };
 }
 
+/**
+ * Relayer balances of a chain against its thresholds (health endpoint).
+ */
+export interface RelayerBalanceSummary {
+  /** Chain ID */
+  chainId: string;
+  /**
+   * Level of the chain: critical when no wallet is above the critical
+   * threshold, warning when any wallet is below the warning threshold
+   */
+  level: RelayerBalanceLevel;
+  /** Warning threshold, in ether units */
+  warningThreshold: string;
+  /** Critical threshold, in ether units */
+  criticalThreshold: string;
+  wallets: Array<{
+    address: string;
+    /** Native balance in ether units, or null if not read yet */
+    balance: string | null;
+    level: RelayerBalanceLevel;
+    /** ISO timestamp of the balance read, or null until the next read */
+    checkedAt: string | null;
+  }>;
+}
+
+/**
+ * PromptMinted event recorded by the on-chain indexer.
+ */
+export interface IndexedMint {
+  chainId: string;
+  /** Hash of the minted prompt */
+  promptHash: string;
+  /** Author credited by the mint */
+  author: string;
+  /** Activity points minted to the author in the same transaction, in wei */
+  activityPoints: string;
+  transactionHash: string;
+  blockNumber: number;
+  blockHash: string;
+  logIndex: number;
+  /** ISO timestamp of the block */
+  timestamp: string;
+}
+
+/**
+ * ActivityPoints Transfer event recorded by the on-chain indexer.
+ *
+ * Mints of activity points are transfers from the zero address.
+ */
+export interface IndexedTransfer {
+  chainId: string;
+  /** ActivityPoints token address */
+  token: string;
+  from: string;
+  to: string;
+  /** Amount in wei */
+  value: string;
+  transactionHash: string;
+  blockNumber: number;
+  blockHash: string;
+  logIndex: number;
+  /** ISO timestamp of the block */
+  timestamp: string;
+}
+
+/**
+ * Progress of the on-chain indexer on one chain.
+ */
+export interface IndexerChainStatus {
+  chainId: string;
+  /** Last block whose events are stored, or null before the first batch */
+  lastIndexedBlock: number | null;
+  /** Latest block seen on chain, or null if the chain could not be reached yet */
+  headBlock: number | null;
+  /** Number of stored PromptMinted events */
+  mints: number;
+  /** Number of stored ActivityPoints transfers */
+  transfers: number;
+  /** Number of reorgs rolled back since startup */
+  reorgs: number;
+  /** Last indexing error, if the last pass failed */
+  lastError: string | null;
+  /** ISO timestamp of the last successful pass */
+  lastRunAt: string | null;
+}
+
+/**
+ * Gas spent against one budget in the current period.
+ */
+export interface GasBudgetUsage {
+  /** Budget in ether units, or null if unlimited */
+  budget: string | null;
+  /** Gas fees paid in the current period, in ether units */
+  spent: string;
+  /** Budget left, in ether units (0 once exceeded), or null if unlimited */
+  remaining: string | null;
+  /** ISO timestamp of the start of the next period (UTC) */
+  resetsAt: string;
+}
+
+/**
+ * Remaining gas sponsorship of an API key and an author on a chain.
+ */
+export interface GasSponsorshipStatus {
+  /** Chain ID */
+  chainId: string;
+  /** Budgets of the calling API key, or null for requests without a valid API key */
+  apiKey: {
+    /** Short hash identifying the API key */
+    id: string;
+    daily: GasBudgetUsage;
+    monthly: GasBudgetUsage;
+  } | null;
+  /** Budgets of the author, or null if no author was given */
+  author: {
+    address: string;
+    daily: GasBudgetUsage;
+    monthly: GasBudgetUsage;
+  } | null;
+}
+
 // ============================================================================
 // PZERO B2B Integration Types
 // ============================================================================
@@ -162,6 +791,10 @@ export interface PZeroMintAuthRequest {
 export interface PZeroAuthorization {
   /** PZERO's authorization signature */
   signature: string;
+  /** PZERO nonce of the authorization (prevents replays) */
+  nonce: string;
+  /** Unix timestamp (seconds) after which the authorization is no longer accepted */
+  expiry: number;
 }
 
 /**
@@ -174,6 +807,8 @@ export type PZeroErrorCode =
   | 'INVALID_API_KEY' // Invalid PZERO_API_KEY
   | 'INVALID_TIER' // Feature not available in current tier
   | 'AUTHORIZATION_EXPIRED' // Signature has expired
+  | 'AUTHORIZATION_SIGNER_MISMATCH' // Signature was not made by the configured PZERO signer
+  | 'INVALID_AUTHORIZATION_RESPONSE' // PZERO returned a missing or malformed authorization
   | 'PZERO_TIMEOUT' // PZERO API request timed out
   | 'PZERO_UNAVAILABLE' // PZERO service unavailable
   | 'PZERO_ERROR' // Generic PZERO error
@@ -193,6 +828,29 @@ export interface PZeroQuota {
   resetAt: number;
 }
 
+/**
+ * Result of checking a PZERO authorization signature locally.
+ *
+ * The signed message is rebuilt from the authorization parameters exactly as
+ * the PromptMiner contract does, and the signer is recovered from it.
+ */
+export interface AuthorizationVerification {
+  /** True if the signature was made by the expected PZERO signer */
+  valid: boolean;
+  /** Address recovered from the signature (null if the signature is malformed) */
+  recoveredSigner: string | null;
+  /** PZERO signer configured for the chain (null if not configured) */
+  expectedSigner: string | null;
+  /** Packed message the signature is checked against (0x-prefixed hex) */
+  signedMessage: string;
+  /** PromptMiner contract the authorization is bound to */
+  signerAddress: string;
+  /** Chain ID the authorization is bound to */
+  chainId: string;
+  /** Why the signature is not valid (absent when valid) */
+  reason?: string;
+}
+
 // ============================================================================
 // PZERO Analytics Types
 // ============================================================================
@@ -0,0 +1,93 @@
+import { CanonicalizationConfig } from '../config';
+
+/**
+ * Prompt canonicalization.
+ *
+ * Prompts are hashed after canonicalization so that visually identical
+ * texts ("What is AI?" vs "What  is AI?", NFC vs NFD accents, hidden
+ * zero-width characters) map to the same prompt hash. Steps run in this
+ * order:
+ *
+ * 1. Zero-width character stripping (optional)
+ * 2. Unicode normalization (NFC, NFD, NFKC, NFKD, or none)
+ * 3. Case folding (optional)
+ * 4. Whitespace collapsing (optional) - runs of whitespace become one space
+ * 5. Trimming (always)
+ *
+ * Canonicalization is idempotent: canonicalizing a canonical prompt returns
+ * it unchanged, so it is safe to apply at every entry point.
+ */
+
+/**
+ * Version of the canonicalization algorithm. Bump when the meaning of a step
+ * changes, since previously computed prompt hashes no longer match.
+ */
+const CANONICALIZATION_ALGORITHM_VERSION = 1;
+
+/** Zero-width space, non-joiner, joiner, word joiner and byte order mark */
+const ZERO_WIDTH_CHARACTERS = /[\u200B-\u200D\u2060\uFEFF]/g;
+
+const WHITESPACE_RUN = /\s+/gu;
+
+/**
+ * Canonicalizes a prompt before hashing.
+ *
+ * @param prompt - The prompt text as submitted
+ * @param options - Canonicalization steps to apply
+ * @returns The canonical prompt (may be empty if the prompt had no visible content)
+ *
+ * @example
+ * const options = { unicodeForm: 'NFC', collapseWhitespace: true, caseFold: false, stripZeroWidth: true };
+ * canonicalizePrompt("  What\u200B  is AI? ", options); // "What is AI?"
+ */
+export function canonicalizePrompt(prompt: string, options: CanonicalizationConfig): string {
+  let canonical = prompt;
+
+  if (options.stripZeroWidth) {
+    canonical = canonical.replace(ZERO_WIDTH_CHARACTERS, '');
+  }
+
+  if (options.unicodeForm !== 'none') {
+    canonical = canonical.normalize(options.unicodeForm);
+  }
+
+  if (options.caseFold) {
+    canonical = canonical.toLowerCase();
+    // Lowercasing can produce unnormalized sequences (e.g. U+0130 becomes 'i' plus a combining dot)
+    if (options.unicodeForm !== 'none') {
+      canonical = canonical.normalize(options.unicodeForm);
+    }
+  }
+
+  if (options.collapseWhitespace) {
+    canonical = canonical.replace(WHITESPACE_RUN, ' ');
+  }
+
+  return canonical.trim();
+}
+
+/**
+ * Describes the canonicalization applied with the given options.
+ *
+ * Clients can store this alongside prompt hashes: two hashes are only
+ * comparable if they were computed with the same canonicalization version.
+ *
+ * @param options - Canonicalization steps
+ * @returns Version string, e.g. "v1:NFC,collapse-whitespace,strip-zero-width"
+ */
+export function getCanonicalizationVersion(options: CanonicalizationConfig): string {
+  const steps: string[] = [];
+  if (options.unicodeForm !== 'none') {
+    steps.push(options.unicodeForm);
+  }
+  if (options.collapseWhitespace) {
+    steps.push('collapse-whitespace');
+  }
+  if (options.caseFold) {
+    steps.push('case-fold');
+  }
+  if (options.stripZeroWidth) {
+    steps.push('strip-zero-width');
+  }
+  return `v${CANONICALIZATION_ALGORITHM_VERSION}:${steps.length > 0 ? steps.join(',') : 'trim'}`;
+}
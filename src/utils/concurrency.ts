@@ -0,0 +1,34 @@
+/**
+ * Maps items through an async function with bounded concurrency.
+ *
+ * Results are returned in input order. Rejections are not caught: callers
+ * that need per-item outcomes should handle errors inside `fn`.
+ *
+ * @param items - Items to process
+ * @param limit - Maximum number of calls in flight at once
+ * @param fn - Async function applied to each item
+ * @returns Results in the same order as the input items
+ *
+ * @example
+ * const statuses = await mapWithConcurrency(hashes, 10, (hash) => checkPromptMinted(hash));
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workers = Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, worker);
+  await Promise.all(workers);
+
+  return results;
+}
@@ -63,17 +63,18 @@ export function encodeActivityPoints(points: string | string[]): string {
 }
 
 /**
- * Generates the full prompt hash used for contract signing.
+ * Generates the message PZERO signs to authorize a mint.
  *
- * This matches the SDK's getPromptHash function and is used to generate
- * the message that PZERO signs for authorization.
+ * This matches the SDK's getPromptHash function: the parameters are packed
+ * (abi.encodePacked) and the packed bytes are signed as an EIP-191 personal
+ * message, which is what the PromptMiner contract verifies.
  *
  * @param chainId - Blockchain chain ID
  * @param contractAddress - PromptMiner contract address
  * @param promptHash - Keccak256 hash of the prompt
  * @param author - Author's Ethereum address
  * @param encodedPoints - ABI-encoded activity points
- * @returns Hash to be signed for authorization
+ * @returns Packed message (0x-prefixed hex) signed for authorization
  *
  * @see @project_zero/prompt-mining-sdk/getPromptHash
  *
@@ -95,7 +96,7 @@ export function getPromptHashForSigning(
 ): string {
   // This implementation should match the SDK's getPromptHash exactly
   // Encode all parameters together
-  const encoded = ethers.solidityPackedKeccak256(
+  const encoded = ethers.solidityPacked(
     ['uint256', 'address', 'bytes32', 'address', 'bytes'],
     [BigInt(chainId), contractAddress, promptHash, author, encodedPoints]
   );
@@ -103,6 +104,35 @@ export function getPromptHashForSigning(
   return encoded;
 }
 
+/**
+ * Recovers the address that signed a mint authorization.
+ *
+ * @param chainId - Blockchain chain ID
+ * @param contractAddress - PromptMiner contract address
+ * @param promptHash - Keccak256 hash of the prompt
+ * @param author - Author's Ethereum address
+ * @param encodedPoints - ABI-encoded activity points
+ * @param signature - Authorization signature
+ * @returns Address of the signer
+ *
+ * @throws {Error} If the signature is malformed
+ *
+ * @example
+ * const signer = recoverAuthorizationSigner("1", contract, promptHash, author, encodedPoints, signature);
+ * if (signer !== expectedPZeroSigner) throw new Error('Not signed by PZERO');
+ */
+export function recoverAuthorizationSigner(
+  chainId: string,
+  contractAddress: string,
+  promptHash: string,
+  author: string,
+  encodedPoints: string,
+  signature: string
+): string {
+  const message = getPromptHashForSigning(chainId, contractAddress, promptHash, author, encodedPoints);
+  return ethers.verifyMessage(ethers.getBytes(message), signature);
+}
+
 /**
  * Validates an Ethereum address.
  *
@@ -0,0 +1,199 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+/**
+ * Envelope encryption for prompt content.
+ *
+ * Each piece of content is encrypted with its own random 256-bit data key
+ * (AES-256-GCM). The data key is then encrypted ("wrapped") with the
+ * company master key, also with AES-256-GCM, and stored next to the
+ * ciphertext. Only holders of the master key can unwrap the data key.
+ *
+ * Associated data (e.g. the prompt hash) is authenticated with the content,
+ * so a ciphertext cannot be moved to another prompt without detection.
+ */
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const KEY_LENGTH = 32;
+const TAG_LENGTH = 16;
+
+/**
+ * Encrypted content as stored in the content store.
+ */
+export interface EncryptedEnvelope {
+  /** Envelope format version */
+  version: 1;
+  /** Cipher used for the content and the wrapped key */
+  encryption: 'AES-256-GCM';
+  /** Identifier of the master key that wrapped the data key */
+  masterKeyId: string;
+  /** Data key encrypted with the master key: base64 of iv | ciphertext | tag */
+  wrappedKey: string;
+  /** Content IV, base64 */
+  iv: string;
+  /** Encrypted content, base64 */
+  ciphertext: string;
+  /** GCM authentication tag of the content, base64 */
+  tag: string;
+  /** MIME type of the plaintext */
+  contentType: string;
+}
+
+function seal(
+  key: Buffer,
+  plaintext: Buffer,
+  associatedData?: Buffer
+): { iv: Buffer; ciphertext: Buffer; tag: Buffer } {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  if (associatedData) {
+    cipher.setAAD(associatedData);
+  }
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return { iv, ciphertext, tag: cipher.getAuthTag() };
+}
+
+function open(
+  key: Buffer,
+  iv: Buffer,
+  ciphertext: Buffer,
+  tag: Buffer,
+  associatedData?: Buffer
+): Buffer {
+  // GCM accepts shorter tags (and other IV sizes), which would weaken the authentication
+  if (iv.length !== IV_LENGTH) {
+    throw new Error(`Invalid IV length ${iv.length}, expected ${IV_LENGTH} bytes`);
+  }
+  if (tag.length !== TAG_LENGTH) {
+    throw new Error(
+      `Invalid authentication tag length ${tag.length}, expected ${TAG_LENGTH} bytes`
+    );
+  }
+  const decipher = createDecipheriv(ALGORITHM, key, iv, { authTagLength: TAG_LENGTH });
+  if (associatedData) {
+    decipher.setAAD(associatedData);
+  }
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+/**
+ * Parses a master key given as 64 hex characters (optionally 0x-prefixed).
+ *
+ * @param value - Hex-encoded 256-bit key
+ * @returns The key bytes
+ *
+ * @throws {Error} If the value is not a 256-bit hex key
+ */
+export function parseMasterKey(value: string): Buffer {
+  const hex = value.startsWith('0x') ? value.slice(2) : value;
+  if (!/^[0-9a-fA-F]{64}$/.test(hex)) {
+    throw new Error('Master key must be 32 bytes encoded as 64 hex characters');
+  }
+  return Buffer.from(hex, 'hex');
+}
+
+/**
+ * Derives a short, non-secret identifier for a master key.
+ *
+ * @param masterKey - Master key bytes
+ * @returns First 8 bytes of the key's SHA-256, hex
+ */
+export function getMasterKeyId(masterKey: Buffer): string {
+  return createHash('sha256').update(masterKey).digest('hex').slice(0, 16);
+}
+
+/**
+ * Encrypts content with a fresh data key wrapped by the master key.
+ *
+ * @param plaintext - Content to encrypt
+ * @param contentType - MIME type of the content, kept in the envelope
+ * @param masterKey - 256-bit master key
+ * @param associatedData - Data authenticated with the content (e.g. the prompt hash)
+ * @returns The envelope to store
+ *
+ * @example
+ * const envelope = encryptEnvelope(Buffer.from(prompt), 'text/plain', masterKey, Buffer.from(promptHash));
+ */
+export function encryptEnvelope(
+  plaintext: Buffer,
+  contentType: string,
+  masterKey: Buffer,
+  associatedData?: Buffer
+): EncryptedEnvelope {
+  if (masterKey.length !== KEY_LENGTH) {
+    throw new Error('Master key must be 32 bytes');
+  }
+
+  const dataKey = randomBytes(KEY_LENGTH);
+  const content = seal(dataKey, plaintext, associatedData);
+  const wrapped = seal(masterKey, dataKey);
+
+  return {
+    version: 1,
+    encryption: 'AES-256-GCM',
+    masterKeyId: getMasterKeyId(masterKey),
+    wrappedKey: Buffer.concat([wrapped.iv, wrapped.ciphertext, wrapped.tag]).toString('base64'),
+    iv: content.iv.toString('base64'),
+    ciphertext: content.ciphertext.toString('base64'),
+    tag: content.tag.toString('base64'),
+    contentType,
+  };
+}
+
+/**
+ * Decrypts an envelope created by encryptEnvelope().
+ *
+ * @param envelope - Stored envelope
+ * @param masterKey - Master key that wrapped the data key
+ * @param associatedData - Same associated data as used for encryption
+ * @returns The plaintext content
+ *
+ * @throws {Error} If the master key does not match, the IV, tag or wrapped key has the
+ *   wrong length, or the content was tampered with
+ */
+export function decryptEnvelope(
+  envelope: EncryptedEnvelope,
+  masterKey: Buffer,
+  associatedData?: Buffer
+): Buffer {
+  if (envelope.masterKeyId !== getMasterKeyId(masterKey)) {
+    throw new Error(`Content was encrypted with another master key (${envelope.masterKeyId})`);
+  }
+
+  const wrapped = Buffer.from(envelope.wrappedKey, 'base64');
+  if (wrapped.length !== IV_LENGTH + KEY_LENGTH + TAG_LENGTH) {
+    throw new Error('Invalid wrapped key length');
+  }
+  const dataKey = open(
+    masterKey,
+    wrapped.subarray(0, IV_LENGTH),
+    wrapped.subarray(IV_LENGTH, wrapped.length - TAG_LENGTH),
+    wrapped.subarray(wrapped.length - TAG_LENGTH)
+  );
+
+  return open(
+    dataKey,
+    Buffer.from(envelope.iv, 'base64'),
+    Buffer.from(envelope.ciphertext, 'base64'),
+    Buffer.from(envelope.tag, 'base64'),
+    associatedData
+  );
+}
+
+/**
+ * Checks whether parsed content is an encrypted envelope.
+ *
+ * @param value - Parsed JSON content
+ * @returns True if the value looks like an EncryptedEnvelope
+ */
+export function isEncryptedEnvelope(value: unknown): value is EncryptedEnvelope {
+  const envelope = value as EncryptedEnvelope | null;
+  return (
+    typeof envelope === 'object' &&
+    envelope !== null &&
+    envelope.encryption === 'AES-256-GCM' &&
+    typeof envelope.wrappedKey === 'string' &&
+    typeof envelope.ciphertext === 'string'
+  );
+}
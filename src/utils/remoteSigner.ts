@@ -0,0 +1,143 @@
+import axios from 'axios';
+import { ethers } from 'ethers';
+
+/**
+ * Signer backed by a remote signing service (Web3Signer-style JSON-RPC).
+ *
+ * The private key never enters this process: transactions are signed with
+ * eth_signTransaction, messages with eth_sign and typed data with
+ * eth_signTypedData. Every signature returned by the service is checked to
+ * recover to the configured address before it is used.
+ */
+
+let requestId = 0;
+
+/**
+ * Converts an optional numeric field to a JSON-RPC quantity.
+ */
+function toQuantity(value: ethers.BigNumberish | null | undefined): string | undefined {
+  return value === null || value === undefined ? undefined : ethers.toQuantity(value);
+}
+
+/**
+ * Signer that delegates signing to a remote signing service.
+ */
+export class RemoteSigner extends ethers.AbstractSigner {
+  readonly address: string;
+
+  /**
+   * @param url - JSON-RPC endpoint of the signing service
+   * @param address - Account the service signs with
+   * @param provider - Provider used to populate and broadcast transactions
+   * @param timeoutMs - Timeout of each signing request
+   */
+  constructor(
+    private readonly url: string,
+    address: string,
+    provider: ethers.Provider | null = null,
+    private readonly timeoutMs: number = 10000
+  ) {
+    super(provider);
+    this.address = ethers.getAddress(address);
+  }
+
+  getAddress(): Promise<string> {
+    return Promise.resolve(this.address);
+  }
+
+  connect(provider: ethers.Provider | null): RemoteSigner {
+    return new RemoteSigner(this.url, this.address, provider, this.timeoutMs);
+  }
+
+  /**
+   * Sends a JSON-RPC request to the signing service.
+   *
+   * @throws {Error} If the service cannot be reached or returns an error
+   */
+  private async request<T>(method: string, params: unknown[]): Promise<T> {
+    let data: { result?: T; error?: { code?: number; message?: string } };
+    try {
+      const response = await axios.post(
+        this.url,
+        { jsonrpc: '2.0', id: ++requestId, method, params },
+        { timeout: this.timeoutMs }
+      );
+      data = response.data;
+    } catch (error: any) {
+      throw new Error(`Remote signer request ${method} failed: ${error.message}`);
+    }
+
+    if (data.error || data.result === undefined) {
+      throw new Error(
+        `Remote signer rejected ${method}: ${data.error?.message ?? 'empty response'}`
+      );
+    }
+    return data.result;
+  }
+
+  /**
+   * Checks that a signature came from this signer's account.
+   */
+  private ensureSignedByAccount(recovered: string | null | undefined, method: string): void {
+    if (recovered?.toLowerCase() !== this.address.toLowerCase()) {
+      throw new Error(
+        `Remote signer returned a ${method} signature from ${recovered}, expected ${this.address}`
+      );
+    }
+  }
+
+  async signTransaction(tx: ethers.TransactionRequest): Promise<string> {
+    const { to, from } = await ethers.resolveProperties({
+      to: tx.to ? ethers.resolveAddress(tx.to, this.provider) : undefined,
+      from: tx.from ? ethers.resolveAddress(tx.from, this.provider) : undefined,
+    });
+    if (from && from.toLowerCase() !== this.address.toLowerCase()) {
+      throw new Error(`Transaction from ${from} cannot be signed by ${this.address}`);
+    }
+
+    const raw = await this.request<string>('eth_signTransaction', [
+      {
+        from: this.address,
+        to: to ?? undefined,
+        gas: toQuantity(tx.gasLimit),
+        gasPrice: toQuantity(tx.gasPrice),
+        maxFeePerGas: toQuantity(tx.maxFeePerGas),
+        maxPriorityFeePerGas: toQuantity(tx.maxPriorityFeePerGas),
+        value: toQuantity(tx.value ?? 0),
+        data: tx.data ?? '0x',
+        nonce: toQuantity(tx.nonce),
+        chainId: toQuantity(tx.chainId),
+        type: toQuantity(tx.type),
+      },
+    ]);
+
+    this.ensureSignedByAccount(ethers.Transaction.from(raw).from, 'transaction');
+    return raw;
+  }
+
+  async signMessage(message: string | Uint8Array): Promise<string> {
+    const data = typeof message === 'string' ? ethers.toUtf8Bytes(message) : message;
+    const signature = await this.request<string>('eth_sign', [this.address, ethers.hexlify(data)]);
+
+    this.ensureSignedByAccount(ethers.verifyMessage(data, signature), 'message');
+    return signature;
+  }
+
+  async signTypedData(
+    domain: ethers.TypedDataDomain,
+    types: Record<string, ethers.TypedDataField[]>,
+    value: Record<string, any>
+  ): Promise<string> {
+    const payload = ethers.TypedDataEncoder.getPayload(domain, types, value);
+    const signature = await this.request<string>('eth_signTypedData', [
+      this.address,
+      JSON.stringify(payload),
+    ]);
+
+    this.ensureSignedByAccount(
+      ethers.verifyTypedData(domain, types, value, signature),
+      'typed data'
+    );
+    return signature;
+  }
+}
@@ -0,0 +1,160 @@
+import { ethers } from 'ethers';
+import { DecodedRevert } from '../types';
+
+/**
+ * Contract ABI used to decode revert data.
+ */
+export interface RevertSource {
+  /** Contract name reported in the decoded revert */
+  name: string;
+  /** Contract interface declaring the custom errors */
+  iface: ethers.Interface;
+}
+
+/**
+ * Explanations for custom errors raised by the PromptMiner, PromptDO and
+ * ERC2771Forwarder contracts.
+ */
+const ERROR_MESSAGES: Record<string, string> = {
+  PromptAlreadyMinted: 'Prompt has already been minted',
+  ActionSignatureInvalid:
+    'Invalid PZERO signature. Authorization may be corrupted or tampered with.',
+  ZeroDataPointNotAllowed: 'Activity points data is missing',
+  AuthorizationExpired: 'PZERO authorization expired. Please request a new authorization.',
+  ERC2771ForwarderExpiredRequest: 'Meta-transaction expired. The deadline has passed.',
+  ERC2771ForwarderInvalidSigner: 'Invalid signature. The signature does not match the request.',
+  ERC2771ForwarderMismatchedValue: 'Meta-transaction value does not match the value sent.',
+  ERC2771UntrustfulTarget: 'Target contract does not trust this forwarder.',
+  InvalidAccountNonce: 'Meta-transaction nonce is not the current forwarder nonce of the signer.',
+  FailedCall: 'The forwarded call reverted.',
+};
+
+/** Selector of the built-in Error(string) revert */
+const ERROR_STRING_SELECTOR = '0x08c379a0';
+/** Selector of the built-in Panic(uint256) revert */
+const PANIC_SELECTOR = '0x4e487b71';
+
+/**
+ * Extracts revert data from an error thrown by ethers.
+ *
+ * Nodes report revert data in different places; ethers normalizes most of
+ * them to `error.data`, but the raw RPC error is checked as well.
+ *
+ * @param error - Error thrown by a call, gas estimate or transaction
+ * @returns Revert data (0x-prefixed hex), or null if none is available
+ */
+export function getRevertData(error: any): string | null {
+  const candidates = [error?.data, error?.info?.error?.data, error?.error?.data];
+  for (const candidate of candidates) {
+    if (typeof candidate === 'string' && ethers.isHexString(candidate) && candidate.length >= 10) {
+      return candidate;
+    }
+    if (typeof candidate?.data === 'string' && ethers.isHexString(candidate.data)) {
+      return candidate.data;
+    }
+  }
+  return null;
+}
+
+/**
+ * Checks whether an error is a contract revert (as opposed to a network or
+ * provider failure).
+ *
+ * @param error - Error thrown by a call, gas estimate or transaction
+ * @returns True if the transaction reverted
+ */
+export function isRevertError(error: any): boolean {
+  return (
+    ethers.isError(error, 'CALL_EXCEPTION') ||
+    getRevertData(error) !== null ||
+    /execution reverted/i.test(error?.message ?? '')
+  );
+}
+
+/**
+ * Converts decoded ABI values to strings keyed by parameter name.
+ */
+function formatArgs(
+  inputs: readonly ethers.ParamType[],
+  values: ethers.Result
+): Record<string, string> {
+  const args: Record<string, string> = {};
+  inputs.forEach((input, i) => {
+    args[input.name || String(i)] = String(values[i]);
+  });
+  return args;
+}
+
+/**
+ * Decodes a revert into the custom error declared by one of the given ABIs.
+ *
+ * Built-in Error(string) and Panic(uint256) reverts are decoded as well.
+ * Unknown revert data is reported by selector.
+ *
+ * @param error - Error thrown by a call, gas estimate or transaction
+ * @param sources - Contract ABIs to decode custom errors with
+ * @returns Decoded revert reason
+ *
+ * @example
+ * try {
+ *   await forwarder.execute.estimateGas(request);
+ * } catch (error) {
+ *   const revert = decodeRevert(error, [{ name: 'ERC2771Forwarder', iface: forwarder.interface }]);
+ *   console.log(revert.name); // e.g. "ERC2771ForwarderInvalidSigner"
+ * }
+ */
+export function decodeRevert(error: any, sources: RevertSource[]): DecodedRevert {
+  const data = getRevertData(error);
+
+  if (!data) {
+    return {
+      name: 'Reverted',
+      args: {},
+      message: error?.reason || error?.shortMessage || 'Transaction reverted without a reason',
+    };
+  }
+
+  const selector = data.slice(0, 10).toLowerCase();
+  const payload = ethers.dataSlice(data, 4);
+
+  if (selector === ERROR_STRING_SELECTOR) {
+    const [reason] = ethers.AbiCoder.defaultAbiCoder().decode(['string'], payload);
+    return { name: 'Error', args: { reason: String(reason) }, message: String(reason), data };
+  }
+
+  if (selector === PANIC_SELECTOR) {
+    const [code] = ethers.AbiCoder.defaultAbiCoder().decode(['uint256'], payload);
+    return {
+      name: 'Panic',
+      args: { code: String(code) },
+      message: `Contract panicked with code 0x${(code as bigint).toString(16)}`,
+      data,
+    };
+  }
+
+  for (const source of sources) {
+    let parsed: ethers.ErrorDescription | null = null;
+    try {
+      parsed = source.iface.parseError(data);
+    } catch (parseError) {
+      // Selector matched but the arguments did not decode; try the next ABI
+      continue;
+    }
+    if (parsed) {
+      return {
+        name: parsed.name,
+        contract: source.name,
+        args: formatArgs(parsed.fragment.inputs, parsed.args),
+        message: ERROR_MESSAGES[parsed.name] ?? `${source.name} reverted with ${parsed.name}`,
+        data,
+      };
+    }
+  }
+
+  return {
+    name: 'UnknownError',
+    args: { selector },
+    message: `Transaction reverted with unrecognized error ${selector}`,
+    data,
+  };
+}
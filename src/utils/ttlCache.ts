@@ -0,0 +1,92 @@
+/**
+ * Minimal in-memory key/value cache with per-entry expiry.
+ *
+ * Expired entries are dropped lazily on access and swept whenever the
+ * cache grows past its soft size limit, so no timers are needed.
+ *
+ * @example
+ * const cache = new TtlCache<string>(60_000);
+ * cache.set('key', 'value');
+ * cache.get('key'); // 'value' for the next minute, then undefined
+ */
+export class TtlCache<V> {
+  private entries = new Map<string, { value: V; expiresAt: number }>();
+
+  /**
+   * @param defaultTtlMs - Time to live for entries set without an explicit TTL
+   * @param maxEntries - Soft limit that triggers a sweep of expired entries
+   */
+  constructor(
+    private defaultTtlMs: number,
+    private maxEntries: number = 10000
+  ) {}
+
+  /**
+   * Gets a value if it exists and has not expired.
+   */
+  get(key: string): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    return entry.value;
+  }
+
+  /**
+   * Checks whether a live entry exists for the key.
+   */
+  has(key: string): boolean {
+    return this.get(key) !== undefined;
+  }
+
+  /**
+   * Sets a value, replacing any existing entry.
+   *
+   * @param key - Cache key
+   * @param value - Value to store
+   * @param ttlMs - Optional time to live (defaults to the cache's default TTL)
+   */
+  set(key: string, value: V, ttlMs: number = this.defaultTtlMs): void {
+    if (this.entries.size >= this.maxEntries) {
+      this.prune();
+    }
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+  }
+
+  /**
+   * Removes an entry.
+   */
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  /**
+   * Removes all entries.
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  /**
+   * Number of entries currently held (including not yet swept expired ones).
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Removes all expired entries.
+   */
+  prune(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
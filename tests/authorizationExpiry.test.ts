@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { ethers } from 'ethers';
+
+jest.mock('../src/services/blockchainService', () => {
+  const actual = jest.requireActual<typeof import('../src/services/blockchainService')>(
+    '../src/services/blockchainService'
+  );
+  return {
+    ...actual,
+    ensureRelayerFunds: jest.fn(async () => undefined),
+    estimateMaxMintFee: jest.fn(async () => 0n),
+    checkPromptMinted: jest.fn(async () => false),
+    submitMint: jest.fn(),
+  };
+});
+jest.mock('../src/services/pendingTransactionService', () => {
+  const actual = jest.requireActual<typeof import('../src/services/pendingTransactionService')>(
+    '../src/services/pendingTransactionService'
+  );
+  return { ...actual, waitForTransaction: jest.fn() };
+});
+jest.mock('../src/services/pzeroAuthService', () => {
+  const actual = jest.requireActual<typeof import('../src/services/pzeroAuthService')>(
+    '../src/services/pzeroAuthService'
+  );
+  return { ...actual, requestMintAuthorization: jest.fn() };
+});
+jest.mock('../src/services/contentStorageService', () => ({
+  storePromptContent: jest.fn(async () => ''),
+}));
+
+import * as blockchainService from '../src/services/blockchainService';
+import * as pendingTransactionService from '../src/services/pendingTransactionService';
+import * as pzeroAuthService from '../src/services/pzeroAuthService';
+import { mintPromptBatch } from '../src/services/promptMiningService';
+import { config } from '../src/config';
+
+const CHAIN_ID = '72080';
+const AUTHOR = ethers.Wallet.createRandom().address;
+
+const submitMint = blockchainService.submitMint as jest.MockedFunction<
+  typeof blockchainService.submitMint
+>;
+const waitForTransaction = pendingTransactionService.waitForTransaction as jest.MockedFunction<
+  typeof pendingTransactionService.waitForTransaction
+>;
+const requestMintAuthorization = pzeroAuthService.requestMintAuthorization as jest.MockedFunction<
+  typeof pzeroAuthService.requestMintAuthorization
+>;
+
+/** Revert data of the action validator's AuthorizationExpired error */
+const AUTHORIZATION_EXPIRED_DATA = new ethers.Interface([
+  'error AuthorizationExpired(uint256 expiry)',
+]).encodeErrorResult('AuthorizationExpired', [1700000000n]);
+
+/**
+ * Fake mint transaction sent by the backend wallet.
+ */
+function mintTransaction(hash: string): ethers.TransactionResponse {
+  return {
+    hash,
+    from: AUTHOR,
+    nonce: 0,
+    chainId: BigInt(CHAIN_ID),
+  } as unknown as ethers.TransactionResponse;
+}
+
+/**
+ * Error waitForMint() throws when the mint reverted with the given data.
+ */
+async function mintErrorFor(data: string): Promise<any> {
+  waitForTransaction.mockRejectedValueOnce(
+    Object.assign(new Error('execution reverted'), { code: 'CALL_EXCEPTION', data })
+  );
+  return await blockchainService
+    .waitForMint(mintTransaction(ethers.id('reverted')))
+    .catch((e) => e);
+}
+
+beforeEach(() => {
+  config.chains = [
+    {
+      name: 'Test',
+      rpcUrl: 'http://127.0.0.1:1',
+      chainId: CHAIN_ID,
+      promptMinerAddress: ethers.Wallet.createRandom().address,
+    },
+  ];
+  jest.clearAllMocks();
+  let nonce = 0;
+  requestMintAuthorization.mockImplementation(async () => ({
+    signature: ethers.toBeHex(++nonce, 65),
+    nonce: String(nonce),
+    expiry: Math.floor(Date.now() / 1000) + 3600,
+  }));
+});
+
+/**
+ * Mints that revert on-chain because the PZERO authorization has expired
+ */
+describe('On-chain authorization expiry', () => {
+  it('should decode the AuthorizationExpired custom error as AUTHORIZATION_EXPIRED', async () => {
+    const error = await mintErrorFor(AUTHORIZATION_EXPIRED_DATA);
+
+    expect(error).toMatchObject({ code: 'AUTHORIZATION_EXPIRED', statusCode: 401 });
+    expect(error.details).toEqual({ revert: 'AuthorizationExpired' });
+    expect(pzeroAuthService.isAuthorizationExpiredError(error)).toBe(true);
+  });
+
+  it('should decode an AUTHORIZATION_EXPIRED revert reason', async () => {
+    const data = ethers.concat([
+      '0x08c379a0',
+      ethers.AbiCoder.defaultAbiCoder().encode(['string'], ['AUTHORIZATION_EXPIRED']),
+    ]);
+
+    const error = await mintErrorFor(data);
+
+    expect(pzeroAuthService.isAuthorizationExpiredError(error)).toBe(true);
+  });
+
+  it('should not treat other reverts as expired authorizations', async () => {
+    const data = ethers.concat([
+      '0x08c379a0',
+      ethers.AbiCoder.defaultAbiCoder().encode(['string'], ['Not allowed']),
+    ]);
+
+    const error = await mintErrorFor(data);
+
+    expect(error.code).toBe('TRANSACTION_REVERTED');
+    expect(pzeroAuthService.isAuthorizationExpiredError(error)).toBe(false);
+  });
+
+  it('should re-authorize once and mint when the submission reverts as expired', async () => {
+    const expired = await mintErrorFor(AUTHORIZATION_EXPIRED_DATA);
+    submitMint
+      .mockRejectedValueOnce(expired)
+      .mockImplementationOnce(async (_author, promptHash) => mintTransaction(promptHash));
+    waitForTransaction.mockImplementation(
+      async (tx) =>
+        ({
+          hash: tx.hash,
+          blockNumber: 100,
+          status: 1,
+          gasUsed: 100000n,
+          gasPrice: 1n,
+          fee: 100000n,
+          logs: [],
+        }) as unknown as ethers.TransactionReceipt
+    );
+
+    const [result] = await mintPromptBatch([
+      {
+        index: 0,
+        prompt: 'An expiring prompt',
+        author: AUTHOR,
+        activityPoints: '10',
+        chainId: CHAIN_ID,
+      },
+    ]);
+
+    expect(result.success).toBe(true);
+    expect(requestMintAuthorization).toHaveBeenCalledTimes(2);
+    const signatures = submitMint.mock.calls.map((call) => call[4]);
+    expect(signatures).toEqual([ethers.toBeHex(1, 65), ethers.toBeHex(2, 65)]);
+  });
+});
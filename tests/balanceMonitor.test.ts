@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { ethers } from 'ethers';
+import { config } from '../src/config';
+import {
+  ensureRelayerFunds,
+  getBalanceSummaries,
+  getRelayerStats,
+  startBalanceMonitor,
+} from '../src/services/relayerPool';
+
+/** Pools and logged levels are kept per chain for the process, so every test gets its own chain */
+let chainCounter = 0;
+let chainId: string;
+let now: number;
+let addresses: string[];
+let balances: Map<string, bigint>;
+let provider: ethers.Provider;
+let logs: { log: jest.Mock; warn: jest.Mock; error: jest.Mock };
+
+/**
+ * Sets the balance of every relayer wallet, in configuration order.
+ */
+function setBalances(...amounts: string[]): void {
+  amounts.forEach((amount, i) => balances.set(addresses[i], ethers.parseEther(amount)));
+}
+
+/**
+ * Messages logged at a level that mention the balance of the test chain.
+ */
+const alerts = (logger: jest.Mock) =>
+  logger.mock.calls
+    .map(([message]) => String(message))
+    .filter((message) => message.startsWith('Relayer balance') && message.includes(chainId));
+
+/**
+ * Waits for the balance reads started by the monitor.
+ */
+const flushPoll = () => new Promise((resolve) => setImmediate(resolve));
+
+beforeEach(() => {
+  chainId = String(910000 + ++chainCounter);
+  config.chains = [
+    {
+      name: 'Test',
+      rpcUrl: 'http://127.0.0.1:1',
+      chainId,
+      promptMinerAddress: ethers.ZeroAddress,
+    },
+  ];
+  const keys = Array.from({ length: 3 }, () => ethers.hexlify(ethers.randomBytes(32)));
+  addresses = keys.map((key) => new ethers.Wallet(key).address);
+  config.relayers.signers = { [chainId]: keys };
+
+  balances = new Map();
+  setBalances('1', '1', '1');
+  provider = {
+    getBalance: jest.fn(async (address: string) => balances.get(address) ?? 0n),
+  } as unknown as ethers.Provider;
+
+  now = Date.now();
+  jest.spyOn(Date, 'now').mockImplementation(() => now);
+  logs = {
+    log: jest.spyOn(console, 'log').mockImplementation(() => undefined) as jest.Mock,
+    warn: jest.spyOn(console, 'warn').mockImplementation(() => undefined) as jest.Mock,
+    error: jest.spyOn(console, 'error').mockImplementation(() => undefined) as jest.Mock,
+  };
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  config.relayers.signers = {};
+});
+
+/**
+ * Classification of relayer balances against the warning and critical thresholds
+ */
+describe('Relayer balance thresholds', () => {
+  it('should classify wallets with the default thresholds', async () => {
+    setBalances('0.01', '0.0099', '0.0009');
+
+    const stats = await getRelayerStats(chainId, provider);
+
+    expect(stats.map((relayer) => relayer.balanceLevel)).toEqual(['ok', 'warning', 'critical']);
+  });
+
+  it('should use the thresholds of the chain over the defaults', async () => {
+    config.chains[0].relayerBalance = { warning: '0.5', critical: '0.1' };
+    setBalances('1', '0.3', '0.05');
+
+    const stats = await getRelayerStats(chainId, provider);
+
+    expect(stats.map((relayer) => relayer.balanceLevel)).toEqual(['ok', 'warning', 'critical']);
+    expect(getBalanceSummaries()).toEqual([
+      expect.objectContaining({
+        chainId,
+        level: 'warning',
+        warningThreshold: '0.5',
+        criticalThreshold: '0.1',
+      }),
+    ]);
+  });
+
+  it('should only be critical once every wallet is below the critical threshold', async () => {
+    setBalances('0.0001', '0.0001', '0.005');
+    await expect(ensureRelayerFunds(chainId, provider)).resolves.toBeUndefined();
+
+    setBalances('0.0001', '0.0001', '0.0001');
+    now += config.relayers.balancePollIntervalMs;
+
+    await expect(ensureRelayerFunds(chainId, provider)).rejects.toMatchObject({
+      statusCode: 503,
+      code: 'RELAYER_FUNDS_CRITICAL',
+    });
+  });
+});
+
+/**
+ * Alerts logged when the balance level of a chain changes
+ */
+describe('Relayer balance alerts', () => {
+  it('should warn once while a wallet stays below the warning threshold', async () => {
+    setBalances('1', '0.005', '1');
+
+    await ensureRelayerFunds(chainId, provider);
+    now += config.relayers.balancePollIntervalMs;
+    await ensureRelayerFunds(chainId, provider);
+
+    expect(provider.getBalance).toHaveBeenCalledTimes(6);
+    expect(alerts(logs.warn)).toEqual([
+      expect.stringContaining(`Relayer balance low on chain ${chainId} (below 0.01)`),
+    ]);
+    expect(alerts(logs.warn)[0]).toContain(`${addresses[1]} 0.005`);
+    expect(alerts(logs.error)).toEqual([]);
+  });
+
+  it('should alert when the chain turns critical and log when it is funded again', async () => {
+    await ensureRelayerFunds(chainId, provider);
+    expect(alerts(logs.log)).toEqual([]);
+
+    setBalances('0', '0', '0');
+    now += config.relayers.balancePollIntervalMs;
+    await expect(ensureRelayerFunds(chainId, provider)).rejects.toMatchObject({
+      code: 'RELAYER_FUNDS_CRITICAL',
+    });
+    await expect(ensureRelayerFunds(chainId, provider)).rejects.toMatchObject({
+      code: 'RELAYER_FUNDS_CRITICAL',
+    });
+
+    expect(alerts(logs.error)).toEqual([
+      expect.stringContaining(`Relayer balance CRITICAL on chain ${chainId} (below 0.001)`),
+    ]);
+    expect(alerts(logs.warn)).toEqual([]);
+
+    setBalances('1', '1', '1');
+    now += config.relayers.balancePollIntervalMs;
+    await ensureRelayerFunds(chainId, provider);
+
+    expect(alerts(logs.log)).toEqual([
+      expect.stringContaining(`Relayer balance back to normal on chain ${chainId}`),
+    ]);
+  });
+
+  it('should poll every chain as soon as the monitor starts', async () => {
+    setBalances('1', '0.005', '0.0005');
+    expect(getBalanceSummaries()).toEqual([]);
+
+    startBalanceMonitor(() => provider);
+    await flushPoll();
+
+    expect(alerts(logs.warn)).toHaveLength(1);
+    expect(getBalanceSummaries()).toEqual([
+      {
+        chainId,
+        level: 'warning',
+        warningThreshold: config.relayers.balanceWarning,
+        criticalThreshold: config.relayers.balanceCritical,
+        wallets: [
+          { address: addresses[0], balance: '1.0', level: 'ok' },
+          { address: addresses[1], balance: '0.005', level: 'warning' },
+          { address: addresses[2], balance: '0.0005', level: 'critical' },
+        ].map((wallet) => ({ ...wallet, checkedAt: new Date(now).toISOString() })),
+      },
+    ]);
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, jest } from '@jest/globals';
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { ethers } from 'ethers';
+import { contractFactories } from '@project_zero/prompt-mining-sdk';
+
+jest.mock('../src/services/blockchainService', () => {
+  const actual = jest.requireActual<typeof import('../src/services/blockchainService')>(
+    '../src/services/blockchainService'
+  );
+  return {
+    ...actual,
+    ensureRelayerFunds: jest.fn(async () => undefined),
+    estimateMaxMintFee: jest.fn(async () => 0n),
+    checkPromptMinted: jest.fn(async () => false),
+    submitMint: jest.fn(),
+  };
+});
+jest.mock('../src/services/pendingTransactionService', () => {
+  const actual = jest.requireActual<typeof import('../src/services/pendingTransactionService')>(
+    '../src/services/pendingTransactionService'
+  );
+  return { ...actual, waitForTransaction: jest.fn() };
+});
+jest.mock('../src/services/pzeroAuthService', () => {
+  const actual = jest.requireActual<typeof import('../src/services/pzeroAuthService')>(
+    '../src/services/pzeroAuthService'
+  );
+  return {
+    ...actual,
+    requestMintAuthorization: jest.fn(async () => ({
+      signature: '0x' + '11'.repeat(65),
+      nonce: 1,
+      expiry: Math.floor(Date.now() / 1000) + 3600,
+    })),
+  };
+});
+jest.mock('../src/services/contentStorageService', () => ({
+  storePromptContent: jest.fn(async () => ''),
+}));
+
+import * as blockchainService from '../src/services/blockchainService';
+import * as pendingTransactionService from '../src/services/pendingTransactionService';
+import { mintPromptBatch } from '../src/controllers/promptController';
+import { asyncHandler } from '../src/middleware/errorHandler';
+import { config } from '../src/config';
+import { hashPrompt } from '../src/utils/crypto';
+
+const CHAIN_ID = '72080';
+const AUTHOR = ethers.Wallet.createRandom().address;
+
+const submitMint = blockchainService.submitMint as jest.MockedFunction<
+  typeof blockchainService.submitMint
+>;
+const waitForTransaction = pendingTransactionService.waitForTransaction as jest.MockedFunction<
+  typeof pendingTransactionService.waitForTransaction
+>;
+
+let server: Server;
+let baseUrl: string;
+
+/** How the mint of each prompt hash ends: a receipt, or the error ethers throws */
+let outcomes: Map<string, () => ethers.TransactionReceipt>;
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  app.post('/mint-batch', asyncHandler(mintPromptBatch));
+
+  await new Promise<void>((resolve) => {
+    server = app.listen(0, '127.0.0.1', resolve);
+  });
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  config.chains = [
+    {
+      name: 'Test',
+      rpcUrl: 'http://127.0.0.1:1',
+      chainId: CHAIN_ID,
+      promptMinerAddress: ethers.Wallet.createRandom().address,
+    },
+  ];
+  outcomes = new Map();
+  submitMint.mockImplementation(async (_author, promptHash) => {
+    return {
+      hash: promptHash,
+      from: AUTHOR,
+      nonce: 0,
+      chainId: BigInt(CHAIN_ID),
+    } as unknown as ethers.TransactionResponse;
+  });
+  waitForTransaction.mockImplementation(async (tx) => outcomes.get(tx.hash)!());
+});
+
+/**
+ * Posts a batch and returns the per-item results in request order.
+ */
+async function postBatch(items: object[]): Promise<any> {
+  const response = await fetch(`${baseUrl}/mint-batch`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ items }),
+  });
+  expect(response.status).toBe(200);
+  return ((await response.json()) as any).data;
+}
+
+/**
+ * Batch mints whose items succeed and fail for different reasons
+ */
+describe('POST /mint-batch', () => {
+  it('should report each failed item with the code of its failure', async () => {
+    const promptMiner = contractFactories.PromptMinerWithActivityPoints.createInterface();
+    outcomes.set(
+      hashPrompt('Minted prompt'),
+      () =>
+        ({
+          hash: hashPrompt('Minted prompt'),
+          blockNumber: 100,
+          status: 1,
+          gasUsed: 100000n,
+          gasPrice: 1n,
+          fee: 100000n,
+          logs: [],
+        }) as unknown as ethers.TransactionReceipt
+    );
+    outcomes.set(hashPrompt('Already minted prompt'), () => {
+      throw Object.assign(new Error('execution reverted'), {
+        code: 'CALL_EXCEPTION',
+        data: contractFactories.PromptDO.createInterface().encodeErrorResult('PromptAlreadyMinted'),
+      });
+    });
+    outcomes.set(hashPrompt('Unauthorized prompt'), () => {
+      throw Object.assign(new Error('execution reverted'), {
+        code: 'CALL_EXCEPTION',
+        data: promptMiner.encodeErrorResult('ActionSignatureInvalid', [ethers.ZeroHash, AUTHOR]),
+      });
+    });
+    outcomes.set(hashPrompt('Lost prompt'), () => {
+      throw Object.assign(new Error('could not coalesce error (error={ "code": -32000 })'), {
+        code: 'UNKNOWN_ERROR',
+        shortMessage: 'could not coalesce error',
+      });
+    });
+
+    const data = await postBatch([
+      { prompt: 'Minted prompt', author: AUTHOR, activityPoints: '10' },
+      { prompt: 'Already minted prompt', author: AUTHOR, activityPoints: '10' },
+      { prompt: 'Unauthorized prompt', author: AUTHOR, activityPoints: '10' },
+      { prompt: 'Lost prompt', author: AUTHOR, activityPoints: '10' },
+      { prompt: 'No author', author: 'not-an-address' },
+    ]);
+
+    expect(data).toMatchObject({ total: 5, succeeded: 1, failed: 4 });
+    const [minted, alreadyMinted, unauthorized, lost, invalid] = data.results;
+    expect(minted).toMatchObject({ index: 0, success: true, data: { blockNumber: 100 } });
+    expect(alreadyMinted.error).toEqual({
+      code: 'PROMPT_ALREADY_MINTED',
+      message: 'Mint transaction failed: Prompt has already been minted',
+    });
+    expect(unauthorized.error.code).toBe('AUTHORIZATION_SIGNATURE_INVALID');
+    expect(lost.error).toEqual({
+      code: 'MINT_FAILED',
+      message: 'Mint transaction failed: could not coalesce error',
+    });
+    expect(invalid.error.code).toBe('INVALID_AUTHOR');
+  });
+});
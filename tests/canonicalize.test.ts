@@ -0,0 +1,58 @@
+import { describe, it, expect } from '@jest/globals';
+import { canonicalizePrompt, getCanonicalizationVersion } from '../src/utils/canonicalize';
+import { CanonicalizationConfig } from '../src/config';
+
+const defaults: CanonicalizationConfig = {
+  unicodeForm: 'NFC',
+  collapseWhitespace: true,
+  caseFold: false,
+  stripZeroWidth: true,
+};
+
+/**
+ * Prompt canonicalization before hashing
+ */
+describe('canonicalizePrompt', () => {
+  it('should collapse whitespace and trim', () => {
+    expect(canonicalizePrompt('  What  is\n\tAI? ', defaults)).toBe('What is AI?');
+  });
+
+  it('should map NFC and NFD variants to the same prompt', () => {
+    const nfc = 'Caf\u00E9';
+    const nfd = 'Cafe\u0301';
+
+    expect(canonicalizePrompt(nfd, defaults)).toBe(canonicalizePrompt(nfc, defaults));
+  });
+
+  it('should strip zero-width characters', () => {
+    expect(canonicalizePrompt('What\u200B is\uFEFF A\u200DI?', defaults)).toBe('What is AI?');
+  });
+
+  it('should only fold case when enabled', () => {
+    expect(canonicalizePrompt('What is AI?', defaults)).toBe('What is AI?');
+    expect(canonicalizePrompt('What is AI?', { ...defaults, caseFold: true })).toBe('what is ai?');
+  });
+
+  it('should be idempotent', () => {
+    const options: CanonicalizationConfig = { ...defaults, unicodeForm: 'NFKC', caseFold: true };
+    const once = canonicalizePrompt(' \uFB01ne  \u0130stanbul\u200B ', options);
+
+    expect(canonicalizePrompt(once, options)).toBe(once);
+  });
+});
+
+describe('getCanonicalizationVersion', () => {
+  it('should list the enabled steps', () => {
+    expect(getCanonicalizationVersion(defaults)).toBe(
+      'v1:NFC,collapse-whitespace,strip-zero-width'
+    );
+    expect(
+      getCanonicalizationVersion({
+        unicodeForm: 'none',
+        collapseWhitespace: false,
+        caseFold: false,
+        stripZeroWidth: false,
+      })
+    ).toBe('v1:trim');
+  });
+});
@@ -0,0 +1,208 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from '@jest/globals';
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { randomBytes } from 'crypto';
+import { ethers } from 'ethers';
+import { config } from '../src/config';
+import {
+  IpfsContentStore,
+  LocalContentStore,
+  decryptContent,
+  isEncryptedContent,
+  resolveContent,
+  setContentStore,
+  storePromptContent,
+} from '../src/services/contentStorageService';
+
+const AUTHOR = ethers.Wallet.createRandom().address;
+const PROMPT = { canonicalPrompt: 'What is AI?', canonicalizationVersion: 'v1:NFC' };
+const PROMPT_HASH = ethers.id(PROMPT.canonicalPrompt);
+const originalContent = config.content;
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(path.join(tmpdir(), 'pm-content-'));
+  config.content = {
+    ...originalContent,
+    format: 'metadata',
+    localDir: dir,
+    encryption: { ...originalContent.encryption, enabled: false, masterKey: null },
+  };
+  setContentStore(new LocalContentStore(dir));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+  config.content = originalContent;
+  setContentStore(null);
+});
+
+/**
+ * Content stored for a prompt before it is minted
+ */
+describe('storePromptContent', () => {
+  it('should store a metadata JSON and return its URI', async () => {
+    const uri = await storePromptContent(PROMPT, PROMPT_HASH, AUTHOR);
+
+    expect(uri).toBe(`local://${PROMPT_HASH}.json`);
+    const metadata = JSON.parse(readFileSync(path.join(dir, `${PROMPT_HASH}.json`), 'utf8'));
+    expect(metadata).toMatchObject({
+      promptHash: PROMPT_HASH,
+      prompt: 'What is AI?',
+      author: AUTHOR,
+      canonicalizationVersion: 'v1:NFC',
+    });
+  });
+
+  it('should store the canonical prompt as text in the prompt format', async () => {
+    config.content.format = 'prompt';
+
+    const uri = await storePromptContent(PROMPT, PROMPT_HASH, AUTHOR);
+
+    const content = await resolveContent(uri);
+    expect(uri).toBe(`local://${PROMPT_HASH}.txt`);
+    expect(content.body.toString()).toBe('What is AI?');
+    expect(content.contentType).toBe('text/plain; charset=utf-8');
+  });
+
+  it('should return an empty URI without a content store', async () => {
+    setContentStore(null);
+
+    expect(await storePromptContent(PROMPT, PROMPT_HASH, AUTHOR)).toBe('');
+  });
+
+  it('should store only ciphertext when encryption is enabled', async () => {
+    config.content.encryption = {
+      ...config.content.encryption,
+      enabled: true,
+      masterKey: randomBytes(32).toString('hex'),
+    };
+
+    const uri = await storePromptContent(PROMPT, PROMPT_HASH, AUTHOR);
+    const content = await resolveContent(uri);
+
+    expect(uri).toBe(`local://${PROMPT_HASH}.enc.json`);
+    expect(content.body.toString()).not.toContain('What is AI?');
+    expect(isEncryptedContent(content)).toBe(true);
+    const decrypted = decryptContent(content, PROMPT_HASH);
+    expect(JSON.parse(decrypted.body.toString()).prompt).toBe('What is AI?');
+    // The envelope is bound to its prompt
+    expect(() => decryptContent(content, ethers.id('Another prompt'))).toThrow(
+      expect.objectContaining({ code: 'DECRYPTION_FAILED' })
+    );
+  });
+});
+
+/**
+ * Reading content back by URI
+ */
+describe('resolveContent', () => {
+  it('should resolve local URIs after switching to another store', async () => {
+    const uri = await storePromptContent(PROMPT, PROMPT_HASH, AUTHOR);
+    setContentStore(new IpfsContentStore('http://127.0.0.1:1', 1000));
+
+    const content = await resolveContent(uri);
+
+    expect(content.contentType).toBe('application/json');
+    expect(JSON.parse(content.body.toString()).promptHash).toBe(PROMPT_HASH);
+  });
+
+  it('should refuse names outside the content directory', async () => {
+    setContentStore(new LocalContentStore(path.join(dir, 'content')));
+    writeFileSync(path.join(dir, 'secret.txt'), 'secret');
+
+    await expect(resolveContent('local://../secret.txt')).rejects.toMatchObject({
+      statusCode: 404,
+      code: 'CONTENT_NOT_FOUND',
+    });
+    await expect(resolveContent('local://.hidden')).rejects.toMatchObject({
+      code: 'CONTENT_NOT_FOUND',
+    });
+  });
+
+  it('should report missing content and unknown schemes', async () => {
+    await expect(resolveContent('local://missing.json')).rejects.toMatchObject({
+      statusCode: 404,
+      code: 'CONTENT_NOT_FOUND',
+    });
+    await expect(resolveContent('ar://abc')).rejects.toMatchObject({
+      statusCode: 422,
+      code: 'UNSUPPORTED_CONTENT_URI',
+    });
+  });
+});
+
+/**
+ * Content on an IPFS node's HTTP API
+ */
+describe('IpfsContentStore', () => {
+  const CID = 'bafkreiexamplecid';
+  let server: Server;
+  let apiUrl: string;
+  let added: string[];
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.raw({ type: () => true }));
+    app.post('/api/v0/add', (req, res) => {
+      added.push(req.body.toString());
+      res.json({ Hash: CID });
+    });
+    app.post('/api/v0/cat', (req, res) => {
+      if (req.query.arg !== CID) {
+        res.status(500).json({ Message: 'not found' });
+        return;
+      }
+      res.send(Buffer.from('What is AI?'));
+    });
+    await new Promise<void>((resolve) => {
+      server = app.listen(0, '127.0.0.1', resolve);
+    });
+    apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    added = [];
+  });
+
+  it('should add content to the node and read it back by CID', async () => {
+    const store = new IpfsContentStore(apiUrl, 1000);
+    setContentStore(store);
+    config.content.format = 'prompt';
+
+    const uri = await storePromptContent(PROMPT, PROMPT_HASH, AUTHOR);
+    const content = await resolveContent(uri);
+
+    expect(uri).toBe(`ipfs://${CID}`);
+    expect(added).toHaveLength(1);
+    expect(added[0]).toContain(`filename="${PROMPT_HASH}.txt"`);
+    expect(added[0]).toContain('What is AI?');
+    expect(content).toEqual({
+      body: Buffer.from('What is AI?'),
+      contentType: 'text/plain; charset=utf-8',
+    });
+  });
+
+  it('should report an unreachable or failing node as CONTENT_STORE_ERROR', async () => {
+    const unreachable = new IpfsContentStore('http://127.0.0.1:1', 1000);
+
+    await expect(
+      unreachable.put('x.txt', { body: Buffer.from('x'), contentType: 'text/plain' })
+    ).rejects.toMatchObject({ statusCode: 502, code: 'CONTENT_STORE_ERROR' });
+    await expect(
+      new IpfsContentStore(apiUrl, 1000).get('ipfs://bafkreiother')
+    ).rejects.toMatchObject({
+      statusCode: 502,
+      code: 'CONTENT_STORE_ERROR',
+    });
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from '@jest/globals';
+import { ethers } from 'ethers';
+import { getPromptHash, signMessage } from '@project_zero/prompt-mining-sdk';
+import {
+  encodeActivityPoints,
+  getPromptHashForSigning,
+  hashPrompt,
+  recoverAuthorizationSigner,
+} from '../src/utils/crypto';
+
+const contractAddress = ethers.Wallet.createRandom().address;
+const author = ethers.Wallet.createRandom().address;
+const promptHash = hashPrompt('What is AI?');
+const encodedPoints = encodeActivityPoints(ethers.parseEther('1').toString());
+
+/**
+ * Mint authorization messages signed by PZERO
+ */
+describe('getPromptHashForSigning', () => {
+  it('should match the SDK message', () => {
+    expect(getPromptHashForSigning('1', contractAddress, promptHash, author, encodedPoints)).toBe(
+      getPromptHash('1', contractAddress, promptHash, author, encodedPoints)
+    );
+  });
+});
+
+describe('recoverAuthorizationSigner', () => {
+  it('should recover the address that signed with the SDK', async () => {
+    const pzero = ethers.Wallet.createRandom();
+    const message = getPromptHash('1', contractAddress, promptHash, author, encodedPoints);
+    const signature = await signMessage(pzero, message);
+
+    expect(
+      recoverAuthorizationSigner('1', contractAddress, promptHash, author, encodedPoints, signature)
+    ).toBe(pzero.address);
+  });
+
+  it('should recover another address when a parameter changes', async () => {
+    const pzero = ethers.Wallet.createRandom();
+    const message = getPromptHash('1', contractAddress, promptHash, author, encodedPoints);
+    const signature = await signMessage(pzero, message);
+
+    expect(
+      recoverAuthorizationSigner('137', contractAddress, promptHash, author, encodedPoints, signature)
+    ).not.toBe(pzero.address);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from '@jest/globals';
+import { randomBytes } from 'crypto';
+import {
+  decryptEnvelope,
+  encryptEnvelope,
+  isEncryptedEnvelope,
+  parseMasterKey,
+} from '../src/utils/envelopeEncryption';
+
+const masterKey = randomBytes(32);
+const promptHash = Buffer.from('0x' + 'ab'.repeat(32));
+
+/**
+ * Envelope encryption of prompt content
+ */
+describe('encryptEnvelope', () => {
+  it('should round-trip content with a wrapped data key', () => {
+    const plaintext = Buffer.from('What is AI?');
+
+    const envelope = encryptEnvelope(plaintext, 'text/plain', masterKey, promptHash);
+
+    expect(isEncryptedEnvelope(envelope)).toBe(true);
+    expect(envelope.ciphertext).not.toContain('What is AI?');
+    expect(decryptEnvelope(envelope, masterKey, promptHash).toString()).toBe('What is AI?');
+  });
+
+  it('should use a fresh data key for every envelope', () => {
+    const first = encryptEnvelope(Buffer.from('same'), 'text/plain', masterKey);
+    const second = encryptEnvelope(Buffer.from('same'), 'text/plain', masterKey);
+
+    expect(first.wrappedKey).not.toBe(second.wrappedKey);
+    expect(first.ciphertext).not.toBe(second.ciphertext);
+  });
+
+  it('should refuse another master key', () => {
+    const envelope = encryptEnvelope(Buffer.from('secret'), 'text/plain', masterKey);
+
+    expect(() => decryptEnvelope(envelope, randomBytes(32))).toThrow('another master key');
+  });
+
+  it('should detect content moved to another prompt', () => {
+    const envelope = encryptEnvelope(Buffer.from('secret'), 'text/plain', masterKey, promptHash);
+    const otherPrompt = Buffer.from('0x' + 'cd'.repeat(32));
+
+    expect(() => decryptEnvelope(envelope, masterKey, otherPrompt)).toThrow();
+  });
+
+  it('should refuse a truncated authentication tag', () => {
+    const envelope = encryptEnvelope(Buffer.from('secret'), 'text/plain', masterKey);
+    const tag = Buffer.from(envelope.tag, 'base64').subarray(0, 4).toString('base64');
+
+    expect(() => decryptEnvelope({ ...envelope, tag }, masterKey)).toThrow(
+      'Invalid authentication tag length'
+    );
+  });
+
+  it('should refuse a wrapped key with a truncated tag', () => {
+    const envelope = encryptEnvelope(Buffer.from('secret'), 'text/plain', masterKey);
+    const wrappedKey = Buffer.from(envelope.wrappedKey, 'base64')
+      .subarray(0, 48)
+      .toString('base64');
+
+    expect(() => decryptEnvelope({ ...envelope, wrappedKey }, masterKey)).toThrow(
+      'Invalid wrapped key length'
+    );
+  });
+
+  it('should refuse an IV that is not 12 bytes', () => {
+    const envelope = encryptEnvelope(Buffer.from('secret'), 'text/plain', masterKey);
+    const iv = randomBytes(16).toString('base64');
+
+    expect(() => decryptEnvelope({ ...envelope, iv }, masterKey)).toThrow('Invalid IV length');
+  });
+});
+
+describe('parseMasterKey', () => {
+  it('should accept 64 hex characters with or without 0x', () => {
+    const hex = masterKey.toString('hex');
+
+    expect(parseMasterKey(hex).equals(masterKey)).toBe(true);
+    expect(parseMasterKey('0x' + hex).equals(masterKey)).toBe(true);
+    expect(() => parseMasterKey('abcd')).toThrow();
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect } from '@jest/globals';
+import { ethers } from 'ethers';
+import { ChainConfig, ChainFeePolicy } from '../src/config';
+import { bumpFeeOverrides, getFeeOverrides } from '../src/services/feeService';
+
+const gwei = (amount: number) => ethers.parseUnits(String(amount), 'gwei');
+
+function chainWith(feePolicy?: ChainFeePolicy): ChainConfig {
+  return {
+    name: 'Test',
+    rpcUrl: 'http://127.0.0.1:1',
+    chainId: '72080',
+    promptMinerAddress: ethers.ZeroAddress,
+    feePolicy,
+  };
+}
+
+/**
+ * Fake provider returning the given fee data (null fields are not supported by the node).
+ */
+function providerWith(feeData: {
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+  gasPrice?: bigint;
+}): ethers.Provider {
+  return {
+    getFeeData: async () => ({
+      maxFeePerGas: feeData.maxFeePerGas ?? null,
+      maxPriorityFeePerGas: feeData.maxPriorityFeePerGas ?? null,
+      gasPrice: feeData.gasPrice ?? null,
+    }),
+  } as unknown as ethers.Provider;
+}
+
+/**
+ * EIP-1559 fee data as ethers computes it: maxFeePerGas = 2 × base fee + tip.
+ */
+const eip1559 = (baseFeeGwei: number, tipGwei: number) =>
+  providerWith({
+    maxFeePerGas: gwei(2 * baseFeeGwei + tipGwei),
+    maxPriorityFeePerGas: gwei(tipGwei),
+    gasPrice: gwei(baseFeeGwei + tipGwei),
+  });
+
+/**
+ * Fees of new transactions
+ */
+describe('getFeeOverrides', () => {
+  it('should use EIP-1559 fees when the node supports them', async () => {
+    const fees = await getFeeOverrides(chainWith(), eip1559(20, 2));
+
+    expect(fees).toEqual({ type: 2, maxFeePerGas: gwei(42), maxPriorityFeePerGas: gwei(2) });
+  });
+
+  it('should use the configured priority fee', async () => {
+    const fees = await getFeeOverrides(
+      chainWith({ maxPriorityFeePerGasGwei: '5' }),
+      eip1559(20, 2)
+    );
+
+    expect(fees).toEqual({ type: 2, maxFeePerGas: gwei(45), maxPriorityFeePerGas: gwei(5) });
+  });
+
+  it('should cap maxFeePerGas at the ceiling while it covers the base fee and tip', async () => {
+    const fees = await getFeeOverrides(chainWith({ maxFeePerGasGwei: '30' }), eip1559(20, 2));
+
+    expect(fees).toEqual({ type: 2, maxFeePerGas: gwei(30), maxPriorityFeePerGas: gwei(2) });
+  });
+
+  it('should refuse to send when the base fee and tip are above the ceiling', async () => {
+    await expect(
+      getFeeOverrides(chainWith({ maxFeePerGasGwei: '30' }), eip1559(40, 2))
+    ).rejects.toMatchObject({ statusCode: 503, code: 'GAS_PRICE_ABOVE_CEILING' });
+  });
+
+  it('should use a gas price on chains without EIP-1559', async () => {
+    const fees = await getFeeOverrides(
+      chainWith({ maxFeePerGasGwei: '20' }),
+      providerWith({ gasPrice: gwei(10) })
+    );
+
+    expect(fees).toEqual({ type: 0, gasPrice: gwei(10) });
+  });
+
+  it('should use a gas price on chains configured as legacy', async () => {
+    const fees = await getFeeOverrides(chainWith({ type: 'legacy' }), eip1559(20, 2));
+
+    expect(fees).toEqual({ type: 0, gasPrice: gwei(22) });
+  });
+
+  it('should refuse to send when the gas price is above the ceiling', async () => {
+    await expect(
+      getFeeOverrides(chainWith({ maxFeePerGasGwei: '20' }), providerWith({ gasPrice: gwei(25) }))
+    ).rejects.toMatchObject({ statusCode: 503, code: 'GAS_PRICE_ABOVE_CEILING' });
+  });
+});
+
+/**
+ * Fees of replacement transactions (speed-up and cancel)
+ */
+describe('bumpFeeOverrides', () => {
+  const previous = { type: 2 as const, maxFeePerGas: gwei(100), maxPriorityFeePerGas: gwei(10) };
+
+  it('should raise every fee by the percentage', () => {
+    expect(bumpFeeOverrides(chainWith(), previous, null, 20)).toEqual({
+      type: 2,
+      maxFeePerGas: gwei(120),
+      maxPriorityFeePerGas: gwei(12),
+    });
+  });
+
+  it('should use the network fees when they are higher than the bumped fees', () => {
+    const current = { type: 2 as const, maxFeePerGas: gwei(150), maxPriorityFeePerGas: gwei(15) };
+
+    expect(bumpFeeOverrides(chainWith(), previous, current, 20)).toEqual(current);
+  });
+
+  it('should cap the bump at the ceiling when it still allows the minimum replacement bump', () => {
+    const fees = bumpFeeOverrides(chainWith({ maxFeePerGasGwei: '110' }), previous, null, 20);
+
+    expect(fees).toEqual({ type: 2, maxFeePerGas: gwei(110), maxPriorityFeePerGas: gwei(12) });
+  });
+
+  it('should refuse a bump the ceiling keeps below the minimum replacement bump', () => {
+    expect(() =>
+      bumpFeeOverrides(chainWith({ maxFeePerGasGwei: '109' }), previous, null, 20)
+    ).toThrow(expect.objectContaining({ statusCode: 409, code: 'FEE_CEILING_REACHED' }));
+  });
+
+  it('should keep the priority fee within maxFeePerGas', () => {
+    const fees = bumpFeeOverrides(
+      chainWith({ maxFeePerGasGwei: '110' }),
+      { type: 2, maxFeePerGas: gwei(100), maxPriorityFeePerGas: gwei(100) },
+      null,
+      20
+    );
+
+    expect(fees).toEqual({ type: 2, maxFeePerGas: gwei(110), maxPriorityFeePerGas: gwei(110) });
+  });
+
+  it('should raise the gas price of legacy transactions', () => {
+    const chain = chainWith({ maxFeePerGasGwei: '20' });
+
+    expect(bumpFeeOverrides(chain, { type: 0, gasPrice: gwei(10) }, null, 10)).toEqual({
+      type: 0,
+      gasPrice: gwei(11),
+    });
+    expect(() => bumpFeeOverrides(chain, { type: 0, gasPrice: gwei(19) }, null, 10)).toThrow(
+      expect.objectContaining({ code: 'FEE_CEILING_REACHED' })
+    );
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { ethers } from 'ethers';
+
+const mockProvider = {
+  getTransactionReceipt: jest.fn<(hash: string) => Promise<unknown>>(),
+  getBlockNumber: jest.fn<() => Promise<number>>(),
+  getTransaction: jest.fn<(hash: string) => Promise<unknown>>(),
+};
+
+jest.mock('../src/services/blockchainService', () => ({
+  initializeBlockchain: () => ({ provider: mockProvider }),
+  forgetMintedPrompts: jest.fn(),
+}));
+jest.mock('../src/services/transactionStatusService', () => ({
+  recordReorgedTransaction: jest.fn(async () => undefined),
+  recordRevertedTransaction: jest.fn(async () => undefined),
+}));
+jest.mock('../src/services/nonceManager', () => ({
+  resetNonce: jest.fn(),
+}));
+
+import * as blockchainService from '../src/services/blockchainService';
+import * as transactionStatusService from '../src/services/transactionStatusService';
+import { resetNonce } from '../src/services/nonceManager';
+import { trackFinality } from '../src/services/finalityService';
+import { config } from '../src/config';
+
+const CHAIN_ID = '72080';
+const CHECK_INTERVAL_MS = 1000;
+const SENDER = ethers.Wallet.createRandom().address;
+
+/**
+ * Fake receipt of a mint transaction in a block.
+ */
+function receiptIn(hash: string, blockNumber: number, status = 1): ethers.TransactionReceipt {
+  return {
+    hash,
+    blockHash: ethers.id(`block ${blockNumber}`),
+    blockNumber,
+    status,
+    from: SENDER,
+    confirmations: async () => 1,
+  } as unknown as ethers.TransactionReceipt;
+}
+
+const listener = () => ({ onFinal: jest.fn(), onReorged: jest.fn(), onReverted: jest.fn() });
+
+let txCounter = 0;
+const newHash = () => ethers.id(`tx ${++txCounter}`);
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  jest.clearAllMocks();
+  config.chains = [
+    {
+      name: 'Test',
+      rpcUrl: 'http://127.0.0.1:1',
+      chainId: CHAIN_ID,
+      promptMinerAddress: ethers.Wallet.createRandom().address,
+      confirmations: 3,
+    },
+  ];
+  config.finality.checkIntervalMs = CHECK_INTERVAL_MS;
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+/**
+ * Finality watcher for included mints
+ */
+describe('trackFinality', () => {
+  it('should report a mint with enough confirmations as final without watching it', async () => {
+    config.chains[0].confirmations = 1;
+
+    const result = await trackFinality(CHAIN_ID, receiptIn(newHash(), 100));
+
+    expect(result).toEqual({ finality: 'final', requiredConfirmations: 1 });
+  });
+
+  it('should call onFinal once the mint has the chain confirmations', async () => {
+    const receipt = receiptIn(newHash(), 100);
+    const callbacks = listener();
+    mockProvider.getTransactionReceipt.mockResolvedValue(receipt);
+
+    const result = await trackFinality(CHAIN_ID, receipt, callbacks);
+    expect(result).toEqual({ finality: 'included', requiredConfirmations: 3 });
+
+    mockProvider.getBlockNumber.mockResolvedValue(101);
+    await jest.advanceTimersByTimeAsync(CHECK_INTERVAL_MS);
+    expect(callbacks.onFinal).not.toHaveBeenCalled();
+
+    mockProvider.getBlockNumber.mockResolvedValue(102);
+    await jest.advanceTimersByTimeAsync(CHECK_INTERVAL_MS);
+    expect(callbacks.onFinal).toHaveBeenCalledTimes(1);
+    expect(callbacks.onReorged).not.toHaveBeenCalled();
+  });
+
+  it('should wait for a reorged mint that is back in the mempool and follow its new block', async () => {
+    const hash = newHash();
+    const callbacks = listener();
+    await trackFinality(CHAIN_ID, receiptIn(hash, 100), callbacks);
+
+    mockProvider.getTransactionReceipt.mockResolvedValue(null);
+    mockProvider.getTransaction.mockResolvedValue({ hash });
+    await jest.advanceTimersByTimeAsync(CHECK_INTERVAL_MS);
+    expect(callbacks.onReorged).not.toHaveBeenCalled();
+
+    // Mined again in block 101: final at head 103, not 102
+    mockProvider.getTransactionReceipt.mockResolvedValue(receiptIn(hash, 101));
+    mockProvider.getBlockNumber.mockResolvedValue(102);
+    await jest.advanceTimersByTimeAsync(CHECK_INTERVAL_MS);
+    expect(callbacks.onFinal).not.toHaveBeenCalled();
+
+    mockProvider.getBlockNumber.mockResolvedValue(103);
+    await jest.advanceTimersByTimeAsync(CHECK_INTERVAL_MS);
+    expect(callbacks.onFinal).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report a reorged mint dropped by the node so it can be re-queued', async () => {
+    const receipt = receiptIn(newHash(), 100);
+    const callbacks = listener();
+    await trackFinality(CHAIN_ID, receipt, callbacks);
+
+    mockProvider.getTransactionReceipt.mockResolvedValue(null);
+    mockProvider.getTransaction.mockResolvedValue(null);
+    await jest.advanceTimersByTimeAsync(CHECK_INTERVAL_MS);
+
+    expect(callbacks.onReorged).toHaveBeenCalledTimes(1);
+    expect(blockchainService.forgetMintedPrompts).toHaveBeenCalledWith(receipt, CHAIN_ID);
+    expect(resetNonce).toHaveBeenCalledWith(CHAIN_ID, SENDER);
+    expect(transactionStatusService.recordReorgedTransaction).toHaveBeenCalledWith(receipt.hash);
+
+    // No longer watched
+    await jest.advanceTimersByTimeAsync(CHECK_INTERVAL_MS);
+    expect(callbacks.onReorged).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report a mint that reverts when a reorg mines it again', async () => {
+    const hash = newHash();
+    const receipt = receiptIn(hash, 100);
+    const callbacks = listener();
+    await trackFinality(CHAIN_ID, receipt, callbacks);
+
+    const reverted = receiptIn(hash, 101, 0);
+    mockProvider.getTransactionReceipt.mockResolvedValue(reverted);
+    mockProvider.getBlockNumber.mockResolvedValue(110);
+    await jest.advanceTimersByTimeAsync(CHECK_INTERVAL_MS);
+
+    expect(callbacks.onReverted).toHaveBeenCalledWith(reverted);
+    expect(callbacks.onFinal).not.toHaveBeenCalled();
+    expect(transactionStatusService.recordRevertedTransaction).toHaveBeenCalledWith(reverted);
+    expect(blockchainService.forgetMintedPrompts).toHaveBeenCalledWith(receipt, CHAIN_ID);
+    // The reverted transaction used its nonce
+    expect(resetNonce).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeAll, beforeEach, jest } from '@jest/globals';
+import { ethers } from 'ethers';
+
+const mockForwarder = {
+  address: ethers.Wallet.createRandom().address,
+  blockTime: 0,
+  nonces: jest.fn(async (_from: string) => 0n),
+  estimateGas: jest.fn(async (_request: unknown): Promise<bigint> => {
+    throw new Error('forwarder checks passed');
+  }),
+};
+
+jest.mock('@project_zero/prompt-mining-sdk', () => {
+  const actual = jest.requireActual<typeof import('@project_zero/prompt-mining-sdk')>(
+    '@project_zero/prompt-mining-sdk'
+  );
+  const forwarder = {
+    runner: { provider: { getBlock: async () => ({ timestamp: mockForwarder.blockTime }) } },
+    connect: () => forwarder,
+    getAddress: async () => mockForwarder.address,
+    eip712Domain: async () => ({
+      name: 'ERC2771Forwarder',
+      version: '1',
+      chainId: 72080n,
+      verifyingContract: mockForwarder.address,
+    }),
+    nonces: (from: string) => mockForwarder.nonces(from),
+    execute: { estimateGas: (request: unknown) => mockForwarder.estimateGas(request) },
+  };
+  return {
+    ...actual,
+    buildRequest: async () => ({ request: {}, erc2771Forwarder: forwarder }),
+  };
+});
+
+import { ERC2771_FORWARD_REQUEST_TYPES } from '@project_zero/prompt-mining-sdk';
+import { simulateMetaTxMint } from '../src/services/blockchainService';
+import { PrivateKeySignerProvider, setSignerProvider } from '../src/services/signerProvider';
+import { config } from '../src/config';
+
+const CHAIN_ID = '72080';
+const user = ethers.Wallet.createRandom();
+const now = Math.floor(Date.now() / 1000);
+
+/**
+ * Forward request of the user, relaying a call to the PromptMiner.
+ */
+function forwardRequest(changes: Partial<{ nonce: bigint; deadline: bigint }> = {}) {
+  return {
+    from: user.address,
+    to: config.chains[0].promptMinerAddress,
+    value: 0n,
+    gas: 500000n,
+    nonce: 3n,
+    deadline: BigInt(now + 3600),
+    data: '0x1234',
+    ...changes,
+  };
+}
+
+/**
+ * Signs a forward request for the forwarder's EIP-712 domain.
+ */
+function sign(request: ReturnType<typeof forwardRequest>, signer = user) {
+  const domain = {
+    name: 'ERC2771Forwarder',
+    version: '1',
+    chainId: 72080n,
+    verifyingContract: mockForwarder.address,
+  };
+  return signer.signTypedData(domain, ERC2771_FORWARD_REQUEST_TYPES, request);
+}
+
+beforeAll(() => {
+  setSignerProvider(new PrivateKeySignerProvider(ethers.Wallet.createRandom()));
+});
+
+beforeEach(() => {
+  config.chains = [
+    {
+      name: 'Test',
+      rpcUrl: 'http://127.0.0.1:1',
+      chainId: CHAIN_ID,
+      promptMinerAddress: ethers.Wallet.createRandom().address,
+    },
+  ];
+  mockForwarder.blockTime = now;
+  mockForwarder.nonces.mockResolvedValue(3n);
+  mockForwarder.estimateGas.mockClear();
+});
+
+/**
+ * Forwarder checks on signed requests before the relayer pays for them
+ */
+describe('Forward request verification', () => {
+  it('should pass a request signed by its sender with the current nonce', async () => {
+    const request = forwardRequest();
+
+    await expect(simulateMetaTxMint(request, await sign(request), CHAIN_ID)).rejects.toThrow(
+      'forwarder checks passed'
+    );
+    expect(mockForwarder.nonces).toHaveBeenCalledWith(user.address);
+    expect(mockForwarder.estimateGas).toHaveBeenCalledTimes(1);
+  });
+
+  it.each([
+    ['whose deadline has passed', { deadline: BigInt(now - 1) }, 'META_TX_DEADLINE_EXPIRED'],
+    ['whose nonce was already used', { nonce: 2n }, 'META_TX_NONCE_STALE'],
+    ['whose nonce is ahead of the forwarder', { nonce: 4n }, 'META_TX_NONCE_MISMATCH'],
+  ])('should refuse a request %s', async (_case, changes, code) => {
+    const request = forwardRequest(changes);
+
+    await expect(simulateMetaTxMint(request, await sign(request), CHAIN_ID)).rejects.toMatchObject({
+      statusCode: 400,
+      code,
+    });
+    expect(mockForwarder.estimateGas).not.toHaveBeenCalled();
+  });
+
+  it('should compare the deadline with the block time', async () => {
+    const request = forwardRequest({ deadline: BigInt(now + 60) });
+    mockForwarder.blockTime = now + 120;
+
+    await expect(simulateMetaTxMint(request, await sign(request), CHAIN_ID)).rejects.toMatchObject({
+      code: 'META_TX_DEADLINE_EXPIRED',
+    });
+  });
+
+  it('should refuse a request signed by another account', async () => {
+    const request = forwardRequest();
+    const signature = await sign(request, ethers.Wallet.createRandom());
+
+    await expect(simulateMetaTxMint(request, signature, CHAIN_ID)).rejects.toMatchObject({
+      statusCode: 400,
+      code: 'META_TX_SIGNATURE_INVALID',
+    });
+    expect(mockForwarder.estimateGas).not.toHaveBeenCalled();
+  });
+
+  it('should refuse a signature over other request fields', async () => {
+    const signature = await sign(forwardRequest());
+
+    await expect(
+      simulateMetaTxMint({ ...forwardRequest(), gas: 1000000n }, signature, CHAIN_ID)
+    ).rejects.toMatchObject({ code: 'META_TX_SIGNATURE_INVALID' });
+  });
+
+  it('should refuse a malformed signature', async () => {
+    await expect(simulateMetaTxMint(forwardRequest(), '0x1234', CHAIN_ID)).rejects.toMatchObject({
+      statusCode: 400,
+      code: 'META_TX_SIGNATURE_INVALID',
+    });
+  });
+});
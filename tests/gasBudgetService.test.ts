@@ -0,0 +1,198 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { ethers } from 'ethers';
+
+jest.mock('../src/services/blockchainService', () => ({
+  ensureRelayerFunds: jest.fn(async () => undefined),
+  estimateMaxMintFee: jest.fn(async () => 0n),
+  checkPromptMinted: jest.fn(async () => false),
+  submitMint: jest.fn(),
+  waitForMint: jest.fn(),
+}));
+jest.mock('../src/services/pzeroAuthService', () => ({
+  requestMintAuthorization: jest.fn(async () => ({
+    signature: '0x' + '11'.repeat(65),
+    nonce: 1,
+    expiry: Math.floor(Date.now() / 1000) + 3600,
+  })),
+  ensureAuthorizationNotExpired: jest.fn(),
+  isAuthorizationExpiredError: jest.fn(() => false),
+}));
+jest.mock('../src/services/contentStorageService', () => ({
+  storePromptContent: jest.fn(async () => ''),
+}));
+
+import * as blockchainService from '../src/services/blockchainService';
+import {
+  InMemoryGasSpendStore,
+  closeFailedGasReservation,
+  getSponsorshipStatus,
+  releaseGasReservation,
+  reserveGasBudget,
+  setGasSpendStore,
+  settleGasReservation,
+} from '../src/services/gasBudgetService';
+import { mintPromptBatch } from '../src/services/promptMiningService';
+import { config } from '../src/config';
+
+const CHAIN_ID = '72080';
+const AUTHOR = ethers.Wallet.createRandom().address;
+const mocked = blockchainService as jest.Mocked<typeof blockchainService>;
+
+/**
+ * Fake mined receipt with the given fee.
+ */
+function receiptFor(hash: string, fee: bigint): ethers.TransactionReceipt {
+  return {
+    hash,
+    blockNumber: 100,
+    status: 1,
+    gasUsed: 100000n,
+    gasPrice: fee / 100000n,
+    fee,
+    from: '0x19E7E376E7C213B7E7e7e46cc70A5dD086DAff2A',
+    confirmations: async () => 1,
+  } as unknown as ethers.TransactionReceipt;
+}
+
+beforeEach(() => {
+  config.chains = [
+    {
+      name: 'Test',
+      rpcUrl: 'http://127.0.0.1:1',
+      chainId: CHAIN_ID,
+      promptMinerAddress: '0x' + 'aa'.repeat(20),
+      gasBudget: { authorDaily: '0.001' },
+    },
+  ];
+  setGasSpendStore(new InMemoryGasSpendStore());
+  jest.clearAllMocks();
+});
+
+describe('Gas budget reservations', () => {
+  const estimate = (ether: string) => async () => ethers.parseEther(ether);
+
+  it('refuses concurrent reservations that do not fit together', async () => {
+    const attempts = await Promise.allSettled(
+      Array.from({ length: 10 }, () =>
+        reserveGasBudget(CHAIN_ID, { author: AUTHOR }, estimate('0.0003'))
+      )
+    );
+
+    const reserved = attempts.filter((attempt) => attempt.status === 'fulfilled');
+    expect(reserved).toHaveLength(3);
+    for (const attempt of attempts) {
+      if (attempt.status === 'rejected') {
+        expect((attempt.reason as any).code).toBe('GAS_BUDGET_EXCEEDED');
+      }
+    }
+
+    const status = await getSponsorshipStatus(CHAIN_ID, undefined, AUTHOR);
+    expect(status.author?.daily.spent).toBe('0.0009');
+  });
+
+  it('settles reservations to the actual fee and releases failed ones', async () => {
+    const first = await reserveGasBudget(CHAIN_ID, { author: AUTHOR }, estimate('0.0006'));
+    const second = await reserveGasBudget(CHAIN_ID, { author: AUTHOR }, estimate('0.0004'));
+
+    await settleGasReservation(first, ethers.parseEther('0.0002'));
+    await releaseGasReservation(second);
+    // Closing twice does not count twice
+    await releaseGasReservation(first);
+
+    const status = await getSponsorshipStatus(CHAIN_ID, undefined, AUTHOR);
+    expect(status.author?.daily.spent).toBe('0.0002');
+    expect(status.author?.daily.remaining).toBe('0.0008');
+  });
+
+  it('charges failed mints whose transaction was mined and releases the others', async () => {
+    const reverted = await reserveGasBudget(CHAIN_ID, { author: AUTHOR }, estimate('0.0006'));
+    const refused = await reserveGasBudget(CHAIN_ID, { author: AUTHOR }, estimate('0.0004'));
+    const revertError = Object.assign(new Error('Mint transaction failed: reverted'), {
+      receipt: receiptFor(ethers.id('reverted'), ethers.parseEther('0.00025')),
+    });
+
+    await closeFailedGasReservation(reverted, revertError);
+    await closeFailedGasReservation(refused, new Error('Insufficient funds for gas'));
+
+    const status = await getSponsorshipStatus(CHAIN_ID, undefined, AUTHOR);
+    expect(status.author?.daily.spent).toBe('0.00025');
+  });
+
+  it('does not estimate the fee when no budget applies', async () => {
+    config.chains[0].gasBudget = undefined;
+    const estimateFee = jest.fn(estimate('1'));
+
+    const reservation = await reserveGasBudget(CHAIN_ID, { author: AUTHOR }, estimateFee);
+
+    expect(estimateFee).not.toHaveBeenCalled();
+    expect(reservation.amountWei).toBe(0n);
+  });
+});
+
+describe('Batch mints against a gas budget', () => {
+  it('refuses the items that exceed the budget and charges the mined ones', async () => {
+    mocked.estimateMaxMintFee.mockResolvedValue(ethers.parseEther('0.0004'));
+    let nonce = 0;
+    mocked.submitMint.mockImplementation(async () => {
+      const hash = ethers.zeroPadValue(ethers.toBeHex(++nonce), 32);
+      return { hash, from: AUTHOR, nonce } as unknown as ethers.TransactionResponse;
+    });
+    mocked.waitForMint.mockImplementation(async (tx) =>
+      receiptFor(tx.hash, ethers.parseEther('0.0003'))
+    );
+
+    const items = Array.from({ length: 5 }, (_, index) => ({
+      index,
+      prompt: `Prompt number ${index}`,
+      author: AUTHOR,
+      activityPoints: '10',
+      chainId: CHAIN_ID,
+    }));
+    const results = await mintPromptBatch(items);
+
+    expect(results.filter((result) => result.success)).toHaveLength(2);
+    const refused = results.filter((result) => !result.success);
+    expect(refused).toHaveLength(3);
+    expect(refused.every((result) => result.error?.code === 'GAS_BUDGET_EXCEEDED')).toBe(true);
+    expect(mocked.submitMint).toHaveBeenCalledTimes(2);
+
+    // The reservations were settled to the receipts' fees
+    const status = await getSponsorshipStatus(CHAIN_ID, undefined, AUTHOR);
+    expect(status.author?.daily.spent).toBe('0.0006');
+
+    // Once the limit is hit, the next batch is refused outright
+    mocked.waitForMint.mockImplementation(async (tx) =>
+      receiptFor(tx.hash, ethers.parseEther('0.0004'))
+    );
+    await mintPromptBatch([{ ...items[0], index: 0, prompt: 'Another prompt' }]);
+    const next = await mintPromptBatch([{ ...items[0], index: 0, prompt: 'One more prompt' }]);
+    expect(next[0].success).toBe(false);
+    expect(next[0].error?.code).toBe('GAS_BUDGET_EXCEEDED');
+    expect(mocked.submitMint).toHaveBeenCalledTimes(3);
+  });
+
+  it('charges the fee of a mint that reverted on-chain', async () => {
+    mocked.estimateMaxMintFee.mockResolvedValue(ethers.parseEther('0.0004'));
+    mocked.submitMint.mockImplementation(
+      async () => ({ hash: ethers.id('reverting mint'), from: AUTHOR, nonce: 0 }) as any
+    );
+    mocked.waitForMint.mockImplementation(async (tx) => {
+      const receipt = { ...receiptFor(tx.hash, ethers.parseEther('0.0003')), status: 0 };
+      throw Object.assign(new Error('Mint transaction failed: execution reverted'), { receipt });
+    });
+
+    const [result] = await mintPromptBatch([
+      {
+        index: 0,
+        prompt: 'A reverting prompt',
+        author: AUTHOR,
+        activityPoints: '10',
+        chainId: CHAIN_ID,
+      },
+    ]);
+
+    expect(result.success).toBe(false);
+    const status = await getSponsorshipStatus(CHAIN_ID, undefined, AUTHOR);
+    expect(status.author?.daily.spent).toBe('0.0003');
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import {
+  idempotency,
+  InMemoryIdempotencyStore,
+  setIdempotencyStore,
+} from '../src/middleware/idempotency';
+
+let server: Server;
+let baseUrl: string;
+let handled: number;
+let release: (() => void) | null;
+let statusCode: number;
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  app.post('/mint', idempotency, async (req, res) => {
+    handled++;
+    if (release === null) {
+      // Hold the request until the test releases it
+      await new Promise<void>((resolve) => {
+        release = resolve;
+      });
+    }
+    res.status(statusCode).json({ success: statusCode < 400, data: { handled, body: req.body } });
+  });
+
+  await new Promise<void>((resolve) => {
+    server = app.listen(0, '127.0.0.1', resolve);
+  });
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  setIdempotencyStore(new InMemoryIdempotencyStore());
+  handled = 0;
+  release = () => undefined;
+  statusCode = 200;
+});
+
+/**
+ * Posts a mint request with an Idempotency-Key.
+ */
+function post(key: string | null, body: object, apiKey = 'key-1') {
+  return fetch(`${baseUrl}/mint`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-API-Key': apiKey,
+      ...(key !== null && { 'Idempotency-Key': key }),
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+/**
+ * Reads the error code of an API error response.
+ */
+async function errorCode(response: Response): Promise<string> {
+  const body = (await response.json()) as { error: { code: string } };
+  return body.error.code;
+}
+
+/**
+ * Idempotency-Key handling on state-changing routes
+ */
+describe('idempotency middleware', () => {
+  it('should replay the stored response for a retry with the same body', async () => {
+    const first = await post('retry-1', { prompt: 'What is AI?', author: '0x1' });
+    // Same body with keys in another order
+    const retry = await post('retry-1', { author: '0x1', prompt: 'What is AI?' });
+
+    expect(first.status).toBe(200);
+    expect(retry.status).toBe(200);
+    expect(retry.headers.get('idempotent-replayed')).toBe('true');
+    expect(await retry.json()).toEqual(await first.json());
+    expect(handled).toBe(1);
+  });
+
+  it('should handle requests without an Idempotency-Key every time', async () => {
+    await post(null, { prompt: 'What is AI?' });
+    await post(null, { prompt: 'What is AI?' });
+
+    expect(handled).toBe(2);
+  });
+
+  it('should answer 409 while the first request is still in flight', async () => {
+    release = null;
+    const first = post('in-flight', { prompt: 'What is AI?' });
+    while (release === null) {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+
+    const retry = await post('in-flight', { prompt: 'What is AI?' });
+    expect(retry.status).toBe(409);
+    expect(await errorCode(retry)).toBe('IDEMPOTENCY_REQUEST_IN_PROGRESS');
+
+    (release as () => void)();
+    expect((await first).status).toBe(200);
+    expect(handled).toBe(1);
+  });
+
+  it('should answer 422 when the key is reused with a different body', async () => {
+    await post('reused', { prompt: 'What is AI?' });
+    const other = await post('reused', { prompt: 'What is ML?' });
+
+    expect(other.status).toBe(422);
+    expect(await errorCode(other)).toBe('IDEMPOTENCY_KEY_REUSED');
+    expect(handled).toBe(1);
+  });
+
+  it('should keep keys of different API keys apart', async () => {
+    await post('shared', { prompt: 'What is AI?' }, 'key-1');
+    const other = await post('shared', { prompt: 'What is ML?' }, 'key-2');
+
+    expect(other.status).toBe(200);
+    expect(handled).toBe(2);
+  });
+
+  it('should process a retry again after a server error', async () => {
+    statusCode = 503;
+    expect((await post('failed', { prompt: 'What is AI?' })).status).toBe(503);
+
+    statusCode = 200;
+    const retry = await post('failed', { prompt: 'What is AI?' });
+
+    expect(retry.status).toBe(200);
+    expect(retry.headers.get('idempotent-replayed')).toBeNull();
+    expect(handled).toBe(2);
+  });
+
+  it('should replay client errors', async () => {
+    statusCode = 400;
+    await post('invalid', { prompt: '' });
+    const retry = await post('invalid', { prompt: '' });
+
+    expect(retry.status).toBe(400);
+    expect(retry.headers.get('idempotent-replayed')).toBe('true');
+    expect(handled).toBe(1);
+  });
+
+  it('should reject an Idempotency-Key longer than 255 characters', async () => {
+    const response = await post('k'.repeat(256), { prompt: 'What is AI?' });
+
+    expect(response.status).toBe(400);
+    expect(await errorCode(response)).toBe('INVALID_IDEMPOTENCY_KEY');
+    expect(handled).toBe(0);
+  });
+});
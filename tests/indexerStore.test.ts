@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ethers } from 'ethers';
+import { SqliteIndexerStore } from '../src/services/indexerStore';
+import { IndexedMint, IndexedTransfer } from '../src/types';
+
+const CHAIN_ID = '72080';
+
+/**
+ * Mint event of a block.
+ */
+function mint(blockNumber: number, logIndex: number, timestamp: string): IndexedMint {
+  return {
+    chainId: CHAIN_ID,
+    promptHash: ethers.id(`prompt ${blockNumber}-${logIndex}`),
+    author: ethers.ZeroAddress,
+    activityPoints: '10',
+    transactionHash: ethers.id(`tx ${blockNumber}-${logIndex}`),
+    blockNumber,
+    blockHash: ethers.id(`block ${blockNumber}`),
+    logIndex,
+    timestamp,
+  };
+}
+
+/**
+ * ActivityPoints transfer of a block.
+ */
+function transfer(blockNumber: number, logIndex: number): IndexedTransfer {
+  return {
+    chainId: CHAIN_ID,
+    token: ethers.ZeroAddress,
+    from: ethers.ZeroAddress,
+    to: ethers.ZeroAddress,
+    value: '10',
+    transactionHash: ethers.id(`tx ${blockNumber}-${logIndex}`),
+    blockNumber,
+    blockHash: ethers.id(`block ${blockNumber}`),
+    logIndex,
+    timestamp: '2026-01-01T00:00:00.000Z',
+  };
+}
+
+/**
+ * Checkpoint at the end of a block.
+ */
+function checkpoint(blockNumber: number) {
+  return {
+    blockNumber,
+    recentBlocks: [{ number: blockNumber, hash: ethers.id(`block ${blockNumber}`) }],
+  };
+}
+
+let dir: string;
+let path: string;
+let store: SqliteIndexerStore;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'indexer-'));
+  path = join(dir, 'nested', 'indexer.db');
+  store = new SqliteIndexerStore(path);
+});
+
+afterEach(() => {
+  store.close();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+/**
+ * SQLite storage of the on-chain index
+ */
+describe('SqliteIndexerStore', () => {
+  it('should store batches with their checkpoint', async () => {
+    expect(await store.getCheckpoint(CHAIN_ID)).toBeNull();
+
+    await store.commit(CHAIN_ID, {
+      mints: [mint(10, 0, '2026-01-01T00:00:00.000Z')],
+      transfers: [transfer(10, 1)],
+      checkpoint: checkpoint(10),
+    });
+    await store.commit(CHAIN_ID, {
+      mints: [mint(20, 0, '2026-01-02T00:00:00.000Z')],
+      transfers: [],
+      checkpoint: checkpoint(20),
+    });
+
+    expect(await store.getCheckpoint(CHAIN_ID)).toEqual(checkpoint(20));
+    expect(await store.countEvents(CHAIN_ID)).toEqual({ mints: 2, transfers: 1 });
+  });
+
+  it('should not duplicate the events of a batch stored again', async () => {
+    const batch = {
+      mints: [mint(10, 0, '2026-01-01T00:00:00.000Z')],
+      transfers: [],
+      checkpoint: checkpoint(10),
+    };
+
+    await store.commit(CHAIN_ID, batch);
+    await store.commit(CHAIN_ID, batch);
+
+    expect(await store.countEvents(CHAIN_ID)).toEqual({ mints: 1, transfers: 0 });
+  });
+
+  it('should remove the events above the block of a rollback', async () => {
+    await store.commit(CHAIN_ID, {
+      mints: [mint(10, 0, '2026-01-01T00:00:00.000Z'), mint(20, 0, '2026-01-02T00:00:00.000Z')],
+      transfers: [transfer(10, 1), transfer(20, 1)],
+      checkpoint: checkpoint(20),
+    });
+
+    await store.rollback(CHAIN_ID, checkpoint(15));
+
+    expect(await store.getCheckpoint(CHAIN_ID)).toEqual(checkpoint(15));
+    expect(await store.countEvents(CHAIN_ID)).toEqual({ mints: 1, transfers: 1 });
+    expect((await store.listMints({})).map((m) => m.blockNumber)).toEqual([10]);
+  });
+
+  it('should list mints newest first within the time range', async () => {
+    await store.commit(CHAIN_ID, {
+      mints: [
+        mint(10, 0, '2026-01-01T00:00:00.000Z'),
+        mint(20, 0, '2026-01-02T00:00:00.000Z'),
+        mint(20, 3, '2026-01-02T00:00:00.000Z'),
+        mint(30, 0, '2026-01-03T00:00:00.000Z'),
+      ],
+      transfers: [],
+      checkpoint: checkpoint(30),
+    });
+    await store.commit('1', { mints: [], transfers: [], checkpoint: checkpoint(5) });
+
+    const all = await store.listMints({ chainId: CHAIN_ID });
+    expect(all.map((m) => [m.blockNumber, m.logIndex])).toEqual([
+      [30, 0],
+      [20, 3],
+      [20, 0],
+      [10, 0],
+    ]);
+    expect(all[0]).toEqual(mint(30, 0, '2026-01-03T00:00:00.000Z'));
+
+    const range = await store.listMints({
+      since: new Date('2026-01-02T00:00:00.000Z'),
+      until: new Date('2026-01-03T00:00:00.000Z'),
+    });
+    expect(range.map((m) => m.blockNumber)).toEqual([20, 20]);
+    expect(await store.listMints({ chainId: '1' })).toEqual([]);
+  });
+
+  it('should keep the index across a reopen', async () => {
+    await store.commit(CHAIN_ID, {
+      mints: [mint(10, 0, '2026-01-01T00:00:00.000Z')],
+      transfers: [],
+      checkpoint: checkpoint(10),
+    });
+    store.close();
+
+    store = new SqliteIndexerStore(path);
+
+    expect(await store.getCheckpoint(CHAIN_ID)).toEqual(checkpoint(10));
+    expect(await store.listMints({})).toHaveLength(1);
+  });
+
+  it('should fail with the path when the database cannot be opened', () => {
+    expect(() => new SqliteIndexerStore(dir)).toThrow('Cannot open indexer database');
+  });
+});
@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { ethers } from 'ethers';
+import { contractFactories } from '@project_zero/prompt-mining-sdk';
+
+jest.mock('../src/services/blockchainService', () => {
+  const actual = jest.requireActual<typeof import('../src/services/blockchainService')>(
+    '../src/services/blockchainService'
+  );
+  return {
+    ...actual,
+    simulateMetaTxMint: jest.fn(async () => ({ wouldSucceed: true })),
+  };
+});
+jest.mock('../src/services/pzeroAuthService', () => {
+  const actual = jest.requireActual<typeof import('../src/services/pzeroAuthService')>(
+    '../src/services/pzeroAuthService'
+  );
+  return {
+    ...actual,
+    findIssuedAuthorization: jest.fn(),
+  };
+});
+
+import * as blockchainService from '../src/services/blockchainService';
+import * as pzeroAuthService from '../src/services/pzeroAuthService';
+import { simulateMetaTxMint } from '../src/services/promptMiningService';
+import { config } from '../src/config';
+
+const CHAIN_ID = '72080';
+const PROMPT_MINER = ethers.Wallet.createRandom().address;
+const AUTHOR = ethers.Wallet.createRandom().address;
+const PROMPT_HASH = ethers.id('What is AI?');
+const ACTIVITY_POINTS = ethers.AbiCoder.defaultAbiCoder().encode(['uint256'], [10n]);
+const AUTHORIZATION_SIGNATURE = '0x' + '11'.repeat(65);
+
+const findIssuedAuthorization = pzeroAuthService.findIssuedAuthorization as jest.MockedFunction<
+  typeof pzeroAuthService.findIssuedAuthorization
+>;
+
+/**
+ * Calldata of the meta-transaction mint.
+ */
+function mintData(
+  promptHash = PROMPT_HASH,
+  actionData = ACTIVITY_POINTS,
+  actionSignature = AUTHORIZATION_SIGNATURE
+) {
+  const iface = contractFactories.PromptMinerWithActivityPoints.createInterface();
+  return iface.encodeFunctionData('mint(bytes32,string,bytes,bytes)', [
+    promptHash,
+    '',
+    actionData,
+    actionSignature,
+  ]);
+}
+
+/**
+ * Forward request a user signed, relaying a mint unless told otherwise.
+ */
+function forwardRequest(changes: Partial<{ to: string; value: bigint; data: string }> = {}) {
+  return {
+    from: AUTHOR,
+    to: PROMPT_MINER,
+    value: 0n,
+    gas: 500000n,
+    nonce: 0n,
+    deadline: BigInt(Math.floor(Date.now() / 1000) + 3600),
+    data: mintData(),
+    ...changes,
+  };
+}
+
+/**
+ * Authorization this service issued for the mint.
+ */
+function issued(changes: Partial<pzeroAuthService.IssuedAuthorization> = {}) {
+  return {
+    authorization: { signature: AUTHORIZATION_SIGNATURE, nonce: '1', expiry: 0 },
+    promptHash: PROMPT_HASH,
+    author: AUTHOR,
+    encodedActivityPoints: ACTIVITY_POINTS,
+    chainId: CHAIN_ID,
+    signerAddress: PROMPT_MINER,
+    ...changes,
+  } as pzeroAuthService.IssuedAuthorization;
+}
+
+beforeEach(() => {
+  config.chains = [
+    {
+      name: 'Test',
+      rpcUrl: 'http://127.0.0.1:1',
+      chainId: CHAIN_ID,
+      promptMinerAddress: PROMPT_MINER,
+    },
+  ];
+  jest.clearAllMocks();
+  findIssuedAuthorization.mockReturnValue(undefined);
+});
+
+/**
+ * Checks on meta-transactions before they are relayed
+ */
+describe('Meta-transaction validation', () => {
+  it('should pass a mint on the PromptMiner on to the forwarder checks', async () => {
+    findIssuedAuthorization.mockReturnValue(issued());
+
+    await simulateMetaTxMint(forwardRequest(), '0xsig', CHAIN_ID);
+
+    expect(findIssuedAuthorization).toHaveBeenCalledWith(AUTHORIZATION_SIGNATURE);
+    expect(blockchainService.simulateMetaTxMint).toHaveBeenCalledTimes(1);
+  });
+
+  it.each([
+    ['carries value', { value: 1n }, 'META_TX_VALUE_NOT_ALLOWED'],
+    ['targets another contract', { to: AUTHOR }, 'META_TX_TARGET_NOT_ALLOWED'],
+    [
+      'calls another function',
+      { data: '0xa9059cbb' + '00'.repeat(64) },
+      'META_TX_FUNCTION_NOT_ALLOWED',
+    ],
+    ['has truncated mint arguments', { data: mintData().slice(0, 74) }, 'META_TX_INVALID_CALLDATA'],
+  ])('should refuse a request that %s', async (_case, changes, code) => {
+    await expect(
+      simulateMetaTxMint(forwardRequest(changes), '0xsig', CHAIN_ID)
+    ).rejects.toMatchObject({ statusCode: 400, code });
+    expect(blockchainService.simulateMetaTxMint).not.toHaveBeenCalled();
+  });
+
+  it('should refuse the mint variant with an explicit author', async () => {
+    const iface = contractFactories.PromptMinerWithActivityPoints.createInterface();
+    const data = iface.encodeFunctionData('mint(address,bytes32,string,bytes,bytes)', [
+      AUTHOR,
+      PROMPT_HASH,
+      '',
+      ACTIVITY_POINTS,
+      AUTHORIZATION_SIGNATURE,
+    ]);
+
+    await expect(
+      simulateMetaTxMint(forwardRequest({ data }), '0xsig', CHAIN_ID)
+    ).rejects.toMatchObject({ code: 'META_TX_FUNCTION_NOT_ALLOWED' });
+  });
+
+  it.each([
+    ['prompt hash', { promptHash: ethers.id('What is ML?') }],
+    ['activity points', { encodedActivityPoints: ethers.ZeroHash }],
+    ['author', { author: ethers.Wallet.createRandom().address }],
+    ['chain', { chainId: '1' }],
+    ['PromptMiner', { signerAddress: ethers.Wallet.createRandom().address }],
+  ])(
+    'should refuse a call whose %s differs from the issued authorization',
+    async (field, changes) => {
+      findIssuedAuthorization.mockReturnValue(issued(changes));
+
+      const error = await simulateMetaTxMint(forwardRequest(), '0xsig', CHAIN_ID).catch((e) => e);
+
+      expect(error).toMatchObject({ statusCode: 400, code: 'META_TX_AUTHORIZATION_MISMATCH' });
+      expect(error.message).toContain(field);
+      expect(blockchainService.simulateMetaTxMint).not.toHaveBeenCalled();
+    }
+  );
+
+  it('should refuse an unknown authorization not signed by the PZERO signer', async () => {
+    config.chains[0].pzeroSignerAddress = ethers.Wallet.createRandom().address;
+
+    await expect(simulateMetaTxMint(forwardRequest(), '0xsig', CHAIN_ID)).rejects.toMatchObject({
+      statusCode: 400,
+      code: 'META_TX_AUTHORIZATION_INVALID',
+    });
+  });
+
+  it('should refuse an unknown authorization when no PZERO signer is configured', async () => {
+    const signature = ethers.Wallet.createRandom().signingKey.sign(ethers.id('mint')).serialized;
+    const data = mintData(PROMPT_HASH, ACTIVITY_POINTS, signature);
+
+    const error = await simulateMetaTxMint(forwardRequest({ data }), '0xsig', CHAIN_ID).catch(
+      (e) => e
+    );
+
+    expect(error).toMatchObject({ statusCode: 400, code: 'META_TX_AUTHORIZATION_INVALID' });
+    expect(error.message).toContain('No PZERO signer is configured');
+    expect(blockchainService.simulateMetaTxMint).not.toHaveBeenCalled();
+  });
+});
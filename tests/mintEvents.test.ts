@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { ethers } from 'ethers';
+import { streamPromptEvents } from '../src/controllers/eventController';
+import { publishMintEvent } from '../src/services/mintEventService';
+import { MintEventType } from '../src/types';
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  const app = express();
+  app.get('/prompts/:hash/events', streamPromptEvents);
+
+  await new Promise<void>((resolve) => {
+    server = app.listen(0, '127.0.0.1', resolve);
+  });
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+/**
+ * Publishes the events of a mint, in order.
+ */
+function publish(promptHash: string, ...types: MintEventType[]) {
+  return types.map((type) =>
+    publishMintEvent(type, {
+      promptHash,
+      chainId: '72080',
+      source: 'backend-signed',
+      author: ethers.ZeroAddress,
+    })
+  );
+}
+
+/**
+ * Opens the event stream of a prompt and reads the IDs of the first events sent.
+ *
+ * @param onOpen - Called once the stream is open, e.g. to publish live events
+ */
+async function readEventIds(
+  promptHash: string,
+  count: number,
+  lastEventId?: string,
+  onOpen: () => void = () => undefined
+): Promise<string[]> {
+  const controller = new AbortController();
+  const response = await fetch(`${baseUrl}/prompts/${promptHash}/events`, {
+    headers: lastEventId ? { 'Last-Event-ID': lastEventId } : {},
+    signal: controller.signal,
+  });
+  expect(response.headers.get('content-type')).toContain('text/event-stream');
+  onOpen();
+
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+  let ids: string[] = [];
+  while (ids.length < count) {
+    const { value, done } = await reader.read();
+    if (done) {
+      break;
+    }
+    text += decoder.decode(value, { stream: true });
+    ids = [...text.matchAll(/^id: (.+)$/gm)].map((match) => match[1]);
+  }
+  controller.abort();
+  return ids;
+}
+
+/**
+ * Resuming the mint event stream with Last-Event-ID
+ */
+describe('Mint event stream replay', () => {
+  it('should send the events after the last received one, then live events', async () => {
+    const promptHash = ethers.id('replay after last event');
+    const [authorized, submitted] = publish(promptHash, 'authorized', 'submitted');
+    let confirmed = '';
+
+    const ids = await readEventIds(promptHash, 2, authorized.id, () => {
+      confirmed = publish(promptHash, 'confirmed')[0].id;
+    });
+
+    expect(ids).toEqual([submitted.id, confirmed]);
+    expect(submitted.id).toMatch(/^[0-9a-f]+-\d+$/);
+  });
+
+  it('should send all buffered events for an ID of a previous process', async () => {
+    const promptHash = ethers.id('replay after restart');
+    const events = publish(promptHash, 'authorized', 'submitted', 'confirmed');
+    const bootId = events[0].id.split('-')[0];
+    // Same sequence number, other boot ID: the sequence restarted
+    const previousId = `${bootId === '00000000' ? '00000001' : '00000000'}-${events[1].id.split('-')[1]}`;
+
+    const ids = await readEventIds(promptHash, 3, previousId);
+
+    expect(ids).toEqual(events.map((event) => event.id));
+  });
+
+  it.each([
+    ['ahead of the published events', (bootId: string) => `${bootId}-999999999`],
+    ['in the former numeric format', () => '1'],
+  ])('should send all buffered events for an ID %s', async (description, lastEventId) => {
+    const promptHash = ethers.id(`replay for an ID ${description}`);
+    const events = publish(promptHash, 'authorized', 'failed');
+
+    const ids = await readEventIds(promptHash, 2, lastEventId(events[0].id.split('-')[0]));
+
+    expect(ids).toEqual(events.map((event) => event.id));
+  });
+});
@@ -0,0 +1,373 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ethers } from 'ethers';
+
+jest.mock('../src/services/promptMiningService', () => ({
+  reserveMintGas: jest.fn(async () => ({
+    chainId: '72080',
+    entries: [],
+    amountWei: 0n,
+    closed: false,
+  })),
+  mintPromptForUser: jest.fn(),
+}));
+jest.mock('../src/services/blockchainService', () => ({
+  ensureRelayerFunds: jest.fn(async () => undefined),
+}));
+
+import * as promptMiningService from '../src/services/promptMiningService';
+import {
+  enqueueMintJob,
+  getMintJob,
+  InMemoryMintJobStore,
+  MintJobStore,
+  recoverMintJobs,
+  setMintJobStore,
+  SqliteMintJobStore,
+} from '../src/services/mintJobService';
+import { config } from '../src/config';
+import { MintJob, MintJobStatus, MintProgressListener } from '../src/types';
+
+const CHAIN_ID = '72080';
+const AUTHOR = ethers.Wallet.createRandom().address;
+const mintPromptForUser = promptMiningService.mintPromptForUser as jest.MockedFunction<
+  typeof promptMiningService.mintPromptForUser
+>;
+
+/**
+ * Result of a mined mint, included in block 100 unless told otherwise.
+ */
+function mintResult(transactionHash: string, finality: 'included' | 'final' = 'included') {
+  return {
+    transactionHash,
+    promptHash: ethers.id('prompt'),
+    canonicalPrompt: 'What is AI?',
+    canonicalizationVersion: 'v1',
+    contentURI: '',
+    blockNumber: 100,
+    gasUsed: '100000',
+    effectiveGasPrice: '1000000000',
+    feePaid: '100000000000000',
+    status: 1,
+    finality,
+    requiredConfirmations: 3,
+  } as unknown as Awaited<ReturnType<typeof promptMiningService.mintPromptForUser>>;
+}
+
+/**
+ * Lets the worker run until the job reaches a status (and matches a condition).
+ */
+async function waitForStatus(
+  id: string,
+  status: MintJobStatus,
+  condition: (job: MintJob) => boolean = () => true
+): Promise<MintJob> {
+  for (let i = 0; i < 100; i++) {
+    const job = await getMintJob(id);
+    if (job?.status === status && condition(job)) {
+      return job;
+    }
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+  throw new Error(`Job ${id} never reached ${status} (is ${(await getMintJob(id))?.status})`);
+}
+
+/**
+ * Mocks a first mint that gets included, keeping its progress listener.
+ */
+function mockIncludedMint(transactionHash: string): { progress: () => MintProgressListener } {
+  let listener: MintProgressListener | undefined;
+  mintPromptForUser.mockImplementationOnce(
+    async (_prompt, _author, _points, _chainId, onProgress) => {
+      listener = onProgress;
+      onProgress?.('submitted', { transactionHash });
+      return mintResult(transactionHash);
+    }
+  );
+  return { progress: () => listener! };
+}
+
+let store: MintJobStore;
+
+beforeEach(() => {
+  config.chains = [
+    {
+      name: 'Test',
+      rpcUrl: 'http://127.0.0.1:1',
+      chainId: CHAIN_ID,
+      promptMinerAddress: ethers.Wallet.createRandom().address,
+      confirmations: 3,
+    },
+  ];
+  config.finality.maxRequeues = 3;
+  store = new InMemoryMintJobStore();
+  setMintJobStore(store);
+  mintPromptForUser.mockReset();
+});
+
+/**
+ * Mint jobs whose transaction is reorged out
+ */
+describe('Mint job finality', () => {
+  it('should mark an included job final', async () => {
+    const mint = mockIncludedMint('0x' + '01'.repeat(32));
+
+    const job = await enqueueMintJob('What is AI?', AUTHOR, '10', CHAIN_ID);
+    expect((await waitForStatus(job.id, 'confirmed')).finality).toBe('included');
+
+    mint.progress()('final', { transactionHash: '0x' + '01'.repeat(32) });
+    await new Promise((resolve) => setImmediate(resolve));
+    expect((await getMintJob(job.id))?.finality).toBe('final');
+  });
+
+  it('should re-queue a job whose transaction was reorged out and mint it again', async () => {
+    const reorgedHash = '0x' + '02'.repeat(32);
+    const mint = mockIncludedMint(reorgedHash);
+    mintPromptForUser.mockResolvedValueOnce(mintResult('0x' + '03'.repeat(32), 'final'));
+
+    const job = await enqueueMintJob('What is AI?', AUTHOR, '10', CHAIN_ID);
+    await waitForStatus(job.id, 'confirmed');
+
+    mint.progress()('reorged', { transactionHash: reorgedHash });
+    const minted = await waitForStatus(
+      job.id,
+      'confirmed',
+      (current) => current.finality === 'final'
+    );
+
+    expect(mintPromptForUser).toHaveBeenCalledTimes(2);
+    expect(minted.reorgedTransactions).toEqual([reorgedHash]);
+    expect(minted.transactionHash).toBe('0x' + '03'.repeat(32));
+    expect(minted.finality).toBe('final');
+  });
+
+  it('should fail a job once PM_REORG_MAX_REQUEUES is reached', async () => {
+    config.finality.maxRequeues = 0;
+    const reorgedHash = '0x' + '04'.repeat(32);
+    const mint = mockIncludedMint(reorgedHash);
+
+    const job = await enqueueMintJob('What is AI?', AUTHOR, '10', CHAIN_ID);
+    await waitForStatus(job.id, 'confirmed');
+
+    mint.progress()('reorged', { transactionHash: reorgedHash });
+    const failed = await waitForStatus(job.id, 'failed');
+
+    expect(failed.error?.code).toBe('MINT_REORGED');
+    expect(failed.reorgedTransactions).toEqual([reorgedHash]);
+    expect(mintPromptForUser).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fail a job whose transaction reverted when a reorg mined it again', async () => {
+    const hash = '0x' + '05'.repeat(32);
+    const mint = mockIncludedMint(hash);
+
+    const job = await enqueueMintJob('What is AI?', AUTHOR, '10', CHAIN_ID);
+    await waitForStatus(job.id, 'confirmed');
+
+    mint.progress()('reverted', { transactionHash: hash, blockNumber: 101 });
+    const failed = await waitForStatus(job.id, 'failed');
+
+    expect(failed.error?.code).toBe('TRANSACTION_REVERTED');
+    expect(failed.receipt).toMatchObject({ blockNumber: 101, status: 0 });
+    expect(failed.finality).toBeUndefined();
+    expect(mintPromptForUser).toHaveBeenCalledTimes(1);
+  });
+});
+
+/**
+ * Mint jobs left unfinished by a previous run
+ */
+describe('Mint job recovery', () => {
+  /**
+   * Stores a job (and its input) as a previous run left it.
+   */
+  async function storeJob(id: string, changes: Partial<MintJob>, withInput = true) {
+    const now = new Date().toISOString();
+    await store.save({
+      id,
+      status: 'queued',
+      promptHash: ethers.id('prompt'),
+      author: AUTHOR,
+      chainId: CHAIN_ID,
+      createdAt: now,
+      updatedAt: now,
+      ...changes,
+    });
+    if (withInput) {
+      await store.saveInput({
+        jobId: id,
+        prompt: 'What is AI?',
+        author: AUTHOR,
+        activityPoints: '10',
+        chainId: CHAIN_ID,
+      });
+    }
+  }
+
+  it('should keep the prompt of a job only until it is finished', async () => {
+    mintPromptForUser.mockResolvedValueOnce(mintResult('0x' + '06'.repeat(32), 'final'));
+
+    const job = await enqueueMintJob('What is AI?', AUTHOR, '10', CHAIN_ID);
+    expect((await store.getInput(job.id))?.prompt).toBe('What is AI?');
+    expect(await getMintJob(job.id)).not.toHaveProperty('prompt');
+
+    await waitForStatus(job.id, 'confirmed');
+    expect(await store.getInput(job.id)).toBeNull();
+  });
+
+  it('should mint jobs that had not sent a transaction from their stored input', async () => {
+    await storeJob('queued-job', { status: 'queued' });
+    await storeJob('authorizing-job', { status: 'authorizing' });
+    mintPromptForUser.mockResolvedValueOnce(mintResult('0x' + '07'.repeat(32), 'final'));
+    mintPromptForUser.mockResolvedValueOnce(mintResult('0x' + '08'.repeat(32), 'final'));
+
+    expect(await recoverMintJobs()).toBe(2);
+
+    await waitForStatus('queued-job', 'confirmed');
+    await waitForStatus('authorizing-job', 'confirmed');
+    expect(mintPromptForUser).toHaveBeenCalledTimes(2);
+    expect(mintPromptForUser.mock.calls[0].slice(0, 4)).toEqual([
+      'What is AI?',
+      AUTHOR,
+      '10',
+      CHAIN_ID,
+    ]);
+  });
+
+  it('should fail a submitted job instead of sending its mint twice', async () => {
+    const hash = '0x' + '09'.repeat(32);
+    await storeJob('submitted-job', { status: 'submitted', transactionHash: hash });
+
+    expect(await recoverMintJobs()).toBe(0);
+
+    const failed = await waitForStatus('submitted-job', 'failed');
+    expect(failed.error?.code).toBe('MINT_INTERRUPTED');
+    expect(failed.error?.message).toContain(hash);
+    expect(mintPromptForUser).not.toHaveBeenCalled();
+    expect(await store.getInput('submitted-job')).toBeNull();
+  });
+
+  it('should fail a job whose input was not stored', async () => {
+    await storeJob('no-input-job', { status: 'queued' }, false);
+
+    await recoverMintJobs();
+
+    expect((await waitForStatus('no-input-job', 'failed')).error?.code).toBe('MINT_INTERRUPTED');
+    expect(mintPromptForUser).not.toHaveBeenCalled();
+  });
+
+  it('should leave finished and included jobs as they are', async () => {
+    await storeJob('included-job', { status: 'confirmed', finality: 'included' });
+    await storeJob('final-job', { status: 'confirmed', finality: 'final' }, false);
+
+    expect(await recoverMintJobs()).toBe(0);
+
+    expect((await getMintJob('included-job'))?.finality).toBe('included');
+    expect(await store.getInput('included-job')).toBeNull();
+    expect((await getMintJob('final-job'))?.status).toBe('confirmed');
+    expect(await store.listUnfinished()).toEqual([expect.objectContaining({ id: 'included-job' })]);
+  });
+});
+
+/**
+ * Mint job stores
+ */
+describe('Mint job stores', () => {
+  let dir: string;
+  const stores: SqliteMintJobStore[] = [];
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'pm-mint-jobs-'));
+  });
+
+  afterEach(() => {
+    stores.splice(0).forEach((sqliteStore) => sqliteStore.close());
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  /**
+   * Opens the SQLite store of the test directory, closed after the test.
+   */
+  function openSqliteStore(): SqliteMintJobStore {
+    const sqliteStore = new SqliteMintJobStore(join(dir, 'mint-jobs.db'));
+    stores.push(sqliteStore);
+    return sqliteStore;
+  }
+
+  /**
+   * Job last updated at the given time.
+   */
+  function jobAt(id: string, updatedAt: number, changes: Partial<MintJob>): MintJob {
+    return {
+      id,
+      status: 'queued',
+      promptHash: ethers.id('prompt'),
+      author: AUTHOR,
+      chainId: CHAIN_ID,
+      createdAt: new Date(updatedAt).toISOString(),
+      updatedAt: new Date(updatedAt).toISOString(),
+      ...changes,
+    };
+  }
+
+  for (const [name, createStore] of [
+    ['in-memory', () => new InMemoryMintJobStore()],
+    ['SQLite', () => openSqliteStore()],
+  ] as const) {
+    it(`should prune only finished jobs of the ${name} store`, async () => {
+      const jobStore: MintJobStore = createStore();
+      const old = Date.now() - 60_000;
+      await jobStore.save(jobAt('failed', old, { status: 'failed' }));
+      await jobStore.save(jobAt('final', old, { status: 'confirmed', finality: 'final' }));
+      await jobStore.save(jobAt('included', old, { status: 'confirmed', finality: 'included' }));
+      await jobStore.save(jobAt('queued', old, { status: 'queued' }));
+      await jobStore.save(jobAt('recent', Date.now(), { status: 'failed' }));
+      await jobStore.saveInput({
+        jobId: 'included',
+        prompt: 'What is AI?',
+        author: AUTHOR,
+        activityPoints: '10',
+        chainId: CHAIN_ID,
+      });
+
+      await jobStore.prune(Date.now() - 30_000);
+
+      for (const id of ['failed', 'final']) {
+        expect(await jobStore.get(id)).toBeNull();
+      }
+      for (const id of ['included', 'queued', 'recent']) {
+        expect((await jobStore.get(id))?.id).toBe(id);
+      }
+      expect((await jobStore.getInput('included'))?.prompt).toBe('What is AI?');
+      const unfinished = (await jobStore.listUnfinished()).map((job) => job.id).sort();
+      expect(unfinished).toEqual(['included', 'queued']);
+    });
+  }
+
+  it('should resume a queued job from the SQLite store after a restart', async () => {
+    const previousRun = new SqliteMintJobStore(join(dir, 'mint-jobs.db'));
+    await previousRun.save(jobAt('queued-job', Date.now(), { status: 'authorizing' }));
+    await previousRun.saveInput({
+      jobId: 'queued-job',
+      prompt: 'What is AI?',
+      author: AUTHOR,
+      activityPoints: '10',
+      chainId: CHAIN_ID,
+    });
+    previousRun.close();
+
+    store = openSqliteStore();
+    setMintJobStore(store);
+    mintPromptForUser.mockResolvedValueOnce(mintResult('0x' + '0a'.repeat(32), 'final'));
+
+    expect(await recoverMintJobs()).toBe(1);
+
+    const job = await waitForStatus('queued-job', 'confirmed');
+    expect(job.transactionHash).toBe('0x' + '0a'.repeat(32));
+    expect(mintPromptForUser.mock.calls[0][0]).toBe('What is AI?');
+    // The prompt is dropped once the job is finished
+    expect(await store.getInput('queued-job')).toBeNull();
+  });
+});
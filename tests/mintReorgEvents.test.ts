@@ -0,0 +1,192 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { ethers } from 'ethers';
+import { contractFactories } from '@project_zero/prompt-mining-sdk';
+import type { FinalityListener } from '../src/services/finalityService';
+
+jest.mock('../src/services/blockchainService', () => {
+  const actual = jest.requireActual<typeof import('../src/services/blockchainService')>(
+    '../src/services/blockchainService'
+  );
+  return {
+    ...actual,
+    ensureRelayerFunds: jest.fn(async () => undefined),
+    estimateMaxMintFee: jest.fn(async () => 0n),
+    checkPromptMinted: jest.fn(async () => false),
+    executeMetaTxMint: jest.fn(),
+    submitMint: jest.fn(),
+    waitForMint: jest.fn(),
+  };
+});
+jest.mock('../src/services/pzeroAuthService', () => {
+  const actual = jest.requireActual<typeof import('../src/services/pzeroAuthService')>(
+    '../src/services/pzeroAuthService'
+  );
+  return {
+    ...actual,
+    findIssuedAuthorization: jest.fn(),
+    ensureAuthorizationNotExpired: jest.fn(),
+    requestMintAuthorization: jest.fn(async () => ({
+      signature: '0x' + '11'.repeat(65),
+      nonce: 1,
+      expiry: Math.floor(Date.now() / 1000) + 3600,
+    })),
+  };
+});
+jest.mock('../src/services/finalityService', () => ({
+  trackFinality: jest.fn(),
+}));
+jest.mock('../src/services/contentStorageService', () => ({
+  storePromptContent: jest.fn(async () => ''),
+}));
+
+import * as blockchainService from '../src/services/blockchainService';
+import * as pzeroAuthService from '../src/services/pzeroAuthService';
+import * as finalityService from '../src/services/finalityService';
+import { subscribeToMintEvents } from '../src/services/mintEventService';
+import { executeMetaTxMint, mintPromptBatch } from '../src/services/promptMiningService';
+import { config } from '../src/config';
+import { MintEvent } from '../src/types';
+
+const CHAIN_ID = '72080';
+const PROMPT_MINER = ethers.Wallet.createRandom().address;
+const AUTHOR = ethers.Wallet.createRandom().address;
+const ACTIVITY_POINTS = ethers.AbiCoder.defaultAbiCoder().encode(['uint256'], [10n]);
+const AUTHORIZATION_SIGNATURE = '0x' + '11'.repeat(65);
+
+const mocked = blockchainService as jest.Mocked<typeof blockchainService>;
+const trackFinality = finalityService.trackFinality as jest.MockedFunction<
+  typeof finalityService.trackFinality
+>;
+
+/** Finality listeners passed for the watched mints, in order */
+let listeners: FinalityListener[];
+let events: MintEvent[];
+let unsubscribe: () => void;
+
+/**
+ * Fake mined receipt of a mint transaction.
+ */
+function receiptFor(hash: string): ethers.TransactionReceipt {
+  return {
+    hash,
+    blockNumber: 100,
+    status: 1,
+    gasUsed: 100000n,
+    gasPrice: 1n,
+    fee: 100000n,
+    from: AUTHOR,
+  } as unknown as ethers.TransactionReceipt;
+}
+
+/**
+ * Failed events published for a transaction.
+ */
+function failedEventsOf(hash: string): MintEvent[] {
+  return events.filter((event) => event.type === 'failed' && event.transactionHash === hash);
+}
+
+beforeEach(() => {
+  config.chains = [
+    {
+      name: 'Test',
+      rpcUrl: 'http://127.0.0.1:1',
+      chainId: CHAIN_ID,
+      promptMinerAddress: PROMPT_MINER,
+    },
+  ];
+  jest.clearAllMocks();
+  listeners = [];
+  trackFinality.mockImplementation(async (_chainId, _receipt, listener = {}) => {
+    listeners.push(listener);
+    return { finality: 'included', requiredConfirmations: 3 };
+  });
+  events = [];
+  unsubscribe = subscribeToMintEvents({}, (event) => events.push(event));
+});
+
+afterEach(() => {
+  unsubscribe();
+});
+
+/**
+ * Mints that are reorged out after the response was returned
+ */
+describe('Reorged mints without a mint job', () => {
+  it('should publish MINT_REORGED for a relayed meta-transaction', async () => {
+    const promptHash = ethers.id('A relayed prompt');
+    const hash = ethers.id('relayed mint');
+    (pzeroAuthService.findIssuedAuthorization as jest.Mock).mockReturnValue({
+      authorization: { signature: AUTHORIZATION_SIGNATURE },
+      promptHash,
+      author: AUTHOR,
+      encodedActivityPoints: ACTIVITY_POINTS,
+      chainId: CHAIN_ID,
+      signerAddress: PROMPT_MINER,
+    });
+    mocked.executeMetaTxMint.mockImplementation(
+      async (_request, _signature, _chainId, onSubmitted) => {
+        onSubmitted?.({ hash, from: AUTHOR, nonce: 0 } as unknown as ethers.TransactionResponse);
+        return receiptFor(hash);
+      }
+    );
+    const iface = contractFactories.PromptMinerWithActivityPoints.createInterface();
+
+    const result = await executeMetaTxMint(
+      {
+        from: AUTHOR,
+        to: PROMPT_MINER,
+        value: 0n,
+        gas: 500000n,
+        nonce: 0n,
+        deadline: BigInt(Math.floor(Date.now() / 1000) + 3600),
+        data: iface.encodeFunctionData('mint(bytes32,string,bytes,bytes)', [
+          promptHash,
+          '',
+          ACTIVITY_POINTS,
+          AUTHORIZATION_SIGNATURE,
+        ]),
+      },
+      '0x' + '22'.repeat(65),
+      CHAIN_ID
+    );
+    expect(result.finality).toBe('included');
+    expect(failedEventsOf(hash)).toHaveLength(0);
+
+    listeners[0].onReorged?.();
+
+    const [failed] = failedEventsOf(hash);
+    expect(failed.promptHash).toBe(promptHash);
+    expect(failed.source).toBe('relayer');
+    expect(failed.error?.code).toBe('MINT_REORGED');
+  });
+
+  it('should publish MINT_REORGED for a reorged batch item only', async () => {
+    let nonce = 0;
+    mocked.submitMint.mockImplementation(async () => {
+      const hash = ethers.zeroPadValue(ethers.toBeHex(++nonce), 32);
+      return { hash, from: AUTHOR, nonce } as unknown as ethers.TransactionResponse;
+    });
+    mocked.waitForMint.mockImplementation(async (tx) => receiptFor(tx.hash));
+
+    const results = await mintPromptBatch(
+      ['First batch prompt', 'Second batch prompt'].map((prompt, index) => ({
+        index,
+        prompt,
+        author: AUTHOR,
+        activityPoints: '10',
+        chainId: CHAIN_ID,
+      }))
+    );
+    expect(results.every((result) => result.success)).toBe(true);
+    expect(listeners).toHaveLength(2);
+
+    const [reorged, kept] = results.map((result) => result.data!.transactionHash);
+    const reorgedIndex = trackFinality.mock.calls.findIndex(
+      ([, receipt]) => receipt.hash === reorged
+    );
+    listeners[reorgedIndex].onReorged?.();
+
+    expect(failedEventsOf(reorged).map((event) => event.error?.code)).toEqual(['MINT_REORGED']);
+    expect(failedEventsOf(kept)).toHaveLength(0);
+  });
+});
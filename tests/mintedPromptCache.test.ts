@@ -0,0 +1,180 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  afterAll,
+  beforeEach,
+  afterEach,
+  jest,
+} from '@jest/globals';
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { ethers } from 'ethers';
+import { contractFactories } from '@project_zero/prompt-mining-sdk';
+
+jest.mock('../src/services/pendingTransactionService', () => {
+  const actual = jest.requireActual<typeof import('../src/services/pendingTransactionService')>(
+    '../src/services/pendingTransactionService'
+  );
+  return { ...actual, waitForTransaction: jest.fn() };
+});
+
+import * as pendingTransactionService from '../src/services/pendingTransactionService';
+import {
+  checkPromptMinted,
+  forgetMintedPrompts,
+  waitForMint,
+} from '../src/services/blockchainService';
+import { PrivateKeySignerProvider, setSignerProvider } from '../src/services/signerProvider';
+import { config } from '../src/config';
+
+const CHAIN_ID = '72080';
+const PROMPT_MINER = ethers.Wallet.createRandom().address;
+const promptMiner = contractFactories.PromptMinerWithActivityPoints.createInterface();
+
+const waitForTransaction = pendingTransactionService.waitForTransaction as jest.MockedFunction<
+  typeof pendingTransactionService.waitForTransaction
+>;
+
+let server: Server;
+let now: number;
+
+/** Prompts the fake node reports as minted */
+let minted: Set<string>;
+
+/** Prompt hashes of the isPromptMinted calls the fake node received */
+let queries: string[];
+
+/**
+ * Answers isPromptMinted calls from the minted set.
+ */
+function answer(request: { id: number; method: string; params: any[] }) {
+  if (request.method === 'eth_chainId') {
+    return { jsonrpc: '2.0', id: request.id, result: ethers.toQuantity(BigInt(CHAIN_ID)) };
+  }
+  const [promptHash] = promptMiner.decodeFunctionData('isPromptMinted', request.params[0].data);
+  queries.push(promptHash);
+  return {
+    jsonrpc: '2.0',
+    id: request.id,
+    result: promptMiner.encodeFunctionResult('isPromptMinted', [minted.has(promptHash)]),
+  };
+}
+
+/**
+ * Receipt of a mint transaction that minted the given prompts.
+ */
+function mintReceipt(...promptHashes: string[]): ethers.TransactionReceipt {
+  return {
+    hash: ethers.id(promptHashes.join()),
+    blockNumber: 100,
+    status: 1,
+    gasUsed: 100000n,
+    fee: 100000n,
+    logs: promptHashes.map((promptHash) => ({
+      address: PROMPT_MINER,
+      ...promptMiner.encodeEventLog('PromptMinted', [promptHash, ethers.ZeroAddress]),
+    })),
+  } as unknown as ethers.TransactionReceipt;
+}
+
+let promptCounter = 0;
+const newPromptHash = () => ethers.id(`cached prompt ${++promptCounter}`);
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  app.post('/', (req, res) => {
+    res.json(Array.isArray(req.body) ? req.body.map(answer) : answer(req.body));
+  });
+  await new Promise<void>((resolve) => {
+    server = app.listen(0, '127.0.0.1', resolve);
+  });
+
+  setSignerProvider(new PrivateKeySignerProvider(ethers.Wallet.createRandom()));
+  config.chains = [
+    {
+      name: 'Test',
+      rpcUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+      chainId: CHAIN_ID,
+      promptMinerAddress: PROMPT_MINER,
+    },
+  ];
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  minted = new Set();
+  queries = [];
+  now = Date.now();
+  jest.spyOn(Date, 'now').mockImplementation(() => now);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+/**
+ * Caching of isPromptMinted answers
+ */
+describe('Minted-prompt cache', () => {
+  it('should answer repeated checks of a minted prompt from the cache', async () => {
+    const promptHash = newPromptHash();
+    minted.add(promptHash);
+
+    expect(await checkPromptMinted(promptHash, CHAIN_ID)).toBe(true);
+    expect(await checkPromptMinted(promptHash.toUpperCase().replace('0X', '0x'), CHAIN_ID)).toBe(
+      true
+    );
+
+    expect(queries).toHaveLength(1);
+  });
+
+  it('should not cache prompts that are not minted', async () => {
+    const promptHash = newPromptHash();
+
+    expect(await checkPromptMinted(promptHash, CHAIN_ID)).toBe(false);
+    minted.add(promptHash);
+    expect(await checkPromptMinted(promptHash, CHAIN_ID)).toBe(true);
+
+    expect(queries).toHaveLength(2);
+  });
+
+  it('should query the chain again after PM_MINTED_CACHE_TTL_MS', async () => {
+    const promptHash = newPromptHash();
+    minted.add(promptHash);
+    await checkPromptMinted(promptHash, CHAIN_ID);
+
+    now += config.mintedCache.ttlMs - 1;
+    await checkPromptMinted(promptHash, CHAIN_ID);
+    expect(queries).toHaveLength(1);
+
+    now += 1;
+    await checkPromptMinted(promptHash, CHAIN_ID);
+    expect(queries).toHaveLength(2);
+  });
+
+  it('should remember the prompts of a confirmed mint and forget them after a reorg', async () => {
+    const [first, second] = [newPromptHash(), newPromptHash()];
+    const receipt = mintReceipt(first, second);
+    waitForTransaction.mockResolvedValue(receipt);
+
+    await waitForMint({ hash: receipt.hash, chainId: BigInt(CHAIN_ID) } as any);
+
+    expect(await checkPromptMinted(first, CHAIN_ID)).toBe(true);
+    expect(await checkPromptMinted(second, CHAIN_ID)).toBe(true);
+    expect(queries).toHaveLength(0);
+
+    // The mint was reorged out: the chain no longer has the prompts
+    forgetMintedPrompts(receipt, CHAIN_ID);
+
+    expect(await checkPromptMinted(first, CHAIN_ID)).toBe(false);
+    expect(await checkPromptMinted(second, CHAIN_ID)).toBe(false);
+    expect(queries).toEqual([first, second]);
+  });
+});
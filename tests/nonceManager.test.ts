@@ -0,0 +1,198 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { ethers } from 'ethers';
+import { resetNonce, sendWithNonce } from '../src/services/nonceManager';
+
+const CHAIN_ID = '72080';
+
+/**
+ * Fake relayer wallet whose node reports the given pending nonce.
+ */
+function fakeWallet(pendingNonce: number) {
+  const provider = {
+    getTransactionCount: jest.fn(async (_address: string, _blockTag: string) => pendingNonce),
+    getTransaction: jest.fn(async (_hash: string): Promise<unknown> => null),
+  };
+  const wallet = {
+    address: ethers.Wallet.createRandom().address,
+    provider,
+  } as unknown as ethers.Signer & { address: string };
+  return { wallet, provider };
+}
+
+/**
+ * Fake transaction response sent with a nonce.
+ */
+const sentTx = (nonce: number) => ({ hash: ethers.id(`tx ${nonce}`), nonce }) as any;
+
+/**
+ * Error ethers throws when eth_sendRawTransaction fails.
+ */
+function broadcastError(message: string, signedTx = '0x') {
+  return Object.assign(new Error(`could not coalesce error (error={ "message": "${message}" })`), {
+    code: 'UNKNOWN_ERROR',
+    error: { code: -32000, message },
+    payload: { method: 'eth_sendRawTransaction', params: [signedTx] },
+  });
+}
+
+let sent: number[];
+
+beforeEach(() => {
+  sent = [];
+});
+
+/**
+ * Nonce allocation for relayer wallets
+ */
+describe('sendWithNonce', () => {
+  it('should give concurrent broadcasts sequential nonces', async () => {
+    const { wallet, provider } = fakeWallet(5);
+    const send = async (nonce: number) => {
+      sent.push(nonce);
+      // Let the other calls run while this broadcast is in flight
+      await new Promise((resolve) => setImmediate(resolve));
+      return sentTx(nonce);
+    };
+
+    const txs = await Promise.all([
+      sendWithNonce(CHAIN_ID, wallet, send),
+      sendWithNonce(CHAIN_ID, wallet, send),
+      sendWithNonce(CHAIN_ID, wallet, send),
+    ]);
+
+    expect(sent).toEqual([5, 6, 7]);
+    expect(txs.map((tx) => tx.nonce)).toEqual([5, 6, 7]);
+    expect(provider.getTransactionCount).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep separate nonces per chain', async () => {
+    const { wallet } = fakeWallet(3);
+    const send = async (nonce: number) => {
+      sent.push(nonce);
+      return sentTx(nonce);
+    };
+
+    await sendWithNonce(CHAIN_ID, wallet, send);
+    await sendWithNonce('1', wallet, send);
+
+    expect(sent).toEqual([3, 3]);
+  });
+
+  it('should resync the nonce from the node after a failed broadcast', async () => {
+    const { wallet, provider } = fakeWallet(10);
+    const send = async (nonce: number) => {
+      sent.push(nonce);
+      return sentTx(nonce);
+    };
+
+    await sendWithNonce(CHAIN_ID, wallet, send);
+    await expect(
+      sendWithNonce(CHAIN_ID, wallet, async () => {
+        throw new Error('insufficient funds for gas * price + value');
+      })
+    ).rejects.toThrow('insufficient funds');
+
+    provider.getTransactionCount.mockResolvedValue(11);
+    await sendWithNonce(CHAIN_ID, wallet, send);
+
+    expect(sent).toEqual([10, 11]);
+    expect(provider.getTransactionCount).toHaveBeenCalledTimes(2);
+  });
+
+  it('should keep the queue running after a failed broadcast', async () => {
+    const { wallet } = fakeWallet(0);
+    const failing = sendWithNonce(CHAIN_ID, wallet, async () => {
+      throw new Error('timeout');
+    });
+    const next = sendWithNonce(CHAIN_ID, wallet, async (nonce) => sentTx(nonce));
+
+    await expect(failing).rejects.toThrow('timeout');
+    expect((await next).nonce).toBe(0);
+  });
+
+  it('should retry a stale nonce once with the nonce of the node', async () => {
+    const { wallet, provider } = fakeWallet(2);
+    await sendWithNonce(CHAIN_ID, wallet, async (nonce) => sentTx(nonce));
+
+    // Another process used nonces 3 and 4
+    provider.getTransactionCount.mockResolvedValue(5);
+    const tx = await sendWithNonce(CHAIN_ID, wallet, async (nonce) => {
+      sent.push(nonce);
+      if (nonce < 5) {
+        throw broadcastError('nonce too low');
+      }
+      return sentTx(nonce);
+    });
+
+    expect(sent).toEqual([3, 5]);
+    expect(tx.nonce).toBe(5);
+  });
+
+  it('should give up after the retry of a stale nonce fails', async () => {
+    const { wallet } = fakeWallet(2);
+    const send = jest.fn(async (_nonce: number): Promise<any> => {
+      throw broadcastError('nonce too low');
+    });
+
+    await expect(sendWithNonce(CHAIN_ID, wallet, send)).rejects.toThrow('nonce too low');
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it('should use the broadcast transaction when the node already knows it', async () => {
+    const { wallet, provider } = fakeWallet(4);
+    const signer = ethers.Wallet.createRandom();
+    const signedTx = await signer.signTransaction({
+      to: signer.address,
+      nonce: 4,
+      gasLimit: 21000n,
+      gasPrice: 1n,
+      chainId: 72080n,
+    });
+    const hash = ethers.Transaction.from(signedTx).hash!;
+    provider.getTransaction.mockImplementation(async (txHash) =>
+      txHash === hash ? { hash, nonce: 4 } : null
+    );
+
+    const send = jest.fn(async (_nonce: number): Promise<any> => {
+      throw broadcastError('already known', signedTx);
+    });
+    const tx = await sendWithNonce(CHAIN_ID, wallet, send);
+
+    expect(tx.hash).toBe(hash);
+    expect(send).toHaveBeenCalledTimes(1);
+
+    // Nonce 4 is used: the next broadcast gets 5 without a resync
+    await sendWithNonce(CHAIN_ID, wallet, async (nonce) => {
+      sent.push(nonce);
+      return sentTx(nonce);
+    });
+    expect(sent).toEqual([5]);
+    expect(provider.getTransactionCount).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not retry "already known" as a nonce error when the transaction cannot be found', async () => {
+    const { wallet } = fakeWallet(4);
+    const send = jest.fn(async (_nonce: number): Promise<any> => {
+      throw broadcastError('already known');
+    });
+
+    await expect(sendWithNonce(CHAIN_ID, wallet, send)).rejects.toThrow('already known');
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+});
+
+/**
+ * Manual resync
+ */
+describe('resetNonce', () => {
+  it('should resync the nonce from the node on next use', async () => {
+    const { wallet, provider } = fakeWallet(1);
+    await sendWithNonce(CHAIN_ID, wallet, async (nonce) => sentTx(nonce));
+
+    provider.getTransactionCount.mockResolvedValue(9);
+    resetNonce(CHAIN_ID, wallet.address);
+    const tx = await sendWithNonce(CHAIN_ID, wallet, async (nonce) => sentTx(nonce));
+
+    expect(tx.nonce).toBe(9);
+  });
+});
@@ -0,0 +1,237 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { ethers } from 'ethers';
+import {
+  cancelTransaction,
+  getFailedTransactionReceipt,
+  listPendingTransactions,
+  speedUpTransaction,
+  trackTransaction,
+  waitForTransaction,
+} from '../src/services/pendingTransactionService';
+import { BackendSigner } from '../src/services/signerProvider';
+import { config } from '../src/config';
+
+const CHAIN_ID = '72080';
+const gwei = (amount: number) => ethers.parseUnits(String(amount), 'gwei');
+
+let txCounter = 0;
+
+/**
+ * Fake broadcast transaction; wait() resolves once the test mines it.
+ */
+function fakeTx(fields: Partial<ethers.TransactionResponse> & { from: string; nonce: number }) {
+  let mine: (receipt: unknown) => void = () => undefined;
+  const mined = new Promise((resolve) => {
+    mine = resolve;
+  });
+  const tx = {
+    hash: ethers.id(`tx ${++txCounter}`),
+    chainId: BigInt(CHAIN_ID),
+    type: 2,
+    maxFeePerGas: gwei(100),
+    maxPriorityFeePerGas: gwei(10),
+    to: ethers.ZeroAddress,
+    value: 0n,
+    data: '0x1234',
+    gasLimit: 200000n,
+    wait: () => mined,
+    ...fields,
+  } as unknown as ethers.TransactionResponse;
+  return { tx, mine: () => mine({ hash: tx.hash, status: 1 }) };
+}
+
+/**
+ * Fake backend wallet whose node has mined the given number of its transactions.
+ */
+function fakeWallet(minedCount: number) {
+  const address = ethers.Wallet.createRandom().address;
+  const provider = {
+    getTransactionCount: jest.fn(async () => minedCount),
+    getFeeData: jest.fn(async () => ({
+      maxFeePerGas: gwei(50),
+      maxPriorityFeePerGas: gwei(2),
+      gasPrice: gwei(26),
+    })),
+  };
+  const sendTransaction = jest.fn(
+    async (request: ethers.TransactionRequest) =>
+      fakeTx({ ...(request as object), from: address, nonce: request.nonce! }).tx
+  );
+  const wallet = { address, provider, sendTransaction } as unknown as BackendSigner;
+  return { wallet, provider, sendTransaction };
+}
+
+let mineTracked: Array<() => Promise<unknown>>;
+
+beforeEach(() => {
+  config.chains = [
+    {
+      name: 'Test',
+      rpcUrl: 'http://127.0.0.1:1',
+      chainId: CHAIN_ID,
+      promptMinerAddress: ethers.ZeroAddress,
+    },
+  ];
+  mineTracked = [];
+});
+
+afterEach(async () => {
+  // Stop tracking (and the stuck transaction monitor)
+  await Promise.all(mineTracked.map((mine) => mine()));
+});
+
+/**
+ * Tracks a pending transaction of a wallet.
+ */
+function trackPending(wallet: BackendSigner, nonce: number) {
+  const { tx, mine } = fakeTx({ from: wallet.address, nonce });
+  trackTransaction(CHAIN_ID, wallet, tx);
+  mineTracked.push(() => {
+    mine();
+    return waitForTransaction(tx);
+  });
+  return tx;
+}
+
+/**
+ * Admin speed-up and cancellation of pending transactions
+ */
+describe('Pending transaction replacement', () => {
+  it('should speed up a transaction with the same nonce and call, and higher fees', async () => {
+    const { wallet, sendTransaction } = fakeWallet(5);
+    const tx = trackPending(wallet, 5);
+
+    const pending = await speedUpTransaction(tx.hash, 20);
+
+    expect(sendTransaction).toHaveBeenCalledWith(
+      expect.objectContaining({
+        nonce: 5,
+        to: tx.to,
+        data: tx.data,
+        value: tx.value,
+        gasLimit: tx.gasLimit,
+        maxFeePerGas: gwei(120),
+        maxPriorityFeePerGas: gwei(12),
+      })
+    );
+    expect(pending).toMatchObject({ originalHash: tx.hash, bumps: 1, cancelling: false });
+    expect(pending.hashes).toHaveLength(2);
+    expect(pending.fees).toEqual({
+      maxFeePerGas: gwei(120).toString(),
+      maxPriorityFeePerGas: gwei(12).toString(),
+    });
+  });
+
+  it('should bump the latest broadcast when sped up again', async () => {
+    const { wallet, sendTransaction } = fakeWallet(5);
+    const tx = trackPending(wallet, 5);
+
+    const first = await speedUpTransaction(tx.hash, 20);
+    // Found by the hash of the replacement too
+    await speedUpTransaction(first.currentHash, 10);
+
+    expect(sendTransaction).toHaveBeenLastCalledWith(
+      expect.objectContaining({ maxFeePerGas: gwei(132), maxPriorityFeePerGas: gwei(13.2) })
+    );
+  });
+
+  it('should cancel a transaction with a 0-value transfer to the wallet itself', async () => {
+    const { wallet, sendTransaction } = fakeWallet(5);
+    const tx = trackPending(wallet, 5);
+
+    const pending = await cancelTransaction(tx.hash);
+
+    expect(sendTransaction).toHaveBeenCalledWith(
+      expect.objectContaining({
+        nonce: 5,
+        to: wallet.address,
+        value: 0n,
+        data: '0x',
+        gasLimit: 21000n,
+      })
+    );
+    expect(pending.cancelling).toBe(true);
+  });
+
+  it('should refuse to replace a transaction whose nonce was mined', async () => {
+    const { wallet, sendTransaction } = fakeWallet(6);
+    const tx = trackPending(wallet, 5);
+
+    await expect(speedUpTransaction(tx.hash, 20)).rejects.toMatchObject({
+      statusCode: 409,
+      code: 'TRANSACTION_ALREADY_MINED',
+    });
+    expect(sendTransaction).not.toHaveBeenCalled();
+  });
+
+  it('should refuse a replacement the fee ceiling keeps below the minimum bump', async () => {
+    config.chains[0].feePolicy = { maxFeePerGasGwei: '105' };
+    const { wallet, sendTransaction } = fakeWallet(5);
+    const tx = trackPending(wallet, 5);
+
+    await expect(speedUpTransaction(tx.hash, 20)).rejects.toMatchObject({
+      statusCode: 409,
+      code: 'FEE_CEILING_REACHED',
+    });
+    expect(sendTransaction).not.toHaveBeenCalled();
+    expect(listPendingTransactions().find((p) => p.originalHash === tx.hash)?.bumps).toBe(0);
+  });
+
+  it('should answer 404 for a hash that is not pending', async () => {
+    await expect(speedUpTransaction(ethers.id('unknown'), 20)).rejects.toMatchObject({
+      statusCode: 404,
+      code: 'TRANSACTION_NOT_PENDING',
+    });
+  });
+});
+
+/**
+ * Waiting for transactions that were replaced
+ */
+describe('waitForTransaction', () => {
+  /**
+   * Fake transaction whose wait() fails because another broadcast used its nonce.
+   */
+  function replacedTx(reason: 'repriced' | 'cancelled' | 'replaced', status = 1) {
+    const replacementHash = ethers.id(`replacement ${++txCounter}`);
+    const { tx } = fakeTx({ from: ethers.ZeroAddress, nonce: 0 });
+    (tx as { wait: () => Promise<unknown> }).wait = async () => {
+      throw ethers.makeError('transaction was replaced', 'TRANSACTION_REPLACED', {
+        cancelled: reason !== 'repriced',
+        reason,
+        hash: replacementHash,
+        replacement: {} as ethers.TransactionResponse,
+        receipt: {
+          hash: replacementHash,
+          status,
+          fee: 21000n,
+        } as unknown as ethers.TransactionReceipt,
+      });
+    };
+    return { tx, replacementHash };
+  }
+
+  it('should return the receipt of a sped-up replacement', async () => {
+    const { tx, replacementHash } = replacedTx('repriced');
+
+    expect((await waitForTransaction(tx)).hash).toBe(replacementHash);
+  });
+
+  it('should fail with the receipt when the replacement reverted', async () => {
+    const { tx, replacementHash } = replacedTx('repriced', 0);
+
+    const error = await waitForTransaction(tx).catch((e) => e);
+
+    expect(error.message).toContain('reverted');
+    expect(getFailedTransactionReceipt(error)?.hash).toBe(replacementHash);
+  });
+
+  it('should fail with the receipt of the cancellation when the transaction was cancelled', async () => {
+    const { tx, replacementHash } = replacedTx('cancelled');
+
+    const error = await waitForTransaction(tx).catch((e) => e);
+
+    expect(error.message).toContain('was cancelled');
+    expect(getFailedTransactionReceipt(error)?.hash).toBe(replacementHash);
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import { config, MigrationArg } from '../src/config';
+import { submitMigration } from '../src/services/blockchainService';
+import { PrivateKeySignerProvider, setSignerProvider } from '../src/services/signerProvider';
+
+const CHAIN_ID = '72080';
+const PROMPT_HASH = ethers.id('A migrated prompt');
+const TARGET = {
+  promptMinerAddress: ethers.Wallet.createRandom().address,
+  dataPointAddress: ethers.Wallet.createRandom().address,
+};
+
+/** migratePrompt as declared by the contract artifact; input names say nothing about the values */
+const MIGRATE_PROMPT = new ethers.Interface([
+  'function migratePrompt(bytes32 id, address to, address target)',
+]);
+
+let server: Server;
+let dir: string;
+
+/** Calldata of the eth_calls the fake node received */
+let calls: string[];
+
+/**
+ * Answers the JSON-RPC requests of the migration preflight. eth_call
+ * succeeds; the gas estimate reverts, so nothing is ever sent.
+ */
+function answer(request: { id: number; method: string; params: any[] }) {
+  switch (request.method) {
+    case 'eth_chainId':
+      return { jsonrpc: '2.0', id: request.id, result: ethers.toQuantity(BigInt(CHAIN_ID)) };
+    case 'eth_call':
+      calls.push(request.params[0].data);
+      return { jsonrpc: '2.0', id: request.id, result: '0x' };
+    default:
+      return {
+        jsonrpc: '2.0',
+        id: request.id,
+        error: { code: 3, message: 'execution reverted', data: '0x' },
+      };
+  }
+}
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  app.post('/', (req, res) => {
+    res.json(Array.isArray(req.body) ? req.body.map(answer) : answer(req.body));
+  });
+  await new Promise<void>((resolve) => {
+    server = app.listen(0, '127.0.0.1', resolve);
+  });
+
+  dir = mkdtempSync(path.join(tmpdir(), 'pm-migration-'));
+  const abiPath = path.join(dir, 'PromptMiner.json');
+  writeFileSync(abiPath, JSON.stringify({ abi: MIGRATE_PROMPT.formatJson() }));
+  config.migration.abiPath = abiPath;
+  setSignerProvider(new PrivateKeySignerProvider(ethers.Wallet.createRandom()));
+  config.chains = [
+    {
+      name: 'Test',
+      rpcUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+      chainId: CHAIN_ID,
+      promptMinerAddress: ethers.Wallet.createRandom().address,
+    },
+  ];
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+  rmSync(dir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  calls = [];
+  config.migration.args = ['promptHash', 'promptMiner', 'dataPoint'];
+});
+
+/**
+ * Binding of PM_MIGRATION_ARGS to the inputs of the configured migratePrompt
+ */
+describe('Prompt migration arguments', () => {
+  it('should bind the arguments to the inputs by position', async () => {
+    await expect(submitMigration(PROMPT_HASH, TARGET, CHAIN_ID)).rejects.toThrow(
+      'Migration transaction failed'
+    );
+
+    expect(calls).toHaveLength(1);
+    const args = MIGRATE_PROMPT.decodeFunctionData('migratePrompt', calls[0]);
+    expect([...args]).toEqual([PROMPT_HASH, TARGET.promptMinerAddress, TARGET.dataPointAddress]);
+  });
+
+  it('should follow the configured order', async () => {
+    config.migration.args = ['promptHash', 'dataPoint', 'promptMiner'];
+
+    await submitMigration(PROMPT_HASH, TARGET, CHAIN_ID).catch(() => undefined);
+
+    const args = MIGRATE_PROMPT.decodeFunctionData('migratePrompt', calls[0]);
+    expect([...args]).toEqual([PROMPT_HASH, TARGET.dataPointAddress, TARGET.promptMinerAddress]);
+  });
+
+  it.each<[string, MigrationArg[] | null, string]>([
+    ['not configured', null, 'Set PM_MIGRATION_ARGS'],
+    ['missing an input', ['promptHash', 'promptMiner'], 'lists 2 argument(s)'],
+    [
+      'of the wrong type',
+      ['promptMiner', 'promptHash', 'dataPoint'],
+      'binds promptMiner (address) to input 0',
+    ],
+  ])('should refuse to migrate when the arguments are %s', async (_case, args, message) => {
+    config.migration.args = args;
+
+    const error = await submitMigration(PROMPT_HASH, TARGET, CHAIN_ID).catch((e) => e);
+
+    expect(error).toMatchObject({ statusCode: 501, code: 'MIGRATION_NOT_SUPPORTED' });
+    expect(error.message).toContain(message);
+    expect(calls).toHaveLength(0);
+  });
+});
@@ -0,0 +1,225 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { ethers } from 'ethers';
+
+const post = jest.fn<(url: string, body: unknown) => Promise<{ data: unknown }>>();
+
+jest.mock('axios', () => ({
+  __esModule: true,
+  default: {
+    create: () => ({ post, get: jest.fn() }),
+    isAxiosError: () => false,
+  },
+}));
+
+import {
+  findIssuedAuthorization,
+  invalidateMintAuthorizations,
+  requestMintAuthorization,
+} from '../src/services/pzeroAuthService';
+import { config } from '../src/config';
+
+const CHAIN_ID = '72080';
+const PROMPT_MINER = ethers.Wallet.createRandom().address;
+const AUTHOR = ethers.Wallet.createRandom().address;
+const ENCODED_POINTS = ethers.AbiCoder.defaultAbiCoder().encode(['uint256'], [10n]);
+
+const validAuthorization = () => ({
+  signature: '0x' + '1b'.repeat(65),
+  nonce: '7',
+  expiry: Math.floor(Date.now() / 1000) + 3600,
+});
+
+let promptCounter = 0;
+const request = () =>
+  requestMintAuthorization(
+    ethers.id(`prompt ${++promptCounter}`),
+    AUTHOR,
+    ENCODED_POINTS,
+    CHAIN_ID,
+    PROMPT_MINER
+  );
+
+beforeEach(() => {
+  config.chains = [
+    {
+      name: 'Test',
+      rpcUrl: 'http://127.0.0.1:1',
+      chainId: CHAIN_ID,
+      promptMinerAddress: PROMPT_MINER,
+    },
+  ];
+  post.mockReset();
+});
+
+/**
+ * PZERO mint authorization responses
+ */
+describe('requestMintAuthorization', () => {
+  it('should return a well-formed authorization', async () => {
+    const authorization = { ...validAuthorization(), signature: '0x' + '2c'.repeat(65), nonce: 7 };
+    post.mockResolvedValue({ data: { authorization } });
+
+    const result = await request();
+
+    expect(result).toEqual({ ...authorization, nonce: '7' });
+    expect(findIssuedAuthorization(authorization.signature)).toBeDefined();
+  });
+
+  it.each([
+    ['a missing authorization', undefined],
+    ['a short signature', { ...validAuthorization(), signature: '0x1234' }],
+    ['a non-hex signature', { ...validAuthorization(), signature: '0x' + 'zz'.repeat(65) }],
+    ['a fractional nonce', { ...validAuthorization(), nonce: 1.5 }],
+    ['a missing nonce', { ...validAuthorization(), nonce: undefined }],
+    ['a NaN expiry', { ...validAuthorization(), expiry: NaN }],
+    ['a string expiry', { ...validAuthorization(), expiry: '1700000000' }],
+  ])('should refuse %s with a 502 and not cache it', async (_label, authorization) => {
+    post.mockResolvedValue({ data: { authorization } });
+
+    await expect(request()).rejects.toMatchObject({
+      code: 'INVALID_AUTHORIZATION_RESPONSE',
+      statusCode: 502,
+    });
+    const signature = (authorization as { signature?: unknown } | undefined)?.signature;
+    if (typeof signature === 'string') {
+      expect(findIssuedAuthorization(signature)).toBeUndefined();
+    }
+  });
+
+  it('should refuse a response without a body', async () => {
+    post.mockResolvedValue({ data: undefined });
+
+    await expect(request()).rejects.toMatchObject({ code: 'INVALID_AUTHORIZATION_RESPONSE' });
+  });
+});
+
+/**
+ * Reuse of recently issued authorizations
+ */
+describe('Authorization cache', () => {
+  const OTHER_CHAIN_ID = '56';
+  const promptHash = () => ethers.id(`cached prompt ${++promptCounter}`);
+  let issued = 0;
+  let now: number;
+
+  /**
+   * Requests an authorization, with the default author, points and PromptMiner unless overridden.
+   */
+  const authorize = (
+    hash: string,
+    changes: Partial<{ author: string; points: string; chainId: string; signer: string }> = {}
+  ) =>
+    requestMintAuthorization(
+      hash,
+      changes.author ?? AUTHOR,
+      changes.points ?? ENCODED_POINTS,
+      changes.chainId ?? CHAIN_ID,
+      changes.signer ?? PROMPT_MINER
+    );
+
+  beforeEach(() => {
+    now = Date.now();
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    config.chains.push({
+      name: 'Other',
+      rpcUrl: 'http://127.0.0.1:1',
+      chainId: OTHER_CHAIN_ID,
+      promptMinerAddress: PROMPT_MINER,
+    });
+    // Every PZERO response carries a new signature
+    post.mockImplementation(async () => ({
+      data: {
+        authorization: {
+          ...validAuthorization(),
+          signature: ethers.toBeHex(++issued, 65),
+          expiry: Math.floor(now / 1000) + 3600,
+        },
+      },
+    }));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should reuse the authorization issued for the same parameters', async () => {
+    const hash = promptHash();
+
+    const first = await authorize(hash);
+    const second = await authorize(hash.toUpperCase().replace('0X', '0x'), {
+      author: AUTHOR.toLowerCase(),
+    });
+
+    expect(second).toEqual(first);
+    expect(post).toHaveBeenCalledTimes(1);
+  });
+
+  it('should request a new authorization when any parameter differs', async () => {
+    const hash = promptHash();
+    const first = await authorize(hash);
+
+    const others = [
+      await authorize(promptHash()),
+      await authorize(hash, { chainId: OTHER_CHAIN_ID }),
+      await authorize(hash, { author: ethers.Wallet.createRandom().address }),
+      await authorize(hash, {
+        points: ethers.AbiCoder.defaultAbiCoder().encode(['uint256'], [20n]),
+      }),
+      await authorize(hash, { signer: ethers.Wallet.createRandom().address }),
+    ];
+
+    expect(post).toHaveBeenCalledTimes(6);
+    const signatures = new Set([first, ...others].map((result) => result.signature));
+    expect(signatures.size).toBe(6);
+    // Both authorizations for the prompt on the first chain are kept
+    expect(await authorize(hash)).toEqual(first);
+    expect(post).toHaveBeenCalledTimes(6);
+  });
+
+  it('should expire entries after PM_AUTHORIZATION_CACHE_TTL_MS', async () => {
+    const hash = promptHash();
+    const first = await authorize(hash);
+
+    now += config.authorizationCache.ttlMs - 1;
+    expect(await authorize(hash)).toEqual(first);
+
+    now += 1;
+    expect(await authorize(hash)).not.toEqual(first);
+    expect(post).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not reuse an authorization past its expiry margin', async () => {
+    const hash = promptHash();
+    const expiresIn = config.pzero.expiryMarginSeconds + 60;
+    post.mockImplementationOnce(async () => ({
+      data: {
+        authorization: {
+          ...validAuthorization(),
+          signature: ethers.toBeHex(++issued, 65),
+          expiry: Math.floor(now / 1000) + expiresIn,
+        },
+      },
+    }));
+    const first = await authorize(hash);
+
+    now += 59_000;
+    expect(await authorize(hash)).toEqual(first);
+
+    now += 1_000;
+    expect(await authorize(hash)).not.toEqual(first);
+  });
+
+  it('should drop the authorizations of a prompt on one chain when it is invalidated', async () => {
+    const hash = promptHash();
+    const author = ethers.Wallet.createRandom().address;
+    const kept = await authorize(hash, { chainId: OTHER_CHAIN_ID });
+    const dropped = [await authorize(hash), await authorize(hash, { author })];
+
+    invalidateMintAuthorizations(hash, CHAIN_ID);
+
+    expect(await authorize(hash)).not.toEqual(dropped[0]);
+    expect(await authorize(hash, { author })).not.toEqual(dropped[1]);
+    expect(await authorize(hash, { chainId: OTHER_CHAIN_ID })).toEqual(kept);
+    expect(post).toHaveBeenCalledTimes(5);
+  });
+});
@@ -0,0 +1,203 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { ethers } from 'ethers';
+import { config } from '../src/config';
+import { getRelayerStats, withRelayer } from '../src/services/relayerPool';
+import {
+  speedUpTransaction,
+  trackTransaction,
+  waitForTransaction,
+} from '../src/services/pendingTransactionService';
+import { BackendSigner } from '../src/services/signerProvider';
+
+const gwei = (amount: number) => ethers.parseUnits(String(amount), 'gwei');
+
+/** Pools are kept per chain for the process, so every test gets its own chain */
+let chainCounter = 0;
+let chainId: string;
+let now: number;
+let addresses: string[];
+let balances: Map<string, bigint>;
+let provider: ethers.Provider;
+let mineTracked: Array<() => Promise<unknown>>;
+
+/**
+ * Tracks a pending transaction of a relayer wallet, as sent by the mint flows.
+ */
+function trackPending(address: string, nonce: number): ethers.TransactionResponse {
+  let mine: (receipt: unknown) => void = () => undefined;
+  const mined = new Promise((resolve) => {
+    mine = resolve;
+  });
+  const tx = {
+    hash: ethers.id(`${chainId} ${address} ${nonce}`),
+    chainId: BigInt(chainId),
+    from: address,
+    nonce,
+    type: 2,
+    maxFeePerGas: gwei(100),
+    maxPriorityFeePerGas: gwei(10),
+    to: ethers.ZeroAddress,
+    value: 0n,
+    data: '0x',
+    gasLimit: 100000n,
+    wait: () => mined,
+  } as unknown as ethers.TransactionResponse;
+  const wallet = {
+    address,
+    provider: {
+      getTransactionCount: async () => nonce,
+      getFeeData: async () => ({ maxFeePerGas: gwei(50), maxPriorityFeePerGas: gwei(2) }),
+    },
+    sendTransaction: async (request: ethers.TransactionRequest) => ({
+      ...tx,
+      ...request,
+      hash: ethers.id(`${tx.hash} replaced`),
+    }),
+  } as unknown as BackendSigner;
+
+  trackTransaction(chainId, wallet, tx);
+  mineTracked.push(() => {
+    mine({ hash: tx.hash, status: 1 });
+    return waitForTransaction(tx);
+  });
+  return tx;
+}
+
+/**
+ * Sends from the pool and returns the address of the wallet that was picked.
+ */
+const send = () => withRelayer(chainId, provider, async (wallet) => wallet.address);
+
+/**
+ * Status of each relayer wallet, in configuration order.
+ */
+const statuses = async () =>
+  (await getRelayerStats(chainId, provider)).map((relayer) => relayer.status);
+
+beforeEach(() => {
+  chainId = String(900000 + ++chainCounter);
+  config.chains = [
+    {
+      name: 'Test',
+      rpcUrl: 'http://127.0.0.1:1',
+      chainId,
+      promptMinerAddress: ethers.ZeroAddress,
+    },
+  ];
+  const keys = Array.from({ length: 3 }, () => ethers.hexlify(ethers.randomBytes(32)));
+  addresses = keys.map((key) => new ethers.Wallet(key).address);
+  config.relayers.signers = { [chainId]: keys };
+
+  balances = new Map(addresses.map((address) => [address, ethers.parseEther('1')]));
+  provider = {
+    getBalance: jest.fn(async (address: string) => balances.get(address) ?? 0n),
+  } as unknown as ethers.Provider;
+
+  now = Date.now();
+  jest.spyOn(Date, 'now').mockImplementation(() => now);
+  mineTracked = [];
+});
+
+afterEach(async () => {
+  await Promise.all(mineTracked.map((mine) => mine()));
+  jest.restoreAllMocks();
+  config.relayers.signers = {};
+});
+
+/**
+ * Choice of the relayer wallet for each transaction
+ */
+describe('Relayer wallet selection', () => {
+  it('should rotate over idle wallets, least recently used first', async () => {
+    const picked: string[] = [];
+    for (let i = 0; i < 4; i++) {
+      picked.push(await send());
+      now += 1000;
+    }
+
+    expect(picked).toEqual([addresses[0], addresses[1], addresses[2], addresses[0]]);
+  });
+
+  it('should prefer the wallet with the fewest pending transactions', async () => {
+    trackPending(addresses[0], 0);
+    trackPending(addresses[1], 0);
+    trackPending(addresses[1], 1);
+
+    expect(await send()).toBe(addresses[2]);
+    now += 1000;
+    trackPending(addresses[2], 0);
+    trackPending(addresses[2], 1);
+    expect(await send()).toBe(addresses[0]);
+  });
+
+  it('should send concurrent transactions from different wallets', async () => {
+    let release: () => void = () => undefined;
+    const held = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+
+    const sends = Array.from({ length: 3 }, () =>
+      withRelayer(chainId, provider, async (wallet) => {
+        await held;
+        return wallet.address;
+      })
+    );
+    const busy = await getRelayerStats(chainId, provider);
+    release();
+
+    expect(new Set(await Promise.all(sends)).size).toBe(3);
+    expect(busy.map((relayer) => relayer.inFlight)).toEqual([1, 1, 1]);
+  });
+
+  it('should skip drained wallets and refuse once every wallet is drained', async () => {
+    balances.set(addresses[0], 0n);
+
+    expect(await send()).toBe(addresses[1]);
+    expect(await statuses()).toEqual(['drained', 'available', 'available']);
+
+    for (const address of addresses) {
+      balances.set(address, 0n);
+    }
+    now += config.relayers.balancePollIntervalMs;
+
+    await expect(send()).rejects.toMatchObject({ statusCode: 503, code: 'RELAYER_FUNDS_CRITICAL' });
+  });
+});
+
+/**
+ * Wallets whose pending transactions have not been mined in time
+ */
+describe('Stuck relayer wallets', () => {
+  it('should skip a wallet whose transaction is stuck', async () => {
+    trackPending(addresses[0], 0);
+    now += config.stuckTransactions.timeoutMs;
+    trackPending(addresses[1], 0);
+    trackPending(addresses[2], 0);
+
+    expect(await statuses()).toEqual(['stuck', 'available', 'available']);
+    expect(await send()).toBe(addresses[1]);
+  });
+
+  it('should measure stuck time from the last broadcast or fee bump', async () => {
+    const tx = trackPending(addresses[0], 0);
+    now += config.stuckTransactions.timeoutMs - 1000;
+
+    await speedUpTransaction(tx.hash);
+    now += 1000;
+
+    // Pending since longer than the timeout, but sped up since
+    expect((await statuses())[0]).toBe('available');
+
+    now += config.stuckTransactions.timeoutMs;
+    expect((await statuses())[0]).toBe('stuck');
+  });
+
+  it('should refuse when every wallet is stuck', async () => {
+    for (const address of addresses) {
+      trackPending(address, 0);
+    }
+    now += config.stuckTransactions.timeoutMs;
+
+    await expect(send()).rejects.toMatchObject({ statusCode: 503, code: 'NO_RELAYER_AVAILABLE' });
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { ethers } from 'ethers';
+import { RemoteSigner } from '../src/utils/remoteSigner';
+
+const account = ethers.Wallet.createRandom();
+let server: http.Server;
+let url: string;
+
+/**
+ * Local stand-in for a Web3Signer-style signing service holding one key.
+ */
+async function handle(method: string, params: any[]): Promise<unknown> {
+  switch (method) {
+    case 'eth_signTransaction': {
+      const tx = params[0];
+      return await account.signTransaction({
+        to: tx.to,
+        gasLimit: tx.gas,
+        gasPrice: tx.gasPrice,
+        maxFeePerGas: tx.maxFeePerGas,
+        maxPriorityFeePerGas: tx.maxPriorityFeePerGas,
+        value: tx.value,
+        data: tx.data,
+        nonce: Number(tx.nonce),
+        chainId: tx.chainId,
+        type: tx.type === undefined ? undefined : Number(tx.type),
+      });
+    }
+    case 'eth_sign':
+      return await account.signMessage(ethers.getBytes(params[1]));
+    case 'eth_signTypedData': {
+      const { domain, types, message } = JSON.parse(params[1]);
+      delete types.EIP712Domain;
+      return await account.signTypedData(domain, types, message);
+    }
+    default:
+      throw new Error(`Unsupported method ${method}`);
+  }
+}
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', async () => {
+      const { id, method, params } = JSON.parse(body);
+      res.setHeader('Content-Type', 'application/json');
+      try {
+        res.end(JSON.stringify({ jsonrpc: '2.0', id, result: await handle(method, params) }));
+      } catch (error: any) {
+        const rpcError = { code: -32000, message: error.message };
+        res.end(JSON.stringify({ jsonrpc: '2.0', id, error: rpcError }));
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+/**
+ * Remote signing over the eth_signTransaction JSON-RPC API
+ */
+describe('RemoteSigner', () => {
+  it('should sign transactions with the remote key', async () => {
+    const signer = new RemoteSigner(url, account.address);
+
+    const raw = await signer.signTransaction({
+      to: ethers.Wallet.createRandom().address,
+      gasLimit: 21000n,
+      maxFeePerGas: 2000000000n,
+      maxPriorityFeePerGas: 1000000000n,
+      value: 1n,
+      nonce: 7,
+      chainId: 72080n,
+      type: 2,
+    });
+
+    const tx = ethers.Transaction.from(raw);
+    expect(tx.from).toBe(account.address);
+    expect(tx.nonce).toBe(7);
+    expect(tx.chainId).toBe(72080n);
+  });
+
+  it('should sign messages and typed data', async () => {
+    const signer = new RemoteSigner(url, account.address);
+    const domain = { name: 'Test', version: '1', chainId: 1n };
+    const types = { Mail: [{ name: 'contents', type: 'string' }] };
+
+    const messageSignature = await signer.signMessage('hello');
+    const typedSignature = await signer.signTypedData(domain, types, { contents: 'hi' });
+
+    expect(ethers.verifyMessage('hello', messageSignature)).toBe(account.address);
+    expect(ethers.verifyTypedData(domain, types, { contents: 'hi' }, typedSignature)).toBe(
+      account.address
+    );
+  });
+
+  it('should refuse signatures from another account', async () => {
+    const signer = new RemoteSigner(url, ethers.Wallet.createRandom().address);
+
+    await expect(signer.signMessage('hello')).rejects.toThrow('expected');
+  });
+
+  it('should report errors from the signing service', async () => {
+    const signer = new RemoteSigner(url, account.address);
+
+    // The stand-in cannot sign without a nonce
+    await expect(signer.signTransaction({ to: account.address, gasLimit: 21000n })).rejects.toThrow(
+      'Remote signer rejected eth_signTransaction'
+    );
+  });
+});
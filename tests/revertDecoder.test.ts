@@ -0,0 +1,53 @@
+import { describe, it, expect } from '@jest/globals';
+import { ethers } from 'ethers';
+import { decodeRevert, isRevertError } from '../src/utils/revertDecoder';
+
+const forwarder = new ethers.Interface([
+  'error ERC2771ForwarderInvalidSigner(address signer, address from)',
+  'error FailedCall()',
+]);
+const sources = [{ name: 'ERC2771Forwarder', iface: forwarder }];
+
+/**
+ * Revert decoding for simulated and failed transactions
+ */
+describe('decodeRevert', () => {
+  it('should decode a custom error with its arguments', () => {
+    const signer = ethers.Wallet.createRandom().address;
+    const from = ethers.Wallet.createRandom().address;
+    const data = forwarder.encodeErrorResult('ERC2771ForwarderInvalidSigner', [signer, from]);
+
+    const revert = decodeRevert({ code: 'CALL_EXCEPTION', data }, sources);
+
+    expect(revert.name).toBe('ERC2771ForwarderInvalidSigner');
+    expect(revert.contract).toBe('ERC2771Forwarder');
+    expect(revert.args).toEqual({ signer, from });
+    expect(revert.message).toContain('Invalid signature');
+  });
+
+  it('should decode a built-in Error(string) revert', () => {
+    const data = ethers.concat([
+      '0x08c379a0',
+      ethers.AbiCoder.defaultAbiCoder().encode(['string'], ['Not allowed']),
+    ]);
+
+    const revert = decodeRevert({ data }, sources);
+
+    expect(revert.name).toBe('Error');
+    expect(revert.message).toBe('Not allowed');
+  });
+
+  it('should report unknown errors by selector', () => {
+    const revert = decodeRevert({ data: '0xdeadbeef' }, sources);
+
+    expect(revert.name).toBe('UnknownError');
+    expect(revert.args.selector).toBe('0xdeadbeef');
+  });
+
+  it('should not treat network failures as reverts', () => {
+    expect(isRevertError({ code: 'NETWORK_ERROR', message: 'could not detect network' })).toBe(
+      false
+    );
+    expect(isRevertError({ code: 'CALL_EXCEPTION', data: null })).toBe(true);
+  });
+});
@@ -0,0 +1,7 @@
+/**
+ * Environment for tests that load the config.
+ *
+ * Only sets variables the environment does not already define.
+ */
+process.env.PM_PZERO_API_KEY ||= 'test-pzero-api-key';
+process.env.PM_PZERO_API_URL ||= 'http://127.0.0.1:1';
@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import { config } from '../src/config';
+import { createRelayerSignerProviders } from '../src/services/signerProvider';
+import { RemoteSigner } from '../src/utils/remoteSigner';
+
+const CHAIN_ID = '72080';
+const provider = new ethers.JsonRpcProvider('http://127.0.0.1:1', 72080, { staticNetwork: true });
+const originalSigner = config.signer;
+let dir: string;
+
+/**
+ * Writes an encrypted keystore for a new wallet, with cheap scrypt parameters.
+ */
+function writeKeystore(name: string, password: string): ethers.Wallet {
+  const wallet = new ethers.Wallet(ethers.hexlify(ethers.randomBytes(32)));
+  const json = ethers.encryptKeystoreJsonSync(wallet, password, { scrypt: { N: 1 << 4 } });
+  writeFileSync(path.join(dir, name), json);
+  return wallet;
+}
+
+beforeEach(() => {
+  dir = mkdtempSync(path.join(tmpdir(), 'pm-signers-'));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+  config.signer = originalSigner;
+  config.relayers.signers = {};
+});
+
+/**
+ * Relayer wallets are resolved like the backend wallet, per PM_SIGNER_TYPE.
+ */
+describe('Relayer signer providers', () => {
+  it('relays with the backend wallet on chains without relayer signers', () => {
+    expect(createRelayerSignerProviders(CHAIN_ID)).toBeNull();
+  });
+
+  it('decrypts relayer keystores with the backend keystore password', () => {
+    const passwordFile = path.join(dir, 'password');
+    writeFileSync(passwordFile, 'relayer password\n');
+    const first = writeKeystore('relayer-1.json', 'relayer password');
+    const second = writeKeystore('relayer-2.json', 'relayer password');
+    config.signer = {
+      ...originalSigner,
+      type: 'keystore',
+      keystore: { path: path.join(dir, 'backend.json'), password: null, passwordFile },
+    };
+    config.relayers.signers = {
+      [CHAIN_ID]: [path.join(dir, 'relayer-1.json'), path.join(dir, 'relayer-2.json')],
+    };
+
+    const providers = createRelayerSignerProviders(CHAIN_ID)!;
+
+    expect(providers.map((signerProvider) => signerProvider.type)).toEqual([
+      'keystore',
+      'keystore',
+    ]);
+    expect(providers.map((signerProvider) => signerProvider.address)).toEqual([
+      first.address,
+      second.address,
+    ]);
+  });
+
+  it('signs relayer transactions with further accounts of the remote signer', () => {
+    const address = ethers.Wallet.createRandom().address;
+    config.signer = {
+      ...originalSigner,
+      type: 'remote',
+      remote: { url: 'http://127.0.0.1:9000', address: ethers.ZeroAddress, timeoutMs: 1000 },
+    };
+    config.relayers.signers = { [CHAIN_ID]: [address] };
+
+    const [relayer] = createRelayerSignerProviders(CHAIN_ID)!;
+
+    expect(relayer.type).toBe('remote');
+    const signer = relayer.getSigner(provider);
+    expect(signer).toBeInstanceOf(RemoteSigner);
+    expect(signer.address).toBe(address);
+  });
+});
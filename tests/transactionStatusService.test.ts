@@ -0,0 +1,218 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { ethers } from 'ethers';
+import { contractFactories } from '@project_zero/prompt-mining-sdk';
+
+const mockProvider = {
+  getTransaction: jest.fn<(hash: string) => Promise<unknown>>(),
+  getTransactionReceipt: jest.fn<(hash: string) => Promise<unknown>>(),
+  getTransactionCount: jest.fn<(address: string, blockTag: string) => Promise<number>>(),
+};
+
+jest.mock('../src/services/blockchainService', () => {
+  const actual = jest.requireActual<typeof import('../src/services/blockchainService')>(
+    '../src/services/blockchainService'
+  );
+  return {
+    ...actual,
+    initializeBlockchain: () => ({ provider: mockProvider }),
+    decodeMinedRevert: jest.fn(async () => ({
+      name: 'PromptAlreadyMinted',
+      args: {},
+      message: 'Prompt already minted',
+    })),
+  };
+});
+
+import {
+  getTransactionStatus,
+  InMemoryTransactionStore,
+  registerTransaction,
+  setTransactionStore,
+} from '../src/services/transactionStatusService';
+import { config } from '../src/config';
+
+const CHAIN_ID = '72080';
+const PROMPT_MINER = ethers.Wallet.createRandom().address;
+const SENDER = ethers.Wallet.createRandom().address;
+const PROMPT_HASH = ethers.id('What is AI?');
+const OTHER_PROMPT_HASH = ethers.id('What is ML?');
+
+let txCounter = 0;
+const newHash = () => ethers.id(`tx ${++txCounter}`);
+
+/**
+ * Fake transaction calling mint(bytes32,string,bytes,bytes) on the PromptMiner.
+ */
+function mintTx(hash: string, promptHash = PROMPT_HASH, to = PROMPT_MINER) {
+  const iface = contractFactories.PromptMinerWithActivityPoints.createInterface();
+  return {
+    hash,
+    to,
+    from: SENDER,
+    nonce: 7,
+    value: 0n,
+    data: iface.encodeFunctionData('mint(bytes32,string,bytes,bytes)', [
+      promptHash,
+      '',
+      '0x',
+      '0x',
+    ]),
+  };
+}
+
+const receipt = (status: number, confirmations: number) => ({
+  status,
+  blockNumber: 100,
+  confirmations: async () => confirmations,
+});
+
+beforeEach(() => {
+  config.chains = [
+    {
+      name: 'Test',
+      rpcUrl: 'http://127.0.0.1:1',
+      chainId: CHAIN_ID,
+      promptMinerAddress: PROMPT_MINER,
+      confirmations: 3,
+    },
+  ];
+  setTransactionStore(new InMemoryTransactionStore());
+  mockProvider.getTransaction.mockReset();
+  mockProvider.getTransactionReceipt.mockReset();
+  mockProvider.getTransactionCount.mockReset();
+});
+
+/**
+ * Registration of user-signed mint transactions
+ */
+describe('registerTransaction', () => {
+  it('should register a mint of the prompt with its sender', async () => {
+    const hash = newHash();
+    mockProvider.getTransaction.mockResolvedValue(mintTx(hash));
+
+    const record = await registerTransaction(hash, PROMPT_HASH, CHAIN_ID);
+
+    expect(record).toMatchObject({
+      status: 'pending',
+      source: 'user-signed',
+      from: SENDER,
+      nonce: 7,
+    });
+  });
+
+  it('should register a transaction the node does not know yet', async () => {
+    mockProvider.getTransaction.mockResolvedValue(null);
+
+    const record = await registerTransaction(newHash(), PROMPT_HASH, CHAIN_ID);
+
+    expect(record.status).toBe('pending');
+    expect(record.from).toBeUndefined();
+  });
+
+  it('should refuse a transaction that mints another prompt', async () => {
+    const hash = newHash();
+    mockProvider.getTransaction.mockResolvedValue(mintTx(hash, OTHER_PROMPT_HASH));
+
+    await expect(registerTransaction(hash, PROMPT_HASH, CHAIN_ID)).rejects.toMatchObject({
+      statusCode: 422,
+      code: 'TRANSACTION_MISMATCH',
+    });
+    mockProvider.getTransaction.mockResolvedValue(null);
+    await expect(getTransactionStatus(hash)).rejects.toMatchObject({
+      code: 'TRANSACTION_NOT_FOUND',
+    });
+  });
+
+  it('should refuse a transaction that does not call mint on the PromptMiner', async () => {
+    const hash = newHash();
+    mockProvider.getTransaction.mockResolvedValue({ ...mintTx(hash), data: '0xa9059cbb' });
+
+    await expect(registerTransaction(hash, PROMPT_HASH, CHAIN_ID)).rejects.toMatchObject({
+      code: 'TRANSACTION_MISMATCH',
+    });
+  });
+
+  it('should only let the registration that matches the chain replace a conflicting one', async () => {
+    const hash = newHash();
+    mockProvider.getTransaction.mockResolvedValue(null);
+    await registerTransaction(hash, OTHER_PROMPT_HASH, CHAIN_ID);
+
+    await expect(registerTransaction(hash, PROMPT_HASH, CHAIN_ID)).rejects.toMatchObject({
+      statusCode: 409,
+      code: 'TRANSACTION_ALREADY_REGISTERED',
+    });
+
+    mockProvider.getTransaction.mockResolvedValue(mintTx(hash));
+    const record = await registerTransaction(hash, PROMPT_HASH, CHAIN_ID);
+    expect(record.promptHash).toBe(PROMPT_HASH);
+  });
+});
+
+/**
+ * Status of tracked transactions read from the chain
+ */
+describe('getTransactionStatus', () => {
+  it('should follow a transaction from pending to final', async () => {
+    const hash = newHash();
+    mockProvider.getTransaction.mockResolvedValue(mintTx(hash));
+    await registerTransaction(hash, PROMPT_HASH, CHAIN_ID);
+
+    mockProvider.getTransactionReceipt.mockResolvedValue(null);
+    expect((await getTransactionStatus(hash)).status).toBe('pending');
+
+    mockProvider.getTransactionReceipt.mockResolvedValue(receipt(1, 1));
+    expect(await getTransactionStatus(hash)).toMatchObject({
+      status: 'confirmed',
+      blockNumber: 100,
+      confirmations: 1,
+      finality: 'included',
+      requiredConfirmations: 3,
+    });
+
+    mockProvider.getTransactionReceipt.mockResolvedValue(receipt(1, 3));
+    expect((await getTransactionStatus(hash)).finality).toBe('final');
+  });
+
+  it('should report a reverted transaction with its decoded reason and keep it', async () => {
+    const hash = newHash();
+    mockProvider.getTransaction.mockResolvedValue(mintTx(hash));
+    await registerTransaction(hash, PROMPT_HASH, CHAIN_ID);
+
+    mockProvider.getTransactionReceipt.mockResolvedValue(receipt(0, 1));
+    const status = await getTransactionStatus(hash);
+    expect(status.status).toBe('reverted');
+    expect(status.revert?.name).toBe('PromptAlreadyMinted');
+
+    // Final: answered from the store
+    mockProvider.getTransactionReceipt.mockClear();
+    expect((await getTransactionStatus(hash)).status).toBe('reverted');
+    expect(mockProvider.getTransactionReceipt).not.toHaveBeenCalled();
+  });
+
+  it('should report a transaction as dropped once its nonce is used by another', async () => {
+    const hash = newHash();
+    mockProvider.getTransaction.mockResolvedValue(mintTx(hash));
+    await registerTransaction(hash, PROMPT_HASH, CHAIN_ID);
+
+    mockProvider.getTransactionReceipt.mockResolvedValue(null);
+    mockProvider.getTransaction.mockResolvedValue(null);
+    mockProvider.getTransactionCount.mockResolvedValue(7);
+    expect((await getTransactionStatus(hash)).status).toBe('pending');
+
+    mockProvider.getTransactionCount.mockResolvedValue(8);
+    expect((await getTransactionStatus(hash)).status).toBe('dropped');
+  });
+
+  it('should report a transaction never seen within PM_TX_STATUS_DROPPED_AFTER_MS as dropped', async () => {
+    const hash = newHash();
+    mockProvider.getTransaction.mockResolvedValue(null);
+    mockProvider.getTransactionReceipt.mockResolvedValue(null);
+    await registerTransaction(hash, PROMPT_HASH, CHAIN_ID);
+
+    config.transactionStatus.droppedAfterMs = 60000;
+    expect((await getTransactionStatus(hash)).status).toBe('pending');
+
+    config.transactionStatus.droppedAfterMs = 0;
+    expect((await getTransactionStatus(hash)).status).toBe('dropped');
+  });
+});